@@ -1,7 +1,10 @@
 import type { Context } from '@netlify/functions'
 import { initializeApp, getApps, cert } from 'firebase-admin/app'
-import { getFirestore } from 'firebase-admin/firestore'
+import { getFirestore, FieldPath, type DocumentData, type DocumentSnapshot, type WriteBatch } from 'firebase-admin/firestore'
+import { getAuth } from 'firebase-admin/auth'
 import { neon } from '@neondatabase/serverless'
+import * as XLSX from 'xlsx'
+import QRCode from 'qrcode'
 
 // Initialize Firebase Admin
 if (!getApps().length) {
@@ -17,6 +20,10 @@ if (!getApps().length) {
 }
 
 const db = getFirestore()
+const adminAuth = getAuth()
+
+// Only Eastern Mills Google Workspace accounts may call the API
+const ALLOWED_EMAIL_DOMAIN = '@easternmills.com'
 
 // TNA Stages
 const TNA_STAGES = [
@@ -36,12 +43,753 @@ const TNA_STAGES = [
 type TnaStage = typeof TNA_STAGES[number]
 type StageStatus = 'pending' | 'in_progress' | 'completed'
 
+// User roles (stored in Firestore user_roles/{email})
+const USER_ROLES = ['ppc', 'merchant', 'qa', 'director', 'viewer'] as const
+type UserRole = typeof USER_ROLES[number]
+
+// Roles allowed to update each TNA stage (directors can update everything)
+const STAGE_EDITORS: Record<TnaStage, UserRole[]> = {
+  raw_material_purchase: ['ppc', 'merchant'],
+  dyeing: ['ppc'],
+  photo_shoot_approval: ['merchant'],
+  first_piece_approval: ['merchant', 'qa'],
+  weaving: ['ppc'],
+  finishing: ['ppc'],
+  fg_godown: ['ppc'],
+  order_label_in_house: ['merchant'],
+  inspection: ['qa'],
+  packing: ['ppc'],
+  dispatch: ['ppc'],
+}
+
+// Standard stage labels and N/A-able stages (keep in sync with src/types)
+const TNA_STAGE_LABELS: Record<TnaStage, string> = {
+  raw_material_purchase: 'Raw Material Purchase',
+  dyeing: 'Dyeing',
+  photo_shoot_approval: 'Photo Shoot / Approval Sample',
+  first_piece_approval: 'First Piece Approval',
+  weaving: 'Weaving',
+  finishing: 'Finishing',
+  fg_godown: 'FG Godown',
+  order_label_in_house: 'Order Label In House',
+  inspection: 'Inspection',
+  packing: 'Packing',
+  dispatch: 'Dispatch',
+}
+
+const TNA_OPTIONAL_STAGES: TnaStage[] = ['photo_shoot_approval', 'first_piece_approval', 'order_label_in_house']
+
+// Default lead-time offsets (days from PO date) for the standard stages
+// Keep in sync with DEFAULT_TNA_STAGE_OFFSETS in src/types
+const DEFAULT_TNA_STAGE_OFFSETS: Record<TnaStage, number> = {
+  raw_material_purchase: 15,
+  dyeing: 30,
+  photo_shoot_approval: 35,
+  first_piece_approval: 45,
+  weaving: 75,
+  finishing: 90,
+  fg_godown: 95,
+  order_label_in_house: 95,
+  inspection: 100,
+  packing: 103,
+  dispatch: 105,
+}
+
+// Roles that may update a custom template stage with no editors set
+const CUSTOM_STAGE_EDITORS: UserRole[] = ['ppc', 'merchant']
+
+const ORDER_TYPES = ['custom', 'broadloom', 'area_rugs', 'samples'] as const
+
+// TNA template (Firestore tna_templates/{id}), picked per order by customerCode / orderType
+interface TnaTemplateStage {
+  key: string
+  label: string
+  shortLabel?: string
+  optional: boolean
+  offsetDays: number
+  editors?: UserRole[]
+}
+
+interface TnaTemplate {
+  id: string
+  name: string
+  orderTypes: string[]
+  customerCodes: string[]
+  isDefault?: boolean
+  stages: TnaTemplateStage[]
+  updatedAt?: string
+  updatedBy?: string
+}
+
+// Template fields a director may send; id and the audit fields are set by the API
+type TnaTemplateBody = Partial<Pick<TnaTemplate, 'name' | 'orderTypes' | 'customerCodes' | 'isDefault' | 'stages'>>
+
+const DEFAULT_TNA_TEMPLATE: TnaTemplate = {
+  id: 'default',
+  name: 'Standard',
+  orderTypes: [],
+  customerCodes: [],
+  isDefault: true,
+  stages: TNA_STAGES.map((stage) => ({
+    key: stage,
+    label: TNA_STAGE_LABELS[stage],
+    optional: TNA_OPTIONAL_STAGES.includes(stage),
+    offsetDays: DEFAULT_TNA_STAGE_OFFSETS[stage],
+  })),
+}
+
+// TNA planner: stage lead times are the gaps between template offsets.
+// Weaving and finishing stretch for slower qualities and larger orders.
+const PLAN_QUALITY_FACTORS: Array<[RegExp, number]> = [
+  [/KNOT/, 1.6],
+  [/LOOM/, 0.9],
+  [/FLAT|DHURR|KILIM/, 0.8],
+  [/TUFT/, 1],
+]
+const PLAN_BASE_SQM = 300         // Standard lead times cover orders up to this size
+const PLAN_SQM_PER_EXTRA_DAY = 40 // One extra weaving day per this many sqm beyond the base
+const PLAN_SCALED_STAGES: Record<string, number> = { weaving: 1, finishing: 0.5 }
+
+// Roles allowed to generate or edit an order's TNA plan (merchants only on their own orders)
+const TNA_PLAN_EDITORS: UserRole[] = ['ppc', 'merchant', 'director']
+
+interface TnaPlanEntry {
+  stage: string
+  targetDate: string | null
+}
+
+// Planned target dates saved on production_tracker.tnaPlan.
+// `baseline` is the first saved plan; rescheduling only moves `entries`.
+interface TrackerTnaPlan {
+  entries: TnaPlanEntry[]
+  baseline?: TnaPlanEntry[]
+  source: 'auto' | 'manual'
+  templateId: string
+  generatedAt: string
+  updatedAt: string
+  updatedBy: string
+  rescheduledAt?: string
+  projectedExFactory?: string | null
+}
+
+type StageSource = 'manual' | 'erp'
+
 interface StageUpdate {
   actualDate: string | null
   status: StageStatus
   notes?: string
   updatedAt: string
   updatedBy?: string
+  source?: StageSource        // Missing on stages written before ERP sync = manual
+  locked?: boolean            // ERP sync never touches a locked stage
+  confirmedBy?: string        // PPC accepted the ERP-written status
+  confirmedAt?: string
+  erpSuggestion?: ErpStageSuggestion | null
+  delayReason?: DelayReason | null        // Required once the stage is late, see resolveDelayFields()
+  responsibleParty?: ResponsibleParty | null
+  delayDays?: number | null
+}
+
+// Fields a client may send for a stage update; everything else on StageUpdate is set by the API
+interface StageUpdateBody {
+  status?: StageStatus
+  actualDate?: string | null
+  notes?: string
+  delayReason?: string
+  responsibleParty?: string
+}
+
+// Root-cause codes for late stages (keep in sync with src/types/index.ts)
+const DELAY_REASONS = [
+  'yarn_shortage',
+  'dyer_delay',
+  'loom_unavailable',
+  'buyer_approval_pending',
+  'labels_not_received',
+  'quality_rework',
+  'capacity_overload',
+  'other',
+] as const
+type DelayReason = typeof DELAY_REASONS[number]
+
+const RESPONSIBLE_PARTIES = ['supplier', 'dyer', 'weaver', 'buyer', 'merchant', 'ppc', 'qa', 'logistics'] as const
+type ResponsibleParty = typeof RESPONSIBLE_PARTIES[number]
+
+// An open stage this many days past its target needs a delay reason
+const DELAY_REASON_OVERDUE_DAYS = 3
+
+// ERP state that disagrees with a manually set stage, waiting for PPC to accept or ignore
+interface ErpStageSuggestion {
+  status: StageStatus
+  actualDate: string | null
+  syncedAt: string
+}
+
+// Roles allowed to schedule, reschedule and cancel inspections (merchants only on their own orders).
+// Completing one also needs the right to update the TNA inspection stage.
+const INSPECTION_SCHEDULERS: UserRole[] = ['qa', 'merchant', 'director']
+const INSPECTION_ACTIONS = ['reschedule', 'assign', 'complete', 'cancel'] as const
+
+// Daily inspection capacity (settings/inspection_capacity); a 0 limit means no limit.
+// Keep in sync with src/types/index.ts
+const INSPECTION_CAPACITY_EDITORS: UserRole[] = ['qa', 'director']
+
+interface InspectionCapacityLimit {
+  inspections: number
+  pcs: number
+}
+
+interface InspectionCapacity {
+  companies: Record<'EMPL' | 'EHI', InspectionCapacityLimit>
+  inspectors: Array<InspectionCapacityLimit & { name: string; company: 'EMPL' | 'EHI' }>
+  holidays: string[]          // yyyy-MM-dd
+  weekendDays: number[]       // 0 = Sunday
+  updatedAt?: string
+  updatedBy?: string
+}
+
+// Capacity settings as sent by the client; the audit fields are set by the API
+type InspectionCapacityBody = Omit<InspectionCapacity, 'updatedAt' | 'updatedBy'>
+
+const DEFAULT_INSPECTION_CAPACITY: InspectionCapacity = {
+  companies: { EMPL: { inspections: 0, pcs: 0 }, EHI: { inspections: 0, pcs: 0 } },
+  inspectors: [],
+  holidays: [],
+  weekendDays: [0, 6],
+}
+
+// Inspection results (inspection_results/{scheduleId}), sampled per ISO 2859-1 single sampling, normal inspection.
+// Keep the constants and the AQL tables in sync with src/types/index.ts and src/lib/utils.ts
+const INSPECTION_RESULT_RECORDERS: UserRole[] = ['qa', 'director']
+const INSPECTION_LEVELS = ['I', 'II', 'III'] as const
+type InspectionLevel = typeof INSPECTION_LEVELS[number]
+const AQL_VALUES = [0, 0.65, 1.0, 1.5, 2.5, 4.0, 6.5]   // 0 = zero tolerance
+const DEFAULT_AQL = { critical: 0, major: 2.5, minor: 4.0 }
+const DEFECT_SEVERITIES = ['critical', 'major', 'minor'] as const
+type DefectSeverity = typeof DEFECT_SEVERITIES[number]
+const DEFECT_TYPES = [
+  'size_deviation',
+  'pile_height',
+  'color_variation',
+  'shading',
+  'weaving_fault',
+  'stain',
+  'binding_edge',
+  'fringe',
+  'backing',
+  'odor',
+  'label_packing',
+  'other',
+] as const
+type DefectType = typeof DEFECT_TYPES[number]
+const INSPECTION_OUTCOMES = ['pass', 'fail', 'hold'] as const
+type InspectionOutcome = typeof INSPECTION_OUTCOMES[number]
+
+// A failed inspection holds these stages until a re-inspection passes
+const INSPECTION_BLOCKED_STAGES = ['packing', 'dispatch']
+const REINSPECTION_LEAD_DAYS = 3
+
+interface AqlPlan {
+  accept: number
+  reject: number
+}
+
+interface InspectionDefect {
+  type: DefectType
+  severity: DefectSeverity
+  count: number
+  photoUrls: string[]
+  notes?: string
+}
+
+interface InspectionResultSummary {
+  outcome: InspectionOutcome
+  inspector: string
+  inspectedAt: string
+  critical: number
+  major: number
+  minor: number
+}
+
+// inspection_schedules/{id}, shared with the Orders app. Keep in sync with src/types/index.ts
+interface InspectionSchedule {
+  opsNo: string
+  orderId: string
+  inspectionDate: string
+  inspectionCompany: 'EMPL' | 'EHI'
+  status: 'scheduled' | 'completed' | 'rescheduled' | 'cancelled'
+  buyerCode: string
+  articleName?: string
+  totalPcs: number
+  totalSqm: number
+  merchantCode: string
+  inspector?: string
+  scheduledBy: string
+  scheduledAt: string
+  completedAt?: string
+  rescheduledFrom?: string
+  notes?: string
+  result?: InspectionResultSummary
+  reinspectionOf?: string
+  reinspectionId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// inspection_results/{scheduleId}. Keep in sync with src/types/index.ts
+interface InspectionResult {
+  scheduleId: string
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  designs: string[]
+  inspectionCompany: 'EMPL' | 'EHI'
+  inspectionLevel: InspectionLevel
+  aql: Record<DefectSeverity, number>
+  lotSize: number
+  codeLetter: string
+  sampleSize: number
+  acceptance: Record<DefectSeverity, AqlPlan>
+  defects: InspectionDefect[]
+  totals: Record<DefectSeverity, number>
+  aqlResult: 'pass' | 'fail'
+  outcome: InspectionOutcome
+  inspector: string
+  inspectedAt: string
+  notes: string
+  recordedBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Set on production_tracker/{orderId} while a failed inspection is waiting on its re-inspection
+interface InspectionHold {
+  scheduleId: string
+  reinspectionId: string
+  failedAt: string
+  failedBy: string
+}
+
+// TED versions (ted_versions/{tedId}/versions/{n}). TEDs are edited in the TED app, so a new version is
+// captured whenever a read finds these fields changed (see captureTedVersion). Keep in sync with src/types/index.ts
+const TED_VERSION_FIELDS = [
+  'emDesignNo', 'buyerCode', 'buyerName', 'buyerDesignName', 'ppMeetingDate', 'status', 'meetingAttendees',
+  'productType', 'construction', 'productQuality', 'size', 'unfinishedGsm', 'finishedGsm', 'reedNoKanghi',
+  'warpIn6Inches', 'weftIn6Inches', 'warpMaterial', 'weftMaterial', 'pileMaterial', 'pileHeightUnfinished',
+  'pileHeightFinished', 'fringesDetails', 'khatiDetails', 'sizeTolerance', 'processFlow', 'qualityCallOutsCtq',
+  'buyersSpecificRequirements', 'remarks', 'shadeCardAvailable', 'redSealAvailable',
+] as const
+
+// TED as normalized from a tedForms doc (the TED app has used both snake_case and camelCase fields)
+type TedDetail = ReturnType<typeof toTedDetail>
+
+// TED printed with the version it was printed at
+type PrintedTed = TedDetail & { version: number }
+
+// TED image categories in print order; the TED app has used both key styles.
+// Keep in sync with imageCategories in src/components/TedListView.tsx
+const TED_IMAGE_CATEGORIES = [
+  { keys: ['product_photo', 'productPhoto'], label: 'Product Photos' },
+  { keys: ['shade_card_photo', 'shadeCardPhoto'], label: 'Shade Card' },
+  { keys: ['master_hank_photo', 'masterHankPhoto'], label: 'Master Hank' },
+  { keys: ['red_seal_photo', 'redSealPhoto'], label: 'Red Seal' },
+  { keys: ['approved_cad', 'approvedCad'], label: 'Approved CAD' },
+]
+
+// Roles allowed to pin the TED version an order item is produced against (merchants only on their own orders)
+const TED_PIN_EDITORS: UserRole[] = ['ppc', 'merchant', 'director']
+
+// Stored on the tracker under tedPins[itemId]; null once unpinned
+interface TedPin {
+  tedId: string
+  version: number
+  pinnedAt: string
+  pinnedBy: string
+}
+
+// Roles allowed to run the ERP stage sync and accept / lock ERP statuses
+const ERP_STAGE_REVIEWERS: UserRole[] = ['ppc', 'director']
+const ERP_SYNC_USER = 'erp-sync'
+
+// Item-level PPC tracking (production_tracker.items[itemId])
+interface ProductionItemTracker {
+  id: string
+  orderId: string
+  opsNo: string
+  status: string
+  rcvdPcs: number
+  toRcvdPcs: number
+  oldStock: number
+  bazarDone: number
+  uFinishing: number
+  packed: number
+  vendorName?: string
+  folioNo?: string
+  supplierCompletionDate?: string
+  updatedAt: string
+  updatedBy?: string
+}
+
+const ITEM_COUNT_FIELDS = ['rcvdPcs', 'toRcvdPcs', 'oldStock', 'bazarDone', 'uFinishing', 'packed'] as const
+const ITEM_TEXT_FIELDS = ['status', 'vendorName', 'folioNo', 'supplierCompletionDate'] as const
+
+// Fields a client may send for an item update; counts are checked to be whole numbers before use
+type ProductionItemUpdateBody = Partial<
+  Record<typeof ITEM_COUNT_FIELDS[number], number> & Record<typeof ITEM_TEXT_FIELDS[number], string>
+>
+
+// production_tracker/{orderId}, with the doc ID as id. Keep in sync with ProductionTrackerEntry in src/types/index.ts
+interface ProductionTracker {
+  id: string
+  opsNo: string
+  items?: Record<string, ProductionItemTracker>
+  stages?: Record<string, StageUpdate>
+  currentStage?: string
+  tnaPlan?: TrackerTnaPlan
+  inspectionHold?: InspectionHold | null
+  tedPins?: Record<string, TedPin | null>
+  createdAt?: string
+  updatedAt?: string
+}
+
+// Append-only audit record in production_tracker/{orderId}/history
+interface StageHistoryEntry {
+  stage: string
+  source: StageSource
+  oldStatus: StageStatus | null
+  newStatus: StageStatus
+  actualDate: string | null
+  notes: string | null
+  delayReason: DelayReason | null
+  responsibleParty: ResponsibleParty | null
+  changedBy: string
+  changedByName: string | null
+  changedAt: string
+}
+
+// PPC "Order Status" sheet columns -> item tracker fields.
+// Header labels are matched after upper-casing and collapsing whitespace.
+const ORDER_STATUS_COLUMNS = {
+  opsNo: /^OPS/,
+  article: /^ARTICLE/,
+  size: /^SIZE/,
+  color: /^COLOU?R/,
+  orderPcs: /^ORDER PCS/,
+  status: /^STATUS/,
+  rcvdPcs: /^RCVD/,
+  toRcvdPcs: /^TO RCVD/,
+  oldStock: /^OLD STOCK/,
+  bazarDone: /^BAZAR/,
+  uFinishing: /^U\W?FINISH/,
+  packed: /^PACKED/,
+  vendorName: /^(VENDOR|CONTRACTOR)/,
+  folioNo: /^FOLIO/,
+} as const
+
+type OrderStatusColumn = keyof typeof ORDER_STATUS_COLUMNS
+type OrderStatusValues = Partial<Pick<ProductionItemTracker,
+  typeof ITEM_COUNT_FIELDS[number] | 'status' | 'vendorName' | 'folioNo'
+>>
+
+const ORDER_STATUS_IMPORT_FIELDS = [...ITEM_COUNT_FIELDS, 'status', 'vendorName', 'folioNo'] as const
+
+// One data row of the Order Status sheet
+interface OrderStatusRow {
+  rowNumber: number           // 1-based, as shown in Excel
+  opsNo: string
+  article: string
+  size: string
+  color: string
+  orderPcs: number
+  values: OrderStatusValues   // Only columns present in the sheet
+}
+
+// Import preview per matched order. Keep in sync with OrderStatusImportOrder in src/types/index.ts
+interface OrderStatusImportOrder {
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  items: Array<{
+    itemId: string
+    label: string
+    rowNumber: number
+    changes: Array<{ field: string; from: string | number; to: string | number }>
+    error: string | null
+  }>
+}
+
+// Firestore batch writes per commit (limit is 500)
+const IMPORT_BATCH_SIZE = 400
+
+// Per-OPS TNA stage data from Neon (mirrors ErpStageData in src/hooks/useErpTnaStages.ts)
+interface ErpStageData {
+  totalOrdered: number
+  totalCarpets: number
+  onLoom: number
+  finishing: number
+  fgGodown: number
+  packed: number
+  dispatched: number
+  hasIndent: boolean
+  indentReceived: boolean
+  hasDyeingOrder: boolean
+  dyeingReceived: boolean
+  source: 'EMPL' | 'EHI'
+  rmReceivedDate?: string | null
+  dyeingIssuedDate?: string | null
+  dyeingReceivedDate?: string | null
+  firstBazarDate?: string | null
+  lastBazarDate?: string | null
+  firstDispatchDate?: string | null
+  lastDispatchDate?: string | null
+}
+
+// Item-level WIP counts from Neon, used by the Excel-vs-ERP reconciliation
+interface ErpItemWip {
+  opsNo: string
+  design: string
+  size: string
+  color: string
+  orderedQty: number
+  onLoom: number
+  finishing: number
+  received: number            // Off the loom: bazar + finishing + fg + packed + dispatched
+  source: 'EMPL' | 'EHI'
+}
+
+// EHI WIP stages in production order (wip_stage values written by scripts/sync-ehi.mjs)
+const EHI_WIP_STAGES = ['on_loom', 'finishing', 'fg_godown', 'packed', 'dispatched']
+
+// Stages an EHI process can be mapped to ('dispatched' comes from invoices, not processes).
+// Keep in sync with src/types/index.ts
+const EHI_PROCESS_STAGES = ['on_loom', 'finishing', 'fg_godown', 'packed']
+const EHI_STAGE_MAP_EDITORS: UserRole[] = ['ppc', 'director']
+
+// One EHI process and the WIP stage it counts as (ehi_process_stage_map, seeded by the sync)
+interface EhiProcessStage {
+  processId: number
+  name: string
+  shortName: string
+  wipStage: string | null     // null until the sync seeds a new process
+  carpets: number             // Live carpets currently at this process
+  updatedAt: string | null
+  updatedBy: string | null
+}
+
+// Time carpets of one OPS spent in one EHI WIP stage, from ehi_carpet_events
+interface EhiStageDwell {
+  stage: string
+  carpets: number          // Carpets that have been in the stage
+  completed: number        // ...and have since moved on (used for avgDays)
+  avgDays: number | null
+  maxDays: number          // Includes carpets still in the stage
+}
+
+// GET /sync-status: data older than this (minutes) is flagged stale. The EHI launchd job runs
+// every 30 minutes, so the default allows a few missed runs. Override with SYNC_STALE_AFTER_MINUTES.
+const DEFAULT_SYNC_STALE_AFTER_MINUTES = 120
+
+// ehi_sync_log row as created by scripts/sync-ehi.mjs --init. The row, watermark, event and
+// failed_step columns were added later, so older log tables may not have them.
+interface EhiSyncLogRow {
+  id: number
+  sync_type: string | null
+  started_at: string | Date | null
+  finished_at: string | Date | null
+  status: string | null
+  orders_synced: number | null
+  items_synced: number | null
+  carpets_synced: number | null
+  rows_inserted?: number | null
+  rows_updated?: number | null
+  rows_deleted?: number | null
+  watermark?: string | Date | null
+  events_recorded?: number | null
+  errors: string | null
+  failed_step?: string | null
+}
+
+// One scripts/sync-ehi.mjs run from ehi_sync_log (mirrored in src/types/index.ts)
+interface SyncRun {
+  type: string
+  status: string                  // 'running' | 'success' | 'error'
+  startedAt: string | null
+  finishedAt: string | null
+  durationSeconds: number | null
+  orders: number
+  items: number
+  carpets: number
+  rowsInserted: number
+  rowsUpdated: number
+  rowsDeleted: number
+  error: string | null
+  failedStep: string | null
+}
+
+// Freshness of one ERP source shown by the dashboard's stale-data banner
+interface SyncSourceStatus {
+  source: 'EHI' | 'EMPL'
+  configured: boolean
+  lastSuccessAt: string | null
+  ageMinutes: number | null
+  stale: boolean
+  lastRun: SyncRun | null         // Latest run, whatever its status (EHI only)
+  lastSuccess: SyncRun | null     // Latest successful run (EHI only)
+  error: string | null            // Latest run's error, or why the source could not be read
+  failedStep: string | null
+}
+
+// Manual (PPC) vs ERP figures compared by GET /reconciliation
+interface ReconciliationFigures {
+  rcvdPcs: number             // ERP: received
+  toRcvdPcs: number           // ERP: on loom
+  uFinishing: number          // ERP: finishing
+}
+
+// Keep the Reconciliation* interfaces in sync with src/types/index.ts
+interface ReconciliationItem {
+  itemId: string
+  label: string
+  pcs: number
+  manual: ReconciliationFigures
+  erp: ReconciliationFigures | null
+  mismatchedFields: Array<keyof ReconciliationFigures>
+}
+
+// ERP item on a tracked OPS that no tracked order item matched
+interface ReconciliationErpItem {
+  label: string
+  erp: ReconciliationFigures
+}
+
+interface ReconciliationRow {
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  merchantCode: string
+  shipDate: string | null
+  source: 'EMPL' | 'EHI'
+  manual: ReconciliationFigures   // Totals over matched items only
+  erp: ReconciliationFigures
+  mismatchedFields: Array<keyof ReconciliationFigures>
+  items: ReconciliationItem[]
+  unmatchedErp: ReconciliationErpItem[]
+}
+
+// Allowed difference in pcs before a figure is flagged
+const RECONCILIATION_DEFAULT_TOLERANCE = 2
+
+// Shipment plan horizon in ex-factory weeks (Monday to Sunday)
+const SHIPMENT_PLAN_DEFAULT_WEEKS = 12
+const SHIPMENT_PLAN_MAX_WEEKS = 26
+
+// How much an ERP piece in each state counts towards shipment readiness
+const READINESS_WEIGHTS = { dispatched: 1, packed: 0.9, fgGodown: 0.75 }
+
+// Shipment plan rows (keep in sync with src/types/index.ts)
+interface ShipmentPlanTotals {
+  orders: number
+  pcs: number
+  sqm: number
+  poValue: number
+}
+
+interface ShipmentPlanOrder {
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  buyerName: string
+  companyCode: 'EMPL' | 'EHI'
+  merchantCode: string
+  poNo: string
+  shipDate: string
+  pcs: number
+  sqm: number
+  poValue: number
+  readiness: number | null    // 0-100 from ERP dispatched / packed / FG godown; null = no ERP data
+  erp: { ordered: number; fgGodown: number; packed: number; dispatched: number } | null
+}
+
+interface ShipmentPlanWeek {
+  weekStart: string | null    // Monday; null = past-due orders from before this week
+  weekEnd: string | null
+  totals: Partial<Record<'EMPL' | 'EHI', ShipmentPlanTotals>>
+  orders: ShipmentPlanOrder[]
+}
+
+// On-time delivery figures for a group of orders (an order counts once it has a dispatch date)
+interface OtdStats {
+  orders: number
+  onTime: number              // Dispatched on or before ex-factory (shipDate)
+  otdPercent: number
+  onTimeVsPo: number          // Dispatched on or before the buyer PO ship date
+  otdVsPoPercent: number
+  avgDelayDays: number        // Across late orders only
+}
+
+interface OtdOrderRow {
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  merchantCode: string
+  companyCode: string
+  fiscalYear: string
+  shipDate: string
+  buyerPoShipDate: string | null
+  dispatchDate: string
+  dispatchSource: 'erp' | 'tracker'
+  delayDays: number
+  poDelayDays: number | null
+}
+
+// Orders are written by the Orders app (orders/data/orders/{id}). These are the fields this API
+// reads; older docs leave most of them out. Keep in sync with src/types/index.ts
+interface OrderItem {
+  id: string
+  articleName?: string
+  sku?: string
+  size?: string
+  pcs?: number
+  sqm?: number
+  emDesignName?: string
+  color?: string
+  quality?: string
+}
+
+interface Order {
+  salesNo: string
+  customerCode?: string
+  buyerName?: string
+  orderType?: typeof ORDER_TYPES[number]
+  companyCode?: 'EMPL' | 'EHI'
+  orderConfirmationDate?: string
+  merchantCode?: string
+  assistantMerchantCode?: string
+  poNo?: string
+  poValue?: number
+  buyerPoShipDate?: string
+  shipDate?: string
+  items?: OrderItem[]
+  totalPcs?: number
+  totalSqm?: number
+  tna?: { entries: TnaPlanEntry[] }
+  status?: string
+}
+
+// Orders list pagination
+const ORDERS_PAGE_SIZE = 100
+const ORDERS_MAX_PAGE_SIZE = 500
+
+// Firestore getAll() batch size for tracker lookups
+const TRACKER_BATCH_SIZE = 100
+
+// Verified caller, passed to every route
+interface AuthUser {
+  uid: string
+  email: string
+  name: string | null
+  role: UserRole
+  merchantCode: string | null  // Set for merchants; matched against order merchant codes
 }
 
 // Helper to create JSON response
@@ -54,6 +802,15 @@ function jsonResponse(data: unknown, status = 200): Response {
   })
 }
 
+function htmlResponse(html: string, status = 200): Response {
+  return new Response(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+    },
+  })
+}
+
 // Route handler
 export default async function handler(req: Request, context: Context): Promise<Response> {
   const url = new URL(req.url)
@@ -61,56 +818,60 @@ export default async function handler(req: Request, context: Context): Promise<R
   const method = req.method
 
   try {
-    // ORDERS: List open orders (status = 'sent')
-    if (path === '/orders' && method === 'GET') {
-      const search = url.searchParams.get('search')?.toLowerCase()
+    // AUTH: Every route requires a verified Firebase ID token
+    const authResult = await authenticate(req)
+    if (authResult instanceof Response) return authResult
+    const user: AuthUser = authResult
 
-      // Fetch orders with status 'sent' (in production)
-      const ordersRef = db.collection('orders').doc('data').collection('orders')
-      let query = ordersRef.where('status', '==', 'sent')
+    // ME: Verified caller identity
+    if (path === '/me' && method === 'GET') {
+      return jsonResponse({ success: true, data: user })
+    }
 
-      const ordersSnapshot = await query.get()
-      let orders = ordersSnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      }))
+    // ORDERS: List open orders (status = 'sent'), paginated by document ID so orders without
+    // a ship date are included; the client sorts by ship date once every page is in.
+    // Query params: search (words matched against OPS / buyer code / buyer name), limit, cursor.
+    // The first page also returns total, the number of open orders (samples included).
+    if (path === '/orders' && method === 'GET') {
+      const search = url.searchParams.get('search')?.trim()
+      const limit = Math.min(Number(url.searchParams.get('limit')) || ORDERS_PAGE_SIZE, ORDERS_MAX_PAGE_SIZE)
+      const cursor = url.searchParams.get('cursor')
 
-      // Filter out sample orders
-      orders = orders.filter((o: any) => o.orderType !== 'samples')
+      const ordersRef = db.collection('orders').doc('data').collection('orders')
+      const openOrders = ordersRef.where('status', '==', 'sent')
+      let orders: Array<Order & { id: string }>
+      let nextCursor: string | null = null
+      let total: number | null = null
 
-      // Apply search filter
       if (search) {
-        orders = orders.filter((o: any) => {
-          const salesNo = (o.salesNo || '').toLowerCase()
-          const customerCode = (o.customerCode || '').toLowerCase()
-          const buyerName = (o.buyerName || '').toLowerCase()
-          return (
-            salesNo.includes(search) ||
-            customerCode.includes(search) ||
-            buyerName.includes(search)
-          )
-        })
-      }
+        // Matches come back as a single page
+        orders = await searchOpenOrders(search)
+      } else {
+        let query = openOrders.orderBy(FieldPath.documentId()).limit(limit)
+        if (cursor) query = query.startAfter(cursor)
 
-      // Sort by ship date (nearest first)
-      orders.sort((a: any, b: any) => {
-        const dateA = new Date(a.shipDate || '9999-12-31')
-        const dateB = new Date(b.shipDate || '9999-12-31')
-        return dateA.getTime() - dateB.getTime()
-      })
+        const [ordersSnapshot, countSnapshot] = await Promise.all([
+          query.get(),
+          cursor ? null : openOrders.count().get(),
+        ])
+        orders = ordersSnapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...doc.data(),
+        }) as Order & { id: string })
+        total = countSnapshot ? countSnapshot.data().count : null
 
-      // Fetch production tracker data for these orders
-      const trackerPromises = orders.map(async (order: any) => {
-        const trackerDoc = await db.collection('production_tracker').doc(order.id).get()
-        return {
-          ...order,
-          tracker: trackerDoc.exists ? { id: trackerDoc.id, ...trackerDoc.data() } : undefined,
+        if (ordersSnapshot.docs.length === limit) {
+          nextCursor = ordersSnapshot.docs[ordersSnapshot.docs.length - 1].id
         }
-      })
+      }
+      const scanned = orders.length
 
-      const ordersWithTrackers = await Promise.all(trackerPromises)
+      // Filter out sample orders
+      orders = orders.filter((o) => o.orderType !== 'samples')
+
+      const ordersWithTrackers = await attachTrackers(orders)
 
-      return jsonResponse({ success: true, data: ordersWithTrackers })
+      return jsonResponse({ success: true, data: ordersWithTrackers, nextCursor, total, scanned })
     }
 
     // ORDERS: Get single order
@@ -132,62 +893,136 @@ export default async function handler(req: Request, context: Context): Promise<R
       return jsonResponse({ success: true, data: { ...order, tracker } })
     }
 
+    // ORDERS: TEDs for each order item, matched on the EM design number
+    // Response: { orderId, items: [{ itemId, emDesignName, ted, matchedBy, alternatives, ppMeetingHeld,
+    //             pin, latestVersion }], missingTed, ppMeetingPending }
+    // A pinned TED wins over the design number match.
+    if (path.match(/^\/orders\/[^/]+\/teds$/) && method === 'GET') {
+      const orderId = path.split('/')[2]
+
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(orderId).get()
+      if (!orderDoc.exists) {
+        return jsonResponse({ success: false, error: 'Order not found' }, 404)
+      }
+      const order = orderDoc.data() as Order
+
+      const snapshot = await db.collection('tedForms').get()
+      const teds = snapshot.docs
+        .map((doc) => toTedSummary(doc.id, doc.data()))
+        .filter((t) => t.emDesignNo)
+        .sort((a, b) => (b.ppMeetingDate || '').localeCompare(a.ppMeetingDate || ''))
+      const byDesign = new Map<string, typeof teds>()
+      const byCore = new Map<string, typeof teds>()
+      teds.forEach((ted) => {
+        const key = normalizeDesignNo(ted.emDesignNo)
+        byDesign.set(key, [...(byDesign.get(key) || []), ted])
+        const core = designCore(key)
+        if (core) byCore.set(core, [...(byCore.get(core) || []), ted])
+      })
+
+      const trackerDoc = await db.collection('production_tracker').doc(orderId).get()
+      const pins: Record<string, TedPin | null> = trackerDoc.data()?.tedPins || {}
+
+      const today = new Date().toISOString().split('T')[0]
+      const matched = (order.items || []).map((item) => {
+        const key = normalizeDesignNo(item.emDesignName)
+        const exact = key ? byDesign.get(key) || [] : []
+        const fuzzy = exact.length === 0 && key ? byCore.get(designCore(key)) || [] : []
+        const matches = pickBuyerTeds(exact.length > 0 ? exact : fuzzy, order.customerCode)
+        const pin = pins[item.id] || null
+        const pinned = pin ? teds.find((t) => t.id === pin.tedId) : undefined
+        const ted = pinned || matches[0] || null
+        return {
+          itemId: item.id,
+          emDesignName: item.emDesignName || '',
+          ted,
+          matchedBy: pinned ? 'pinned' : ted ? (exact.length > 0 ? 'exact' : 'fuzzy') : null,
+          alternatives: Math.max(0, matches.length - 1),
+          ppMeetingHeld: !!ted?.ppMeetingDate && ted.ppMeetingDate.substring(0, 10) <= today,
+          pin,
+        }
+      })
+
+      // Latest captured version per matched TED, to flag pins that have been superseded
+      const tedIds = [...new Set(matched.flatMap((i) => (i.ted ? [i.ted.id] : [])))]
+      const versionDocs = tedIds.length > 0 ? await db.getAll(...tedIds.map((id) => db.collection('ted_versions').doc(id))) : []
+      const latestVersions = new Map(versionDocs.map((v) => [v.id, (v.data()?.latestVersion as number) || null]))
+      const items = matched.map((i) => ({ ...i, latestVersion: i.ted ? latestVersions.get(i.ted.id) || null : null }))
+
+      return jsonResponse({
+        success: true,
+        data: {
+          orderId,
+          items,
+          missingTed: items.filter((i) => !i.ted).length,
+          ppMeetingPending: items.filter((i) => i.ted && !i.ppMeetingHeld).length,
+        },
+      })
+    }
+
     // PRODUCTION TRACKER: Update single stage
     if (path.match(/^\/production-tracker\/[^/]+\/stage\/[^/]+$/) && method === 'PUT') {
       const parts = path.split('/')
       const orderId = parts[2]
-      const stage = parts[4] as TnaStage
+      const stage = parts[4]
+
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(orderId).get()
+      const template = resolveTnaTemplate(await loadTnaTemplates(), orderDoc.data())
+      const templateStage = template.stages.find((s) => s.key === stage)
 
-      if (!TNA_STAGES.includes(stage)) {
+      if (!templateStage) {
         return jsonResponse({ success: false, error: 'Invalid stage' }, 400)
       }
 
+      if (!canUpdateStage(user, templateStage, orderDoc.data())) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot update ${stage} on this order` }, 403)
+      }
+
       const body = await req.json()
-      const { opsNo, status, actualDate, notes } = body
+      const { opsNo, status, actualDate, notes, delayReason, responsibleParty } = body
 
       const now = new Date().toISOString()
 
       // Get or create tracker document
       const trackerRef = db.collection('production_tracker').doc(orderId)
       const trackerDoc = await trackerRef.get()
+      const previous: StageUpdate | undefined = trackerDoc.data()?.stages?.[stage]
+
+      if (isInspectionBlocked(trackerDoc.data()?.inspectionHold, stage, status)) {
+        return jsonResponse({ success: false, error: `${templateStage.label} is on hold until the failed inspection is re-inspected` }, 400)
+      }
+
+      // Late stages must say why before they can be saved
+      const targetDate = buildTnaEntries(template, orderDoc.data() || {}, trackerDoc.data()?.tnaPlan)
+        .find((e) => e.stage === stage)?.targetDate
+      const delay = resolveDelayFields(
+        templateStage.label,
+        { status: status || 'pending', actualDate: actualDate || null, delayReason, responsibleParty },
+        previous,
+        targetDate,
+        now.split('T')[0]
+      )
+      if ('error' in delay) {
+        return jsonResponse({ success: false, error: delay.error, delayReasonRequired: true }, 400)
+      }
+
+      // Tracker write + history entry commit together
+      const batch = db.batch()
 
+      // A manual update overrides any ERP status; the lock survives it
       const stageUpdate: StageUpdate = {
         status: status || 'pending',
         actualDate: actualDate || null,
         notes: notes || undefined,
         updatedAt: now,
+        updatedBy: user.email,
+        source: 'manual',
+        ...delay.fields,
+        ...(previous?.locked ? { locked: true } : {}),
       }
 
-      if (trackerDoc.exists) {
-        // Update existing
-        await trackerRef.update({
-          [`stages.${stage}`]: stageUpdate,
-          currentStage: calculateCurrentStage(
-            { ...trackerDoc.data()?.stages, [stage]: stageUpdate },
-            undefined
-          ),
-          updatedAt: now,
-        })
-      } else {
-        // Create new tracker
-        const initialStages: Record<TnaStage, StageUpdate> = {} as Record<TnaStage, StageUpdate>
-        TNA_STAGES.forEach((s) => {
-          initialStages[s] = {
-            status: 'pending',
-            actualDate: null,
-            updatedAt: now,
-          }
-        })
-        initialStages[stage] = stageUpdate
-
-        await trackerRef.set({
-          opsNo: opsNo || '',
-          stages: initialStages,
-          currentStage: calculateCurrentStage(initialStages, undefined),
-          createdAt: now,
-          updatedAt: now,
-        })
-      }
+      addStageWrite(batch, trackerDoc, template, stage, stageUpdate, opsNo || '', user)
+      await batch.commit()
 
       return jsonResponse({ success: true })
     }
@@ -198,594 +1033,3808 @@ export default async function handler(req: Request, context: Context): Promise<R
       const body = await req.json()
       const { opsNo, stages } = body
 
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(orderId).get()
+      const template = resolveTnaTemplate(await loadTnaTemplates(), orderDoc.data())
+
+      if (stages) {
+        for (const stage of Object.keys(stages)) {
+          const templateStage = template.stages.find((s) => s.key === stage)
+          if (!templateStage) {
+            return jsonResponse({ success: false, error: `Invalid stage: ${stage}` }, 400)
+          }
+          if (!canUpdateStage(user, templateStage, orderDoc.data())) {
+            return jsonResponse({ success: false, error: `Role '${user.role}' cannot update ${stage} on this order` }, 403)
+          }
+        }
+      }
+
       const now = new Date().toISOString()
 
       const trackerRef = db.collection('production_tracker').doc(orderId)
       const trackerDoc = await trackerRef.get()
+      const previousStages: Record<string, StageUpdate> = trackerDoc.data()?.stages || {}
+      const targetDates = buildTnaEntries(template, orderDoc.data() || {}, trackerDoc.data()?.tnaPlan)
 
-      const updates: Record<string, any> = {
-        updatedAt: now,
-      }
-
+      const stageUpdates: Record<string, StageUpdate> = {}
       if (stages) {
-        Object.entries(stages).forEach(([stage, update]: [string, any]) => {
-          updates[`stages.${stage}`] = {
-            ...update,
+        for (const [stage, update] of Object.entries(stages as Record<string, StageUpdateBody>)) {
+          if (isInspectionBlocked(trackerDoc.data()?.inspectionHold, stage, update.status)) {
+            return jsonResponse({ success: false, error: `${stage} is on hold until the failed inspection is re-inspected` }, 400)
+          }
+
+          const delay = resolveDelayFields(
+            template.stages.find((s) => s.key === stage)?.label || stage,
+            {
+              status: update.status || 'pending',
+              actualDate: update.actualDate || null,
+              delayReason: update.delayReason,
+              responsibleParty: update.responsibleParty,
+            },
+            previousStages[stage],
+            targetDates.find((e) => e.stage === stage)?.targetDate,
+            now.split('T')[0]
+          )
+          if ('error' in delay) {
+            return jsonResponse({ success: false, error: delay.error, delayReasonRequired: true }, 400)
+          }
+
+          // Only the client-editable fields; lock and ERP confirmation go through the ERP review route
+          stageUpdates[stage] = {
+            status: update.status || 'pending',
+            actualDate: update.actualDate || null,
+            ...(update.notes ? { notes: update.notes } : {}),
+            ...delay.fields,
             updatedAt: now,
+            updatedBy: user.email,
+            source: 'manual',
+            erpSuggestion: null,
+            ...(previousStages[stage]?.locked ? { locked: true } : {}),
           }
-        })
+        }
       }
 
+      // Tracker write + one history entry per stage commit together
+      const batch = db.batch()
+
       if (trackerDoc.exists) {
-        await trackerRef.update(updates)
+        const updates: Record<string, any> = {
+          updatedAt: now,
+          currentStage: calculateCurrentStage({ ...previousStages, ...stageUpdates }, template),
+        }
+        Object.entries(stageUpdates).forEach(([stage, update]) => {
+          updates[`stages.${stage}`] = update
+        })
 
-        // Recalculate current stage
-        const updatedDoc = await trackerRef.get()
-        const currentStage = calculateCurrentStage(updatedDoc.data()?.stages, undefined)
-        await trackerRef.update({ currentStage })
+        batch.update(trackerRef, updates)
       } else {
         // Create new
-        const initialStages: Record<TnaStage, StageUpdate> = {} as Record<TnaStage, StageUpdate>
-        TNA_STAGES.forEach((s) => {
-          const stageUpdate = stages?.[s]
+        const initialStages: Record<string, StageUpdate> = {}
+        template.stages.forEach(({ key: s }) => {
+          const stageUpdate = stageUpdates[s]
           initialStages[s] = {
             status: stageUpdate?.status || 'pending',
             actualDate: stageUpdate?.actualDate || null,
             notes: stageUpdate?.notes,
             updatedAt: now,
+            ...(stageUpdate ? { updatedBy: user.email, source: 'manual' as const } : {}),
+            ...(stageUpdate?.delayReason ? {
+              delayReason: stageUpdate.delayReason,
+              responsibleParty: stageUpdate.responsibleParty,
+              delayDays: stageUpdate.delayDays,
+            } : {}),
           }
         })
 
-        await trackerRef.set({
+        batch.set(trackerRef, {
           opsNo: opsNo || '',
           stages: initialStages,
-          currentStage: calculateCurrentStage(initialStages, undefined),
+          currentStage: calculateCurrentStage(initialStages, template),
           createdAt: now,
           updatedAt: now,
         })
       }
 
+      Object.entries(stageUpdates).forEach(([stage, update]) => {
+        batch.set(
+          trackerRef.collection('history').doc(),
+          buildHistoryEntry(stage, previousStages[stage], update, user)
+        )
+      })
+      await batch.commit()
+
       return jsonResponse({ success: true })
     }
 
-    // PRODUCTION STATS: Live Neon ERP data (Bazar/Bal per OPS)
-    // Matches Orders app's /api/production-stats exactly
-    if (path === '/production-stats' && method === 'GET') {
-      const stats: Record<string, { pcs: number; bazar: number; bal: number }> = {}
+    // PRODUCTION TRACKER: Update item-level production figures
+    if (path.match(/^\/production-tracker\/[^/]+\/items\/[^/]+$/) && method === 'PUT') {
+      const parts = path.split('/')
+      const orderId = parts[2]
+      const itemId = decodeURIComponent(parts[4])
 
-      const emplUrl = process.env.EMPL_DATABASE_URL
-      const ehiUrl = process.env.EHI_DATABASE_URL
+      if (!ITEM_EDITORS.includes(user.role)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot edit item production figures` }, 403)
+      }
 
-      // Query EMPL Neon (neondb)
-      const fetchEmpl = async () => {
-        if (!emplUrl) return
-        try {
-          const sql = neon(emplUrl)
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(orderId).get()
+      if (!orderDoc.exists) {
+        return jsonResponse({ success: false, error: 'Order not found' }, 404)
+      }
 
-          // Total pcs per OPS
-          const pcsRows = await sql`
-            SELECT o.order_number as ops_no,
-              SUM(oi.ordered_qty)::int as total_pcs
-            FROM orders o
-            JOIN order_items oi ON oi.order_id = o.id
-            WHERE o.status IN ('active','open','Active','Open','confirmed')
-              AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
-            GROUP BY o.order_number
-          `
+      const order = orderDoc.data() as Order
+      const orderItem = (order.items || []).find((i) => i.id === itemId)
+      if (!orderItem) {
+        return jsonResponse({ success: false, error: 'Item not found on order' }, 404)
+      }
 
-          // Bazar (WIP) counts per OPS
-          const bazarRows = await sql`
-            SELECT o.order_number as ops_no,
-              COUNT(CASE WHEN c.current_stage NOT IN ('weaving','dispatched','invoiced')
-                    AND c.current_stage IS NOT NULL THEN 1 END)::int as bazar_pcs,
-              COUNT(CASE WHEN c.current_stage = 'dispatched' THEN 1 END)::int as dispatched_pcs
-            FROM orders o
-            JOIN order_items oi ON oi.order_id = o.id
-            LEFT JOIN carpets c ON c.order_item_id = oi.id
-            WHERE o.status IN ('active','open','Active','Open','confirmed')
-              AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
-            GROUP BY o.order_number
-          `
+      const body = (await req.json()) as ProductionItemUpdateBody
+      const trackerRef = db.collection('production_tracker').doc(orderId)
+      const trackerDoc = await trackerRef.get()
+      const existing: Partial<ProductionItemTracker> = trackerDoc.data()?.items?.[itemId] || {}
 
-          for (const row of pcsRows) {
-            if (row.ops_no) {
-              stats[row.ops_no] = { pcs: Number(row.total_pcs) || 0, bazar: 0, bal: 0 }
-            }
-          }
-          for (const row of bazarRows) {
-            if (row.ops_no && stats[row.ops_no]) {
-              stats[row.ops_no].bazar = Number(row.bazar_pcs) || 0
-              const dispatched = Number(row.dispatched_pcs) || 0
-              stats[row.ops_no].bal = stats[row.ops_no].pcs - stats[row.ops_no].bazar - dispatched
-              if (stats[row.ops_no].bal < 0) stats[row.ops_no].bal = 0
-            }
-          }
-        } catch (err) {
-          console.error('EMPL production stats error:', err)
+      const now = new Date().toISOString()
+      const itemTracker: ProductionItemTracker = {
+        id: itemId,
+        orderId,
+        opsNo: order.salesNo || '',
+        status: existing.status || '',
+        rcvdPcs: existing.rcvdPcs || 0,
+        toRcvdPcs: existing.toRcvdPcs || 0,
+        oldStock: existing.oldStock || 0,
+        bazarDone: existing.bazarDone || 0,
+        uFinishing: existing.uFinishing || 0,
+        packed: existing.packed || 0,
+        vendorName: existing.vendorName || '',
+        folioNo: existing.folioNo || '',
+        supplierCompletionDate: existing.supplierCompletionDate || '',
+        updatedAt: now,
+        updatedBy: user.email,
+      }
+
+      // Validate and apply piece counts
+      for (const field of ITEM_COUNT_FIELDS) {
+        if (body[field] === undefined) continue
+        const value = Number(body[field])
+        if (!Number.isInteger(value) || value < 0) {
+          return jsonResponse({ success: false, error: `${field} must be a whole number of 0 or more` }, 400)
         }
+        itemTracker[field] = value
       }
 
-      // Query EHI Neon (ehi_wip)
-      const fetchEhi = async () => {
-        if (!ehiUrl) return
-        try {
-          const sql = neon(ehiUrl)
+      for (const field of ITEM_TEXT_FIELDS) {
+        if (body[field] === undefined) continue
+        itemTracker[field] = String(body[field] ?? '').trim()
+      }
 
-          // Total pcs per OPS
-          const pcsRows = await sql`
-            SELECT o.order_no as ops_no,
-              SUM(oi.ordered_qty)::int as total_pcs
-            FROM ehi_orders o
-            JOIN ehi_order_items oi ON oi.order_id = o.id
-            WHERE o.status = '0'
-              AND o.order_no LIKE 'EM-%'
-              AND o.order_no >= 'EM-25-'
-            GROUP BY o.order_no
-          `
+      const itemPcs = Number(orderItem.pcs) || 0
+      if (itemTracker.rcvdPcs + itemTracker.toRcvdPcs > itemPcs) {
+        return jsonResponse({
+          success: false,
+          error: `Rcvd (${itemTracker.rcvdPcs}) + To Rcvd (${itemTracker.toRcvdPcs}) exceeds item pcs (${itemPcs})`,
+        }, 400)
+      }
+      if (itemTracker.packed > itemPcs) {
+        return jsonResponse({ success: false, error: `Packed (${itemTracker.packed}) exceeds item pcs (${itemPcs})` }, 400)
+      }
 
-          // Bazar counts per OPS
-          const bazarRows = await sql`
-            SELECT o.order_no as ops_no,
-              COUNT(CASE WHEN cn.currentprostatus IS NOT NULL
-                    AND cn.currentprostatus != 1 THEN 1 END)::int as bazar_pcs
-            FROM ehi_orders o
-            JOIN ehi_order_items oi ON oi.order_id = o.id
-            LEFT JOIN carpet_number cn ON cn.orderid = oi.order_id_src
-              AND cn.item_finished_id = oi.item_finished_id
-            WHERE o.status = '0'
-              AND o.order_no LIKE 'EM-%'
-              AND o.order_no >= 'EM-25-'
-            GROUP BY o.order_no
-          `
+      await trackerRef.set({
+        opsNo: trackerDoc.data()?.opsNo || order.salesNo || '',
+        items: { [itemId]: itemTracker },
+        updatedAt: now,
+        ...(trackerDoc.exists ? {} : { createdAt: now }),
+      }, { merge: true })
 
-          for (const row of pcsRows) {
-            if (row.ops_no) {
-              if (!stats[row.ops_no]) {
-                stats[row.ops_no] = { pcs: Number(row.total_pcs) || 0, bazar: 0, bal: 0 }
-              } else {
-                stats[row.ops_no].pcs += (Number(row.total_pcs) || 0)
-              }
-            }
+      return jsonResponse({ success: true, data: itemTracker })
+    }
+
+    // PRODUCTION TRACKER: Pin the TED version an item is produced against
+    // Body: { tedId, version? } to pin (current version when omitted), { tedId: null } to unpin
+    if (path.match(/^\/production-tracker\/[^/]+\/ted-pins\/[^/]+$/) && method === 'PUT') {
+      const parts = path.split('/')
+      const orderId = parts[2]
+      const itemId = decodeURIComponent(parts[4])
+
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(orderId).get()
+      if (!orderDoc.exists) {
+        return jsonResponse({ success: false, error: 'Order not found' }, 404)
+      }
+      const order = orderDoc.data() as Order
+      if (!TED_PIN_EDITORS.includes(user.role) || (user.role === 'merchant' && !isOrderMerchant(user, order))) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot pin TED versions on this order` }, 403)
+      }
+      if (!(order.items || []).some((i) => i.id === itemId)) {
+        return jsonResponse({ success: false, error: 'Item not found on order' }, 404)
+      }
+
+      const body = await req.json()
+      let pin: TedPin | null = null
+      if (body.tedId) {
+        const tedId = String(body.tedId)
+        let version = Number(body.version)
+        if (body.version === undefined || body.version === null) {
+          const tedDoc = await db.collection('tedForms').doc(tedId).get()
+          if (!tedDoc.exists) {
+            return jsonResponse({ success: false, error: 'TED not found' }, 404)
           }
-          for (const row of bazarRows) {
-            if (row.ops_no && stats[row.ops_no]) {
-              stats[row.ops_no].bazar += (Number(row.bazar_pcs) || 0)
-              stats[row.ops_no].bal = stats[row.ops_no].pcs - stats[row.ops_no].bazar
-              if (stats[row.ops_no].bal < 0) stats[row.ops_no].bal = 0
-            }
+          version = await captureTedVersion(tedId, toTedDetail(tedId, tedDoc.data()!), tedDoc.data()!)
+        } else {
+          const versionDoc = await db.collection('ted_versions').doc(tedId).collection('versions').doc(String(version)).get()
+          if (!versionDoc.exists) {
+            return jsonResponse({ success: false, error: `TED version ${body.version} not found` }, 404)
           }
-        } catch (err) {
-          console.error('EHI production stats error:', err)
         }
+        pin = { tedId, version, pinnedAt: new Date().toISOString(), pinnedBy: user.email }
       }
 
-      // Run both in parallel
-      await Promise.all([fetchEmpl(), fetchEhi()])
+      const trackerRef = db.collection('production_tracker').doc(orderId)
+      const trackerDoc = await trackerRef.get()
+      const now = new Date().toISOString()
+      await trackerRef.set({
+        opsNo: trackerDoc.data()?.opsNo || order.salesNo || '',
+        tedPins: { [itemId]: pin },
+        updatedAt: now,
+        ...(trackerDoc.exists ? {} : { createdAt: now }),
+      }, { merge: true })
 
-      return jsonResponse(stats)
+      return jsonResponse({ success: true, data: pin })
     }
 
-    // INSPECTION SCHEDULES: Read from Firestore
-    if (path === '/inspection-schedules' && method === 'GET') {
-      const startDate = url.searchParams.get('startDate')
-      const endDate = url.searchParams.get('endDate')
+    // PRODUCTION TRACKER: Stage change history (newest first)
+    if (path.match(/^\/production-tracker\/[^/]+\/history$/) && method === 'GET') {
+      const orderId = path.split('/')[2]
+      const stage = url.searchParams.get('stage')
 
-      // Fetch all inspection_schedules, filter client-side to avoid composite index requirement
-      const snapshot = await db.collection('inspection_schedules').get()
-      let schedules = snapshot.docs.map(doc => ({
+      const snapshot = await db.collection('production_tracker').doc(orderId)
+        .collection('history')
+        .orderBy('changedAt', 'desc')
+        .get()
+
+      let history = snapshot.docs.map((doc) => ({
         id: doc.id,
         ...doc.data(),
       })) as any[]
 
-      // Filter by date range if provided
-      if (startDate) {
-        schedules = schedules.filter(s => s.inspectionDate >= startDate)
-      }
-      if (endDate) {
-        schedules = schedules.filter(s => s.inspectionDate <= endDate)
+      // Filter by stage client-side to avoid composite index requirement
+      if (stage) {
+        history = history.filter((h) => h.stage === stage)
       }
 
-      // Sort by date
-      schedules.sort((a, b) =>
-        (a.inspectionDate || '').localeCompare(b.inspectionDate || '')
-      )
+      return jsonResponse({ success: true, data: history })
+    }
 
-      return jsonResponse({ schedules })
+    // TNA TEMPLATES: List stored templates (the built-in default applies when none match)
+    if (path === '/tna-templates' && method === 'GET') {
+      const templates = await loadTnaTemplates()
+      templates.sort((a, b) => a.name.localeCompare(b.name))
+      return jsonResponse({ success: true, data: templates })
     }
 
-    // TEDS: List/search all TEDs
-    if (path === '/teds' && method === 'GET') {
-      const search = url.searchParams.get('search')?.toLowerCase()
+    // TNA TEMPLATES: Create or replace a template (directors only)
+    if (path.match(/^\/tna-templates\/[^/]+$/) && method === 'PUT') {
+      const templateId = decodeURIComponent(path.split('/')[2])
 
-      const snapshot = await db.collection('tedForms').get()
-      let teds = snapshot.docs.map((doc) => {
-        const d = doc.data()
-        // Normalize snake_case / camelCase field names
-        const emDesignNo = d.emDesignNo || d.empl_design_no || ''
-        const buyerCode = d.buyerCode || d.buyer_code || ''
-        const buyerName = d.buyerName || d.buyer_name || ''
-        const buyerDesignName = d.buyerDesignName || d.buyer_design_name || ''
-        const construction = d.construction || ''
-        const productQuality = d.productQuality || d.product_quality || ''
-        const productType = d.productType || d.product_type || ''
-        const size = d.size || ''
-        const rawDate = d.ppMeetingDate || d.pp_meeting_date || ''
-        const ppMeetingDate = rawDate?._seconds
-          ? new Date(rawDate._seconds * 1000).toISOString().split('T')[0]
-          : typeof rawDate === 'string' ? rawDate : ''
-        const pileMaterial = d.pileMaterial || d.pile_material || ''
-        const status = d.status || ''
-
-        // Get first image URL for thumbnail
-        const images = d.images || d.imageUrls || {}
-        let thumbnailUrl = ''
-        for (const key of ['product_photo', 'productPhoto', 'approved_cad', 'approvedCad']) {
-          if (images[key] && Array.isArray(images[key]) && images[key].length > 0) {
-            thumbnailUrl = images[key][0]
-            break
-          }
-        }
+      if (user.role !== 'director') {
+        return jsonResponse({ success: false, error: 'Only directors can edit TNA templates' }, 403)
+      }
 
-        return {
-          id: doc.id,
-          emDesignNo,
-          buyerCode,
-          buyerName,
-          buyerDesignName,
-          construction,
-          productQuality,
-          productType,
-          size,
-          ppMeetingDate,
-          pileMaterial,
-          status,
-          thumbnailUrl,
-        }
-      })
+      const body = (await req.json()) as TnaTemplateBody | null
+      const validationError = validateTnaTemplate(body)
+      if (validationError || !body?.name || !body.stages) {
+        return jsonResponse({ success: false, error: validationError || 'Invalid template' }, 400)
+      }
 
-      // Apply search filter
-      if (search) {
-        teds = teds.filter((t) => {
-          return (
-            t.emDesignNo.toLowerCase().includes(search) ||
-            t.buyerCode.toLowerCase().includes(search) ||
-            t.buyerName.toLowerCase().includes(search) ||
-            t.buyerDesignName.toLowerCase().includes(search) ||
-            t.construction.toLowerCase().includes(search) ||
-            t.productQuality.toLowerCase().includes(search)
-          )
-        })
+      const template: TnaTemplate = {
+        id: templateId,
+        name: body.name.trim(),
+        orderTypes: body.orderTypes || [],
+        customerCodes: (body.customerCodes || []).map((c) => String(c).trim().toUpperCase()).filter(Boolean),
+        isDefault: !!body.isDefault,
+        stages: body.stages.map((stage): TnaTemplateStage => ({
+          key: stage.key,
+          label: stage.label.trim(),
+          ...(stage.shortLabel ? { shortLabel: String(stage.shortLabel).trim() } : {}),
+          optional: !!stage.optional,
+          offsetDays: stage.offsetDays,
+          ...(stage.editors ? { editors: stage.editors } : {}),
+        })),
+        updatedAt: new Date().toISOString(),
+        updatedBy: user.email,
       }
 
-      // Sort by ppMeetingDate desc (newest first)
-      teds.sort((a, b) => (b.ppMeetingDate || '').localeCompare(a.ppMeetingDate || ''))
+      const { id: _id, ...data } = template
+      await db.collection('tna_templates').doc(templateId).set(data)
 
-      return jsonResponse({ success: true, data: teds })
+      return jsonResponse({ success: true, data: template })
     }
 
-    // TEDS: Get single TED full details
-    if (path.match(/^\/teds\/[^/]+$/) && method === 'GET') {
-      const tedId = path.split('/')[2]
-      const doc = await db.collection('tedForms').doc(tedId).get()
-
-      if (!doc.exists) {
-        return jsonResponse({ success: false, error: 'TED not found' }, 404)
+    // TNA ERP SYNC: Write ERP-derived stage statuses into production_tracker.stages
+    // Body: { dryRun? }. Manual stages are left alone and get an erpSuggestion instead; locked stages are skipped.
+    if (path === '/tna-erp-sync' && method === 'POST') {
+      if (!ERP_STAGE_REVIEWERS.includes(user.role)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot sync stages from ERP` }, 403)
       }
 
-      const d = doc.data()!
-      const ted = {
-        id: doc.id,
-        emDesignNo: d.emDesignNo || d.empl_design_no || '',
-        buyerCode: d.buyerCode || d.buyer_code || '',
-        buyerName: d.buyerName || d.buyer_name || '',
-        buyerDesignName: d.buyerDesignName || d.buyer_design_name || '',
-        construction: d.construction || '',
-        productQuality: d.productQuality || d.product_quality || '',
-        productType: d.productType || d.product_type || '',
-        size: d.size || '',
-        ppMeetingDate: d.ppMeetingDate || d.pp_meeting_date || '',
-        pileMaterial: d.pileMaterial || d.pile_material || '',
-        status: d.status || '',
-        meetingAttendees: d.meetingAttendees || d.meeting_attendees || [],
-        unfinishedGsm: d.unfinishedGsm || d.unfinished_gsm || null,
-        finishedGsm: d.finishedGsm || d.finished_gsm || null,
-        warpMaterial: d.warpMaterial || d.warp_material || '',
-        weftMaterial: d.weftMaterial || d.weft_material || '',
-        pileHeightUnfinished: d.pileHeightUnfinished || d.pile_height_unfinished || '',
-        pileHeightFinished: d.pileHeightFinished || d.pile_height_finished || '',
-        fringesDetails: d.fringesDetails || d.fringes_details || '',
-        sizeTolerance: d.sizeTolerance || d.size_tolerance || '',
-        processFlow: d.processFlow || d.process_flow || '',
-        qualityCallOutsCtq: d.qualityCallOutsCtq || d.quality_call_outs || '',
-        buyersSpecificRequirements: d.buyersSpecificRequirements || d.buyers_specific_requirements || '',
-        remarks: d.remarks || '',
-        reedNoKanghi: d.reedNoKanghi || d.reed_no_kanghi || '',
-        warpIn6Inches: d.warpIn6Inches || d.warp_in_6_inches || '',
-        weftIn6Inches: d.weftIn6Inches || d.weft_in_6_inches || '',
-        shadeCardAvailable: d.shadeCardAvailable || d.shade_card_available || '',
-        redSealAvailable: d.redSealAvailable || d.red_seal_available || '',
-        khatiDetails: d.khatiDetails || d.khati_details || '',
-        imageUrls: d.images || d.imageUrls || {},
-        createdAt: d.createdAt?._seconds
-          ? new Date(d.createdAt._seconds * 1000).toISOString()
-          : d.createdAt || null,
-        updatedAt: d.updatedAt?._seconds
-          ? new Date(d.updatedAt._seconds * 1000).toISOString()
-          : d.updatedAt || null,
-      }
-
-      return jsonResponse({ success: true, data: ted })
-    }
+      const body = await req.json().catch(() => ({}))
+      const dryRun = !!body.dryRun
 
-    // ============================================================
-    // TNA ERP Stages — Live production stage data from Neon
-    // GET /api/tna-erp-stages
-    // Returns per-OPS stage data for WIP, RM Purchase, and Dyeing
-    // ============================================================
-    if (path === '/tna-erp-stages' && method === 'GET') {
-      try {
-        const emplUrl = process.env.EMPL_DATABASE_URL
-        const ehiUrl = process.env.EHI_DATABASE_URL
+      const snapshot = await db.collection('orders').doc('data').collection('orders').where('status', '==', 'sent').get()
+      const orders = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() } as any))
+        .filter((o) => o.orderType !== 'samples')
 
-        if (!emplUrl && !ehiUrl) {
-          return jsonResponse({ error: 'Neon connection strings not configured' }, 500)
-        }
+      const [erpStages, templates, ordersWithTrackers] = await Promise.all([
+        fetchErpTnaStages(),
+        loadTnaTemplates(),
+        attachTrackers(orders),
+      ])
+      const erpByOps = new Map(Object.entries(erpStages).map(([opsNo, data]) => [normalizeOpsNo(opsNo), data]))
 
-        interface ErpStageData {
-          totalOrdered: number
-          totalCarpets: number
-          onLoom: number
-          finishing: number
-          fgGodown: number
-          packed: number
-          dispatched: number
-          hasIndent: boolean
-          indentReceived: boolean
-          hasDyeingOrder: boolean
-          dyeingReceived: boolean
-          source: 'EMPL' | 'EHI'
-          rmReceivedDate?: string | null
-          dyeingIssuedDate?: string | null
-          dyeingReceivedDate?: string | null
-          firstBazarDate?: string | null
-          lastBazarDate?: string | null
-          firstDispatchDate?: string | null
-          lastDispatchDate?: string | null
-        }
-
-        const stages: Record<string, ErpStageData> = {}
-
-        // Query EMPL Neon
-        const fetchEmpl = async () => {
-          if (!emplUrl) return
-          try {
-            const sql = neon(emplUrl)
-
-            // WIP counts + carpet dates
-            const wipRows = await sql`
-              SELECT o.order_number as ops_no,
-                SUM(oi.ordered_qty)::int as total_ordered,
-                COUNT(c.id)::int as total_carpets,
-                COUNT(CASE WHEN c.current_stage = 'weaving' THEN 1 END)::int as on_loom,
-                COUNT(CASE WHEN c.current_stage NOT IN ('weaving','dispatched','invoiced')
-                      AND c.current_stage IS NOT NULL THEN 1 END)::int as bazar,
-                COUNT(CASE WHEN c.current_stage = 'dispatched' THEN 1 END)::int as dispatched,
-                MIN(c.bazar_date) as first_bazar_date,
-                MAX(c.bazar_date) as last_bazar_date,
-                MIN(c.dispatch_date) as first_dispatch_date,
-                MAX(c.dispatch_date) as last_dispatch_date
-              FROM orders o
-              JOIN order_items oi ON oi.order_id = o.id
-              LEFT JOIN carpets c ON c.order_item_id = oi.id
-              WHERE o.status IN ('active','open','Active','Open','confirmed')
-                AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
-              GROUP BY o.order_number
-            `
-
-            // RM Purchase
-            const rmRows = await sql`
-              SELECT o.order_number as ops_no,
-                BOOL_OR(pi.id IS NOT NULL) as has_indent,
-                BOOL_OR(pi.status IN ('received', 'billed')) as indent_received
-              FROM orders o
-              LEFT JOIN purchase_indent_items pii ON pii.order_id = o.id
-              LEFT JOIN purchase_indents pi ON pi.id = pii.indent_id
-              WHERE o.status IN ('active','open','Active','Open','confirmed')
-                AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
-              GROUP BY o.order_number
-            `
-
-            // Dyeing + dates from material_ledger
-            const dyeRows = await sql`
-              SELECT o.order_number as ops_no,
-                BOOL_OR(do2.id IS NOT NULL OR ml_di.id IS NOT NULL) as has_dyeing,
-                BOOL_OR(doi.received_qty > 0 OR ml_dr.id IS NOT NULL) as dyeing_received,
-                MAX(CASE WHEN ml.transaction_type = 'DI' THEN ml.slip_date END) as dyeing_issued_date,
-                MAX(CASE WHEN ml.transaction_type = 'DR' THEN ml.slip_date END) as dyeing_received_date,
-                MAX(CASE WHEN ml.transaction_type = 'PR' THEN ml.slip_date END) as rm_received_date
-              FROM orders o
-              LEFT JOIN dyeing_orders do2 ON do2.order_id = o.id
-              LEFT JOIN dyeing_order_items doi ON doi.dyeing_order_id = do2.id
-              LEFT JOIN material_ledger ml_di ON ml_di.order_id = o.id AND ml_di.transaction_type = 'DI'
-              LEFT JOIN material_ledger ml_dr ON ml_dr.order_id = o.id AND ml_dr.transaction_type = 'DR'
-              LEFT JOIN material_ledger ml ON ml.order_id = o.id AND ml.transaction_type IN ('DI','DR','PR')
-              WHERE o.status IN ('active','open','Active','Open','confirmed')
-                AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
-              GROUP BY o.order_number
-            `
-
-            // Build RM map
-            const rmMap: Record<string, { hasIndent: boolean; indentReceived: boolean }> = {}
-            for (const row of rmRows) {
-              rmMap[row.ops_no] = { hasIndent: row.has_indent || false, indentReceived: row.indent_received || false }
-            }
+      const now = new Date().toISOString()
+      const today = now.split('T')[0]
+      const updated: Array<{ orderId: string; opsNo: string; stage: string; from: StageStatus | null; to: StageStatus }> = []
+      const suggestions: Array<{ orderId: string; opsNo: string; stage: string; manual: StageStatus; erp: StageStatus }> = []
+      const writes: Array<{ order: any; template: TnaTemplate; stages: Record<string, StageUpdate>; history: StageHistoryEntry[] }> = []
+      let checkedOrders = 0
 
-            // Build dyeing map (with dates)
-            const dyeMap: Record<string, { hasDyeingOrder: boolean; dyeingReceived: boolean; dyeingIssuedDate?: string; dyeingReceivedDate?: string; rmReceivedDate?: string }> = {}
-            for (const row of dyeRows) {
-              dyeMap[row.ops_no] = {
-                hasDyeingOrder: row.has_dyeing || false,
-                dyeingReceived: row.dyeing_received || false,
-                dyeingIssuedDate: row.dyeing_issued_date || null,
-                dyeingReceivedDate: row.dyeing_received_date || null,
-                rmReceivedDate: row.rm_received_date || null,
-              }
-            }
+      for (const order of ordersWithTrackers) {
+        const erp = erpByOps.get(normalizeOpsNo(order.salesNo))
+        if (!erp) continue
+        checkedOrders++
 
-            // Merge WIP + RM + Dyeing
-            for (const row of wipRows) {
-              const rm = rmMap[row.ops_no] || { hasIndent: false, indentReceived: false }
-              const dye = dyeMap[row.ops_no] || { hasDyeingOrder: false, dyeingReceived: false }
-              stages[row.ops_no] = {
-                totalOrdered: row.total_ordered || 0,
-                totalCarpets: row.total_carpets || 0,
-                onLoom: row.on_loom || 0,
-                finishing: row.bazar || 0,  // EMPL: all bazar = finishing
-                fgGodown: 0,  // Not distinguishable in EMPL
-                packed: 0,    // Not distinguishable in EMPL
-                dispatched: row.dispatched || 0,
-                hasIndent: rm.hasIndent,
-                indentReceived: rm.indentReceived,
-                hasDyeingOrder: dye.hasDyeingOrder,
-                dyeingReceived: dye.dyeingReceived,
-                source: 'EMPL',
-                rmReceivedDate: dye.rmReceivedDate || null,
-                dyeingIssuedDate: dye.dyeingIssuedDate || null,
-                dyeingReceivedDate: dye.dyeingReceivedDate || null,
-                firstBazarDate: row.first_bazar_date || null,
-                lastBazarDate: row.last_bazar_date || null,
-                firstDispatchDate: row.first_dispatch_date || null,
-                lastDispatchDate: row.last_dispatch_date || null,
-              }
+        const template = resolveTnaTemplate(templates, order)
+        const derived = deriveErpStageStatuses(erp)
+        const currentStages: Record<string, StageUpdate> = order.tracker?.stages || {}
+        const changes: Record<string, StageUpdate> = {}
+        const history: StageHistoryEntry[] = []
+
+        for (const { key } of template.stages) {
+          const erpStage = derived[key]
+          const current = currentStages[key]
+          if (!erpStage || current?.locked) continue
+          if (isInspectionBlocked(order.tracker?.inspectionHold, key, erpStage.status)) continue
+
+          const isManual = !!current && current.source !== 'erp' && current.status !== 'pending'
+          const actualDate = erpStage.status === 'completed'
+            ? erpStage.actualDate || (current?.status === 'completed' ? current.actualDate : null) || today
+            : null
+
+          if (isManual) {
+            // Keep the manual status; flag the disagreement for PPC
+            const agrees = current.status === erpStage.status
+            const existing = current.erpSuggestion
+            if (agrees && existing) {
+              changes[key] = { ...current, erpSuggestion: null }
+            } else if (!agrees && (existing?.status !== erpStage.status || existing?.actualDate !== actualDate)) {
+              changes[key] = { ...current, erpSuggestion: { status: erpStage.status, actualDate, syncedAt: now } }
+              suggestions.push({ orderId: order.id, opsNo: order.salesNo, stage: key, manual: current.status, erp: erpStage.status })
             }
-          } catch (err) {
-            console.error('EMPL TNA ERP stages error:', err)
+            continue
+          }
+
+          // Only ERP progress is written; an untouched stage stays pending
+          if (erpStage.status === 'pending' && !current) continue
+          if (current && current.status === erpStage.status && (current.actualDate || null) === actualDate) continue
+
+          const next: StageUpdate = {
+            status: erpStage.status,
+            actualDate,
+            updatedAt: now,
+            updatedBy: ERP_SYNC_USER,
+            source: 'erp',
+            erpSuggestion: null,
+            // Root cause recorded by hand stays with the stage
+            ...(current?.delayReason ? {
+              delayReason: current.delayReason,
+              responsibleParty: current.responsibleParty,
+              delayDays: current.delayDays,
+            } : {}),
           }
+          changes[key] = next
+          history.push(buildHistoryEntry(key, current, next, { email: ERP_SYNC_USER, name: 'ERP sync' }))
+          updated.push({ orderId: order.id, opsNo: order.salesNo, stage: key, from: current?.status || null, to: erpStage.status })
         }
 
-        // Query EHI Neon
-        const fetchEhi = async () => {
-          if (!ehiUrl) return
-          try {
-            const sql = neon(ehiUrl)
-
-            // WIP counts using ehi_carpets.wip_stage
-            const wipRows = await sql`
-              SELECT o.order_no as ops_no,
-                SUM(oi.ordered_qty)::int as total_ordered,
-                COUNT(ec.id)::int as total_carpets,
-                COUNT(CASE WHEN ec.wip_stage = 'on_loom' THEN 1 END)::int as on_loom,
-                COUNT(CASE WHEN ec.wip_stage = 'finishing' THEN 1 END)::int as finishing,
-                COUNT(CASE WHEN ec.wip_stage = 'fg_godown' THEN 1 END)::int as fg_godown,
-                COUNT(CASE WHEN ec.wip_stage = 'packed' THEN 1 END)::int as packed
-              FROM ehi_orders o
-              JOIN ehi_order_items oi ON oi.order_id = o.id
-              LEFT JOIN ehi_carpets ec ON ec.order_item_id = oi.id
-              WHERE o.status = '0' AND o.order_no LIKE 'EM-%' AND o.order_no >= 'EM-25-'
-              GROUP BY o.order_no
-            `
-
-            // RM Purchase (from purchase_indent_detail) + GRN dates
-            const rmRows = await sql`
-              SELECT om.customerorderno as ops_no,
-                BOOL_OR(pid.pindentdetailid IS NOT NULL) as has_indent,
-                BOOL_OR(prd.purchasereceivedetailid IS NOT NULL) as indent_received,
-                MAX(prm.receivedate::date)::text as rm_received_date
-              FROM order_master om
-              LEFT JOIN purchase_indent_detail pid ON pid.orderid = om.orderid
-              LEFT JOIN purchase_receive_detail prd ON prd.orderid = om.orderid
-              LEFT JOIN purchase_receive_master prm ON prm.purchasereceiveid = prd.purchasereceiveid
-              WHERE om.status = '0' AND om.customerorderno LIKE 'EM-%' AND om.customerorderno >= 'EM-25-'
-              GROUP BY om.customerorderno
-            `
-
-            // Dyeing (from indent_detail with DyingType > 0) + dates
-            const dyeRows = await sql`
-              SELECT om.customerorderno as ops_no,
-                BOOL_OR(id.dyingtype > 0) as has_dyeing,
-                BOOL_OR(im.receivedate IS NOT NULL AND id.dyingtype > 0) as dyeing_received,
-                MAX(CASE WHEN id.dyingtype > 0 THEN im."date"::date END)::text as dyeing_issued_date,
-                MAX(CASE WHEN id.dyingtype > 0 AND im.receivedate IS NOT NULL THEN im.receivedate::date END)::text as dyeing_received_date
-              FROM order_master om
-              LEFT JOIN indent_detail id ON id.orderid = om.orderid AND id.dyingtype > 0
-              LEFT JOIN indent_master im ON im.indentid = id.indentid
-              WHERE om.status = '0' AND om.customerorderno LIKE 'EM-%' AND om.customerorderno >= 'EM-25-'
-              GROUP BY om.customerorderno
-            `
-
-            // Build maps (with dates)
-            const rmMap: Record<string, { hasIndent: boolean; indentReceived: boolean; rmReceivedDate?: string }> = {}
-            for (const row of rmRows) {
-              rmMap[row.ops_no] = { hasIndent: row.has_indent || false, indentReceived: row.indent_received || false, rmReceivedDate: row.rm_received_date || null }
-            }
-            const dyeMap: Record<string, { hasDyeingOrder: boolean; dyeingReceived: boolean; dyeingIssuedDate?: string; dyeingReceivedDate?: string }> = {}
-            for (const row of dyeRows) {
-              dyeMap[row.ops_no] = { hasDyeingOrder: row.has_dyeing || false, dyeingReceived: row.dyeing_received || false, dyeingIssuedDate: row.dyeing_issued_date || null, dyeingReceivedDate: row.dyeing_received_date || null }
-            }
+        if (Object.keys(changes).length > 0) {
+          writes.push({ order, template, stages: changes, history })
+        }
+      }
 
-            // Merge (EHI has no carpet date columns)
-            for (const row of wipRows) {
-              const rm = rmMap[row.ops_no] || { hasIndent: false, indentReceived: false }
-              const dye = dyeMap[row.ops_no] || { hasDyeingOrder: false, dyeingReceived: false }
-              if (!stages[row.ops_no]) {
-                stages[row.ops_no] = {
-                  totalOrdered: row.total_ordered || 0,
-                  totalCarpets: row.total_carpets || 0,
-                  onLoom: row.on_loom || 0,
-                  finishing: row.finishing || 0,
-                  fgGodown: row.fg_godown || 0,
-                  packed: row.packed || 0,
-                  dispatched: 0,
-                  hasIndent: rm.hasIndent,
-                  indentReceived: rm.indentReceived,
-                  hasDyeingOrder: dye.hasDyeingOrder,
-                  dyeingReceived: dye.dyeingReceived,
-                  source: 'EHI',
-                  rmReceivedDate: rm.rmReceivedDate || null,
-                  dyeingIssuedDate: dye.dyeingIssuedDate || null,
-                  dyeingReceivedDate: dye.dyeingReceivedDate || null,
-                }
-              }
+      if (!dryRun) {
+        // Tracker update + its history entries stay in the same batch
+        let batch = db.batch()
+        let ops = 0
+        for (const { order, template, stages: changes, history } of writes) {
+          if (ops + history.length + 1 > IMPORT_BATCH_SIZE) {
+            await batch.commit()
+            batch = db.batch()
+            ops = 0
+          }
+
+          const trackerRef = db.collection('production_tracker').doc(order.id)
+          const allStages = { ...order.tracker?.stages, ...changes }
+          if (order.tracker) {
+            const updates: Record<string, any> = {
+              updatedAt: now,
+              currentStage: calculateCurrentStage(allStages, template),
             }
-          } catch (err) {
-            console.error('EHI TNA ERP stages error:', err)
+            Object.entries(changes).forEach(([key, update]) => {
+              updates[`stages.${key}`] = update
+            })
+            batch.update(trackerRef, updates)
+          } else {
+            batch.set(trackerRef, {
+              opsNo: order.salesNo || '',
+              stages: allStages,
+              currentStage: calculateCurrentStage(allStages, template),
+              createdAt: now,
+              updatedAt: now,
+            })
           }
+          history.forEach((entry) => batch.set(trackerRef.collection('history').doc(), entry))
+          ops += history.length + 1
         }
+        if (ops > 0) await batch.commit()
+      }
+
+      return jsonResponse({ success: true, data: { dryRun, checkedOrders, updated, suggestions } })
+    }
 
-        // Run both in parallel
-        await Promise.all([fetchEmpl(), fetchEhi()])
+    // PRODUCTION TRACKER: Accept an ERP status, or lock / unlock a stage against ERP sync
+    // Body: { action: 'accept' | 'lock' | 'unlock' }
+    if (path.match(/^\/production-tracker\/[^/]+\/stage\/[^/]+\/erp$/) && method === 'POST') {
+      const parts = path.split('/')
+      const orderId = parts[2]
+      const stage = parts[4]
 
-        return jsonResponse(stages)
-      } catch (error: any) {
-        console.error('TNA ERP stages error:', error)
-        return jsonResponse(
-          { error: error.message || 'Failed to fetch TNA ERP stages' },
-          500
-        )
+      if (!ERP_STAGE_REVIEWERS.includes(user.role)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot review ERP stages` }, 403)
+      }
+
+      const body = await req.json()
+      const action = body.action
+      if (!['accept', 'lock', 'unlock'].includes(action)) {
+        return jsonResponse({ success: false, error: `Invalid action: ${action}` }, 400)
+      }
+
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(orderId).get()
+      if (!orderDoc.exists) {
+        return jsonResponse({ success: false, error: 'Order not found' }, 404)
+      }
+
+      const template = resolveTnaTemplate(await loadTnaTemplates(), orderDoc.data())
+      if (!template.stages.some((s) => s.key === stage)) {
+        return jsonResponse({ success: false, error: 'Invalid stage' }, 400)
+      }
+
+      const trackerRef = db.collection('production_tracker').doc(orderId)
+      const trackerDoc = await trackerRef.get()
+      const current: StageUpdate | undefined = trackerDoc.data()?.stages?.[stage]
+      const now = new Date().toISOString()
+
+      if (action === 'accept') {
+        if (!current || (!current.erpSuggestion && current.source !== 'erp')) {
+          return jsonResponse({ success: false, error: 'No ERP status to accept for this stage' }, 400)
+        }
+        if (isInspectionBlocked(trackerDoc.data()?.inspectionHold, stage, current.erpSuggestion?.status)) {
+          return jsonResponse({ success: false, error: 'Stage is on hold until the failed inspection is re-inspected' }, 400)
+        }
+
+        const suggestion = current.erpSuggestion
+        const next: StageUpdate = {
+          ...current,
+          ...(suggestion ? { status: suggestion.status, actualDate: suggestion.actualDate } : {}),
+          source: 'erp',
+          erpSuggestion: null,
+          confirmedBy: user.email,
+          confirmedAt: now,
+          updatedAt: now,
+          updatedBy: user.email,
+        }
+
+        const batch = db.batch()
+        const updates: Record<string, any> = { [`stages.${stage}`]: next, updatedAt: now }
+        if (suggestion) {
+          updates.currentStage = calculateCurrentStage({ ...trackerDoc.data()?.stages, [stage]: next }, template)
+          batch.set(trackerRef.collection('history').doc(), buildHistoryEntry(stage, current, next, user))
+        }
+        batch.update(trackerRef, updates)
+        await batch.commit()
+
+        return jsonResponse({ success: true, data: next })
+      }
+
+      // Lock / unlock keeps everything else about the stage
+      const next: StageUpdate = {
+        ...(current || { status: 'pending', actualDate: null, updatedAt: now }),
+        locked: action === 'lock',
+      }
+      if (trackerDoc.exists) {
+        await trackerRef.update({ [`stages.${stage}`]: next, updatedAt: now })
+      } else {
+        await trackerRef.set({ opsNo: body.opsNo || '', stages: { [stage]: next }, createdAt: now, updatedAt: now })
       }
+
+      return jsonResponse({ success: true, data: next })
     }
 
-    // Not found
-    return jsonResponse({ success: false, error: 'Not found' }, 404)
+    // TNA PLANS: Back-schedule target dates from ex-factory for open orders
+    // Body: { orderIds?, overwrite?, dryRun? }. Without orderIds, plans every open order that has none.
+    if (path === '/tna-plans/generate' && method === 'POST') {
+      if (!TNA_PLAN_EDITORS.includes(user.role)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot plan TNA dates` }, 403)
+      }
 
-  } catch (error) {
-    console.error('API Error:', error)
-    return jsonResponse(
-      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      const body = await req.json().catch(() => ({}))
+      const orderIds: string[] | undefined = Array.isArray(body.orderIds) ? body.orderIds : undefined
+      const overwrite = !!body.overwrite
+      const dryRun = !!body.dryRun
+
+      const ordersRef = db.collection('orders').doc('data').collection('orders')
+      let orders: Array<Order & { id: string }>
+      if (orderIds) {
+        const docs = orderIds.length > 0 ? await db.getAll(...orderIds.map((id) => ordersRef.doc(id))) : []
+        orders = docs.filter((doc) => doc.exists).map((doc) => ({ id: doc.id, ...doc.data() } as Order & { id: string }))
+      } else {
+        const snapshot = await ordersRef.where('status', '==', 'sent').get()
+        orders = snapshot.docs
+          .map((doc) => ({ id: doc.id, ...doc.data() } as Order & { id: string }))
+          .filter((o) => o.orderType !== 'samples')
+      }
+
+      const [templates, ordersWithTrackers] = await Promise.all([loadTnaTemplates(), attachTrackers(orders)])
+      const now = new Date().toISOString()
+      const plans: Array<{ orderId: string; opsNo: string; entries: TnaPlanEntry[] }> = []
+      const writes: Array<{ order: (typeof ordersWithTrackers)[number]; plan: TrackerTnaPlan }> = []
+      const skipped: Array<{ orderId: string; opsNo: string; reason: string }> = []
+
+      for (const order of ordersWithTrackers) {
+        const opsNo = order.salesNo || ''
+        if (user.role === 'merchant' && !isOrderMerchant(user, order)) {
+          skipped.push({ orderId: order.id, opsNo, reason: 'Not your order' })
+          continue
+        }
+        if (!overwrite && (order.tracker?.tnaPlan || order.tna?.entries?.length)) {
+          skipped.push({ orderId: order.id, opsNo, reason: 'Already planned' })
+          continue
+        }
+
+        const template = resolveTnaTemplate(templates, order)
+        const entries = generateTnaPlan(template, order)
+        if (!entries) {
+          skipped.push({ orderId: order.id, opsNo, reason: 'No valid ex-factory date' })
+          continue
+        }
+        plans.push({ orderId: order.id, opsNo, entries })
+        writes.push({
+          order,
+          plan: { entries, baseline: entries, source: 'auto', templateId: template.id, generatedAt: now, updatedAt: now, updatedBy: user.email },
+        })
+      }
+
+      if (!dryRun) {
+        for (let i = 0; i < writes.length; i += IMPORT_BATCH_SIZE) {
+          const batch = db.batch()
+          for (const { order, plan } of writes.slice(i, i + IMPORT_BATCH_SIZE)) {
+            batch.set(db.collection('production_tracker').doc(order.id), {
+              opsNo: order.tracker?.opsNo || order.salesNo || '',
+              tnaPlan: plan,
+              updatedAt: now,
+              ...(order.tracker ? {} : { createdAt: now }),
+            }, { merge: true })
+          }
+          await batch.commit()
+        }
+      }
+
+      return jsonResponse({ success: true, data: { dryRun, generated: plans.length, plans, skipped } })
+    }
+
+    // TNA PLANS: Save an edited plan for one order
+    if (path.match(/^\/production-tracker\/[^/]+\/tna-plan$/) && method === 'PUT') {
+      const orderId = path.split('/')[2]
+
+      if (!TNA_PLAN_EDITORS.includes(user.role)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot plan TNA dates` }, 403)
+      }
+
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(orderId).get()
+      if (!orderDoc.exists) {
+        return jsonResponse({ success: false, error: 'Order not found' }, 404)
+      }
+      const order = orderDoc.data()!
+      if (user.role === 'merchant' && !isOrderMerchant(user, order)) {
+        return jsonResponse({ success: false, error: 'Merchants can only plan their own orders' }, 403)
+      }
+
+      const body = await req.json()
+      if (!Array.isArray(body.entries)) {
+        return jsonResponse({ success: false, error: 'entries must be an array' }, 400)
+      }
+
+      const template = resolveTnaTemplate(await loadTnaTemplates(), order)
+      const entries: TnaPlanEntry[] = []
+      for (const stage of template.stages) {
+        const entry = (body.entries as Array<Partial<TnaPlanEntry> | null>).find((e) => e?.stage === stage.key)
+        const targetDate = entry?.targetDate ?? null
+        if (targetDate === null && !stage.optional) {
+          return jsonResponse({ success: false, error: `${stage.label} needs a target date` }, 400)
+        }
+        if (targetDate !== null && !/^\d{4}-\d{2}-\d{2}$/.test(targetDate)) {
+          return jsonResponse({ success: false, error: `Invalid date for ${stage.label}: ${targetDate}` }, 400)
+        }
+        entries.push({ stage: stage.key, targetDate })
+      }
+
+      const now = new Date().toISOString()
+      const trackerRef = db.collection('production_tracker').doc(orderId)
+      const trackerDoc = await trackerRef.get()
+      const previous: TrackerTnaPlan | undefined = trackerDoc.data()?.tnaPlan
+
+      const plan: TrackerTnaPlan = {
+        entries,
+        baseline: previous?.baseline || entries,
+        source: body.source === 'auto' ? 'auto' : 'manual',
+        templateId: template.id,
+        generatedAt: previous?.generatedAt || now,
+        updatedAt: now,
+        updatedBy: user.email,
+        projectedExFactory: null,
+      }
+
+      await trackerRef.set({
+        opsNo: trackerDoc.data()?.opsNo || order.salesNo || '',
+        tnaPlan: plan,
+        updatedAt: now,
+        ...(trackerDoc.exists ? {} : { createdAt: now }),
+      }, { merge: true })
+
+      return jsonResponse({ success: true, data: plan })
+    }
+
+    // TNA PLANS: Carry stage slips through the downstream targets
+    // Body: { dryRun? }. Keeps the baseline and the buffer before ex-factory.
+    if (path.match(/^\/production-tracker\/[^/]+\/tna-plan\/reschedule$/) && method === 'POST') {
+      const orderId = path.split('/')[2]
+
+      if (!TNA_PLAN_EDITORS.includes(user.role)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot plan TNA dates` }, 403)
+      }
+
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(orderId).get()
+      if (!orderDoc.exists) {
+        return jsonResponse({ success: false, error: 'Order not found' }, 404)
+      }
+      const order = orderDoc.data()!
+      if (user.role === 'merchant' && !isOrderMerchant(user, order)) {
+        return jsonResponse({ success: false, error: 'Merchants can only plan their own orders' }, 403)
+      }
+      if (!parsePlanDate(order.shipDate)) {
+        return jsonResponse({ success: false, error: 'Order has no valid ex-factory date' }, 400)
+      }
+
+      const body = await req.json().catch(() => ({}))
+      const dryRun = !!body.dryRun
+
+      const trackerRef = db.collection('production_tracker').doc(orderId)
+      const trackerDoc = await trackerRef.get()
+      const tracker = trackerDoc.data()
+      const template = resolveTnaTemplate(await loadTnaTemplates(), order)
+      const previous: TrackerTnaPlan | undefined = tracker?.tnaPlan
+      const currentEntries = buildTnaEntries(template, order, previous)
+      // Slips are always carried from the baseline, so applying again moves nothing
+      const baselineEntries = previous?.baseline
+        ? buildTnaEntries(template, order, { ...previous, entries: previous.baseline })
+        : currentEntries
+
+      const today = new Date().toISOString().split('T')[0]
+      const { entries, slipDays, projectedExFactory } = rescheduleTnaPlan(
+        baselineEntries,
+        tracker?.stages || {},
+        order.shipDate,
+        today
+      )
+
+      const now = new Date().toISOString()
+      const plan: TrackerTnaPlan = {
+        entries,
+        baseline: previous?.baseline || baselineEntries,
+        source: previous?.source || 'auto',
+        templateId: template.id,
+        generatedAt: previous?.generatedAt || now,
+        updatedAt: now,
+        updatedBy: user.email,
+        rescheduledAt: now,
+        projectedExFactory,
+      }
+
+      if (!dryRun) {
+        await trackerRef.set({
+          opsNo: tracker?.opsNo || order.salesNo || '',
+          tnaPlan: plan,
+          updatedAt: now,
+          ...(trackerDoc.exists ? {} : { createdAt: now }),
+        }, { merge: true })
+      }
+
+      return jsonResponse({
+        success: true,
+        data: { dryRun, previous: currentEntries, plan, slipDays, shipDate: order.shipDate },
+      })
+    }
+
+    // IMPORTS: PPC "Order Status" Excel -> item trackers
+    // Body: { fileName, fileBase64, dryRun }. Dry run (default) returns the preview only.
+    if (path === '/imports/order-status' && method === 'POST') {
+      if (!ITEM_EDITORS.includes(user.role)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot import production figures` }, 403)
+      }
+
+      const body = await req.json()
+      const fileName = String(body.fileName || 'Order Status.xlsx')
+      const dryRun = body.dryRun !== false
+
+      if (!body.fileBase64) {
+        return jsonResponse({ success: false, error: 'fileBase64 is required' }, 400)
+      }
+
+      let sheet: { sheetName: string; rows: OrderStatusRow[] }
+      try {
+        sheet = parseOrderStatusSheet(Buffer.from(String(body.fileBase64), 'base64'))
+      } catch (err) {
+        return jsonResponse({ success: false, error: err instanceof Error ? err.message : 'Could not read Excel file' }, 400)
+      }
+
+      // Group sheet rows by OPS
+      const rowsByOps = new Map<string, OrderStatusRow[]>()
+      for (const row of sheet.rows) {
+        const key = normalizeOpsNo(row.opsNo)
+        if (!rowsByOps.has(key)) rowsByOps.set(key, [])
+        rowsByOps.get(key)!.push(row)
+      }
+
+      // Open orders keyed by normalized OPS
+      const ordersSnapshot = await db.collection('orders').doc('data').collection('orders')
+        .where('status', '==', 'sent')
+        .get()
+      const ordersByOps = new Map<string, Order & { id: string }>()
+      ordersSnapshot.docs.forEach((doc) => {
+        const data = doc.data() as Order
+        ordersByOps.set(normalizeOpsNo(data.salesNo), { id: doc.id, ...data })
+      })
+
+      const unmatchedOps: string[] = []
+      const matchedOrders: Array<Order & { id: string }> = []
+      for (const [key, rows] of rowsByOps) {
+        const order = ordersByOps.get(key)
+        if (order) matchedOrders.push(order)
+        else unmatchedOps.push(rows[0].opsNo)
+      }
+
+      const now = new Date().toISOString()
+      const withTrackers = await attachTrackers(matchedOrders)
+      const unmatchedRows: Array<{ rowNumber: number; opsNo: string; article: string; size: string; reason: string }> = []
+      const preview: OrderStatusImportOrder[] = []
+      const writes: Array<{ order: (typeof withTrackers)[number]; items: Record<string, ProductionItemTracker> }> = []
+
+      for (const order of withTrackers) {
+        const rows = rowsByOps.get(normalizeOpsNo(order.salesNo)) || []
+        const usedItemIds = new Set<string>()
+        const orderPreview: OrderStatusImportOrder = {
+          orderId: order.id,
+          opsNo: order.salesNo,
+          buyerCode: order.customerCode || '',
+          items: [],
+        }
+        const itemWrites: Record<string, ProductionItemTracker> = {}
+
+        for (const row of rows) {
+          const candidates = matchOrderItems(order.items || [], row)
+          const item = candidates.find((c) => !usedItemIds.has(c.id))
+          if (!item) {
+            unmatchedRows.push({
+              rowNumber: row.rowNumber,
+              opsNo: row.opsNo,
+              article: row.article,
+              size: row.size,
+              reason: candidates.length ? 'Duplicate row for item' : 'No matching item on order',
+            })
+            continue
+          }
+          usedItemIds.add(item.id)
+
+          const existing: Partial<ProductionItemTracker> = order.tracker?.items?.[item.id] || {}
+          const next: ProductionItemTracker = {
+            id: item.id,
+            orderId: order.id,
+            opsNo: order.salesNo || '',
+            status: existing.status || '',
+            rcvdPcs: existing.rcvdPcs || 0,
+            toRcvdPcs: existing.toRcvdPcs || 0,
+            oldStock: existing.oldStock || 0,
+            bazarDone: existing.bazarDone || 0,
+            uFinishing: existing.uFinishing || 0,
+            packed: existing.packed || 0,
+            vendorName: existing.vendorName || '',
+            folioNo: existing.folioNo || '',
+            supplierCompletionDate: existing.supplierCompletionDate || '',
+            updatedAt: now,
+            updatedBy: user.email,
+          }
+
+          const changes: Array<{ field: string; from: string | number; to: string | number }> = []
+          for (const field of ORDER_STATUS_IMPORT_FIELDS) {
+            const value = row.values[field]
+            if (value === undefined || value === next[field]) continue
+            changes.push({ field, from: next[field] ?? '', to: value })
+            Object.assign(next, { [field]: value })
+          }
+
+          // Same limits as the item PUT route
+          const itemPcs = Number(item.pcs) || 0
+          let error: string | null = null
+          if (next.rcvdPcs + next.toRcvdPcs > itemPcs) {
+            error = `Rcvd (${next.rcvdPcs}) + To Rcvd (${next.toRcvdPcs}) exceeds item pcs (${itemPcs})`
+          } else if (next.packed > itemPcs) {
+            error = `Packed (${next.packed}) exceeds item pcs (${itemPcs})`
+          }
+
+          orderPreview.items.push({
+            itemId: item.id,
+            label: [item.emDesignName || item.articleName || item.sku, item.size].filter(Boolean).join(' · '),
+            rowNumber: row.rowNumber,
+            changes,
+            error,
+          })
+
+          if (!error && changes.length > 0) itemWrites[item.id] = next
+        }
+
+        preview.push(orderPreview)
+        if (Object.keys(itemWrites).length > 0) writes.push({ order, items: itemWrites })
+      }
+
+      const itemsUpdated = writes.reduce((sum, w) => sum + Object.keys(w.items).length, 0)
+
+      if (!dryRun) {
+        for (let i = 0; i < writes.length; i += IMPORT_BATCH_SIZE) {
+          const batch = db.batch()
+          for (const { order, items } of writes.slice(i, i + IMPORT_BATCH_SIZE)) {
+            batch.set(db.collection('production_tracker').doc(order.id), {
+              opsNo: order.tracker?.opsNo || order.salesNo || '',
+              items,
+              updatedAt: now,
+              ...(order.tracker ? {} : { createdAt: now }),
+            }, { merge: true })
+          }
+          await batch.commit()
+        }
+
+        // Keep the open-OPS list the upload script used to maintain
+        await db.collection('settings').doc('production_status_file').set({
+          opsNumbers: Array.from(new Set(sheet.rows.map((r) => r.opsNo))).sort(),
+          uploadedAt: now,
+          fileName,
+          uploadedBy: user.email,
+        }, { merge: true })
+      }
+
+      // Sort unmatched by sheet order for easy lookup in Excel
+      unmatchedRows.sort((a, b) => a.rowNumber - b.rowNumber)
+
+      return jsonResponse({
+        success: true,
+        data: {
+          fileName,
+          sheetName: sheet.sheetName,
+          dryRun,
+          rowsParsed: sheet.rows.length,
+          itemsUpdated,
+          matchedOrders: preview,
+          unmatchedOps: unmatchedOps.sort(),
+          unmatchedRows,
+        },
+      })
+    }
+
+    // RECONCILIATION: Stored item trackers vs live Neon WIP counts
+    // Query params: tolerance (pcs, default 2). Returns only OPS/items that disagree.
+    if (path === '/reconciliation' && method === 'GET') {
+      const toleranceParam = url.searchParams.get('tolerance')
+      const tolerance = toleranceParam === null ? RECONCILIATION_DEFAULT_TOLERANCE : Number(toleranceParam)
+      if (!Number.isFinite(tolerance) || tolerance < 0) {
+        return jsonResponse({ success: false, error: 'tolerance must be a number of 0 or more' }, 400)
+      }
+
+      const [erpItems, ordersSnapshot] = await Promise.all([
+        fetchErpItemWip(),
+        db.collection('orders').doc('data').collection('orders').where('status', '==', 'sent').get(),
+      ])
+
+      const openOrders = ordersSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Order & { id: string })
+      const orders = await attachTrackers(openOrders)
+
+      const emptyFigures = (): ReconciliationFigures => ({ rcvdPcs: 0, toRcvdPcs: 0, uFinishing: 0 })
+      const fromTracker = (t: Partial<ProductionItemTracker>): ReconciliationFigures => ({
+        rcvdPcs: t.rcvdPcs || 0,
+        toRcvdPcs: t.toRcvdPcs || 0,
+        uFinishing: t.uFinishing || 0,
+      })
+      const fromErp = (e: ErpItemWip): ReconciliationFigures => ({
+        rcvdPcs: e.received,
+        toRcvdPcs: e.onLoom,
+        uFinishing: e.finishing,
+      })
+      const addFigures = (a: ReconciliationFigures, b: ReconciliationFigures): ReconciliationFigures => ({
+        rcvdPcs: a.rcvdPcs + b.rcvdPcs,
+        toRcvdPcs: a.toRcvdPcs + b.toRcvdPcs,
+        uFinishing: a.uFinishing + b.uFinishing,
+      })
+      const exceeds = (manual: ReconciliationFigures, erp: ReconciliationFigures) =>
+        (Object.keys(manual) as Array<keyof ReconciliationFigures>)
+          .filter((field) => Math.abs(manual[field] - erp[field]) > tolerance)
+
+      let checkedOrders = 0
+      const rows: ReconciliationRow[] = []
+
+      for (const order of orders) {
+        const itemTrackers: Record<string, ProductionItemTracker> = order.tracker?.items || {}
+        const wip = erpItems.get(normalizeOpsNo(order.salesNo))
+        if (Object.keys(itemTrackers).length === 0 || !wip) continue
+        checkedOrders++
+
+        // Totals compare the same items on both sides: tracked items and the ERP items they matched
+        let manualTotal = emptyFigures()
+        let erpTotal = emptyFigures()
+        const items: ReconciliationItem[] = []
+        const usedErp = new Set<ErpItemWip>()
+        for (const item of order.items || []) {
+          const tracker = itemTrackers[item.id]
+          if (!tracker) continue
+
+          const erpItem = matchErpItem(wip.filter((e) => !usedErp.has(e)), item)
+          const manual = fromTracker(tracker)
+          const erp = erpItem ? fromErp(erpItem) : null
+          if (erpItem && erp) {
+            usedErp.add(erpItem)
+            manualTotal = addFigures(manualTotal, manual)
+            erpTotal = addFigures(erpTotal, erp)
+          }
+
+          const fields = erp ? exceeds(manual, erp) : []
+          if (erp && fields.length === 0) continue
+
+          items.push({
+            itemId: item.id,
+            label: [item.emDesignName || item.articleName || item.sku, item.size].filter(Boolean).join(' · '),
+            pcs: Number(item.pcs) || 0,
+            manual,
+            erp,
+            mismatchedFields: fields,
+          })
+        }
+
+        const mismatchedFields = exceeds(manualTotal, erpTotal)
+        if (mismatchedFields.length === 0 && items.length === 0) continue
+
+        rows.push({
+          orderId: order.id,
+          opsNo: order.salesNo,
+          buyerCode: order.customerCode || '',
+          merchantCode: order.merchantCode || '',
+          shipDate: order.shipDate || null,
+          source: wip[0].source,
+          manual: manualTotal,
+          erp: erpTotal,
+          mismatchedFields,
+          items,
+          unmatchedErp: wip
+            .filter((e) => !usedErp.has(e))
+            .map((e) => ({ label: [e.design, e.size, e.color].filter(Boolean).join(' · '), erp: fromErp(e) })),
+        })
+      }
+
+      // Largest total disagreement first
+      const totalDiff = (r: ReconciliationRow) => (Object.keys(r.manual) as Array<keyof ReconciliationFigures>)
+        .reduce((sum, field) => sum + Math.abs(r.manual[field] - r.erp[field]), 0)
+      rows.sort((a, b) => totalDiff(b) - totalDiff(a))
+
+      return jsonResponse({ success: true, data: { tolerance, checkedOrders, rows } })
+    }
+
+    // KPI: On-time delivery for shipped (and dispatched open) orders
+    // Query params: fy (two-digit fiscal year, April-March, e.g. 25). Dispatch date is ERP lastDispatchDate,
+    // falling back to the tracker's dispatch stage. Stage on-time % comes from the tracker history.
+    if (path === '/kpi/otd' && method === 'GET') {
+      const fyFilter = url.searchParams.get('fy') || ''
+
+      const [dispatchDates, templates, ordersSnapshot] = await Promise.all([
+        fetchErpLastDispatchDates(),
+        loadTnaTemplates(),
+        db.collection('orders').doc('data').collection('orders').where('status', 'in', ['sent', 'shipped']).get(),
+      ])
+
+      const allOrders = ordersSnapshot.docs
+        .map((doc): Order & { id: string } => ({ id: doc.id, ...(doc.data() as Order) }))
+        .filter((order): order is Order & { id: string; shipDate: string } => !!parsePlanDate(order.shipDate))
+      const fiscalYears = [...new Set(allOrders.map((order) => fiscalYearOf(order.shipDate)))].sort()
+      const orders = await attachTrackers(
+        fyFilter ? allOrders.filter((order) => fiscalYearOf(order.shipDate) === fyFilter) : allOrders
+      )
+
+      const rows: OtdOrderRow[] = []
+      let unmeasured = 0
+      for (const order of orders) {
+        const erpDate = dispatchDates.get(normalizeOpsNo(order.salesNo))
+        const trackerDate: string | null = order.tracker?.stages?.dispatch?.status === 'completed'
+          ? order.tracker.stages.dispatch.actualDate
+          : null
+        const dispatchDate = erpDate || trackerDate
+        if (!dispatchDate) {
+          if (order.status === 'shipped') unmeasured++
+          continue
+        }
+
+        const shipDate = String(order.shipDate).substring(0, 10)
+        const poDate = parsePlanDate(order.buyerPoShipDate) ? String(order.buyerPoShipDate).substring(0, 10) : null
+        rows.push({
+          orderId: order.id,
+          opsNo: order.salesNo,
+          buyerCode: order.customerCode || '',
+          merchantCode: order.merchantCode || '',
+          companyCode: order.companyCode || 'EMPL',
+          fiscalYear: fiscalYearOf(shipDate),
+          shipDate,
+          buyerPoShipDate: poDate,
+          dispatchDate: dispatchDate.substring(0, 10),
+          dispatchSource: erpDate ? 'erp' : 'tracker',
+          delayDays: planDaysBetween(shipDate, dispatchDate),
+          poDelayDays: poDate ? planDaysBetween(poDate, dispatchDate) : null,
+        })
+      }
+
+      // Latest completion per order + stage from the history, against the order's current target
+      const ordersById = new Map(orders.map((order) => [order.id, order]))
+      const completions = await fetchStageCompletions(orders.filter((order) => order.tracker).map((order) => order.id))
+
+      const stageStats = new Map<string, { completed: number; onTime: number; lateDays: number }>()
+      const targetsByOrder = new Map<string, TnaPlanEntry[]>()
+      completions.forEach((entry, key) => {
+        const orderId = key.split('/')[0]
+        const order = ordersById.get(orderId)
+        if (!order) return
+        const targets = targetsByOrder.get(orderId)
+          || buildTnaEntries(resolveTnaTemplate(templates, order), order, order.tracker?.tnaPlan)
+        targetsByOrder.set(orderId, targets)
+        const target = targets.find((e) => e.stage === entry.stage)?.targetDate
+        if (!target || !entry.actualDate) return
+
+        const delay = planDaysBetween(target, entry.actualDate)
+        const stats = stageStats.get(entry.stage) || { completed: 0, onTime: 0, lateDays: 0 }
+        stats.completed++
+        if (delay <= 0) stats.onTime++
+        else stats.lateDays += delay
+        stageStats.set(entry.stage, stats)
+      })
+
+      const groupBy = (keyOf: (row: OtdOrderRow) => string) => {
+        const groups = new Map<string, OtdOrderRow[]>()
+        rows.forEach((row) => groups.set(keyOf(row), [...(groups.get(keyOf(row)) || []), row]))
+        return [...groups.entries()]
+          .map(([key, group]) => ({ key, ...summarizeOtd(group) }))
+          .sort((a, b) => b.orders - a.orders)
+      }
+
+      return jsonResponse({
+        success: true,
+        data: {
+          fiscalYear: fyFilter || null,
+          fiscalYears,
+          unmeasured,
+          summary: summarizeOtd(rows),
+          byBuyer: groupBy((row) => row.buyerCode || 'unknown'),
+          byMerchant: groupBy((row) => row.merchantCode || 'unknown'),
+          byCompany: groupBy((row) => row.companyCode),
+          byFiscalYear: groupBy((row) => row.fiscalYear),
+          stages: [...stageStats.entries()].map(([stage, stats]) => ({
+            stage,
+            completed: stats.completed,
+            onTime: stats.onTime,
+            onTimePercent: Math.round((stats.onTime / stats.completed) * 100),
+            avgDelayDays: stats.completed > stats.onTime
+              ? Math.round((stats.lateDays / (stats.completed - stats.onTime)) * 10) / 10
+              : 0,
+          })),
+          orders: rows.sort((a, b) => b.delayDays - a.delayDays),
+        },
+      })
+    }
+
+    // SHIPMENT PLAN: Open orders grouped by ex-factory week, with per-company totals and ERP readiness
+    // Query params: weeks (default 12). Orders already past ex-factory come first as a past-due group.
+    if (path === '/shipment-plan' && method === 'GET') {
+      const weeksParam = url.searchParams.get('weeks')
+      const weekCount = weeksParam === null ? SHIPMENT_PLAN_DEFAULT_WEEKS : Number(weeksParam)
+      if (!Number.isInteger(weekCount) || weekCount < 1 || weekCount > SHIPMENT_PLAN_MAX_WEEKS) {
+        return jsonResponse({ success: false, error: `weeks must be a whole number from 1 to ${SHIPMENT_PLAN_MAX_WEEKS}` }, 400)
+      }
+
+      const [erpStages, ordersSnapshot] = await Promise.all([
+        fetchErpTnaStages(),
+        db.collection('orders').doc('data').collection('orders').where('status', '==', 'sent').get(),
+      ])
+      const erpByOps = new Map(Object.entries(erpStages).map(([opsNo, data]) => [normalizeOpsNo(opsNo), data]))
+
+      // Monday of the current week; the plan runs weekCount weeks from there
+      const now = new Date()
+      const firstWeek = addPlanDays(now.toISOString().split('T')[0], -((now.getUTCDay() + 6) % 7))
+      const planEnd = addPlanDays(firstWeek, weekCount * 7)
+
+      const weeks: Array<Omit<ShipmentPlanWeek, 'totals'>> = [
+        { weekStart: null, weekEnd: addPlanDays(firstWeek, -1), orders: [] },
+        ...Array.from({ length: weekCount }, (_, i) => ({
+          weekStart: addPlanDays(firstWeek, i * 7),
+          weekEnd: addPlanDays(firstWeek, i * 7 + 6),
+          orders: [],
+        })),
+      ]
+
+      for (const doc of ordersSnapshot.docs) {
+        const order = doc.data() as Order
+        const shipDate = parsePlanDate(order.shipDate) ? String(order.shipDate).substring(0, 10) : null
+        if (!shipDate || shipDate >= planEnd) continue
+
+        const weekIndex = shipDate < firstWeek ? 0 : Math.floor(planDaysBetween(firstWeek, shipDate) / 7) + 1
+        const erp = erpByOps.get(normalizeOpsNo(order.salesNo))
+        const pcs = Number(order.totalPcs) || 0
+
+        weeks[weekIndex].orders.push({
+          orderId: doc.id,
+          opsNo: order.salesNo,
+          buyerCode: order.customerCode || '',
+          buyerName: order.buyerName || '',
+          companyCode: order.companyCode || 'EMPL',
+          merchantCode: order.merchantCode || '',
+          poNo: order.poNo || '',
+          shipDate,
+          pcs,
+          sqm: Number(order.totalSqm) || 0,
+          poValue: Number(order.poValue) || 0,
+          readiness: erp ? shipmentReadiness(erp, pcs) : null,
+          erp: erp
+            ? { ordered: erp.totalOrdered, fgGodown: erp.fgGodown, packed: erp.packed, dispatched: erp.dispatched }
+            : null,
+        })
+      }
+
+      const data = weeks
+        .filter((week) => week.weekStart !== null || week.orders.length > 0)
+        .map((week): ShipmentPlanWeek => {
+          week.orders.sort((a, b) => a.shipDate.localeCompare(b.shipDate))
+          const totals: ShipmentPlanWeek['totals'] = {}
+          week.orders.forEach((o) => {
+            const t = totals[o.companyCode] || (totals[o.companyCode] = { orders: 0, pcs: 0, sqm: 0, poValue: 0 })
+            t.orders++
+            t.pcs += o.pcs
+            t.sqm += o.sqm
+            t.poValue += o.poValue
+          })
+          return { ...week, totals }
+        })
+
+      return jsonResponse({ success: true, data: { firstWeek, weeks: data } })
+    }
+
+    // REPORTS: Delay reason Pareto across all tracked orders (open and shipped)
+    // Query params: buyer (customer code), from / to (yyyy-MM-dd, on the stage's last update)
+    if (path === '/reports/delay-reasons' && method === 'GET') {
+      const buyerFilter = url.searchParams.get('buyer') || ''
+      const from = url.searchParams.get('from') || ''
+      const to = url.searchParams.get('to') || ''
+
+      const trackersSnapshot = await db.collection('production_tracker').get()
+      const delayed = trackersSnapshot.docs.flatMap((doc) => {
+        const stages: Record<string, StageUpdate> = doc.data().stages || {}
+        return Object.entries(stages)
+          .filter(([, s]) => s.delayReason)
+          .filter(([, s]) => (!from || s.updatedAt >= from) && (!to || s.updatedAt.substring(0, 10) <= to))
+          .map(([stage, s]) => ({ orderId: doc.id, opsNo: doc.data().opsNo || '', stage, update: s }))
+      })
+
+      // Buyer codes come from the orders, a batch of refs at a time
+      const ordersRef = db.collection('orders').doc('data').collection('orders')
+      const orderIds = [...new Set(delayed.map((d) => d.orderId))]
+      const buyers = new Map<string, string>()
+      for (let i = 0; i < orderIds.length; i += TRACKER_BATCH_SIZE) {
+        const docs = await db.getAll(...orderIds.slice(i, i + TRACKER_BATCH_SIZE).map((id) => ordersRef.doc(id)))
+        docs.forEach((doc) => buyers.set(doc.id, doc.data()?.customerCode || ''))
+      }
+
+      const entries = delayed
+        .map((d) => ({
+          orderId: d.orderId,
+          opsNo: d.opsNo,
+          buyerCode: buyers.get(d.orderId) || '',
+          stage: d.stage,
+          status: d.update.status,
+          delayReason: d.update.delayReason as DelayReason,
+          responsibleParty: d.update.responsibleParty || null,
+          delayDays: d.update.delayDays || 0,
+          updatedAt: d.update.updatedAt,
+          updatedBy: d.update.updatedBy || null,
+        }))
+      const filtered = buyerFilter ? entries.filter((e) => e.buyerCode === buyerFilter) : entries
+      filtered.sort((a, b) => b.delayDays - a.delayDays)
+
+      return jsonResponse({
+        success: true,
+        data: {
+          total: filtered.length,
+          totalDays: filtered.reduce((sum, e) => sum + e.delayDays, 0),
+          buyers: [...new Set(entries.map((e) => e.buyerCode).filter(Boolean))].sort(),
+          byReason: buildParetoBuckets(filtered, (e) => e.delayReason),
+          byParty: buildParetoBuckets(filtered, (e) => e.responsibleParty || 'unassigned'),
+          byBuyer: buildParetoBuckets(filtered, (e) => e.buyerCode || 'unknown'),
+          entries: filtered,
+        },
+      })
+    }
+
+    // PRODUCTION STATS: Live Neon ERP data (Bazar/Bal per OPS)
+    // Matches Orders app's /api/production-stats exactly
+    if (path === '/production-stats' && method === 'GET') {
+      const stats: Record<string, { pcs: number; bazar: number; bal: number }> = {}
+
+      const emplUrl = process.env.EMPL_DATABASE_URL
+      const ehiUrl = process.env.EHI_DATABASE_URL
+
+      // Query EMPL Neon (neondb)
+      const fetchEmpl = async () => {
+        if (!emplUrl) return
+        try {
+          const sql = neon(emplUrl)
+
+          // Total pcs per OPS
+          const pcsRows = await sql`
+            SELECT o.order_number as ops_no,
+              SUM(oi.ordered_qty)::int as total_pcs
+            FROM orders o
+            JOIN order_items oi ON oi.order_id = o.id
+            WHERE o.status IN ('active','open','Active','Open','confirmed')
+              AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
+            GROUP BY o.order_number
+          `
+
+          // Bazar (WIP) counts per OPS
+          const bazarRows = await sql`
+            SELECT o.order_number as ops_no,
+              COUNT(CASE WHEN c.current_stage NOT IN ('weaving','dispatched','invoiced')
+                    AND c.current_stage IS NOT NULL THEN 1 END)::int as bazar_pcs,
+              COUNT(CASE WHEN c.current_stage = 'dispatched' THEN 1 END)::int as dispatched_pcs
+            FROM orders o
+            JOIN order_items oi ON oi.order_id = o.id
+            LEFT JOIN carpets c ON c.order_item_id = oi.id
+            WHERE o.status IN ('active','open','Active','Open','confirmed')
+              AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
+            GROUP BY o.order_number
+          `
+
+          for (const row of pcsRows) {
+            if (row.ops_no) {
+              stats[row.ops_no] = { pcs: Number(row.total_pcs) || 0, bazar: 0, bal: 0 }
+            }
+          }
+          for (const row of bazarRows) {
+            if (row.ops_no && stats[row.ops_no]) {
+              stats[row.ops_no].bazar = Number(row.bazar_pcs) || 0
+              const dispatched = Number(row.dispatched_pcs) || 0
+              stats[row.ops_no].bal = stats[row.ops_no].pcs - stats[row.ops_no].bazar - dispatched
+              if (stats[row.ops_no].bal < 0) stats[row.ops_no].bal = 0
+            }
+          }
+        } catch (err) {
+          console.error('EMPL production stats error:', err)
+        }
+      }
+
+      // Query EHI Neon (ehi_wip)
+      const fetchEhi = async () => {
+        if (!ehiUrl) return
+        try {
+          const sql = neon(ehiUrl)
+
+          // Total pcs per OPS
+          const pcsRows = await sql`
+            SELECT o.order_no as ops_no,
+              SUM(oi.ordered_qty)::int as total_pcs
+            FROM ehi_orders o
+            JOIN ehi_order_items oi ON oi.order_id = o.id
+            WHERE o.status = '0'
+              AND oi.deleted_at IS NULL
+              AND o.order_no LIKE 'EM-%'
+              AND o.order_no >= 'EM-25-'
+            GROUP BY o.order_no
+          `
+
+          // Bazar counts per OPS
+          const bazarRows = await sql`
+            SELECT o.order_no as ops_no,
+              COUNT(CASE WHEN cn.currentprostatus IS NOT NULL
+                    AND cn.currentprostatus != 1 THEN 1 END)::int as bazar_pcs
+            FROM ehi_orders o
+            JOIN ehi_order_items oi ON oi.order_id = o.id
+            LEFT JOIN carpet_number cn ON cn.orderid = oi.order_id_src
+              AND cn.item_finished_id = oi.item_finished_id
+            WHERE o.status = '0'
+              AND oi.deleted_at IS NULL
+              AND o.order_no LIKE 'EM-%'
+              AND o.order_no >= 'EM-25-'
+            GROUP BY o.order_no
+          `
+
+          // Dispatched (invoiced) carpets per OPS, from the sync's packing/invoice data
+          const dispatchedRows = await sql`
+            SELECT o.order_no as ops_no,
+              COUNT(*)::int as dispatched_pcs
+            FROM ehi_orders o
+            JOIN ehi_order_items oi ON oi.order_id = o.id
+            JOIN ehi_carpets ec ON ec.order_item_id = oi.id
+            WHERE o.status = '0'
+              AND oi.deleted_at IS NULL
+              AND ec.deleted_at IS NULL
+              AND ec.wip_stage = 'dispatched'
+              AND o.order_no LIKE 'EM-%'
+              AND o.order_no >= 'EM-25-'
+            GROUP BY o.order_no
+          `
+          const dispatchedByOps = new Map<string, number>()
+          for (const row of dispatchedRows) {
+            dispatchedByOps.set(row.ops_no, Number(row.dispatched_pcs) || 0)
+          }
+
+          for (const row of pcsRows) {
+            if (row.ops_no) {
+              if (!stats[row.ops_no]) {
+                stats[row.ops_no] = { pcs: Number(row.total_pcs) || 0, bazar: 0, bal: 0 }
+              } else {
+                stats[row.ops_no].pcs += (Number(row.total_pcs) || 0)
+              }
+            }
+          }
+          for (const row of bazarRows) {
+            if (row.ops_no && stats[row.ops_no]) {
+              // Dispatched carpets keep their last process, so they are in bazar_pcs;
+              // take them out so bazar means WIP, as for EMPL
+              const dispatched = dispatchedByOps.get(row.ops_no) || 0
+              stats[row.ops_no].bazar += Math.max(0, (Number(row.bazar_pcs) || 0) - dispatched)
+              stats[row.ops_no].bal = stats[row.ops_no].pcs - stats[row.ops_no].bazar - dispatched
+              if (stats[row.ops_no].bal < 0) stats[row.ops_no].bal = 0
+            }
+          }
+        } catch (err) {
+          console.error('EHI production stats error:', err)
+        }
+      }
+
+      // Run both in parallel
+      await Promise.all([fetchEmpl(), fetchEhi()])
+
+      return jsonResponse(stats)
+    }
+
+    // INSPECTION SCHEDULES: Read from Firestore
+    if (path === '/inspection-schedules' && method === 'GET') {
+      const startDate = url.searchParams.get('startDate')
+      const endDate = url.searchParams.get('endDate')
+
+      // Fetch all inspection_schedules, filter client-side to avoid composite index requirement
+      const snapshot = await db.collection('inspection_schedules').get()
+      let schedules = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as any[]
+
+      // Filter by date range if provided
+      if (startDate) {
+        schedules = schedules.filter(s => s.inspectionDate >= startDate)
+      }
+      if (endDate) {
+        schedules = schedules.filter(s => s.inspectionDate <= endDate)
+      }
+
+      // Sort by date
+      schedules.sort((a, b) =>
+        (a.inspectionDate || '').localeCompare(b.inspectionDate || '')
+      )
+
+      return jsonResponse({ schedules })
+    }
+
+    // INSPECTION SCHEDULES: Schedule an inspection for an order (shared with the Orders app)
+    // Body: { orderId, inspectionDate, inspectionCompany?, articleName?, inspector?, notes? }
+    if (path === '/inspection-schedules' && method === 'POST') {
+      const body = await req.json()
+      const { orderId, inspectionDate, inspectionCompany, articleName, inspector, notes } = body
+
+      if (!orderId || !parsePlanDate(inspectionDate)) {
+        return jsonResponse({ success: false, error: 'orderId and inspectionDate (yyyy-MM-dd) are required' }, 400)
+      }
+      if (inspectionCompany && !['EMPL', 'EHI'].includes(inspectionCompany)) {
+        return jsonResponse({ success: false, error: 'inspectionCompany must be EMPL or EHI' }, 400)
+      }
+
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(orderId).get()
+      if (!orderDoc.exists) {
+        return jsonResponse({ success: false, error: 'Order not found' }, 404)
+      }
+      const order = orderDoc.data() as Order
+      if (!canScheduleInspection(user, order)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot schedule inspections on this order` }, 403)
+      }
+
+      const now = new Date().toISOString()
+      const schedule: InspectionSchedule = {
+        opsNo: order.salesNo,
+        orderId,
+        inspectionDate: String(inspectionDate).substring(0, 10),
+        inspectionCompany: inspectionCompany || order.companyCode || 'EMPL',
+        status: 'scheduled',
+        buyerCode: order.customerCode || '',
+        articleName: articleName || order.items?.[0]?.articleName || '',
+        totalPcs: Number(order.totalPcs) || 0,
+        totalSqm: Number(order.totalSqm) || 0,
+        merchantCode: order.merchantCode || '',
+        inspector: inspector ? String(inspector).trim() : '',
+        scheduledBy: user.email,
+        scheduledAt: now,
+        notes: notes || '',
+        createdAt: now,
+        updatedAt: now,
+      }
+
+      const ref = await db.collection('inspection_schedules').add(schedule)
+      return jsonResponse({ success: true, data: { id: ref.id, ...schedule } }, 201)
+    }
+
+    // INSPECTION SCHEDULES: Reschedule, assign, complete or cancel an inspection
+    // Body: { action, inspectionDate? (reschedule), inspector? (reschedule / assign), notes?, delayReason?, responsibleParty? }
+    // Completing also completes the order's TNA inspection stage (same rules as a manual stage update).
+    if (path.match(/^\/inspection-schedules\/[^/]+$/) && method === 'PATCH') {
+      const scheduleId = path.split('/')[2]
+      const body = await req.json()
+      const { action, inspectionDate, inspector, notes, delayReason, responsibleParty } = body
+
+      if (!INSPECTION_ACTIONS.includes(action)) {
+        return jsonResponse({ success: false, error: `action must be one of ${INSPECTION_ACTIONS.join(', ')}` }, 400)
+      }
+
+      const scheduleRef = db.collection('inspection_schedules').doc(scheduleId)
+      const scheduleDoc = await scheduleRef.get()
+      if (!scheduleDoc.exists) {
+        return jsonResponse({ success: false, error: 'Inspection not found' }, 404)
+      }
+      const schedule = scheduleDoc.data() as InspectionSchedule
+      if (schedule.status === 'completed' || schedule.status === 'cancelled') {
+        return jsonResponse({ success: false, error: `Inspection is already ${schedule.status}` }, 400)
+      }
+
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(schedule.orderId).get()
+      const order = orderDoc.data() as Order | undefined
+      if (!canScheduleInspection(user, order)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot change inspections on this order` }, 403)
+      }
+
+      const now = new Date().toISOString()
+      const update: Partial<InspectionSchedule> = {
+        updatedAt: now,
+        ...(notes !== undefined ? { notes } : {}),
+        ...(inspector !== undefined ? { inspector: String(inspector || '').trim() } : {}),
+      }
+
+      if (action === 'reschedule') {
+        if (!parsePlanDate(inspectionDate)) {
+          return jsonResponse({ success: false, error: 'inspectionDate (yyyy-MM-dd) is required to reschedule' }, 400)
+        }
+        const nextDate = String(inspectionDate).substring(0, 10)
+        if (nextDate === schedule.inspectionDate) {
+          await scheduleRef.update(update)
+          return jsonResponse({ success: true, data: { id: scheduleId, ...schedule, ...update } })
+        }
+        Object.assign(update, { status: 'rescheduled', inspectionDate: nextDate, rescheduledFrom: schedule.inspectionDate })
+        await scheduleRef.update(update)
+        return jsonResponse({ success: true, data: { id: scheduleId, ...schedule, ...update } })
+      }
+
+      if (action === 'assign') {
+        if (inspector === undefined) {
+          return jsonResponse({ success: false, error: 'inspector is required to assign' }, 400)
+        }
+        await scheduleRef.update(update)
+        return jsonResponse({ success: true, data: { id: scheduleId, ...schedule, ...update } })
+      }
+
+      if (action === 'cancel') {
+        update.status = 'cancelled'
+        await scheduleRef.update(update)
+        return jsonResponse({ success: true, data: { id: scheduleId, ...schedule, ...update } })
+      }
+
+      // Complete: inspection record + TNA inspection stage commit together
+      const completion = await prepareInspectionCompletion(user, schedule, order, { delayReason, responsibleParty }, now)
+      if ('error' in completion) {
+        return jsonResponse({ success: false, error: completion.error, ...completion.extra }, completion.status)
+      }
+
+      Object.assign(update, { status: 'completed', completedAt: now })
+      const batch = db.batch()
+      batch.update(scheduleRef, update)
+      addStageWrite(batch, completion.trackerDoc, completion.template, 'inspection', completion.stageUpdate, schedule.opsNo || '', user)
+      await batch.commit()
+
+      return jsonResponse({ success: true, data: { id: scheduleId, ...schedule, ...update } })
+    }
+
+    // INSPECTION CAPACITY: Daily limits per company and inspector, plus holidays and weekend days
+    if (path === '/inspection-capacity' && method === 'GET') {
+      const doc = await db.collection('settings').doc('inspection_capacity').get()
+      return jsonResponse({ success: true, data: { ...DEFAULT_INSPECTION_CAPACITY, ...doc.data() } })
+    }
+
+    // INSPECTION CAPACITY: Replace the capacity settings
+    // Body: { companies: { EMPL, EHI: { inspections, pcs } }, inspectors: [{ name, company, inspections, pcs }], holidays, weekendDays }
+    if (path === '/inspection-capacity' && method === 'PUT') {
+      if (!INSPECTION_CAPACITY_EDITORS.includes(user.role)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot edit inspection capacity` }, 403)
+      }
+
+      const raw: unknown = await req.json()
+      const validationError = validateInspectionCapacity(raw)
+      if (validationError) {
+        return jsonResponse({ success: false, error: validationError }, 400)
+      }
+      const body = raw as InspectionCapacityBody
+
+      const limit = (value: InspectionCapacityLimit): InspectionCapacityLimit => ({
+        inspections: Math.floor(Number(value.inspections) || 0),
+        pcs: Math.floor(Number(value.pcs) || 0),
+      })
+      const capacity: InspectionCapacity = {
+        companies: { EMPL: limit(body.companies.EMPL), EHI: limit(body.companies.EHI) },
+        inspectors: body.inspectors.map((i) => ({ name: String(i.name).trim(), company: i.company, ...limit(i) })),
+        holidays: [...new Set(body.holidays.map((d) => d.substring(0, 10)))].sort(),
+        weekendDays: [...new Set(body.weekendDays)].sort(),
+        updatedAt: new Date().toISOString(),
+        updatedBy: user.email,
+      }
+
+      await db.collection('settings').doc('inspection_capacity').set(capacity)
+      return jsonResponse({ success: true, data: capacity })
+    }
+
+    // INSPECTION RESULTS: Result recorded for one inspection (null until one is saved)
+    if (path.match(/^\/inspection-schedules\/[^/]+\/result$/) && method === 'GET') {
+      const scheduleId = path.split('/')[2]
+      const resultDoc = await db.collection('inspection_results').doc(scheduleId).get()
+      return jsonResponse({ success: true, data: resultDoc.exists ? { id: resultDoc.id, ...resultDoc.data() } : null })
+    }
+
+    // INSPECTION RESULTS: Record the AQL result of an inspection
+    // Body: { inspectionLevel, aql: { critical, major, minor }, defects: [{ type, severity, count, photoUrls, notes? }],
+    //         outcome, inspector, inspectedAt, notes?, reinspectionDate?, delayReason?, responsibleParty? }
+    // Lot size is the scheduled pcs; sample size and accept / reject numbers are computed here.
+    // pass completes the schedule and the TNA inspection stage, and lifts a hold left by an earlier failure.
+    // fail completes the schedule, books a re-inspection and holds packing / dispatch. hold leaves the schedule open.
+    if (path.match(/^\/inspection-schedules\/[^/]+\/result$/) && method === 'PUT') {
+      const scheduleId = path.split('/')[2]
+
+      if (!INSPECTION_RESULT_RECORDERS.includes(user.role)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot record inspection results` }, 403)
+      }
+
+      const body = await req.json()
+      const { inspectionLevel, outcome, inspector, notes, delayReason, responsibleParty } = body
+      const inspectedAt = String(body.inspectedAt || '').substring(0, 10)
+      const aql = { ...DEFAULT_AQL, ...(body.aql || {}) }
+
+      if (!INSPECTION_LEVELS.includes(inspectionLevel)) {
+        return jsonResponse({ success: false, error: `inspectionLevel must be one of ${INSPECTION_LEVELS.join(', ')}` }, 400)
+      }
+      if (!DEFECT_SEVERITIES.every((severity) => AQL_VALUES.includes(Number(aql[severity])))) {
+        return jsonResponse({ success: false, error: `AQL values must be one of ${AQL_VALUES.join(', ')}` }, 400)
+      }
+      if (!INSPECTION_OUTCOMES.includes(outcome)) {
+        return jsonResponse({ success: false, error: `outcome must be one of ${INSPECTION_OUTCOMES.join(', ')}` }, 400)
+      }
+      if (!inspector || !parsePlanDate(inspectedAt)) {
+        return jsonResponse({ success: false, error: 'inspector and inspectedAt (yyyy-MM-dd) are required' }, 400)
+      }
+
+      const defects: InspectionDefect[] = []
+      for (const defect of Array.isArray(body.defects) ? body.defects : []) {
+        const count = Number(defect?.count)
+        if (!DEFECT_TYPES.includes(defect?.type) || !DEFECT_SEVERITIES.includes(defect?.severity) || !Number.isInteger(count) || count < 0) {
+          return jsonResponse({ success: false, error: 'Each defect needs a known type, a severity and a whole count' }, 400)
+        }
+        if (count === 0) continue
+        defects.push({
+          type: defect.type,
+          severity: defect.severity,
+          count,
+          photoUrls: Array.isArray(defect.photoUrls) ? defect.photoUrls.filter((u: unknown) => typeof u === 'string') : [],
+          ...(defect.notes ? { notes: String(defect.notes) } : {}),
+        })
+      }
+
+      const scheduleRef = db.collection('inspection_schedules').doc(scheduleId)
+      const [scheduleDoc, resultDoc] = await Promise.all([
+        scheduleRef.get(),
+        db.collection('inspection_results').doc(scheduleId).get(),
+      ])
+      if (!scheduleDoc.exists) {
+        return jsonResponse({ success: false, error: 'Inspection not found' }, 404)
+      }
+      const schedule = scheduleDoc.data() as InspectionSchedule
+      if (schedule.status === 'cancelled') {
+        return jsonResponse({ success: false, error: 'Inspection is cancelled' }, 400)
+      }
+      const previousOutcome: InspectionOutcome | undefined = resultDoc.data()?.outcome
+      if (previousOutcome === 'pass' || previousOutcome === 'fail') {
+        return jsonResponse({ success: false, error: `Result already recorded as ${previousOutcome}` }, 400)
+      }
+
+      // Sampling: lot = scheduled pcs; a lot smaller than the sample is inspected in full
+      const lotSize = Math.max(0, Number(schedule.totalPcs) || 0)
+      const { codeLetter, sampleSize } = getAqlSample(lotSize, inspectionLevel)
+      const inspectedSample = lotSize > 0 ? Math.min(sampleSize, lotSize) : sampleSize
+      const acceptance = Object.fromEntries(
+        DEFECT_SEVERITIES.map((severity) => [severity, getAqlPlan(codeLetter, Number(aql[severity]))])
+      ) as Record<DefectSeverity, AqlPlan>
+      const totals = Object.fromEntries(
+        DEFECT_SEVERITIES.map((severity) => [severity, defects.filter((d) => d.severity === severity).reduce((sum, d) => sum + d.count, 0)])
+      ) as Record<DefectSeverity, number>
+      const aqlResult: 'pass' | 'fail' = DEFECT_SEVERITIES.every((severity) => totals[severity] < acceptance[severity].reject)
+        ? 'pass'
+        : 'fail'
+
+      if (outcome === 'pass' && aqlResult === 'fail') {
+        return jsonResponse({ success: false, error: 'Defects exceed the AQL; record fail or hold' }, 400)
+      }
+
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(schedule.orderId).get()
+      const order = orderDoc.data() as Order | undefined
+      const now = new Date().toISOString()
+      const today = now.split('T')[0]
+      const batch = db.batch()
+
+      const scheduleUpdate: Partial<InspectionSchedule> = {
+        updatedAt: now,
+        result: { outcome, inspector, inspectedAt, ...totals },
+      }
+
+      if (outcome === 'pass') {
+        // Already completed without a result: the TNA stage was done then
+        if (schedule.status !== 'completed') {
+          const completion = await prepareInspectionCompletion(user, { ...schedule, inspectionDate: inspectedAt }, order, { delayReason, responsibleParty }, now)
+          if ('error' in completion) {
+            return jsonResponse({ success: false, error: completion.error, ...completion.extra }, completion.status)
+          }
+          addStageWrite(batch, completion.trackerDoc, completion.template, 'inspection', completion.stageUpdate, schedule.opsNo || '', user)
+          Object.assign(scheduleUpdate, { status: 'completed', completedAt: now })
+        }
+        // Lifts the hold only when this is the re-inspection it was waiting on
+        const trackerRef = db.collection('production_tracker').doc(schedule.orderId)
+        const hold: InspectionHold | undefined = (await trackerRef.get()).data()?.inspectionHold
+        if (hold?.reinspectionId === scheduleId) {
+          batch.set(trackerRef, { inspectionHold: null, updatedAt: now }, { merge: true })
+        }
+      } else if (outcome === 'fail') {
+        const reinspectionDate = parsePlanDate(body.reinspectionDate) && body.reinspectionDate >= today
+          ? String(body.reinspectionDate).substring(0, 10)
+          : addPlanDays(today, REINSPECTION_LEAD_DAYS)
+        const reinspectionRef = db.collection('inspection_schedules').doc()
+        batch.set(reinspectionRef, {
+          opsNo: schedule.opsNo,
+          orderId: schedule.orderId,
+          inspectionDate: reinspectionDate,
+          inspectionCompany: schedule.inspectionCompany,
+          status: 'scheduled',
+          buyerCode: schedule.buyerCode || '',
+          articleName: schedule.articleName || '',
+          totalPcs: schedule.totalPcs || 0,
+          totalSqm: schedule.totalSqm || 0,
+          merchantCode: schedule.merchantCode || '',
+          scheduledBy: user.email,
+          scheduledAt: now,
+          notes: `Re-inspection after failed inspection on ${inspectedAt}`,
+          reinspectionOf: scheduleId,
+          createdAt: now,
+          updatedAt: now,
+        })
+        const hold: InspectionHold = { scheduleId, reinspectionId: reinspectionRef.id, failedAt: now, failedBy: user.email }
+        batch.set(db.collection('production_tracker').doc(schedule.orderId), { inspectionHold: hold, updatedAt: now }, { merge: true })
+        Object.assign(scheduleUpdate, { status: 'completed', completedAt: now, reinspectionId: reinspectionRef.id })
+      }
+
+      const result: InspectionResult = {
+        scheduleId,
+        orderId: schedule.orderId,
+        opsNo: schedule.opsNo || '',
+        buyerCode: schedule.buyerCode || order?.customerCode || '',
+        designs: [...new Set((order?.items || [])
+          .map((item) => item.emDesignName || item.articleName || '')
+          .filter(Boolean))],
+        inspectionCompany: schedule.inspectionCompany,
+        inspectionLevel: inspectionLevel as InspectionLevel,
+        aql: { critical: Number(aql.critical), major: Number(aql.major), minor: Number(aql.minor) },
+        lotSize,
+        codeLetter,
+        sampleSize: inspectedSample,
+        acceptance,
+        defects,
+        totals,
+        aqlResult,
+        outcome: outcome as InspectionOutcome,
+        inspector: String(inspector),
+        inspectedAt,
+        notes: notes || '',
+        recordedBy: user.email,
+        createdAt: resultDoc.data()?.createdAt || now,
+        updatedAt: now,
+      }
+
+      batch.set(db.collection('inspection_results').doc(scheduleId), result)
+      batch.update(scheduleRef, scheduleUpdate)
+      await batch.commit()
+
+      return jsonResponse({ success: true, data: { id: scheduleId, ...result } })
+    }
+
+    // REPORTS: Defect trend from inspection results, per buyer and per design
+    // Query params: buyer (customer code), from / to (yyyy-MM-dd, on inspectedAt)
+    // An order with several designs counts its inspection against each of them.
+    if (path === '/reports/defects' && method === 'GET') {
+      const buyerFilter = url.searchParams.get('buyer') || ''
+      const from = url.searchParams.get('from') || ''
+      const to = url.searchParams.get('to') || ''
+
+      const snapshot = await db.collection('inspection_results').get()
+      const allResults = snapshot.docs.map((doc) => doc.data() as InspectionResult)
+      const results = allResults
+        .filter((r) => (!from || r.inspectedAt >= from) && (!to || r.inspectedAt <= to))
+        .filter((r) => !buyerFilter || r.buyerCode === buyerFilter)
+        .sort((a, b) => a.inspectedAt.localeCompare(b.inspectedAt))
+
+      const byType = new Map<string, Record<DefectSeverity | 'count', number>>()
+      results.forEach((r) => (r.defects || []).forEach((d) => {
+        const entry = byType.get(d.type) || { count: 0, critical: 0, major: 0, minor: 0 }
+        entry.count += d.count
+        entry[d.severity] += d.count
+        byType.set(d.type, entry)
+      }))
+
+      return jsonResponse({
+        success: true,
+        data: {
+          months: [...new Set(results.map((r) => r.inspectedAt.substring(0, 7)))],
+          buyers: [...new Set(allResults.map((r) => r.buyerCode).filter(Boolean))].sort(),
+          summary: summarizeDefects('all', results),
+          byType: [...byType.entries()]
+            .map(([type, counts]) => ({ type, ...counts }))
+            .sort((a, b) => b.count - a.count),
+          byBuyer: groupDefectTrends(results, (r) => [r.buyerCode || 'unknown']),
+          byDesign: groupDefectTrends(results, (r) => r.designs?.length ? r.designs : ['unknown']),
+        },
+      })
+    }
+
+    // TEDS: List/search all TEDs
+    if (path === '/teds' && method === 'GET') {
+      const search = url.searchParams.get('search')?.toLowerCase()
+
+      const snapshot = await db.collection('tedForms').get()
+      let teds = snapshot.docs.map((doc) => toTedSummary(doc.id, doc.data()))
+
+      // Apply search filter
+      if (search) {
+        teds = teds.filter((t) => {
+          return (
+            t.emDesignNo.toLowerCase().includes(search) ||
+            t.buyerCode.toLowerCase().includes(search) ||
+            t.buyerName.toLowerCase().includes(search) ||
+            t.buyerDesignName.toLowerCase().includes(search) ||
+            t.construction.toLowerCase().includes(search) ||
+            t.productQuality.toLowerCase().includes(search)
+          )
+        })
+      }
+
+      // Sort by ppMeetingDate desc (newest first)
+      teds.sort((a, b) => (b.ppMeetingDate || '').localeCompare(a.ppMeetingDate || ''))
+
+      return jsonResponse({ success: true, data: teds })
+    }
+
+    // TEDS: Get single TED full details
+    if (path.match(/^\/teds\/[^/]+$/) && method === 'GET') {
+      const tedId = path.split('/')[2]
+      const doc = await db.collection('tedForms').doc(tedId).get()
+
+      if (!doc.exists) {
+        return jsonResponse({ success: false, error: 'TED not found' }, 404)
+      }
+
+      const d = doc.data()!
+      const ted = toTedDetail(doc.id, d)
+      const version = await captureTedVersion(doc.id, ted, d)
+
+      return jsonResponse({ success: true, data: { ...ted, version } })
+    }
+
+    // TEDS: Print-ready spec sheet (HTML), with a QR code linking back to the TED in the app.
+    // Query params: orderId + itemId for the loom card (order, item and the pinned TED version)
+    if (path.match(/^\/teds\/[^/]+\/print$/) && method === 'GET') {
+      const tedId = path.split('/')[2]
+      const orderId = url.searchParams.get('orderId')
+      const itemId = url.searchParams.get('itemId')
+
+      const doc = await db.collection('tedForms').doc(tedId).get()
+      if (!doc.exists) {
+        return jsonResponse({ success: false, error: 'TED not found' }, 404)
+      }
+      const ted = toTedDetail(doc.id, doc.data()!)
+      const currentVersion = await captureTedVersion(doc.id, ted, doc.data()!)
+
+      const link = `${url.origin}/?ted=${encodeURIComponent(tedId)}`
+      const qrSvg = await QRCode.toString(link, { type: 'svg', margin: 0, width: 112 })
+
+      if (!orderId) {
+        return htmlResponse(renderTedSheet({ ...ted, version: currentVersion }, qrSvg, link))
+      }
+
+      const orderDoc = await db.collection('orders').doc('data').collection('orders').doc(orderId).get()
+      if (!orderDoc.exists) {
+        return jsonResponse({ success: false, error: 'Order not found' }, 404)
+      }
+      const order = orderDoc.data() as Order
+      const item = (order.items || []).find((i) => i.id === itemId)
+      if (!item) {
+        return jsonResponse({ success: false, error: 'Item not found on order' }, 404)
+      }
+
+      // Produce against the pinned version when the item has one for this TED
+      const trackerDoc = await db.collection('production_tracker').doc(orderId).get()
+      const pin: TedPin | null = trackerDoc.data()?.tedPins?.[item.id] || null
+      let version = currentVersion
+      if (pin?.tedId === tedId && pin.version !== currentVersion) {
+        const versionDoc = await db.collection('ted_versions').doc(tedId).collection('versions').doc(String(pin.version)).get()
+        if (versionDoc.exists) {
+          Object.assign(ted, versionDoc.data()?.fields)
+          version = pin.version
+        }
+      }
+
+      return htmlResponse(renderLoomCard({ ...ted, version }, order, item, !!pin && pin.tedId === tedId, qrSvg, link))
+    }
+
+    // TEDS: Version history, newest first (captures the current doc first if it changed)
+    // Response: [{ version, fields, changedFields, author, editedAt, capturedAt }]
+    if (path.match(/^\/teds\/[^/]+\/versions$/) && method === 'GET') {
+      const tedId = path.split('/')[2]
+      const doc = await db.collection('tedForms').doc(tedId).get()
+
+      if (!doc.exists) {
+        return jsonResponse({ success: false, error: 'TED not found' }, 404)
+      }
+
+      await captureTedVersion(doc.id, toTedDetail(doc.id, doc.data()!), doc.data()!)
+      const snapshot = await db.collection('ted_versions').doc(tedId).collection('versions')
+        .orderBy('version', 'desc')
+        .get()
+
+      return jsonResponse({ success: true, data: snapshot.docs.map((v) => v.data()) })
+    }
+
+    // ============================================================
+    // TNA ERP Stages — Live production stage data from Neon
+    // GET /api/tna-erp-stages
+    // Returns per-OPS stage data for WIP, RM Purchase, and Dyeing
+    // ============================================================
+    if (path === '/tna-erp-stages' && method === 'GET') {
+      try {
+        const emplUrl = process.env.EMPL_DATABASE_URL
+        const ehiUrl = process.env.EHI_DATABASE_URL
+
+        if (!emplUrl && !ehiUrl) {
+          return jsonResponse({ error: 'Neon connection strings not configured' }, 500)
+        }
+
+        const stages = await fetchErpTnaStages()
+
+        return jsonResponse(stages)
+      } catch (error: any) {
+        console.error('TNA ERP stages error:', error)
+        return jsonResponse(
+          { error: error.message || 'Failed to fetch TNA ERP stages' },
+          500
+        )
+      }
+    }
+
+    // ============================================================
+    // Sync Status — How fresh the ERP data behind the dashboard is
+    // GET /api/sync-status
+    // Returns { staleAfterMinutes, checkedAt, sources: SyncSourceStatus[] }
+    // ============================================================
+    if (path === '/sync-status' && method === 'GET') {
+      const staleAfterMinutes = Number(process.env.SYNC_STALE_AFTER_MINUTES) || DEFAULT_SYNC_STALE_AFTER_MINUTES
+      const sources = await Promise.all([
+        fetchEhiSyncStatus(staleAfterMinutes),
+        fetchEmplSyncStatus(),
+      ])
+      return jsonResponse({
+        success: true,
+        data: { staleAfterMinutes, checkedAt: new Date().toISOString(), sources },
+      })
+    }
+
+    // ============================================================
+    // EHI Process Stages — Process → WIP stage mapping used by the sync
+    // GET /api/ehi-process-stages
+    // PUT /api/ehi-process-stages  Body: { stages: [{ processId, wipStage }] }
+    // Saving re-derives wip_stage on existing carpets and their events, so
+    // counts and dwell times follow the new mapping without a resync.
+    // ============================================================
+    if (path === '/ehi-process-stages' && method === 'GET') {
+      if (!process.env.EHI_DATABASE_URL) {
+        return jsonResponse({ success: false, error: 'EHI connection string not configured' }, 500)
+      }
+
+      const stages = await fetchEhiProcessStages(process.env.EHI_DATABASE_URL)
+      return jsonResponse({ success: true, data: stages })
+    }
+
+    if (path === '/ehi-process-stages' && method === 'PUT') {
+      if (!EHI_STAGE_MAP_EDITORS.includes(user.role)) {
+        return jsonResponse({ success: false, error: `Role '${user.role}' cannot edit the EHI stage mapping` }, 403)
+      }
+      if (!process.env.EHI_DATABASE_URL) {
+        return jsonResponse({ success: false, error: 'EHI connection string not configured' }, 500)
+      }
+
+      const body = await req.json()
+      const changes: Array<{ processId: number; wipStage: string }> = Array.isArray(body.stages) ? body.stages : []
+      if (changes.length === 0) {
+        return jsonResponse({ success: false, error: 'stages must be a non-empty array' }, 400)
+      }
+      const invalid = changes.find((c) => !Number.isInteger(c?.processId) || !EHI_PROCESS_STAGES.includes(c?.wipStage))
+      if (invalid) {
+        return jsonResponse({ success: false, error: `Invalid mapping: ${JSON.stringify(invalid)}` }, 400)
+      }
+
+      const sql = neon(process.env.EHI_DATABASE_URL)
+      const processIds = changes.map((c) => c.processId)
+      const wipStages = changes.map((c) => c.wipStage)
+
+      // Dispatched carpets and events keep their stage; everything else follows the map
+      const [, carpetsUpdated] = await sql.transaction([
+        sql`
+          INSERT INTO ehi_process_stage_map (process_id, wip_stage, updated_at, updated_by)
+          SELECT u.process_id, u.wip_stage, NOW(), ${user.email}
+          FROM unnest(${processIds}::int[], ${wipStages}::text[]) AS u(process_id, wip_stage)
+          ON CONFLICT (process_id) DO UPDATE SET
+            wip_stage = EXCLUDED.wip_stage, updated_at = NOW(), updated_by = EXCLUDED.updated_by
+          WHERE ehi_process_stage_map.wip_stage <> EXCLUDED.wip_stage
+        `,
+        sql`
+          UPDATE ehi_carpets ec SET wip_stage = m.wip_stage
+          FROM ehi_process_stage_map m
+          WHERE ec.current_process = m.process_id
+            AND ec.wip_stage <> 'dispatched'
+            AND ec.wip_stage IS DISTINCT FROM m.wip_stage
+          RETURNING ec.id
+        `,
+        sql`
+          UPDATE ehi_carpet_events e SET to_stage = m.wip_stage
+          FROM ehi_process_stage_map m
+          WHERE e.to_process = m.process_id
+            AND e.to_stage <> 'dispatched'
+            AND e.to_stage IS DISTINCT FROM m.wip_stage
+        `,
+        sql`
+          UPDATE ehi_carpet_events e SET from_stage = m.wip_stage
+          FROM ehi_process_stage_map m
+          WHERE e.from_process = m.process_id
+            AND e.from_stage <> 'dispatched'
+            AND e.from_stage IS DISTINCT FROM m.wip_stage
+        `,
+      ])
+
+      const stages = await fetchEhiProcessStages(process.env.EHI_DATABASE_URL)
+      return jsonResponse({ success: true, data: { stages, carpetsUpdated: carpetsUpdated.length } })
+    }
+
+    // ============================================================
+    // EHI Stage Dwell — Time spent per WIP stage, from carpet events
+    // GET /api/ehi-stage-dwell
+    // Returns { [opsNo]: EhiStageDwell[] } for open EHI orders
+    // ============================================================
+    if (path === '/ehi-stage-dwell' && method === 'GET') {
+      if (!process.env.EHI_DATABASE_URL) {
+        return jsonResponse({ success: false, error: 'EHI connection string not configured' }, 500)
+      }
+
+      const dwell = await fetchEhiStageDwell(process.env.EHI_DATABASE_URL)
+      return jsonResponse({ success: true, data: dwell })
+    }
+
+    // Not found
+    return jsonResponse({ success: false, error: 'Not found' }, 404)
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
       500
     )
   }
 }
 
-// Helper to calculate current stage
+// Helper to verify the Firebase ID token from the Authorization header.
+// Returns the verified user, or a 401/403 response to send back as-is.
+async function authenticate(req: Request): Promise<AuthUser | Response> {
+  const header = req.headers.get('authorization') || ''
+  const match = header.match(/^Bearer\s+(.+)$/i)
+  if (!match) {
+    return jsonResponse({ success: false, error: 'Missing auth token' }, 401)
+  }
+
+  let decoded
+  try {
+    decoded = await adminAuth.verifyIdToken(match[1])
+  } catch (err) {
+    console.error('Token verification failed:', err)
+    return jsonResponse({ success: false, error: 'Invalid or expired auth token' }, 401)
+  }
+
+  const email = decoded.email || ''
+  if (!email.endsWith(ALLOWED_EMAIL_DOMAIN) || decoded.email_verified === false) {
+    return jsonResponse({ success: false, error: 'Access restricted to @easternmills.com accounts only' }, 403)
+  }
+
+  // Look up role; unknown users are read-only viewers
+  const roleDoc = await db.collection('user_roles').doc(email.toLowerCase()).get()
+  const roleData = roleDoc.exists ? roleDoc.data() : undefined
+  const role: UserRole = USER_ROLES.includes(roleData?.role) ? roleData!.role : 'viewer'
+
+  return {
+    uid: decoded.uid,
+    email,
+    name: decoded.name || null,
+    role,
+    merchantCode: roleData?.merchantCode || null,
+  }
+}
+
+// Roles allowed to edit item-level production figures (the PPC sheet)
+const ITEM_EDITORS: UserRole[] = ['ppc', 'director']
+
+// Helper to check whether a user may update a TNA stage on an order.
+// Merchants are limited to orders where they are the merchant or assistant.
+function canUpdateStage(
+  user: AuthUser,
+  stage: TnaTemplateStage,
+  order: { merchantCode?: string; assistantMerchantCode?: string } | undefined
+): boolean {
+  if (user.role === 'director') return true
+  const editors = stage.editors || STAGE_EDITORS[stage.key as TnaStage] || CUSTOM_STAGE_EDITORS
+  if (!editors.includes(user.role)) return false
+
+  if (user.role === 'merchant') return isOrderMerchant(user, order)
+
+  return true
+}
+
+// Helper to check whether a user may schedule or change inspections on an order
+function canScheduleInspection(
+  user: AuthUser,
+  order: { merchantCode?: string; assistantMerchantCode?: string } | undefined
+): boolean {
+  if (!INSPECTION_SCHEDULERS.includes(user.role)) return false
+  if (user.role === 'merchant') return isOrderMerchant(user, order)
+  return true
+}
+
+// Helper to check whether a merchant is the merchant or assistant on an order
+function isOrderMerchant(
+  user: AuthUser,
+  order: { merchantCode?: string; assistantMerchantCode?: string } | undefined
+): boolean {
+  if (!order || !user.merchantCode) return false
+  return order.merchantCode === user.merchantCode || order.assistantMerchantCode === user.merchantCode
+}
+
+// Helper to summarise on-time delivery for a set of dispatched orders
+function summarizeOtd(rows: OtdOrderRow[]): OtdStats {
+  const late = rows.filter((row) => row.delayDays > 0)
+  const withPo = rows.filter((row) => row.poDelayDays !== null)
+  const onTimeVsPo = withPo.filter((row) => (row.poDelayDays || 0) <= 0).length
+  const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0)
+
+  return {
+    orders: rows.length,
+    onTime: rows.length - late.length,
+    otdPercent: percent(rows.length - late.length, rows.length),
+    onTimeVsPo,
+    otdVsPoPercent: percent(onTimeVsPo, withPo.length),
+    avgDelayDays: late.length > 0
+      ? Math.round((late.reduce((sum, row) => sum + row.delayDays, 0) / late.length) * 10) / 10
+      : 0,
+  }
+}
+
+// Helper to get the two-digit Indian fiscal year (April-March) of a date
+// (same convention as getCurrentFiscalYear() in src/lib/utils.ts)
+function fiscalYearOf(date: string): string {
+  const parsed = parsePlanDate(date)
+  if (!parsed) return ''
+  const year = parsed.getUTCMonth() < 3 ? parsed.getUTCFullYear() - 1 : parsed.getUTCFullYear()
+  return String(year).slice(-2)
+}
+
+// Helper to score how ready an order is to ship (0-100) from ERP dispatched / packed / FG godown counts.
+// EMPL only reports dispatched, so its orders score on that alone.
+function shipmentReadiness(erp: ErpStageData, orderPcs: number): number {
+  const total = erp.totalOrdered || orderPcs
+  if (total <= 0) return 0
+  const ready = erp.dispatched * READINESS_WEIGHTS.dispatched
+    + erp.packed * READINESS_WEIGHTS.packed
+    + erp.fgGodown * READINESS_WEIGHTS.fgGodown
+  return Math.min(100, Math.round((ready / total) * 100))
+}
+
+// Helper to group delayed stages for a Pareto chart: most frequent first, with the running share of all delays
+function buildParetoBuckets<T extends { delayDays: number }>(
+  entries: T[],
+  keyOf: (entry: T) => string
+): Array<{ key: string; count: number; days: number; cumulativePercent: number }> {
+  const groups = new Map<string, { count: number; days: number }>()
+  entries.forEach((entry) => {
+    const group = groups.get(keyOf(entry)) || { count: 0, days: 0 }
+    group.count++
+    group.days += entry.delayDays
+    groups.set(keyOf(entry), group)
+  })
+
+  let running = 0
+  return [...groups.entries()]
+    .sort((a, b) => b[1].count - a[1].count || b[1].days - a[1].days)
+    .map(([key, group]) => {
+      running += group.count
+      return { key, ...group, cumulativePercent: Math.round((running / entries.length) * 100) }
+    })
+}
+
+// Helper to load production_tracker docs for a list of orders with batched getAll() reads
+async function attachTrackers<T extends { id: string }>(orders: T[]): Promise<Array<T & { tracker?: ProductionTracker }>> {
+  const trackers = new Map<string, ProductionTracker>()
+
+  for (let i = 0; i < orders.length; i += TRACKER_BATCH_SIZE) {
+    const refs = orders
+      .slice(i, i + TRACKER_BATCH_SIZE)
+      .map((order) => db.collection('production_tracker').doc(order.id))
+    const docs = await db.getAll(...refs)
+    docs.forEach((doc) => {
+      if (doc.exists) trackers.set(doc.id, { id: doc.id, ...doc.data() } as ProductionTracker)
+    })
+  }
+
+  return orders.map((order) => ({ ...order, tracker: trackers.get(order.id) }))
+}
+
+// Helper to get the latest completion per order + stage from the tracker history of the given
+// orders, keyed `${orderId}/${stage}`. Reads each order's history subcollection, TRACKER_BATCH_SIZE
+// orders at a time, so only the orders in scope are read.
+async function fetchStageCompletions(orderIds: string[]): Promise<Map<string, StageHistoryEntry>> {
+  const completions = new Map<string, StageHistoryEntry>()
+
+  for (let i = 0; i < orderIds.length; i += TRACKER_BATCH_SIZE) {
+    const batchIds = orderIds.slice(i, i + TRACKER_BATCH_SIZE)
+    const snapshots = await Promise.all(batchIds.map((orderId) =>
+      db.collection('production_tracker').doc(orderId).collection('history')
+        .where('newStatus', '==', 'completed')
+        .get()
+    ))
+
+    snapshots.forEach((snapshot, index) => {
+      snapshot.docs.forEach((doc) => {
+        const entry = doc.data() as StageHistoryEntry
+        if (!entry.actualDate) return
+        const key = `${batchIds[index]}/${entry.stage}`
+        const existing = completions.get(key)
+        if (!existing || existing.changedAt < entry.changedAt) completions.set(key, entry)
+      })
+    })
+  }
+
+  return completions
+}
+
+// Helper to search open orders: every search word must appear (case-insensitive) in the OPS
+// number, buyer code or buyer name. Orders belong to the Orders app, so there is no search index
+// to query; this reads the open orders only (status == 'sent').
+async function searchOpenOrders(search: string): Promise<Array<Order & { id: string }>> {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return []
+
+  const snapshot = await db.collection('orders').doc('data').collection('orders')
+    .where('status', '==', 'sent')
+    .get()
+
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as Order & { id: string })
+    .filter((order) => {
+      const text = [order.salesNo, order.customerCode, order.buyerName].join(' ').toLowerCase()
+      return words.every((word) => text.includes(word))
+    })
+}
+
+// Helper to normalize OPS numbers for matching: "OPS-25444" and "EM-25-0444" -> "EM-25-444"
+function normalizeOpsNo(opsNo: unknown): string {
+  const value = String(opsNo || '').trim().toUpperCase()
+  const em = value.match(/^EM-(\d{2})-0*(\d+)/)
+  if (em) return `EM-${em[1]}-${em[2]}`
+  const ops = value.match(/^OPS-(\d{2})0*(\d+)$/)
+  if (ops) return `EM-${ops[1]}-${ops[2]}`
+  return value
+}
+
+// Helper to load per-OPS TNA stage data (WIP, RM purchase, dyeing, dates) from both Neon databases.
+// Keyed by ERP order number; a database without a connection string is skipped.
+async function fetchErpTnaStages(): Promise<Record<string, ErpStageData>> {
+  const emplUrl = process.env.EMPL_DATABASE_URL
+  const ehiUrl = process.env.EHI_DATABASE_URL
+
+  const stages: Record<string, ErpStageData> = {}
+
+  // Query EMPL Neon
+  const fetchEmpl = async () => {
+    if (!emplUrl) return
+    try {
+      const sql = neon(emplUrl)
+
+      // WIP counts + carpet dates
+      const wipRows = await sql`
+        SELECT o.order_number as ops_no,
+          SUM(oi.ordered_qty)::int as total_ordered,
+          COUNT(c.id)::int as total_carpets,
+          COUNT(CASE WHEN c.current_stage = 'weaving' THEN 1 END)::int as on_loom,
+          COUNT(CASE WHEN c.current_stage NOT IN ('weaving','dispatched','invoiced')
+                AND c.current_stage IS NOT NULL THEN 1 END)::int as bazar,
+          COUNT(CASE WHEN c.current_stage = 'dispatched' THEN 1 END)::int as dispatched,
+          MIN(c.bazar_date) as first_bazar_date,
+          MAX(c.bazar_date) as last_bazar_date,
+          MIN(c.dispatch_date) as first_dispatch_date,
+          MAX(c.dispatch_date) as last_dispatch_date
+        FROM orders o
+        JOIN order_items oi ON oi.order_id = o.id
+        LEFT JOIN carpets c ON c.order_item_id = oi.id
+        WHERE o.status IN ('active','open','Active','Open','confirmed')
+          AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
+        GROUP BY o.order_number
+      `
+
+      // RM Purchase
+      const rmRows = await sql`
+        SELECT o.order_number as ops_no,
+          BOOL_OR(pi.id IS NOT NULL) as has_indent,
+          BOOL_OR(pi.status IN ('received', 'billed')) as indent_received
+        FROM orders o
+        LEFT JOIN purchase_indent_items pii ON pii.order_id = o.id
+        LEFT JOIN purchase_indents pi ON pi.id = pii.indent_id
+        WHERE o.status IN ('active','open','Active','Open','confirmed')
+          AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
+        GROUP BY o.order_number
+      `
+
+      // Dyeing + dates from material_ledger
+      const dyeRows = await sql`
+        SELECT o.order_number as ops_no,
+          BOOL_OR(do2.id IS NOT NULL OR ml_di.id IS NOT NULL) as has_dyeing,
+          BOOL_OR(doi.received_qty > 0 OR ml_dr.id IS NOT NULL) as dyeing_received,
+          MAX(CASE WHEN ml.transaction_type = 'DI' THEN ml.slip_date END) as dyeing_issued_date,
+          MAX(CASE WHEN ml.transaction_type = 'DR' THEN ml.slip_date END) as dyeing_received_date,
+          MAX(CASE WHEN ml.transaction_type = 'PR' THEN ml.slip_date END) as rm_received_date
+        FROM orders o
+        LEFT JOIN dyeing_orders do2 ON do2.order_id = o.id
+        LEFT JOIN dyeing_order_items doi ON doi.dyeing_order_id = do2.id
+        LEFT JOIN material_ledger ml_di ON ml_di.order_id = o.id AND ml_di.transaction_type = 'DI'
+        LEFT JOIN material_ledger ml_dr ON ml_dr.order_id = o.id AND ml_dr.transaction_type = 'DR'
+        LEFT JOIN material_ledger ml ON ml.order_id = o.id AND ml.transaction_type IN ('DI','DR','PR')
+        WHERE o.status IN ('active','open','Active','Open','confirmed')
+          AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
+        GROUP BY o.order_number
+      `
+
+      // Build RM map
+      const rmMap: Record<string, { hasIndent: boolean; indentReceived: boolean }> = {}
+      for (const row of rmRows) {
+        rmMap[row.ops_no] = { hasIndent: row.has_indent || false, indentReceived: row.indent_received || false }
+      }
+
+      // Build dyeing map (with dates)
+      const dyeMap: Record<string, { hasDyeingOrder: boolean; dyeingReceived: boolean; dyeingIssuedDate?: string; dyeingReceivedDate?: string; rmReceivedDate?: string }> = {}
+      for (const row of dyeRows) {
+        dyeMap[row.ops_no] = {
+          hasDyeingOrder: row.has_dyeing || false,
+          dyeingReceived: row.dyeing_received || false,
+          dyeingIssuedDate: row.dyeing_issued_date || null,
+          dyeingReceivedDate: row.dyeing_received_date || null,
+          rmReceivedDate: row.rm_received_date || null,
+        }
+      }
+
+      // Merge WIP + RM + Dyeing
+      for (const row of wipRows) {
+        const rm = rmMap[row.ops_no] || { hasIndent: false, indentReceived: false }
+        const dye = dyeMap[row.ops_no] || { hasDyeingOrder: false, dyeingReceived: false }
+        stages[row.ops_no] = {
+          totalOrdered: row.total_ordered || 0,
+          totalCarpets: row.total_carpets || 0,
+          onLoom: row.on_loom || 0,
+          finishing: row.bazar || 0,  // EMPL: all bazar = finishing
+          fgGodown: 0,  // Not distinguishable in EMPL
+          packed: 0,    // Not distinguishable in EMPL
+          dispatched: row.dispatched || 0,
+          hasIndent: rm.hasIndent,
+          indentReceived: rm.indentReceived,
+          hasDyeingOrder: dye.hasDyeingOrder,
+          dyeingReceived: dye.dyeingReceived,
+          source: 'EMPL',
+          rmReceivedDate: dye.rmReceivedDate || null,
+          dyeingIssuedDate: dye.dyeingIssuedDate || null,
+          dyeingReceivedDate: dye.dyeingReceivedDate || null,
+          firstBazarDate: row.first_bazar_date || null,
+          lastBazarDate: row.last_bazar_date || null,
+          firstDispatchDate: row.first_dispatch_date || null,
+          lastDispatchDate: row.last_dispatch_date || null,
+        }
+      }
+    } catch (err) {
+      console.error('EMPL TNA ERP stages error:', err)
+    }
+  }
+
+  // Query EHI Neon
+  const fetchEhi = async () => {
+    if (!ehiUrl) return
+    try {
+      const sql = neon(ehiUrl)
+
+      // WIP counts using ehi_carpets.wip_stage
+      const wipRows = await sql`
+        SELECT o.order_no as ops_no,
+          SUM(oi.ordered_qty)::int as total_ordered,
+          COUNT(ec.id)::int as total_carpets,
+          COUNT(CASE WHEN ec.wip_stage = 'on_loom' THEN 1 END)::int as on_loom,
+          COUNT(CASE WHEN ec.wip_stage = 'finishing' THEN 1 END)::int as finishing,
+          COUNT(CASE WHEN ec.wip_stage = 'fg_godown' THEN 1 END)::int as fg_godown,
+          COUNT(CASE WHEN ec.wip_stage = 'packed' THEN 1 END)::int as packed,
+          COUNT(CASE WHEN ec.wip_stage = 'dispatched' THEN 1 END)::int as dispatched,
+          MIN(ec.dispatch_date)::text as first_dispatch_date,
+          MAX(ec.dispatch_date)::text as last_dispatch_date
+        FROM ehi_orders o
+        JOIN ehi_order_items oi ON oi.order_id = o.id
+        LEFT JOIN ehi_carpets ec ON ec.order_item_id = oi.id AND ec.deleted_at IS NULL
+        WHERE o.status = '0' AND oi.deleted_at IS NULL AND o.order_no LIKE 'EM-%' AND o.order_no >= 'EM-25-'
+        GROUP BY o.order_no
+      `
+
+      // RM Purchase (from purchase_indent_detail) + GRN dates
+      const rmRows = await sql`
+        SELECT om.customerorderno as ops_no,
+          BOOL_OR(pid.pindentdetailid IS NOT NULL) as has_indent,
+          BOOL_OR(prd.purchasereceivedetailid IS NOT NULL) as indent_received,
+          MAX(prm.receivedate::date)::text as rm_received_date
+        FROM order_master om
+        LEFT JOIN purchase_indent_detail pid ON pid.orderid = om.orderid
+        LEFT JOIN purchase_receive_detail prd ON prd.orderid = om.orderid
+        LEFT JOIN purchase_receive_master prm ON prm.purchasereceiveid = prd.purchasereceiveid
+        WHERE om.status = '0' AND om.customerorderno LIKE 'EM-%' AND om.customerorderno >= 'EM-25-'
+        GROUP BY om.customerorderno
+      `
+
+      // Dyeing (from indent_detail with DyingType > 0) + dates
+      const dyeRows = await sql`
+        SELECT om.customerorderno as ops_no,
+          BOOL_OR(id.dyingtype > 0) as has_dyeing,
+          BOOL_OR(im.receivedate IS NOT NULL AND id.dyingtype > 0) as dyeing_received,
+          MAX(CASE WHEN id.dyingtype > 0 THEN im."date"::date END)::text as dyeing_issued_date,
+          MAX(CASE WHEN id.dyingtype > 0 AND im.receivedate IS NOT NULL THEN im.receivedate::date END)::text as dyeing_received_date
+        FROM order_master om
+        LEFT JOIN indent_detail id ON id.orderid = om.orderid AND id.dyingtype > 0
+        LEFT JOIN indent_master im ON im.indentid = id.indentid
+        WHERE om.status = '0' AND om.customerorderno LIKE 'EM-%' AND om.customerorderno >= 'EM-25-'
+        GROUP BY om.customerorderno
+      `
+
+      // Build maps (with dates)
+      const rmMap: Record<string, { hasIndent: boolean; indentReceived: boolean; rmReceivedDate?: string }> = {}
+      for (const row of rmRows) {
+        rmMap[row.ops_no] = { hasIndent: row.has_indent || false, indentReceived: row.indent_received || false, rmReceivedDate: row.rm_received_date || null }
+      }
+      const dyeMap: Record<string, { hasDyeingOrder: boolean; dyeingReceived: boolean; dyeingIssuedDate?: string; dyeingReceivedDate?: string }> = {}
+      for (const row of dyeRows) {
+        dyeMap[row.ops_no] = { hasDyeingOrder: row.has_dyeing || false, dyeingReceived: row.dyeing_received || false, dyeingIssuedDate: row.dyeing_issued_date || null, dyeingReceivedDate: row.dyeing_received_date || null }
+      }
+
+      // Bazar dates: first/last carpet leaving the loom, from the sync's process events
+      const bazarRows = await sql`
+        SELECT o.order_no as ops_no,
+          MIN(e.event_at::date)::text as first_bazar_date,
+          MAX(e.event_at::date)::text as last_bazar_date
+        FROM ehi_carpet_events e
+        JOIN ehi_carpets ec ON ec.stock_no = e.stock_no AND ec.deleted_at IS NULL
+        JOIN ehi_order_items oi ON oi.id = ec.order_item_id AND oi.deleted_at IS NULL
+        JOIN ehi_orders o ON o.id = oi.order_id
+        WHERE e.from_stage = 'on_loom' AND e.to_stage <> 'on_loom'
+          AND o.status = '0' AND o.order_no LIKE 'EM-%' AND o.order_no >= 'EM-25-'
+        GROUP BY o.order_no
+      `
+      const bazarMap: Record<string, { firstBazarDate: string | null; lastBazarDate: string | null }> = {}
+      for (const row of bazarRows) {
+        bazarMap[row.ops_no] = { firstBazarDate: row.first_bazar_date || null, lastBazarDate: row.last_bazar_date || null }
+      }
+
+      // Merge
+      for (const row of wipRows) {
+        const rm = rmMap[row.ops_no] || { hasIndent: false, indentReceived: false }
+        const dye = dyeMap[row.ops_no] || { hasDyeingOrder: false, dyeingReceived: false }
+        if (!stages[row.ops_no]) {
+          stages[row.ops_no] = {
+            totalOrdered: row.total_ordered || 0,
+            totalCarpets: row.total_carpets || 0,
+            onLoom: row.on_loom || 0,
+            finishing: row.finishing || 0,
+            fgGodown: row.fg_godown || 0,
+            packed: row.packed || 0,
+            dispatched: row.dispatched || 0,
+            hasIndent: rm.hasIndent,
+            indentReceived: rm.indentReceived,
+            hasDyeingOrder: dye.hasDyeingOrder,
+            dyeingReceived: dye.dyeingReceived,
+            source: 'EHI',
+            rmReceivedDate: rm.rmReceivedDate || null,
+            dyeingIssuedDate: dye.dyeingIssuedDate || null,
+            dyeingReceivedDate: dye.dyeingReceivedDate || null,
+            firstBazarDate: bazarMap[row.ops_no]?.firstBazarDate || null,
+            lastBazarDate: bazarMap[row.ops_no]?.lastBazarDate || null,
+            firstDispatchDate: row.first_dispatch_date || null,
+            lastDispatchDate: row.last_dispatch_date || null,
+          }
+        }
+      }
+    } catch (err) {
+      console.error('EHI TNA ERP stages error:', err)
+    }
+  }
+
+  // Run both in parallel
+  await Promise.all([fetchEmpl(), fetchEhi()])
+
+  return stages
+}
+
+// Helper to map an ehi_sync_log row to a SyncRun
+function toSyncRun(row: EhiSyncLogRow): SyncRun {
+  const startedAt = row.started_at ? new Date(row.started_at).toISOString() : null
+  const finishedAt = row.finished_at ? new Date(row.finished_at).toISOString() : null
+  return {
+    type: row.sync_type || 'full',
+    status: row.status || 'running',
+    startedAt,
+    finishedAt,
+    durationSeconds: startedAt && finishedAt
+      ? Math.round((Date.parse(finishedAt) - Date.parse(startedAt)) / 1000)
+      : null,
+    orders: row.orders_synced || 0,
+    items: row.items_synced || 0,
+    carpets: row.carpets_synced || 0,
+    rowsInserted: row.rows_inserted || 0,
+    rowsUpdated: row.rows_updated || 0,
+    rowsDeleted: row.rows_deleted || 0,
+    error: row.errors || null,
+    failedStep: row.failed_step || null,
+  }
+}
+
+// Helper to report EHI freshness from ehi_sync_log (written by scripts/sync-ehi.mjs)
+async function fetchEhiSyncStatus(staleAfterMinutes: number): Promise<SyncSourceStatus> {
+  const status: SyncSourceStatus = {
+    source: 'EHI',
+    configured: !!process.env.EHI_DATABASE_URL,
+    lastSuccessAt: null,
+    ageMinutes: null,
+    stale: true,
+    lastRun: null,
+    lastSuccess: null,
+    error: null,
+    failedStep: null,
+  }
+  if (!process.env.EHI_DATABASE_URL) {
+    // Nothing on the dashboard comes from an unconfigured source
+    status.stale = false
+    status.error = 'EHI connection string not configured'
+    return status
+  }
+
+  try {
+    const sql = neon(process.env.EHI_DATABASE_URL)
+    // SELECT * so a log table from before the incremental-sync columns still reads
+    const [lastRuns, lastSuccesses] = await Promise.all([
+      sql`SELECT * FROM ehi_sync_log ORDER BY started_at DESC LIMIT 1`,
+      sql`SELECT * FROM ehi_sync_log WHERE status = 'success' ORDER BY finished_at DESC LIMIT 1`,
+    ])
+    status.lastRun = lastRuns[0] ? toSyncRun(lastRuns[0] as EhiSyncLogRow) : null
+    status.lastSuccess = lastSuccesses[0] ? toSyncRun(lastSuccesses[0] as EhiSyncLogRow) : null
+  } catch (err) {
+    status.error = `Could not read ehi_sync_log: ${err instanceof Error ? err.message : String(err)}`
+    status.failedStep = 'read sync log'
+    return status
+  }
+
+  status.lastSuccessAt = status.lastSuccess?.finishedAt || null
+  if (status.lastSuccessAt) {
+    status.ageMinutes = Math.round((Date.now() - Date.parse(status.lastSuccessAt)) / 60000)
+    status.stale = status.ageMinutes > staleAfterMinutes
+  }
+  if (status.lastRun?.status === 'error') {
+    status.error = status.lastRun.error
+    status.failedStep = status.lastRun.failedStep
+  } else if (status.lastRun?.status === 'success' && status.lastRun.failedStep) {
+    // Succeeded without an optional step (the dispatch lookup): flagged like stale data
+    status.error = status.lastRun.error
+    status.failedStep = status.lastRun.failedStep
+    status.stale = true
+  }
+  return status
+}
+
+// Helper to report EMPL freshness. The EMPL ERP writes to its Neon database directly, so
+// there is no sync run: the data is current whenever the database answers.
+async function fetchEmplSyncStatus(): Promise<SyncSourceStatus> {
+  const status: SyncSourceStatus = {
+    source: 'EMPL',
+    configured: !!process.env.EMPL_DATABASE_URL,
+    lastSuccessAt: null,
+    ageMinutes: null,
+    stale: true,
+    lastRun: null,
+    lastSuccess: null,
+    error: null,
+    failedStep: null,
+  }
+  if (!process.env.EMPL_DATABASE_URL) {
+    status.stale = false
+    status.error = 'EMPL connection string not configured'
+    return status
+  }
+
+  try {
+    const sql = neon(process.env.EMPL_DATABASE_URL)
+    await sql`SELECT 1`
+    status.lastSuccessAt = new Date().toISOString()
+    status.ageMinutes = 0
+    status.stale = false
+  } catch (err) {
+    status.error = err instanceof Error ? err.message : String(err)
+    status.failedStep = 'connect to EMPL database'
+  }
+  return status
+}
+
+// Helper to load every EHI process with its mapped WIP stage and live carpet count
+async function fetchEhiProcessStages(ehiUrl: string): Promise<EhiProcessStage[]> {
+  const sql = neon(ehiUrl)
+  const rows = await sql`
+    SELECT p.id as process_id, p.name, p.short_name, m.wip_stage,
+      m.updated_at, m.updated_by,
+      (SELECT COUNT(*) FROM ehi_carpets ec
+        WHERE ec.current_process = p.id AND ec.deleted_at IS NULL)::int as carpets
+    FROM ehi_process_names p
+    LEFT JOIN ehi_process_stage_map m ON m.process_id = p.id
+    ORDER BY p.id
+  `
+  return rows.map((row) => ({
+    processId: row.process_id,
+    name: row.name || '',
+    shortName: row.short_name || '',
+    wipStage: row.wip_stage || null,
+    carpets: row.carpets || 0,
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null,
+    updatedBy: row.updated_by || null,
+  }))
+}
+
+// Helper to compute per-OPS stage dwell times from ehi_carpet_events.
+// Each event starts a segment that ends at the carpet's next event (or now); a carpet's
+// time in a stage is the sum of its segments there. Carpets first seen mid-process
+// (first-seen event outside on_loom) only give a lower bound, so avgDays leaves them out.
+async function fetchEhiStageDwell(ehiUrl: string): Promise<Record<string, EhiStageDwell[]>> {
+  const sql = neon(ehiUrl)
+  const rows = await sql`
+    WITH segments AS (
+      SELECT e.stock_no, e.to_stage as stage, e.event_at,
+        e.from_process IS NULL AND e.to_stage <> 'on_loom' as partial,
+        LEAD(e.event_at) OVER (PARTITION BY e.stock_no ORDER BY e.event_at, e.id) as left_at
+      FROM ehi_carpet_events e
+    ),
+    per_carpet AS (
+      SELECT stock_no, stage,
+        SUM(EXTRACT(EPOCH FROM (COALESCE(left_at, NOW()) - event_at))) / 86400 as days,
+        BOOL_AND(left_at IS NOT NULL) as left_stage,
+        BOOL_OR(partial) as partial
+      FROM segments
+      GROUP BY stock_no, stage
+    )
+    SELECT o.order_no as ops_no, pc.stage,
+      COUNT(*)::int as carpets,
+      COUNT(*) FILTER (WHERE pc.left_stage AND NOT pc.partial)::int as completed,
+      (AVG(pc.days) FILTER (WHERE pc.left_stage AND NOT pc.partial))::float as avg_days,
+      MAX(pc.days)::float as max_days
+    FROM per_carpet pc
+    JOIN ehi_carpets ec ON ec.stock_no = pc.stock_no AND ec.deleted_at IS NULL
+    JOIN ehi_order_items oi ON oi.id = ec.order_item_id AND oi.deleted_at IS NULL
+    JOIN ehi_orders o ON o.id = oi.order_id
+    WHERE o.status = '0' AND o.order_no LIKE 'EM-%' AND o.order_no >= 'EM-25-'
+    GROUP BY o.order_no, pc.stage
+  `
+
+  const roundDays = (days: number) => Math.round(days * 10) / 10
+  const dwell: Record<string, EhiStageDwell[]> = {}
+  for (const row of rows) {
+    if (!dwell[row.ops_no]) dwell[row.ops_no] = []
+    dwell[row.ops_no].push({
+      stage: row.stage,
+      carpets: row.carpets,
+      completed: row.completed,
+      avgDays: row.avg_days == null ? null : roundDays(row.avg_days),
+      maxDays: roundDays(row.max_days || 0),
+    })
+  }
+  for (const stages of Object.values(dwell)) {
+    stages.sort((a, b) => EHI_WIP_STAGES.indexOf(a.stage) - EHI_WIP_STAGES.indexOf(b.stage))
+  }
+  return dwell
+}
+
+// Helper to load the last ERP dispatch date per OPS, for open and closed orders alike.
+// EHI closed orders stay in Neon as soft-deleted rows after an incremental sync, but a
+// --full reload drops them; those orders fall back to the tracker.
+async function fetchErpLastDispatchDates(): Promise<Map<string, string>> {
+  const dates = new Map<string, string>()
+  const emplUrl = process.env.EMPL_DATABASE_URL
+  const ehiUrl = process.env.EHI_DATABASE_URL
+
+  const setLatest = (opsNo: string, date: string) => {
+    const key = normalizeOpsNo(opsNo)
+    const existing = dates.get(key)
+    if (!existing || date > existing) dates.set(key, date)
+  }
+
+  const fetchEmpl = async () => {
+    if (!emplUrl) return
+    try {
+      const sql = neon(emplUrl)
+      const rows = await sql`
+        SELECT o.order_number as ops_no,
+          MAX(c.dispatch_date)::date::text as last_dispatch_date
+        FROM orders o
+        JOIN order_items oi ON oi.order_id = o.id
+        JOIN carpets c ON c.order_item_id = oi.id
+        WHERE c.dispatch_date IS NOT NULL
+          AND o.order_number LIKE 'EM-%'
+        GROUP BY o.order_number
+      `
+      for (const row of rows) {
+        setLatest(row.ops_no, row.last_dispatch_date)
+      }
+    } catch (err) {
+      console.error('EMPL dispatch dates error:', err)
+    }
+  }
+
+  const fetchEhi = async () => {
+    if (!ehiUrl) return
+    try {
+      const sql = neon(ehiUrl)
+      const rows = await sql`
+        SELECT o.order_no as ops_no,
+          MAX(ec.dispatch_date)::text as last_dispatch_date
+        FROM ehi_orders o
+        JOIN ehi_order_items oi ON oi.order_id = o.id
+        JOIN ehi_carpets ec ON ec.order_item_id = oi.id
+        WHERE ec.dispatch_date IS NOT NULL
+          AND o.order_no LIKE 'EM-%'
+        GROUP BY o.order_no
+      `
+      for (const row of rows) {
+        setLatest(row.ops_no, row.last_dispatch_date)
+      }
+    } catch (err) {
+      console.error('EHI dispatch dates error:', err)
+    }
+  }
+
+  await Promise.all([fetchEmpl(), fetchEhi()])
+
+  return dates
+}
+
+// Helper to compare article/size/color text loosely ("5' X 8'" == "5x8")
+function normalizeMatchKey(value: unknown): string {
+  return String(value || '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+// Helper to parse the PPC "Order Status" workbook (first sheet).
+// The sheet has a merged group-title row above the real headers, so a blank
+// header cell falls back to the label in the row above it.
+function parseOrderStatusSheet(buffer: Buffer): { sheetName: string; rows: OrderStatusRow[] } {
+  const workbook = XLSX.read(buffer, { type: 'buffer' })
+  const sheetName = workbook.SheetNames[0]
+  if (!sheetName) throw new Error('Workbook has no sheets')
+
+  const data = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, defval: '' })
+  const headerLabel = (cell: unknown) => String(cell ?? '').replace(/\s+/g, ' ').trim().toUpperCase()
+
+  // Find the header row within the first few rows
+  let headerIdx = -1
+  let columns: Partial<Record<OrderStatusColumn, number>> = {}
+  for (let i = 0; i < Math.min(data.length, 10) && headerIdx === -1; i++) {
+    const width = Math.max(data[i]?.length || 0, data[i - 1]?.length || 0)
+    const found: Partial<Record<OrderStatusColumn, number>> = {}
+
+    for (let j = 0; j < width; j++) {
+      const label = headerLabel(data[i]?.[j]) || headerLabel(data[i - 1]?.[j])
+      if (!label) continue
+      for (const [column, pattern] of Object.entries(ORDER_STATUS_COLUMNS) as Array<[OrderStatusColumn, RegExp]>) {
+        if (found[column] === undefined && pattern.test(label)) {
+          found[column] = j
+          break
+        }
+      }
+    }
+
+    if (found.opsNo !== undefined && found.rcvdPcs !== undefined) {
+      headerIdx = i
+      columns = found
+    }
+  }
+
+  if (headerIdx === -1) {
+    throw new Error('Could not find the OPS # / RCVD PCS header row in the first sheet')
+  }
+
+  const text = (row: unknown[], column: OrderStatusColumn) =>
+    columns[column] === undefined ? '' : String(row[columns[column]!] ?? '').trim()
+  const count = (row: unknown[], column: OrderStatusColumn) =>
+    Math.max(0, Math.round(Number(row[columns[column]!]) || 0))
+
+  const rows: OrderStatusRow[] = []
+  for (let i = headerIdx + 1; i < data.length; i++) {
+    const row = data[i] || []
+    const opsNo = text(row, 'opsNo')
+    if (!/^(EM|OPS)-\d/i.test(opsNo)) continue
+
+    const values: OrderStatusValues = {}
+    for (const field of ITEM_COUNT_FIELDS) {
+      if (columns[field] !== undefined) values[field] = count(row, field)
+    }
+    for (const field of ['status', 'vendorName', 'folioNo'] as const) {
+      if (columns[field] !== undefined) values[field] = text(row, field)
+    }
+
+    rows.push({
+      rowNumber: i + 1,
+      opsNo,
+      article: text(row, 'article'),
+      size: text(row, 'size'),
+      color: text(row, 'color'),
+      orderPcs: columns.orderPcs === undefined ? 0 : count(row, 'orderPcs'),
+      values,
+    })
+  }
+
+  return { sheetName, rows }
+}
+
+// Helper to find the order items a sheet row could refer to (best match first).
+// Matches on design/article name and size; color breaks ties.
+function matchOrderItems(items: OrderItem[], row: OrderStatusRow): OrderItem[] {
+  const article = normalizeMatchKey(row.article)
+  const size = normalizeMatchKey(row.size)
+  if (!article && !size) return items.length === 1 ? items : []
+
+  const candidates = items.filter((item) => {
+    const names = [item.emDesignName, item.articleName, item.sku].map(normalizeMatchKey).filter(Boolean)
+    return (!size || normalizeMatchKey(item.size) === size) && (!article || names.includes(article))
+  })
+
+  const color = normalizeMatchKey(row.color)
+  if (!color) return candidates
+  return [
+    ...candidates.filter((item) => normalizeMatchKey(item.color) === color),
+    ...candidates.filter((item) => normalizeMatchKey(item.color) !== color),
+  ]
+}
+
+// Helper to load item-level WIP counts from both Neon databases, keyed by normalized OPS.
+// Stage groupings follow scripts/compare-excel-vs-db.cjs.
+async function fetchErpItemWip(): Promise<Map<string, ErpItemWip[]>> {
+  const byOps = new Map<string, ErpItemWip[]>()
+  const add = (item: ErpItemWip) => {
+    const key = normalizeOpsNo(item.opsNo)
+    if (!byOps.has(key)) byOps.set(key, [])
+    byOps.get(key)!.push(item)
+  }
+
+  const emplUrl = process.env.EMPL_DATABASE_URL
+  const ehiUrl = process.env.EHI_DATABASE_URL
+
+  const fetchEmpl = async () => {
+    if (!emplUrl) return
+    try {
+      const sql = neon(emplUrl)
+      const rows = await sql`
+        SELECT o.order_number as ops_no,
+          COALESCE(d.name, '') as design,
+          COALESCE(s.label, '') as size,
+          COALESCE(col.name, '') as color,
+          COALESCE(oi.ordered_qty, 0)::int as ordered_qty,
+          COUNT(CASE WHEN c.current_stage = 'weaving' THEN 1 END)::int as on_loom,
+          COUNT(CASE WHEN c.current_stage IN ('finishing', 'finishing_issued') THEN 1 END)::int as finishing,
+          COUNT(CASE WHEN c.current_stage IN ('bazar', 'finishing', 'finishing_issued', 'fg_godown', 'stock',
+                'inspection', 'dispatched', 'invoiced') THEN 1 END)::int as received
+        FROM orders o
+        JOIN order_items oi ON oi.order_id = o.id
+        LEFT JOIN designs d ON d.id = oi.design_id
+        LEFT JOIN colours col ON col.id = oi.colour_id
+        LEFT JOIN sizes s ON s.id = oi.size_id
+        LEFT JOIN carpets c ON c.order_item_id = oi.id
+        WHERE o.status IN ('active','open','Active','Open','confirmed')
+          AND (o.order_number LIKE 'EM-25-%' OR o.order_number LIKE 'EM-26-%')
+        GROUP BY o.order_number, oi.id, d.name, s.label, col.name, oi.ordered_qty
+      `
+      for (const row of rows) {
+        add({
+          opsNo: row.ops_no,
+          design: row.design,
+          size: row.size,
+          color: row.color,
+          orderedQty: row.ordered_qty || 0,
+          onLoom: row.on_loom || 0,
+          finishing: row.finishing || 0,
+          received: row.received || 0,
+          source: 'EMPL',
+        })
+      }
+    } catch (err) {
+      console.error('EMPL item WIP error:', err)
+    }
+  }
+
+  const fetchEhi = async () => {
+    if (!ehiUrl) return
+    try {
+      const sql = neon(ehiUrl)
+      const rows = await sql`
+        SELECT o.order_no as ops_no,
+          COALESCE(oi.design_name, '') as design,
+          COALESCE(oi.size, '') as size,
+          COALESCE(oi.color, '') as color,
+          COALESCE(oi.ordered_qty, 0)::int as ordered_qty,
+          COUNT(CASE WHEN ec.wip_stage = 'on_loom' THEN 1 END)::int as on_loom,
+          COUNT(CASE WHEN ec.wip_stage = 'finishing' THEN 1 END)::int as finishing,
+          COUNT(CASE WHEN ec.wip_stage IS NOT NULL AND ec.wip_stage <> 'on_loom' THEN 1 END)::int as received
+        FROM ehi_orders o
+        JOIN ehi_order_items oi ON oi.order_id = o.id
+        LEFT JOIN ehi_carpets ec ON ec.order_item_id = oi.id AND ec.deleted_at IS NULL
+        WHERE o.status = '0' AND oi.deleted_at IS NULL AND o.order_no LIKE 'EM-%' AND o.order_no >= 'EM-25-'
+        GROUP BY o.order_no, oi.id, oi.design_name, oi.size, oi.color, oi.ordered_qty
+      `
+      for (const row of rows) {
+        // EMPL wins when an OPS exists in both, as in /tna-erp-stages
+        if (byOps.get(normalizeOpsNo(row.ops_no))?.some((i) => i.source === 'EMPL')) continue
+        add({
+          opsNo: row.ops_no,
+          design: row.design,
+          size: row.size,
+          color: row.color,
+          orderedQty: row.ordered_qty || 0,
+          onLoom: row.on_loom || 0,
+          finishing: row.finishing || 0,
+          received: row.received || 0,
+          source: 'EHI',
+        })
+      }
+    } catch (err) {
+      console.error('EHI item WIP error:', err)
+    }
+  }
+
+  // EMPL first so EHI duplicates can be skipped
+  await fetchEmpl()
+  await fetchEhi()
+
+  return byOps
+}
+
+// Helper to find the ERP item for an order item by design and size (color breaks ties)
+function matchErpItem(candidates: ErpItemWip[], item: OrderItem): ErpItemWip | undefined {
+  const size = normalizeMatchKey(item.size)
+  const names = [item.emDesignName, item.articleName, item.sku].map(normalizeMatchKey).filter(Boolean)
+
+  const matches = candidates.filter((e) =>
+    normalizeMatchKey(e.size) === size && names.includes(normalizeMatchKey(e.design))
+  )
+  const color = normalizeMatchKey(item.color)
+  return matches.find((e) => color && normalizeMatchKey(e.color) === color) || matches[0]
+}
+
+// Helper to load all TNA templates from Firestore
+async function loadTnaTemplates(): Promise<TnaTemplate[]> {
+  const snapshot = await db.collection('tna_templates').get()
+  return snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as TnaTemplate))
+}
+
+// Helper to pick the TNA template for an order (mirrors resolveTnaTemplate() in src/lib/utils.ts).
+// Buyer-specific templates win over order-type templates, which win over the default.
+function resolveTnaTemplate(
+  templates: TnaTemplate[],
+  order: { orderType?: string; customerCode?: string } | undefined
+): TnaTemplate {
+  let best: TnaTemplate | null = null
+  let bestScore = -1
+
+  for (const template of templates) {
+    const customerCodes = template.customerCodes || []
+    const orderTypes = template.orderTypes || []
+    const buyerMatch = customerCodes.length === 0 || (!!order?.customerCode && customerCodes.includes(order.customerCode))
+    const typeMatch = orderTypes.length === 0 || (!!order?.orderType && orderTypes.includes(order.orderType))
+    if (!buyerMatch || !typeMatch) continue
+
+    // Catch-all templates only apply when marked as the default
+    if (customerCodes.length === 0 && orderTypes.length === 0 && !template.isDefault) continue
+
+    const score = (customerCodes.length > 0 ? 2 : 0) + (orderTypes.length > 0 ? 1 : 0)
+    if (score > bestScore) {
+      best = template
+      bestScore = score
+    }
+  }
+
+  return best || DEFAULT_TNA_TEMPLATE
+}
+
+// Helper to validate a TNA template body; returns an error message or null
+function validateTnaTemplate(body: TnaTemplateBody | null): string | null {
+  if (!body?.name || typeof body.name !== 'string') return 'name is required'
+  if (!Array.isArray(body.stages) || body.stages.length === 0) return 'stages must be a non-empty array'
+  if (body.orderTypes && !Array.isArray(body.orderTypes)) return 'orderTypes must be an array'
+  if (body.customerCodes && !Array.isArray(body.customerCodes)) return 'customerCodes must be an array'
+
+  for (const type of body.orderTypes || []) {
+    if (!(ORDER_TYPES as readonly string[]).includes(type)) return `Invalid order type: ${type}`
+  }
+
+  const keys = new Set<string>()
+  for (const stage of body.stages) {
+    if (!stage?.key || !/^[a-z0-9_]+$/.test(stage.key)) return `Invalid stage key: ${stage?.key}`
+    if (keys.has(stage.key)) return `Duplicate stage: ${stage.key}`
+    keys.add(stage.key)
+    if (!stage.label || typeof stage.label !== 'string') return `Stage ${stage.key} needs a label`
+    if (typeof stage.offsetDays !== 'number' || !Number.isFinite(stage.offsetDays) || stage.offsetDays < 0) {
+      return `Stage ${stage.key} needs a non-negative offsetDays`
+    }
+    if (stage.editors && (!Array.isArray(stage.editors) || stage.editors.some((r) => !USER_ROLES.includes(r)))) {
+      return `Stage ${stage.key} has invalid editors`
+    }
+  }
+
+  return null
+}
+
+// Helper to back-schedule TNA target dates from the ex-factory date.
+// Lead times come from the template offsets, stretched for quality and sqm, and
+// compressed to fit when the PO date leaves less time than the standard plan.
+// Stages already marked N/A on the order stay N/A. Returns null without a ship date.
+function generateTnaPlan(template: TnaTemplate, order: Order & { tracker?: ProductionTracker }): TnaPlanEntry[] | null {
+  const shipDate = parsePlanDate(order.shipDate)
+  if (!shipDate) return null
+
+  const items = order.items || []
+  const totalSqm = Number(order.totalSqm) || items.reduce((sum, i) => sum + (Number(i.sqm) || 0), 0)
+  const qualityFactor = items.reduce((max, item) => {
+    const quality = String(item.quality || '').toUpperCase()
+    const match = PLAN_QUALITY_FACTORS.find(([pattern]) => pattern.test(quality))
+    return Math.max(max, match ? match[1] : 1)
+  }, 0) || 1
+  const extraDays = Math.ceil(Math.max(0, totalSqm - PLAN_BASE_SQM) / PLAN_SQM_PER_EXTRA_DAY)
+
+  const leadDays = template.stages.map((stage, index) => {
+    const base = Math.max(0, stage.offsetDays - (index > 0 ? template.stages[index - 1].offsetDays : 0))
+    const share = PLAN_SCALED_STAGES[stage.key]
+    return share ? base * (1 + (qualityFactor - 1) * share) + extraDays * share : base
+  })
+
+  // Squeeze the plan into the PO -> ex-factory window when it does not fit
+  const poDate = parsePlanDate(order.orderConfirmationDate)
+  const totalLead = leadDays.reduce((sum, days) => sum + days, 0)
+  const available = poDate ? Math.round((shipDate.getTime() - poDate.getTime()) / 86400000) : totalLead
+  const scale = totalLead > available && available > 0 ? available / totalLead : 1
+
+  const naStages = new Set<string>([
+    ...(order.tna?.entries || []),
+    ...(order.tracker?.tnaPlan?.entries || []),
+  ].filter((e) => e.targetDate === null).map((e) => e.stage))
+
+  // Last stage lands on ex-factory; each earlier stage ends where the next one starts
+  const entries: TnaPlanEntry[] = []
+  let cursor = shipDate.getTime()
+  for (let i = template.stages.length - 1; i >= 0; i--) {
+    const stage = template.stages[i]
+    const isNa = stage.optional && naStages.has(stage.key)
+    entries.unshift({
+      stage: stage.key,
+      targetDate: isNa ? null : new Date(cursor).toISOString().split('T')[0],
+    })
+    cursor -= Math.round(leadDays[i] * scale) * 86400000
+  }
+
+  return entries
+}
+
+// Helper to build the order's current target dates (mirrors buildTnaEntries() in src/lib/utils.ts):
+// saved tracker plan, then the Orders app TNA, then PO date + template offset
+function buildTnaEntries(template: TnaTemplate, order: Pick<Order, 'orderConfirmationDate' | 'tna'>, plan: TrackerTnaPlan | undefined): TnaPlanEntry[] {
+  const planned: TnaPlanEntry[] = plan?.entries || order.tna?.entries || []
+  const poDate = parsePlanDate(order.orderConfirmationDate)
+
+  return template.stages.map((stage) => {
+    const entry = planned.find((e) => e.stage === stage.key)
+    if (entry) return { stage: stage.key, targetDate: entry.targetDate }
+
+    return {
+      stage: stage.key,
+      targetDate: poDate ? addPlanDays(poDate.toISOString(), stage.offsetDays) : null,
+    }
+  })
+}
+
+// Helper to push downstream targets out by the slip of the stages before them, starting from the
+// baseline targets. A completed stage finishes on its actual date; an open stage cannot finish before
+// today. Each stage depends on the previous planned stage; the gap to ex-factory is preserved, so the
+// projected ex-factory is the ship date moved by the last stage's slip.
+function rescheduleTnaPlan(
+  baseline: TnaPlanEntry[],
+  stages: Record<string, StageUpdate>,
+  shipDate: string,
+  today: string
+): { entries: TnaPlanEntry[]; slipDays: number; projectedExFactory: string } {
+  const result: TnaPlanEntry[] = []
+  let carriedSlip = 0
+
+  for (const entry of baseline) {
+    if (!entry.targetDate) {
+      result.push(entry)
+      continue
+    }
+
+    const stage = stages[entry.stage]
+    if (stage?.status === 'completed') {
+      // History stays as planned; the actual date drives what follows
+      result.push(entry)
+      if (stage.actualDate) carriedSlip = Math.max(0, planDaysBetween(entry.targetDate, stage.actualDate))
+    } else {
+      const shifted = addPlanDays(entry.targetDate, carriedSlip)
+      const targetDate = shifted < today ? today : shifted
+      result.push({ stage: entry.stage, targetDate })
+      carriedSlip = Math.max(0, planDaysBetween(entry.targetDate, targetDate))
+    }
+  }
+
+  // Same slip the last stage carries (its actual date when completed, else its shifted target)
+  const last = [...baseline].reverse().find((e) => e.targetDate)
+  const lastStage = last ? stages[last.stage] : undefined
+  const lastDate = lastStage?.status === 'completed' && lastStage.actualDate
+    ? lastStage.actualDate
+    : result.find((e) => e.stage === last?.stage)?.targetDate
+  const slipDays = last?.targetDate && lastDate ? Math.max(0, planDaysBetween(last.targetDate, lastDate)) : 0
+
+  return {
+    entries: result,
+    slipDays,
+    projectedExFactory: addPlanDays(shipDate, slipDays),
+  }
+}
+
+// Helper to count how late a stage is (mirrors getStageDelayDays() in src/lib/utils.ts):
+// days past target for a completed stage, days overdue for an open one once past the grace period
+function stageDelayDays(
+  targetDate: string | null | undefined,
+  status: StageStatus,
+  actualDate: string | null,
+  today: string
+): number {
+  if (!targetDate) return 0
+  if (status === 'completed') {
+    return actualDate ? Math.max(0, planDaysBetween(targetDate, actualDate)) : 0
+  }
+  const overdue = planDaysBetween(targetDate, today)
+  return overdue > DELAY_REASON_OVERDUE_DAYS ? overdue : 0
+}
+
+// Helper to validate the delay reason on a manual stage update. A late stage needs a reason
+// and a responsible party; ones already recorded on the stage carry over.
+function resolveDelayFields(
+  label: string,
+  update: { status: StageStatus; actualDate: string | null; delayReason?: string; responsibleParty?: string },
+  previous: StageUpdate | undefined,
+  targetDate: string | null | undefined,
+  today: string
+): { error: string } | { fields: Pick<StageUpdate, 'delayReason' | 'responsibleParty' | 'delayDays'> } {
+  const delayReason = update.delayReason || previous?.delayReason || null
+  const responsibleParty = update.responsibleParty || previous?.responsibleParty || null
+
+  if (delayReason && !DELAY_REASONS.includes(delayReason as DelayReason)) {
+    return { error: `Invalid delay reason: ${delayReason}` }
+  }
+  if (responsibleParty && !RESPONSIBLE_PARTIES.includes(responsibleParty as ResponsibleParty)) {
+    return { error: `Invalid responsible party: ${responsibleParty}` }
+  }
+
+  const delayDays = stageDelayDays(targetDate, update.status, update.actualDate, today)
+  if (delayDays > 0 && (!delayReason || !responsibleParty)) {
+    return { error: `${label} is ${delayDays} days late: a delay reason and responsible party are required` }
+  }
+
+  return {
+    fields: {
+      delayReason: delayReason as DelayReason | null,
+      responsibleParty: responsibleParty as ResponsibleParty | null,
+      delayDays: delayDays || null,
+    },
+  }
+}
+
+// Helper to add days to a yyyy-MM-dd date
+function addPlanDays(date: string, days: number): string {
+  const parsed = parsePlanDate(date)
+  if (!parsed) return date
+  return new Date(parsed.getTime() + days * 86400000).toISOString().split('T')[0]
+}
+
+// Helper to count whole days from a to b (positive when b is later)
+function planDaysBetween(a: string, b: string): number {
+  const start = parsePlanDate(a)
+  const end = parsePlanDate(b)
+  if (!start || !end) return 0
+  return Math.round((end.getTime() - start.getTime()) / 86400000)
+}
+
+// Helper to parse a yyyy-MM-dd (or ISO) date as UTC midnight
+function parsePlanDate(value: unknown): Date | null {
+  if (!value || typeof value !== 'string') return null
+  const date = new Date(value.substring(0, 10) + 'T00:00:00Z')
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Helper to derive TNA stage statuses from ERP data.
+// Keep in sync with deriveErpStageStatuses() in src/lib/utils.ts
+function deriveErpStageStatuses(erp: ErpStageData): Record<string, { status: StageStatus; actualDate: string | null }> {
+  const result: Record<string, { status: StageStatus; actualDate: string | null }> = {}
+  const stage = (status: StageStatus, actualDate?: string | null) => ({ status, actualDate: actualDate || null })
+
+  // Raw Material Purchase
+  result.raw_material_purchase = erp.indentReceived ? stage('completed', erp.rmReceivedDate)
+    : erp.hasIndent ? stage('in_progress') : stage('pending')
+
+  // Dyeing
+  result.dyeing = erp.dyeingReceived ? stage('completed', erp.dyeingReceivedDate)
+    : erp.hasDyeingOrder ? stage('in_progress') : stage('pending')
+
+  // Weaving — first bazar date means weaving completed (carpet left loom)
+  result.weaving = erp.totalCarpets === 0 && erp.onLoom === 0 ? stage('pending')
+    : erp.onLoom > 0 ? stage('in_progress') : stage('completed', erp.firstBazarDate)
+
+  // Finishing
+  const postWeaving = erp.finishing + erp.fgGodown + erp.packed + erp.dispatched
+  result.finishing = postWeaving === 0 && erp.onLoom > 0 ? stage('pending')
+    : erp.finishing > 0 ? stage('in_progress')
+    : postWeaving > 0 ? stage('completed', erp.lastBazarDate) : stage('pending')
+
+  // FG Godown and Packing (EHI granular, EMPL lumped in finishing)
+  if (erp.source === 'EHI') {
+    result.fg_godown = erp.fgGodown > 0 ? stage('in_progress')
+      : erp.packed + erp.dispatched > 0 ? stage('completed') : stage('pending')
+    result.packing = erp.packed > 0 ? stage('in_progress')
+      : erp.dispatched > 0 ? stage('completed') : stage('pending')
+  } else {
+    result.fg_godown = { ...result.finishing }
+    result.packing = { ...result.finishing }
+  }
+
+  // Dispatch
+  result.dispatch = erp.dispatched === 0 ? stage('pending')
+    : erp.dispatched < erp.totalOrdered ? stage('in_progress', erp.firstDispatchDate)
+    : stage('completed', erp.lastDispatchDate)
+
+  return result
+}
+
+// Helper to build a history entry for a stage change
+function buildHistoryEntry(
+  stage: string,
+  previous: StageUpdate | undefined,
+  next: StageUpdate,
+  user: Pick<AuthUser, 'email' | 'name'>
+): StageHistoryEntry {
+  return {
+    stage,
+    source: next.source || 'manual',
+    oldStatus: previous?.status || null,
+    newStatus: next.status || 'pending',
+    actualDate: next.actualDate || null,
+    notes: next.notes || null,
+    delayReason: next.delayReason || null,
+    responsibleParty: next.responsibleParty || null,
+    changedBy: user.email,
+    changedByName: user.name,
+    changedAt: next.updatedAt,
+  }
+}
+
+// Helper to validate inspection capacity settings; returns an error message or null
+function validateInspectionCapacity(raw: unknown): string | null {
+  if (!raw || typeof raw !== 'object') return 'Body is required'
+  const body = raw as Partial<Record<keyof InspectionCapacityBody, unknown>>
+  const isLimit = (value: unknown): value is InspectionCapacityLimit => {
+    if (!value || typeof value !== 'object') return false
+    const { inspections, pcs } = value as Partial<Record<keyof InspectionCapacityLimit, unknown>>
+    return Number(inspections) >= 0 && Number(pcs) >= 0
+  }
+  const companies = (body.companies && typeof body.companies === 'object' ? body.companies : {}) as Record<string, unknown>
+  if (!isLimit(companies.EMPL) || !isLimit(companies.EHI)) {
+    return 'companies.EMPL and companies.EHI need inspections and pcs (0 or more)'
+  }
+  if (!Array.isArray(body.inspectors)) return 'inspectors must be a list'
+  const names = new Set<string>()
+  for (const inspector of body.inspectors as unknown[]) {
+    const { name: rawName, company } = (inspector && typeof inspector === 'object' ? inspector : {}) as
+      { name?: unknown; company?: unknown }
+    const name = String(rawName || '').trim()
+    if (!name) return 'Every inspector needs a name'
+    if (names.has(name.toLowerCase())) return `Inspector ${name} is listed twice`
+    names.add(name.toLowerCase())
+    if (company !== 'EMPL' && company !== 'EHI') return `Inspector ${name} needs a company (EMPL or EHI)`
+    if (!isLimit(inspector)) return `Inspector ${name} needs inspections and pcs (0 or more)`
+  }
+  if (!Array.isArray(body.holidays) || !body.holidays.every((d) => typeof d === 'string' && parsePlanDate(d))) {
+    return 'holidays must be yyyy-MM-dd dates'
+  }
+  if (!Array.isArray(body.weekendDays) || !body.weekendDays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)) {
+    return 'weekendDays must be day numbers 0 (Sunday) to 6'
+  }
+  return null
+}
+
+// Helper to check whether a failed inspection holds a stage update.
+// Moving a held stage back to pending is always allowed.
+function isInspectionBlocked(
+  hold: InspectionHold | null | undefined,
+  stage: string,
+  status: StageStatus | undefined
+): boolean {
+  return !!hold && INSPECTION_BLOCKED_STAGES.includes(stage) && !!status && status !== 'pending'
+}
+
+// Helper to build the TNA inspection stage completion for a finished inspection, with the
+// same permission and delay-reason rules as a manual stage update. Nothing is written here.
+async function prepareInspectionCompletion(
+  user: AuthUser,
+  schedule: { orderId: string; inspectionDate: string },
+  order: Order | undefined,
+  reason: { delayReason?: DelayReason; responsibleParty?: ResponsibleParty },
+  now: string
+): Promise<
+  | { error: string; status: number; extra?: Record<string, unknown> }
+  | { template: TnaTemplate; trackerDoc: DocumentSnapshot; stageUpdate: StageUpdate }
+> {
+  const template = resolveTnaTemplate(await loadTnaTemplates(), order)
+  const templateStage = template.stages.find((s) => s.key === 'inspection')
+  if (!templateStage || !canUpdateStage(user, templateStage, order)) {
+    return { error: `Role '${user.role}' cannot complete inspections on this order`, status: 403 }
+  }
+
+  const today = now.split('T')[0]
+  const actualDate = schedule.inspectionDate < today ? schedule.inspectionDate : today
+  const trackerDoc = await db.collection('production_tracker').doc(schedule.orderId).get()
+  const previous: StageUpdate | undefined = trackerDoc.data()?.stages?.inspection
+  const targetDate = buildTnaEntries(template, order || {}, trackerDoc.data()?.tnaPlan)
+    .find((e) => e.stage === 'inspection')?.targetDate
+  const delay = resolveDelayFields(
+    templateStage.label,
+    { status: 'completed', actualDate, ...reason },
+    previous,
+    targetDate,
+    today
+  )
+  if ('error' in delay) {
+    return { error: delay.error, status: 400, extra: { delayReasonRequired: true } }
+  }
+
+  return {
+    template,
+    trackerDoc,
+    stageUpdate: {
+      status: 'completed',
+      actualDate,
+      // Omitted rather than undefined: Firestore rejects undefined values
+      ...(previous?.notes ? { notes: previous.notes } : {}),
+      updatedAt: now,
+      updatedBy: user.email,
+      source: 'manual',
+      ...delay.fields,
+      ...(previous?.locked ? { locked: true } : {}),
+    },
+  }
+}
+
+// ISO 2859-1 sample size code letters by lot size (upper bound) for general levels I / II / III
+const AQL_LOT_CODE_LETTERS: Array<[number, Record<InspectionLevel, string>]> = [
+  [8, { I: 'A', II: 'A', III: 'B' }],
+  [15, { I: 'A', II: 'B', III: 'C' }],
+  [25, { I: 'B', II: 'C', III: 'D' }],
+  [50, { I: 'C', II: 'D', III: 'E' }],
+  [90, { I: 'C', II: 'E', III: 'F' }],
+  [150, { I: 'D', II: 'F', III: 'G' }],
+  [280, { I: 'E', II: 'G', III: 'H' }],
+  [500, { I: 'F', II: 'H', III: 'J' }],
+  [1200, { I: 'G', II: 'J', III: 'K' }],
+  [3200, { I: 'H', II: 'K', III: 'L' }],
+  [10000, { I: 'J', II: 'L', III: 'M' }],
+  [35000, { I: 'K', II: 'M', III: 'N' }],
+  [150000, { I: 'L', II: 'N', III: 'P' }],
+  [500000, { I: 'M', II: 'P', III: 'Q' }],
+  [Infinity, { I: 'N', II: 'Q', III: 'R' }],
+]
+const AQL_CODE_LETTERS = 'ABCDEFGHJKLMNPQR'
+const AQL_SAMPLE_SIZES = [2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800, 1250, 2000]
+// Table II-A runs the same acceptance numbers down every AQL column, starting one code letter
+// later per step down in AQL. Index = rows below the column's first 0/1 plan.
+const AQL_COLUMN_ACCEPT = [0, 0, 1, 1, 2, 3, 5, 7, 10, 14, 21]
+const AQL_FIRST_PLAN_ROW: Record<string, number> = { '6.5': 0, '4': 1, '2.5': 2, '1.5': 3, '1': 4, '0.65': 5 }
+
+// Helper to get the code letter and sample size for a lot
+function getAqlSample(lotSize: number, level: InspectionLevel): { codeLetter: string; sampleSize: number } {
+  const row = AQL_LOT_CODE_LETTERS.find(([max]) => lotSize <= max) || AQL_LOT_CODE_LETTERS[AQL_LOT_CODE_LETTERS.length - 1]
+  const codeLetter = row[1][level]
+  return { codeLetter, sampleSize: AQL_SAMPLE_SIZES[AQL_CODE_LETTERS.indexOf(codeLetter)] }
+}
+
+// Helper to get accept / reject numbers for a code letter and AQL.
+// Arrows in the table resolve to the nearest plan's numbers; AQL 0 is zero tolerance.
+function getAqlPlan(codeLetter: string, aql: number): AqlPlan {
+  const firstRow = AQL_FIRST_PLAN_ROW[String(aql)]
+  if (firstRow === undefined) return { accept: 0, reject: 1 }
+  const offset = AQL_CODE_LETTERS.indexOf(codeLetter) - firstRow
+  const accept = AQL_COLUMN_ACCEPT[Math.min(Math.max(offset, 0), AQL_COLUMN_ACCEPT.length - 1)]
+  return { accept, reject: accept + 1 }
+}
+
+// Helper to summarise defects for a group of inspection results
+function summarizeDefects(key: string, results: InspectionResult[]) {
+  const sampled = results.reduce((sum, r) => sum + (r.sampleSize || 0), 0)
+  const critical = results.reduce((sum, r) => sum + (r.totals?.critical || 0), 0)
+  const major = results.reduce((sum, r) => sum + (r.totals?.major || 0), 0)
+  const minor = results.reduce((sum, r) => sum + (r.totals?.minor || 0), 0)
+  return {
+    key,
+    inspections: results.length,
+    failed: results.filter((r) => r.outcome === 'fail').length,
+    sampled,
+    critical,
+    major,
+    minor,
+    defectsPer100: sampled > 0 ? Math.round(((critical + major + minor) / sampled) * 1000) / 10 : 0,
+  }
+}
+
+// Helper to group inspection results into defect trends, with a month-by-month series and top defects
+function groupDefectTrends(results: InspectionResult[], keysOf: (result: InspectionResult) => string[]) {
+  const groups = new Map<string, InspectionResult[]>()
+  results.forEach((r) => keysOf(r).forEach((key) => groups.set(key, [...(groups.get(key) || []), r])))
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const months = new Map<string, InspectionResult[]>()
+      group.forEach((r) => months.set(r.inspectedAt.substring(0, 7), [...(months.get(r.inspectedAt.substring(0, 7)) || []), r]))
+      const types = new Map<string, number>()
+      group.forEach((r) => (r.defects || []).forEach((d) => types.set(d.type, (types.get(d.type) || 0) + d.count)))
+
+      return {
+        ...summarizeDefects(key, group),
+        topDefects: [...types.entries()]
+          .map(([type, count]) => ({ type, count }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 3),
+        trend: [...months.entries()].map(([month, monthResults]) => {
+          const { inspections, defectsPer100 } = summarizeDefects(month, monthResults)
+          return { month, inspections, defectsPer100 }
+        }),
+      }
+    })
+    .sort((a, b) => b.inspections - a.inspections)
+}
+
+// Helper to add one stage write and its history entry to a batch, creating the tracker if needed
+function addStageWrite(
+  batch: WriteBatch,
+  trackerDoc: DocumentSnapshot,
+  template: TnaTemplate,
+  stage: string,
+  stageUpdate: StageUpdate,
+  opsNo: string,
+  user: Pick<AuthUser, 'email' | 'name'>
+): void {
+  const trackerRef = trackerDoc.ref
+  const previous: StageUpdate | undefined = trackerDoc.data()?.stages?.[stage]
+  const now = stageUpdate.updatedAt
+
+  if (trackerDoc.exists) {
+    // Update existing
+    batch.update(trackerRef, {
+      [`stages.${stage}`]: stageUpdate,
+      currentStage: calculateCurrentStage(
+        { ...trackerDoc.data()?.stages, [stage]: stageUpdate },
+        template
+      ),
+      updatedAt: now,
+    })
+  } else {
+    // Create new tracker
+    const initialStages: Record<string, StageUpdate> = {}
+    template.stages.forEach((s) => {
+      initialStages[s.key] = {
+        status: 'pending',
+        actualDate: null,
+        updatedAt: now,
+      }
+    })
+    initialStages[stage] = stageUpdate
+
+    batch.set(trackerRef, {
+      opsNo,
+      stages: initialStages,
+      currentStage: calculateCurrentStage(initialStages, template),
+      createdAt: now,
+      updatedAt: now,
+    })
+  }
+
+  batch.set(trackerRef.collection('history').doc(), buildHistoryEntry(stage, previous, stageUpdate, user))
+}
+
+// Helper to normalize a tedForms doc (snake_case or camelCase fields) into a TED summary
+function toTedSummary(id: string, d: DocumentData) {
+  // Normalize snake_case / camelCase field names
+  const emDesignNo = d.emDesignNo || d.empl_design_no || ''
+  const buyerCode = d.buyerCode || d.buyer_code || ''
+  const buyerName = d.buyerName || d.buyer_name || ''
+  const buyerDesignName = d.buyerDesignName || d.buyer_design_name || ''
+  const construction = d.construction || ''
+  const productQuality = d.productQuality || d.product_quality || ''
+  const productType = d.productType || d.product_type || ''
+  const size = d.size || ''
+  const rawDate = d.ppMeetingDate || d.pp_meeting_date || ''
+  const ppMeetingDate = rawDate?._seconds
+    ? new Date(rawDate._seconds * 1000).toISOString().split('T')[0]
+    : typeof rawDate === 'string' ? rawDate : ''
+  const pileMaterial = d.pileMaterial || d.pile_material || ''
+  const status = d.status || ''
+
+  // Get first image URL for thumbnail
+  const images = d.images || d.imageUrls || {}
+  let thumbnailUrl = ''
+  for (const key of ['product_photo', 'productPhoto', 'approved_cad', 'approvedCad']) {
+    if (images[key] && Array.isArray(images[key]) && images[key].length > 0) {
+      thumbnailUrl = images[key][0]
+      break
+    }
+  }
+
+  return {
+    id,
+    emDesignNo,
+    buyerCode,
+    buyerName,
+    buyerDesignName,
+    construction,
+    productQuality,
+    productType,
+    size,
+    ppMeetingDate,
+    pileMaterial,
+    status,
+    thumbnailUrl,
+  }
+}
+
+// Helper to normalize a tedForms doc into the full TED (summary fields plus construction details)
+function toTedDetail(id: string, d: DocumentData) {
+  return {
+    ...toTedSummary(id, d),
+    meetingAttendees: d.meetingAttendees || d.meeting_attendees || [],
+    unfinishedGsm: d.unfinishedGsm || d.unfinished_gsm || null,
+    finishedGsm: d.finishedGsm || d.finished_gsm || null,
+    warpMaterial: d.warpMaterial || d.warp_material || '',
+    weftMaterial: d.weftMaterial || d.weft_material || '',
+    pileHeightUnfinished: d.pileHeightUnfinished || d.pile_height_unfinished || '',
+    pileHeightFinished: d.pileHeightFinished || d.pile_height_finished || '',
+    fringesDetails: d.fringesDetails || d.fringes_details || '',
+    sizeTolerance: d.sizeTolerance || d.size_tolerance || '',
+    processFlow: d.processFlow || d.process_flow || '',
+    qualityCallOutsCtq: d.qualityCallOutsCtq || d.quality_call_outs || '',
+    buyersSpecificRequirements: d.buyersSpecificRequirements || d.buyers_specific_requirements || '',
+    remarks: d.remarks || '',
+    reedNoKanghi: d.reedNoKanghi || d.reed_no_kanghi || '',
+    warpIn6Inches: d.warpIn6Inches || d.warp_in_6_inches || '',
+    weftIn6Inches: d.weftIn6Inches || d.weft_in_6_inches || '',
+    shadeCardAvailable: d.shadeCardAvailable || d.shade_card_available || '',
+    redSealAvailable: d.redSealAvailable || d.red_seal_available || '',
+    khatiDetails: d.khatiDetails || d.khati_details || '',
+    imageUrls: d.images || d.imageUrls || {},
+    createdAt: d.createdAt?._seconds
+      ? new Date(d.createdAt._seconds * 1000).toISOString()
+      : d.createdAt || null,
+    updatedAt: d.updatedAt?._seconds
+      ? new Date(d.updatedAt._seconds * 1000).toISOString()
+      : d.updatedAt || null,
+  }
+}
+
+// Helper to snapshot a TED as a new version when its tracked fields changed since the last one.
+// The TED app saves TEDs without going through this API, so versions are captured when a read
+// finds a change: a version is what the TED looked like when first seen here, and edits between
+// two reads fold into one version. author/editedAt are the TED app's updatedBy/updatedAt at that
+// point, not necessarily who made each change. Returns the current version number.
+async function captureTedVersion(tedId: string, ted: TedDetail, d: DocumentData): Promise<number> {
+  const versionsRef = db.collection('ted_versions').doc(tedId).collection('versions')
+  const fields = Object.fromEntries(TED_VERSION_FIELDS.map((f) => [f, ted[f] ?? null]))
+
+  // A concurrent read can capture the same version number first; re-read and compare against it
+  for (let attempt = 0; ; attempt++) {
+    const latestSnap = await versionsRef.orderBy('version', 'desc').limit(1).get()
+    const latest = latestSnap.docs[0]?.data()
+
+    const changedFields = latest
+      ? TED_VERSION_FIELDS.filter((f) => JSON.stringify(latest.fields?.[f] ?? null) !== JSON.stringify(fields[f]))
+      : []
+    if (latest && changedFields.length === 0) return latest.version
+
+    const version = (latest?.version || 0) + 1
+    const now = new Date().toISOString()
+    try {
+      await versionsRef.doc(String(version)).create({
+        version,
+        fields,
+        changedFields,
+        author: d?.updatedBy || d?.updated_by || d?.createdBy || d?.created_by || '',
+        editedAt: (latest ? ted.updatedAt : ted.createdAt) || ted.updatedAt || now,
+        capturedAt: now,
+      })
+    } catch (error) {
+      // 6 = ALREADY_EXISTS: another read captured this version number first
+      if ((error as { code?: number }).code !== 6 || attempt >= 2) throw error
+      continue
+    }
+    await db.collection('ted_versions').doc(tedId).set({ latestVersion: version, updatedAt: now }, { merge: true })
+    return version
+  }
+}
+
+// Helper to escape text for the printed TED pages
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Helper to render label / value cells for the printed TED pages; empty values are left out
+function renderPrintFields(fields: Array<[string, unknown, boolean?]>): string {
+  return fields
+    .filter(([, value]) => value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+    .map(([label, value, wide]) => {
+      const text = Array.isArray(value) ? value.join(', ') : value
+      return `<div class="field${wide ? ' wide' : ''}"><span>${escapeHtml(label)}</span><p>${escapeHtml(text)}</p></div>`
+    })
+    .join('')
+}
+
+// Helper to wrap a printed TED page (A4, prints in colour, toolbar hidden on paper)
+function renderPrintPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  * { box-sizing: border-box; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #1f2937; font-size: 12px; margin: 0 auto; max-width: 190mm; padding: 12px; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; gap: 16px; border-bottom: 2px solid #15803d; padding-bottom: 8px; margin-bottom: 12px; }
+  header h1 { font-size: 20px; margin: 0; color: #15803d; font-family: ui-monospace, monospace; }
+  header .meta { color: #6b7280; margin-top: 2px; }
+  .qr { text-align: center; font-size: 9px; color: #6b7280; }
+  .qr svg { width: 28mm; height: 28mm; display: block; }
+  h2 { font-size: 11px; text-transform: uppercase; letter-spacing: 0.08em; color: #15803d; border-bottom: 1px solid #dcfce7; padding-bottom: 2px; margin: 14px 0 6px; break-after: avoid; }
+  .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 6px 16px; }
+  .field span { font-size: 9px; color: #9ca3af; text-transform: uppercase; }
+  .field p { margin: 1px 0 0; white-space: pre-wrap; }
+  .field.wide { grid-column: 1 / -1; }
+  .images { display: flex; flex-wrap: wrap; gap: 6px; break-inside: avoid; }
+  .images img { width: 44mm; height: 44mm; object-fit: cover; border: 1px solid #e5e7eb; border-radius: 4px; }
+  .order { display: grid; grid-template-columns: repeat(5, 1fr); gap: 8px; border: 2px solid #1f2937; border-radius: 6px; padding: 8px; margin-bottom: 8px; }
+  .order .field p { font-size: 16px; font-weight: 700; }
+  .note { background: #fef3c7; border: 1px solid #fcd34d; border-radius: 4px; padding: 4px 8px; margin-bottom: 8px; }
+  .toolbar { text-align: right; margin-bottom: 8px; }
+  .toolbar button { font: inherit; padding: 4px 12px; cursor: pointer; }
+  @media print { .toolbar { display: none; } body { padding: 0; } }
+</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print</button></div>
+${body}
+</body>
+</html>`
+}
+
+// Helper to render the header shared by the spec sheet and the loom card
+function renderTedPrintHeader(ted: PrintedTed, title: string, qrSvg: string, link: string): string {
+  return `<header>
+  <div>
+    <h1>${escapeHtml(title)}</h1>
+    <div class="meta">${escapeHtml([ted.buyerCode, ted.buyerName, ted.buyerDesignName].filter(Boolean).join(' · '))}</div>
+    <div class="meta">TED v${escapeHtml(ted.version)}${ted.ppMeetingDate ? ` · PP meeting ${escapeHtml(ted.ppMeetingDate)}` : ''} · Printed ${new Date().toISOString().split('T')[0]}</div>
+  </div>
+  <a class="qr" href="${escapeHtml(link)}">${qrSvg}Scan for the live TED</a>
+</header>`
+}
+
+// Helper to render the TED construction / materials sections (shared by both printouts)
+function renderTedConstruction(ted: TedDetail): string {
+  return `<h2>Construction</h2>
+<div class="grid">${renderPrintFields([
+    ['Product Type', ted.productType],
+    ['Construction', ted.construction],
+    ['Quality', ted.productQuality],
+    ['Size', ted.size],
+    ['GSM (Unfinished)', ted.unfinishedGsm],
+    ['GSM (Finished)', ted.finishedGsm],
+    ['Reed No / Kanghi', ted.reedNoKanghi],
+    ['Warp in 6 inches', ted.warpIn6Inches],
+    ['Weft in 6 inches', ted.weftIn6Inches],
+  ])}</div>
+<h2>Materials</h2>
+<div class="grid">${renderPrintFields([
+    ['Warp Material', ted.warpMaterial],
+    ['Weft Material', ted.weftMaterial],
+    ['Pile Material', ted.pileMaterial],
+    ['Pile Height (Unfinished)', ted.pileHeightUnfinished],
+    ['Pile Height (Finished)', ted.pileHeightFinished],
+    ['Fringes / Hemming', ted.fringesDetails],
+    ['Khati Details', ted.khatiDetails],
+  ])}</div>`
+}
+
+// Helper to render the TED images grouped by category (optionally only some categories)
+function renderTedImages(imageUrls: Record<string, unknown>, labels?: string[]): string {
+  return TED_IMAGE_CATEGORIES
+    .filter((category) => !labels || labels.includes(category.label))
+    .map((category) => {
+      const urls = category.keys.flatMap((key) => (Array.isArray(imageUrls?.[key]) ? imageUrls[key] as string[] : []))
+      if (urls.length === 0) return ''
+      return `<h2>${escapeHtml(category.label)}</h2>
+<div class="images">${urls.map((src) => `<img src="${escapeHtml(src)}" alt="${escapeHtml(category.label)}">`).join('')}</div>`
+    })
+    .join('')
+}
+
+// Helper to render the full TED spec sheet
+function renderTedSheet(ted: PrintedTed, qrSvg: string, link: string): string {
+  return renderPrintPage(`TED ${ted.emDesignNo}`, `${renderTedPrintHeader(ted, ted.emDesignNo || 'No Design No', qrSvg, link)}
+<h2>Header</h2>
+<div class="grid">${renderPrintFields([
+    ['EM Design No', ted.emDesignNo],
+    ['Buyer Design Name', ted.buyerDesignName],
+    ['Buyer Code', ted.buyerCode],
+    ['Buyer Name', ted.buyerName],
+    ['PP Meeting Date', ted.ppMeetingDate],
+    ['Status', ted.status],
+    ['Attendees', ted.meetingAttendees, true],
+  ])}</div>
+${renderTedConstruction(ted)}
+<h2>Quality &amp; Process</h2>
+<div class="grid">${renderPrintFields([
+    ['Size Tolerance', ted.sizeTolerance],
+    ['Shade Card Available', ted.shadeCardAvailable],
+    ['Red Seal Available', ted.redSealAvailable],
+    ['Process Flow', ted.processFlow, true],
+    ['Quality Call Outs (CTQ)', ted.qualityCallOutsCtq, true],
+    ["Buyer's Specific Requirements", ted.buyersSpecificRequirements, true],
+    ['Remarks', ted.remarks, true],
+  ])}</div>
+${renderTedImages(ted.imageUrls)}`)
+}
+
+// Helper to render the loom card: order and item on top, then what the loom needs from the TED
+function renderLoomCard(ted: PrintedTed, order: Order, item: OrderItem, pinned: boolean, qrSvg: string, link: string): string {
+  const opsNo = normalizeOpsNo(order.salesNo)
+  return renderPrintPage(`Loom card ${opsNo} · ${ted.emDesignNo}`, `${renderTedPrintHeader(ted, `${opsNo} · ${ted.emDesignNo || item.emDesignName || ''}`, qrSvg, link)}
+<div class="order">${renderPrintFields([
+    ['OPS No', opsNo],
+    ['Buyer', order.customerCode],
+    ['Item Size', item.size],
+    ['Pcs', item.pcs],
+    ['Ex-Factory', order.shipDate],
+  ])}</div>
+${pinned ? `<div class="note">Produce against TED v${escapeHtml(ted.version)} (pinned for this order)</div>` : ''}
+<div class="grid">${renderPrintFields([
+    ['Article', item.articleName],
+    ['Colour', item.color],
+    ['Quality', item.quality],
+  ])}</div>
+${renderTedConstruction(ted)}
+<h2>Quality</h2>
+<div class="grid">${renderPrintFields([
+    ['Size Tolerance', ted.sizeTolerance],
+    ['Quality Call Outs (CTQ)', ted.qualityCallOutsCtq, true],
+    ["Buyer's Specific Requirements", ted.buyersSpecificRequirements, true],
+  ])}</div>
+${renderTedImages(ted.imageUrls, ['Product Photos', 'Approved CAD'])}`)
+}
+
+// Helper to normalize an EM design number for matching: case, spaces and punctuation, the
+// company prefix and leading zeros are ignored ("EM-0123 A", "em123a" and "EMPL 123/A" all match)
+function normalizeDesignNo(value: unknown): string {
+  return String(value || '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+    .replace(/^(EMPL|EHI|EM)(?=\d)/, '')
+    .replace(/(^|\D)0+(?=\d)/g, '$1')
+}
+
+// Helper to get the base design of a normalized design number (colourway / variant suffix dropped)
+function designCore(key: string): string {
+  return key.match(/^[A-Z]*\d+/)?.[0] || ''
+}
+
+// Helper to order matching TEDs: the order's buyer first, then the most recent PP meeting
+function pickBuyerTeds<T extends { buyerCode: string }>(teds: T[], buyerCode: string | undefined): T[] {
+  const buyer = String(buyerCode || '').toUpperCase()
+  return [...teds.filter((t) => t.buyerCode.toUpperCase() === buyer), ...teds.filter((t) => t.buyerCode.toUpperCase() !== buyer)]
+}
+
+// Helper to calculate current stage, following the order's TNA template
 function calculateCurrentStage(
-  stages: Record<TnaStage, StageUpdate> | undefined,
-  tna: any
-): TnaStage {
-  if (!stages) return 'raw_material_purchase'
+  stages: Record<string, StageUpdate> | undefined,
+  template: TnaTemplate
+): string {
+  const stageKeys = template.stages.map((s) => s.key)
+  if (!stages) return stageKeys[0]
 
   // Find the first non-completed stage
-  for (const stage of TNA_STAGES) {
+  for (const stage of stageKeys) {
     const stageData = stages[stage]
 
     if (!stageData || stageData.status !== 'completed') {
@@ -793,5 +4842,5 @@ function calculateCurrentStage(
     }
   }
 
-  return 'dispatch'
+  return stageKeys[stageKeys.length - 1]
 }
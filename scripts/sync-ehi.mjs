@@ -1,15 +1,34 @@
 #!/usr/bin/env node
 /**
- * EHI SQL Server → Neon PostgreSQL Sync Script (v2 — Bulk optimized)
+ * EHI SQL Server → Neon PostgreSQL Sync Script (v3 — Bulk, upsert)
  *
  * Uses PostgreSQL unnest() for bulk inserts instead of row-by-row.
  * Full sync now takes ~1 min instead of ~35 min.
  *
+ * Incremental mode (default) still reads every open order, item and carpet
+ * from SQL Server — the EHI tables have no modified-date column to filter on.
+ * It upserts on source IDs (order_id_src, order_detail_id_src, stock_no), so
+ * PG ids stay stable between runs, and only rows whose values differ from PG
+ * are updated. Orders that are no longer open, and their items and carpets,
+ * get deleted_at set instead of being removed. Each run stores the SQL Server
+ * time it started reading as ehi_sync_log.watermark; it is a record of how
+ * current that run's data is, and is not used to limit later reads.
+ *
+ * --full keeps the old behaviour: TRUNCATE and reload (ids are renumbered).
+ *
+ * Both modes append to ehi_carpet_events whenever a carpet's process changes,
+ * which is where the API gets EHI stage dwell times and bazar dates.
+ * Carpets with an invoice get wip_stage 'dispatched' and the invoice date as
+ * dispatch_date. The invoice lookup is a separate query; if it fails the sync
+ * carries on with the dispatch data already stored, and the run is logged as a
+ * success with failed_step 'dispatch lookup' so the dashboard flags it.
+ *
  * Prerequisites:
  *   npm install mssql pg dotenv   (these are NOT in package.json — sync-only deps)
  *
  * Usage:
- *   node scripts/sync-ehi.mjs               # Full sync
+ *   node scripts/sync-ehi.mjs               # Incremental sync (upsert + soft delete)
+ *   node scripts/sync-ehi.mjs --full        # Full reload (TRUNCATE)
  *   node scripts/sync-ehi.mjs --init        # Create tables (first run)
  *   node scripts/sync-ehi.mjs --discover    # Discovery queries only
  *
@@ -56,15 +75,18 @@ const EHI_PG_URL = process.env.EHI_DATABASE_URL;
 // ============================================================================
 // Process Stage Mapping — Maps EHI process numbers to WIP stages
 // ============================================================================
+// The live mapping is ehi_process_stage_map (edited from the tracker's EHI
+// Stages tab). These defaults seed it for processes that have no row yet.
 
 const WIP_STAGE = {
   ON_LOOM: 'on_loom',
   FINISHING: 'finishing',
   FG_GODOWN: 'fg_godown',
   PACKED: 'packed',
+  DISPATCHED: 'dispatched',
 };
 
-function getWipStage(processId) {
+function defaultWipStage(processId) {
   if (processId === 1) return WIP_STAGE.ON_LOOM;
   if ([7, 25, 27].includes(processId)) return WIP_STAGE.PACKED;
   if ([21, 22].includes(processId)) return WIP_STAGE.FG_GODOWN;
@@ -72,6 +94,10 @@ function getWipStage(processId) {
   return WIP_STAGE.ON_LOOM;
 }
 
+function getWipStage(processId, stageMap) {
+  return stageMap.get(processId) ?? defaultWipStage(processId);
+}
+
 // ============================================================================
 // Logging
 // ============================================================================
@@ -102,7 +128,8 @@ CREATE TABLE IF NOT EXISTS ehi_orders (
   local_order VARCHAR(200),
   total_pcs INT DEFAULT 0,
   total_items INT DEFAULT 0,
-  synced_at TIMESTAMPTZ DEFAULT NOW()
+  synced_at TIMESTAMPTZ DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
 );
 
 CREATE TABLE IF NOT EXISTS ehi_order_items (
@@ -117,7 +144,8 @@ CREATE TABLE IF NOT EXISTS ehi_order_items (
   quality VARCHAR(200),
   ordered_qty INT DEFAULT 0,
   article_no VARCHAR(100),
-  synced_at TIMESTAMPTZ DEFAULT NOW()
+  synced_at TIMESTAMPTZ DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
 );
 
 CREATE TABLE IF NOT EXISTS ehi_carpets (
@@ -129,7 +157,22 @@ CREATE TABLE IF NOT EXISTS ehi_carpets (
   current_process_name VARCHAR(200),
   wip_stage VARCHAR(30),
   is_packed BOOLEAN DEFAULT FALSE,
-  synced_at TIMESTAMPTZ DEFAULT NOW()
+  packing_id INT,
+  invoice_no VARCHAR(100),
+  dispatch_date DATE,
+  synced_at TIMESTAMPTZ DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+-- One row per process change; survives --full reloads (keyed on stock_no, not PG ids)
+CREATE TABLE IF NOT EXISTS ehi_carpet_events (
+  id SERIAL PRIMARY KEY,
+  stock_no INT NOT NULL,
+  from_process INT,
+  to_process INT,
+  from_stage VARCHAR(30),
+  to_stage VARCHAR(30),
+  event_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 CREATE TABLE IF NOT EXISTS ehi_process_names (
@@ -138,6 +181,13 @@ CREATE TABLE IF NOT EXISTS ehi_process_names (
   short_name VARCHAR(50)
 );
 
+CREATE TABLE IF NOT EXISTS ehi_process_stage_map (
+  process_id INT PRIMARY KEY,
+  wip_stage VARCHAR(30) NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_by VARCHAR(200)
+);
+
 CREATE TABLE IF NOT EXISTS ehi_sync_log (
   id SERIAL PRIMARY KEY,
   sync_type VARCHAR(50),
@@ -146,7 +196,13 @@ CREATE TABLE IF NOT EXISTS ehi_sync_log (
   orders_synced INT DEFAULT 0,
   items_synced INT DEFAULT 0,
   carpets_synced INT DEFAULT 0,
+  rows_inserted INT DEFAULT 0,
+  rows_updated INT DEFAULT 0,
+  rows_deleted INT DEFAULT 0,
+  watermark TIMESTAMPTZ,
+  events_recorded INT DEFAULT 0,
   errors TEXT,
+  failed_step VARCHAR(50),
   status VARCHAR(20) DEFAULT 'running'
 );
 
@@ -156,6 +212,40 @@ CREATE INDEX IF NOT EXISTS idx_ehi_carpets_wip_stage ON ehi_carpets(wip_stage);
 CREATE INDEX IF NOT EXISTS idx_ehi_orders_status ON ehi_orders(status);
 CREATE INDEX IF NOT EXISTS idx_ehi_orders_order_no ON ehi_orders(order_no);
 CREATE INDEX IF NOT EXISTS idx_ehi_carpets_stock_no ON ehi_carpets(stock_no);
+CREATE INDEX IF NOT EXISTS idx_ehi_carpet_events_stock_no ON ehi_carpet_events(stock_no, event_at);
+`;
+
+// Run on every sync so tables created by older versions pick up new columns
+const MIGRATE_SQL = `
+ALTER TABLE ehi_order_items ADD COLUMN IF NOT EXISTS order_id_src INT;
+ALTER TABLE ehi_orders ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE ehi_order_items ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE ehi_carpets ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE ehi_carpets ADD COLUMN IF NOT EXISTS packing_id INT;
+ALTER TABLE ehi_carpets ADD COLUMN IF NOT EXISTS invoice_no VARCHAR(100);
+ALTER TABLE ehi_carpets ADD COLUMN IF NOT EXISTS dispatch_date DATE;
+ALTER TABLE ehi_sync_log ADD COLUMN IF NOT EXISTS rows_inserted INT DEFAULT 0;
+ALTER TABLE ehi_sync_log ADD COLUMN IF NOT EXISTS rows_updated INT DEFAULT 0;
+ALTER TABLE ehi_sync_log ADD COLUMN IF NOT EXISTS rows_deleted INT DEFAULT 0;
+ALTER TABLE ehi_sync_log ADD COLUMN IF NOT EXISTS watermark TIMESTAMPTZ;
+ALTER TABLE ehi_sync_log ADD COLUMN IF NOT EXISTS events_recorded INT DEFAULT 0;
+ALTER TABLE ehi_sync_log ADD COLUMN IF NOT EXISTS failed_step VARCHAR(50);
+CREATE TABLE IF NOT EXISTS ehi_carpet_events (
+  id SERIAL PRIMARY KEY,
+  stock_no INT NOT NULL,
+  from_process INT,
+  to_process INT,
+  from_stage VARCHAR(30),
+  to_stage VARCHAR(30),
+  event_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_ehi_carpet_events_stock_no ON ehi_carpet_events(stock_no, event_at);
+CREATE TABLE IF NOT EXISTS ehi_process_stage_map (
+  process_id INT PRIMARY KEY,
+  wip_stage VARCHAR(30) NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_by VARCHAR(200)
+);
 `;
 
 // ============================================================================
@@ -205,7 +295,19 @@ async function runDiscovery(sqlPool) {
     ORDER BY cn.CurrentProStatus
   `);
   dist.recordset.forEach(d => {
-    log(`  Process ${d.CurrentProStatus} (${d.PROCESS_NAME || 'NONE'}): ${d.cnt} carpets → ${getWipStage(d.CurrentProStatus)}`);
+    log(`  Process ${d.CurrentProStatus} (${d.PROCESS_NAME || 'NONE'}): ${d.cnt} carpets → ${defaultWipStage(d.CurrentProStatus)} (default)`);
+  });
+
+  log('\n--- Packing / Invoice Tables (dispatch sync) ---');
+  const dispatchTables = await sqlPool.query(`
+    SELECT TABLE_NAME, STRING_AGG(COLUMN_NAME, ', ') as Columns
+    FROM INFORMATION_SCHEMA.COLUMNS
+    WHERE TABLE_NAME LIKE '%PACKING%' OR TABLE_NAME LIKE '%INVOICE%'
+    GROUP BY TABLE_NAME
+    ORDER BY TABLE_NAME
+  `);
+  dispatchTables.recordset.forEach(t => {
+    log(`  ${t.TABLE_NAME}: ${t.Columns}`);
   });
 
   log('\n=== Discovery Complete ===');
@@ -244,11 +346,200 @@ async function bulkInsert(pgClient, table, columns, types, arrays, batchSize = 1
   }
 }
 
+/**
+ * Bulk upsert keyed on a source ID, same unnest approach as bulkInsert.
+ * Only rows whose values changed (or that were soft-deleted) are written, so
+ * PG ids stay stable and synced_at marks the last real change.
+ * @param {string} key - Unique source ID column (e.g. 'order_id_src', 'stock_no')
+ * @returns {Promise<{inserted: number, updated: number}>}
+ */
+async function bulkUpsert(pgClient, table, key, columns, types, arrays, batchSize = 10000) {
+  const counts = { inserted: 0, updated: 0 };
+  const totalRows = arrays[0].length;
+  if (totalRows === 0) return counts;
+
+  const updateCols = columns.filter(c => c !== key);
+
+  for (let offset = 0; offset < totalRows; offset += batchSize) {
+    const end = Math.min(offset + batchSize, totalRows);
+    const batchArrays = arrays.map(arr => arr.slice(offset, end));
+
+    const unnestParams = types.map((type, i) => `$${i + 1}::${type}`).join(', ');
+
+    // xmax = 0 only for freshly inserted rows
+    const result = await pgClient.query(
+      `INSERT INTO ${table} (${columns.join(', ')}, synced_at)
+       SELECT ${columns.map((_, i) => `u.c${i}`).join(', ')}, NOW()
+       FROM unnest(${unnestParams}) AS u(${columns.map((_, i) => `c${i}`).join(', ')})
+       ON CONFLICT (${key}) DO UPDATE SET
+         ${updateCols.map(c => `${c} = EXCLUDED.${c}`).join(', ')},
+         synced_at = NOW(),
+         deleted_at = NULL
+       WHERE (${updateCols.map(c => `${table}.${c}`).join(', ')}) IS DISTINCT FROM (${updateCols.map(c => `EXCLUDED.${c}`).join(', ')})
+          OR ${table}.deleted_at IS NOT NULL
+       RETURNING (xmax = 0) AS inserted`,
+      batchArrays
+    );
+
+    for (const row of result.rows) {
+      if (row.inserted) counts.inserted++;
+      else counts.updated++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Soft-delete rows whose source ID is no longer in the synced set.
+ * @returns {Promise<number>} rows marked deleted
+ */
+async function softDeleteMissing(pgClient, table, key, keepIds) {
+  const result = await pgClient.query(
+    `UPDATE ${table} SET deleted_at = NOW(), synced_at = NOW()
+     WHERE deleted_at IS NULL AND NOT (${key} = ANY($1::int[]))`,
+    [keepIds]
+  );
+  return result.rowCount;
+}
+
+/**
+ * Record an ehi_carpet_events row for every carpet whose process or stage
+ * (dispatch doesn't change the process) differs from its last recorded event. Carpets with no events yet get a first-seen event
+ * (from_process NULL). Compared against the event log rather than ehi_carpets,
+ * so it works the same after a --full TRUNCATE.
+ * @returns {Promise<number>} events recorded
+ */
+async function recordCarpetEvents(pgClient, stockNos, processes, stages) {
+  if (stockNos.length === 0) return 0;
+
+  const result = await pgClient.query(
+    `INSERT INTO ehi_carpet_events (stock_no, from_process, to_process, from_stage, to_stage, event_at)
+     SELECT u.stock_no, last.to_process, u.process, last.to_stage, u.stage, NOW()
+     FROM unnest($1::int[], $2::int[], $3::text[]) AS u(stock_no, process, stage)
+     LEFT JOIN LATERAL (
+       SELECT e.to_process, e.to_stage FROM ehi_carpet_events e
+       WHERE e.stock_no = u.stock_no
+       ORDER BY e.event_at DESC, e.id DESC
+       LIMIT 1
+     ) last ON TRUE
+     WHERE last.to_stage IS NULL
+        OR last.to_process IS DISTINCT FROM u.process
+        OR last.to_stage IS DISTINCT FROM u.stage`,
+    [stockNos, processes, stages]
+  );
+  return result.rowCount;
+}
+
+// Transpose row arrays into the column arrays bulkInsert/bulkUpsert expect
+function toColumnArrays(rows, columnCount) {
+  const arrays = Array.from({ length: columnCount }, () => []);
+  for (const row of rows) {
+    row.forEach((value, i) => arrays[i].push(value));
+  }
+  return arrays;
+}
+
+// Full mode inserts into freshly truncated tables; incremental mode upserts on the source key
+async function writeRows(pgClient, spec, rows, incremental, batchSize) {
+  const arrays = toColumnArrays(rows, spec.columns.length);
+  if (incremental) {
+    return bulkUpsert(pgClient, spec.table, spec.key, spec.columns, spec.types, arrays, batchSize);
+  }
+  await bulkInsert(pgClient, spec.table, spec.columns, spec.types, arrays, batchSize);
+  return { inserted: rows.length, updated: 0 };
+}
+
 // ============================================================================
-// Sync Logic (v2 — Bulk)
+// Table Specs — column order matches the *Row() builders below
 // ============================================================================
 
-async function syncOrders(sqlPool, pgClient) {
+const ORDERS = {
+  table: 'ehi_orders',
+  key: 'order_id_src',
+  columns: ['order_no', 'order_id_src', 'buyer_code', 'order_date', 'dispatch_date', 'status', 'local_order', 'total_pcs', 'total_items'],
+  types: ['text[]', 'int[]', 'text[]', 'date[]', 'date[]', 'text[]', 'text[]', 'int[]', 'int[]'],
+};
+
+const ORDER_ITEMS = {
+  table: 'ehi_order_items',
+  key: 'order_detail_id_src',
+  columns: ['order_id', 'order_detail_id_src', 'order_id_src', 'item_finished_id', 'design_name', 'size', 'color', 'quality', 'ordered_qty', 'article_no'],
+  types: ['int[]', 'int[]', 'int[]', 'int[]', 'text[]', 'text[]', 'text[]', 'text[]', 'int[]', 'text[]'],
+};
+
+const CARPETS = {
+  table: 'ehi_carpets',
+  key: 'stock_no',
+  columns: ['stock_no', 't_stock_no', 'order_item_id', 'current_process', 'current_process_name', 'wip_stage', 'is_packed', 'packing_id', 'invoice_no', 'dispatch_date'],
+  types: ['int[]', 'text[]', 'int[]', 'int[]', 'text[]', 'text[]', 'boolean[]', 'int[]', 'text[]', 'date[]'],
+};
+
+function orderRow(o) {
+  return [
+    o.CustomerOrderNo || '',
+    o.OrderId,
+    o.CustomerCode || '',
+    o.OrderDate || null,
+    o.DispatchDate || null,
+    o.Status || '0',
+    o.LocalOrder || '',
+    o.TotalPcs || 0,
+    o.ItemCount || 0,
+  ];
+}
+
+function orderItemRow(item, pgOrderId) {
+  return [
+    pgOrderId,
+    item.OrderDetailId,
+    item.OrderId,
+    item.Item_Finished_Id,
+    item.DesignName || '',
+    item.SizeName || '',
+    item.ColorName || '',
+    item.QualityName || '',
+    item.QtyRequired || 0,
+    item.ArticalNo || '',
+  ];
+}
+
+function carpetRow(carpet, pgItemId, stageMap) {
+  return [
+    carpet.StockNo,
+    carpet.TStockNo || '',
+    pgItemId,
+    carpet.CurrentProStatus || null,
+    carpet.ProcessName || '',
+    // An invoiced carpet has left the factory, whatever its last process was
+    carpet.DispatchDate ? WIP_STAGE.DISPATCHED : getWipStage(carpet.CurrentProStatus, stageMap),
+    carpet.IsPacked === 1,
+    carpet.PackingID || null,
+    carpet.InvoiceNo || '',
+    carpet.DispatchDate || null,
+  ];
+}
+
+// Source keys for upserts. Created inside the sync transaction: right after
+// TRUNCATE in full mode, so a v1 table with duplicate stock numbers can always
+// be fixed with --full.
+async function ensureSourceKeys(pgClient) {
+  try {
+    await pgClient.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS uq_ehi_orders_order_id_src ON ehi_orders(order_id_src);
+      CREATE UNIQUE INDEX IF NOT EXISTS uq_ehi_order_items_detail_src ON ehi_order_items(order_detail_id_src);
+      CREATE UNIQUE INDEX IF NOT EXISTS uq_ehi_carpets_stock_no ON ehi_carpets(stock_no);
+    `);
+  } catch (err) {
+    throw new Error(`Could not create source ID indexes (${err.message}) — run once with --full`);
+  }
+}
+
+// ============================================================================
+// Sync Logic (v3 — Bulk, full or incremental)
+// ============================================================================
+
+async function syncOrders(sqlPool, pgClient, incremental, stats) {
   log('Syncing orders...');
 
   const result = await sqlPool.query(`
@@ -270,55 +561,65 @@ async function syncOrders(sqlPool, pgClient) {
 
   log(`  Found ${result.recordset.length} open orders in EHI`);
 
-  // Clear existing
-  await pgClient.query('TRUNCATE ehi_carpets, ehi_order_items, ehi_orders RESTART IDENTITY CASCADE');
-
-  // Build column arrays
-  const orderNos = [];
-  const orderIdSrcs = [];
-  const buyerCodes = [];
-  const orderDates = [];
-  const dispatchDates = [];
-  const statuses = [];
-  const localOrders = [];
-  const totalPcs = [];
-  const totalItems = [];
-
-  for (const o of result.recordset) {
-    orderNos.push(o.CustomerOrderNo || '');
-    orderIdSrcs.push(o.OrderId);
-    buyerCodes.push(o.CustomerCode || '');
-    orderDates.push(o.OrderDate || null);
-    dispatchDates.push(o.DispatchDate || null);
-    statuses.push(o.Status || '0');
-    localOrders.push(o.LocalOrder || '');
-    totalPcs.push(o.TotalPcs || 0);
-    totalItems.push(o.ItemCount || 0);
+  if (!incremental) {
+    // Clear existing
+    await pgClient.query('TRUNCATE ehi_carpets, ehi_order_items, ehi_orders RESTART IDENTITY CASCADE');
   }
+  await ensureSourceKeys(pgClient);
 
-  await bulkInsert(pgClient, 'ehi_orders',
-    ['order_no', 'order_id_src', 'buyer_code', 'order_date', 'dispatch_date', 'status', 'local_order', 'total_pcs', 'total_items'],
-    ['text[]', 'int[]', 'text[]', 'date[]', 'date[]', 'text[]', 'text[]', 'int[]', 'int[]'],
-    [orderNos, orderIdSrcs, buyerCodes, orderDates, dispatchDates, statuses, localOrders, totalPcs, totalItems],
-    5000
-  );
+  const counts = await writeRows(pgClient, ORDERS, result.recordset.map(orderRow), incremental, 5000);
+  addCounts(stats, counts);
+
+  if (incremental) {
+    stats.deleted += await closeOrders(sqlPool, pgClient, result.recordset.map(o => o.OrderId));
+  }
 
   // Build orderIdMap: EHI OrderId → PG id
-  const mapResult = await pgClient.query('SELECT id, order_id_src FROM ehi_orders');
+  const mapResult = await pgClient.query('SELECT id, order_id_src FROM ehi_orders WHERE deleted_at IS NULL');
   const orderIdMap = new Map();
   for (const row of mapResult.rows) {
     orderIdMap.set(row.order_id_src, row.id);
   }
 
-  log(`  Synced ${orderIdMap.size} orders`);
+  log(`  Synced ${orderIdMap.size} orders (${counts.inserted} new, ${counts.updated} changed)`);
   return orderIdMap;
 }
 
-async function syncOrderItems(sqlPool, pgClient, orderIdMap) {
+// Orders that are no longer open in EHI: copy their current source status
+// ('deleted' if the order is gone) and soft-delete them
+async function closeOrders(sqlPool, pgClient, openOrderIds) {
+  const closedRes = await pgClient.query(
+    'SELECT order_id_src FROM ehi_orders WHERE deleted_at IS NULL AND NOT (order_id_src = ANY($1::int[]))',
+    [openOrderIds]
+  );
+  const closedIds = closedRes.rows.map(r => r.order_id_src);
+  if (closedIds.length === 0) return 0;
+
+  const SQL_BATCH = 200;
+  const sourceStatus = new Map();
+  for (let i = 0; i < closedIds.length; i += SQL_BATCH) {
+    const idList = closedIds.slice(i, i + SQL_BATCH).join(',');
+    const result = await sqlPool.query(`SELECT OrderId, Status FROM OrderMaster WHERE OrderId IN (${idList})`);
+    for (const o of result.recordset) {
+      sourceStatus.set(o.OrderId, o.Status || '');
+    }
+  }
+
+  await pgClient.query(
+    `UPDATE ehi_orders o SET status = u.status, deleted_at = NOW(), synced_at = NOW()
+     FROM unnest($1::int[], $2::text[]) AS u(order_id_src, status)
+     WHERE o.order_id_src = u.order_id_src`,
+    [closedIds, closedIds.map(id => sourceStatus.get(id) ?? 'deleted')]
+  );
+
+  log(`  Closed ${closedIds.length} orders no longer open in EHI`);
+  return closedIds.length;
+}
+
+async function syncOrderItems(sqlPool, pgClient, orderIdMap, incremental, stats) {
   log('Syncing order items...');
 
   const ehiOrderIds = Array.from(orderIdMap.keys());
-  if (ehiOrderIds.length === 0) return new Map();
 
   // Fetch all items from SQL Server (batched)
   const SQL_BATCH = 200;
@@ -354,92 +655,88 @@ async function syncOrderItems(sqlPool, pgClient, orderIdMap) {
 
   log(`  Found ${allItems.length} order items`);
 
-  // Build column arrays
-  const orderIds = [];
-  const orderDetailIdSrcs = [];
-  const orderIdSrcs = [];
-  const itemFinishedIds = [];
-  const designNames = [];
-  const sizes = [];
-  const colors = [];
-  const qualities = [];
-  const orderedQtys = [];
-  const articleNos = [];
-
+  const rows = [];
   for (const item of allItems) {
     const pgOrderId = orderIdMap.get(item.OrderId);
     if (!pgOrderId) continue;
-
-    orderIds.push(pgOrderId);
-    orderDetailIdSrcs.push(item.OrderDetailId);
-    orderIdSrcs.push(item.OrderId);
-    itemFinishedIds.push(item.Item_Finished_Id);
-    designNames.push(item.DesignName || '');
-    sizes.push(item.SizeName || '');
-    colors.push(item.ColorName || '');
-    qualities.push(item.QualityName || '');
-    orderedQtys.push(item.QtyRequired || 0);
-    articleNos.push(item.ArticalNo || '');
+    rows.push(orderItemRow(item, pgOrderId));
   }
 
-  await bulkInsert(pgClient, 'ehi_order_items',
-    ['order_id', 'order_detail_id_src', 'order_id_src', 'item_finished_id', 'design_name', 'size', 'color', 'quality', 'ordered_qty', 'article_no'],
-    ['int[]', 'int[]', 'int[]', 'int[]', 'text[]', 'text[]', 'text[]', 'text[]', 'int[]', 'text[]'],
-    [orderIds, orderDetailIdSrcs, orderIdSrcs, itemFinishedIds, designNames, sizes, colors, qualities, orderedQtys, articleNos],
-    5000
-  );
+  const counts = await writeRows(pgClient, ORDER_ITEMS, rows, incremental, 5000);
+  addCounts(stats, counts);
+
+  if (incremental) {
+    stats.deleted += await softDeleteMissing(pgClient, 'ehi_order_items', 'order_detail_id_src', allItems.map(item => item.OrderDetailId));
+  }
 
   // Build itemIdMap: "ehiOrderId-itemFinishedId" → PG id
-  const mapResult = await pgClient.query('SELECT id, order_id_src, item_finished_id FROM ehi_order_items');
+  const mapResult = await pgClient.query('SELECT id, order_id_src, item_finished_id FROM ehi_order_items WHERE deleted_at IS NULL');
   const itemIdMap = new Map();
   for (const row of mapResult.rows) {
     const key = `${row.order_id_src}-${row.item_finished_id}`;
     itemIdMap.set(key, row.id);
   }
 
-  log(`  Synced ${itemIdMap.size} order items`);
+  log(`  Synced ${itemIdMap.size} order items (${counts.inserted} new, ${counts.updated} changed)`);
   return itemIdMap;
 }
 
-async function syncCarpets(sqlPool, pgClient, orderIdMap, itemIdMap) {
+// Invoice number and date (the dispatch date) per stock number, via packing list → invoice.
+// Kept out of the carpet query so that wrong table/column names fail only this lookup, not the
+// carpet sync. PACKING/INVOICE and their join columns have not been confirmed against the live
+// ERP yet: check the "Packing / Invoice Tables" section of --discover before relying on it.
+async function fetchDispatchInfo(sqlPool, idList) {
+  const result = await sqlPool.query(`
+    SELECT cn.StockNo, inv.InvoiceNo, inv.InvoiceDate as DispatchDate
+    FROM CarpetNumber cn
+    JOIN PACKING pk ON pk.PackingId = cn.PackingID
+    JOIN INVOICE inv ON inv.InvoiceId = pk.InvoiceId
+    WHERE cn.OrderId IN (${idList})
+  `);
+  return new Map(result.recordset.map(r => [r.StockNo, { InvoiceNo: r.InvoiceNo, DispatchDate: r.DispatchDate }]));
+}
+
+// Dispatch data already in PG, used when the ERP lookup fails so dispatched carpets stay
+// dispatched. Empty after a --full TRUNCATE.
+async function fetchStoredDispatchInfo(pgClient, stockNos) {
+  const result = await pgClient.query(
+    `SELECT stock_no, invoice_no, dispatch_date FROM ehi_carpets
+     WHERE stock_no = ANY($1::int[]) AND dispatch_date IS NOT NULL`,
+    [stockNos]
+  );
+  return new Map(result.rows.map(r => [r.stock_no, { InvoiceNo: r.invoice_no, DispatchDate: r.dispatch_date }]));
+}
+
+async function syncCarpets(sqlPool, pgClient, orderIdMap, itemIdMap, stageMap, incremental, stats) {
   log('Syncing carpets (bulk mode)...');
 
   const ehiOrderIds = Array.from(orderIdMap.keys());
-  if (ehiOrderIds.length === 0) return 0;
 
   let carpetCount = 0;
   const SQL_BATCH = 200;
   const PG_BATCH = 10000;
 
-  // Accumulate carpets across SQL batches, flush to PG in PG_BATCH chunks
-  let stockNos = [];
-  let tStockNos = [];
-  let orderItemIds = [];
-  let currentProcesses = [];
-  let processNames = [];
-  let wipStages = [];
-  let isPackedArr = [];
+  // Accumulate carpets across SQL batches, flush to PG in PG_BATCH chunks.
+  // stock_no is the upsert key, so a carpet listed twice is only written once.
+  let rows = [];
+  const seenStockNos = new Set();
+  // Turned off after the first failed dispatch lookup
+  let dispatchLookup = true;
 
   async function flushCarpets() {
-    if (stockNos.length === 0) return;
+    if (rows.length === 0) return;
 
-    await bulkInsert(pgClient, 'ehi_carpets',
-      ['stock_no', 't_stock_no', 'order_item_id', 'current_process', 'current_process_name', 'wip_stage', 'is_packed'],
-      ['int[]', 'text[]', 'int[]', 'int[]', 'text[]', 'text[]', 'boolean[]'],
-      [stockNos, tStockNos, orderItemIds, currentProcesses, processNames, wipStages, isPackedArr],
-      PG_BATCH
-    );
+    const column = name => rows.map(r => r[CARPETS.columns.indexOf(name)]);
+    stats.events += await recordCarpetEvents(pgClient,
+      column('stock_no'), column('current_process'), column('wip_stage'));
 
-    carpetCount += stockNos.length;
+    const counts = await writeRows(pgClient, CARPETS, rows, incremental, PG_BATCH);
+    addCounts(stats, counts);
 
-    // Reset buffers
-    stockNos = [];
-    tStockNos = [];
-    orderItemIds = [];
-    currentProcesses = [];
-    processNames = [];
-    wipStages = [];
-    isPackedArr = [];
+    carpetCount += rows.length;
+
+    // Reset buffer
+    rows = [];
   }
 
   for (let i = 0; i < ehiOrderIds.length; i += SQL_BATCH) {
@@ -454,28 +751,37 @@ async function syncCarpets(sqlPool, pgClient, orderIdMap, itemIdMap) {
         cn.Item_Finished_Id,
         cn.CurrentProStatus,
         COALESCE(pnm.PROCESS_NAME, '') as ProcessName,
-        CASE WHEN cn.PackingID IS NOT NULL THEN 1 ELSE 0 END as IsPacked
+        CASE WHEN cn.PackingID IS NOT NULL THEN 1 ELSE 0 END as IsPacked,
+        cn.PackingID
       FROM CarpetNumber cn
       LEFT JOIN PROCESS_NAME_MASTER pnm ON pnm.PROCESS_NAME_ID = cn.CurrentProStatus
       WHERE cn.OrderId IN (${idList})
     `);
 
+    let dispatch = null;
+    if (dispatchLookup) {
+      try {
+        dispatch = await fetchDispatchInfo(sqlPool, idList);
+      } catch (err) {
+        logError('  Dispatch lookup failed; keeping stored dispatch data for the rest of this run', err);
+        dispatchLookup = false;
+        stats.dispatchError = err.message;
+      }
+    }
+    if (!dispatch) {
+      dispatch = await fetchStoredDispatchInfo(pgClient, result.recordset.map(c => c.StockNo).filter(n => n != null));
+    }
+
     for (const carpet of result.recordset) {
+      if (carpet.StockNo == null || seenStockNos.has(carpet.StockNo)) continue;
+      seenStockNos.add(carpet.StockNo);
+
       const key = `${carpet.OrderId}-${carpet.Item_Finished_Id}`;
-      const pgItemId = itemIdMap.get(key) || null;
-      const wipStage = getWipStage(carpet.CurrentProStatus);
-
-      stockNos.push(carpet.StockNo);
-      tStockNos.push(carpet.TStockNo || '');
-      orderItemIds.push(pgItemId);
-      currentProcesses.push(carpet.CurrentProStatus || null);
-      processNames.push(carpet.ProcessName || '');
-      wipStages.push(wipStage);
-      isPackedArr.push(carpet.IsPacked === 1);
+      rows.push(carpetRow({ ...carpet, ...dispatch.get(carpet.StockNo) }, itemIdMap.get(key) || null, stageMap));
     }
 
     // Flush when buffer is large enough
-    if (stockNos.length >= PG_BATCH) {
+    if (rows.length >= PG_BATCH) {
       await flushCarpets();
       log(`  ... ${carpetCount} carpets synced (orders batch ${Math.min(i + SQL_BATCH, ehiOrderIds.length)}/${ehiOrderIds.length})`);
     }
@@ -484,10 +790,19 @@ async function syncCarpets(sqlPool, pgClient, orderIdMap, itemIdMap) {
   // Flush remaining
   await flushCarpets();
 
+  if (incremental) {
+    stats.deleted += await softDeleteMissing(pgClient, 'ehi_carpets', 'stock_no', Array.from(seenStockNos));
+  }
+
   log(`  Synced ${carpetCount} carpets total`);
   return carpetCount;
 }
 
+function addCounts(stats, counts) {
+  stats.inserted += counts.inserted;
+  stats.updated += counts.updated;
+}
+
 async function syncProcessNames(sqlPool, pgClient) {
   log('Syncing process names...');
 
@@ -518,14 +833,43 @@ async function syncProcessNames(sqlPool, pgClient) {
   log(`  Synced ${result.recordset.length} process names`);
 }
 
+// Seed ehi_process_stage_map with defaults for new processes (existing rows are
+// left alone) and load it as process id → wip_stage
+async function loadStageMap(pgClient) {
+  const procs = await pgClient.query('SELECT id FROM ehi_process_names');
+  const ids = procs.rows.map(r => r.id);
+
+  const seeded = await pgClient.query(
+    `INSERT INTO ehi_process_stage_map (process_id, wip_stage, updated_by)
+     SELECT u.process_id, u.wip_stage, 'sync-ehi (default)'
+     FROM unnest($1::int[], $2::text[]) AS u(process_id, wip_stage)
+     ON CONFLICT (process_id) DO NOTHING`,
+    [ids, ids.map(defaultWipStage)]
+  );
+  if (seeded.rowCount > 0) {
+    log(`  Seeded stage mapping for ${seeded.rowCount} new processes`);
+  }
+
+  const result = await pgClient.query('SELECT process_id, wip_stage FROM ehi_process_stage_map');
+  return new Map(result.rows.map(r => [r.process_id, r.wip_stage]));
+}
+
 // ============================================================================
 // Main
 // ============================================================================
 
+async function connectSqlServer() {
+  log('Connecting to EHI SQL Server...');
+  const pool = await sql.connect(EHI_SQL_CONFIG);
+  log('  Connected to SQL Server');
+  return pool;
+}
+
 async function main() {
   const args = process.argv.slice(2);
   const isInit = args.includes('--init');
   const isDiscover = args.includes('--discover');
+  const isFull = args.includes('--full');
 
   log('=== EHI WIP Sync Starting ===');
 
@@ -533,11 +877,8 @@ async function main() {
   let pgClient = null;
 
   try {
-    log('Connecting to EHI SQL Server...');
-    sqlPool = await sql.connect(EHI_SQL_CONFIG);
-    log('  Connected to SQL Server');
-
     if (isDiscover) {
+      sqlPool = await connectSqlServer();
       await runDiscovery(sqlPool);
       return;
     }
@@ -555,38 +896,54 @@ async function main() {
       log('Creating tables...');
       await pgClient.query(CREATE_TABLES_SQL);
       log('  Tables created successfully');
-      log('=== Init Complete — Run without --init for full sync ===');
+      log('=== Init Complete — Run without --init to sync ===');
       return;
     }
 
-    // Add order_id_src column to ehi_order_items if missing (migration from v1)
-    try {
-      await pgClient.query(`
-        ALTER TABLE ehi_order_items ADD COLUMN IF NOT EXISTS order_id_src INT
-      `);
-    } catch {}
+    await pgClient.query(MIGRATE_SQL);
+
+    const syncType = isFull ? 'full' : 'incremental';
 
-    // Log sync start
+    // Log sync start. Opened before connecting to SQL Server so a factory-side
+    // failure still shows up in ehi_sync_log (and the dashboard's sync status).
     const syncLogRes = await pgClient.query(`
       INSERT INTO ehi_sync_log (sync_type, started_at, status)
-      VALUES ('full', NOW(), 'running')
+      VALUES ($1, NOW(), 'running')
       RETURNING id
-    `);
+    `, [syncType]);
     const syncLogId = syncLogRes.rows[0].id;
 
     const startTime = Date.now();
+    // Recorded as failed_step if the run fails
+    let step = 'connect to SQL Server';
 
     try {
+      sqlPool = await connectSqlServer();
+
+      // Watermark: SQL Server time before any source reads — once the run
+      // succeeds, PG reflects every EHI change made before it. Recorded only;
+      // the next run reads the full open set again
+      const watermarkRes = await sqlPool.query('SELECT SYSDATETIME() AS Watermark');
+      await pgClient.query('UPDATE ehi_sync_log SET watermark = $2 WHERE id = $1', [syncLogId, watermarkRes.recordset[0].Watermark]);
+
+      step = 'process names';
       await syncProcessNames(sqlPool, pgClient);
+      const stageMap = await loadStageMap(pgClient);
 
       // Transaction: if anything fails, old data preserved via ROLLBACK
       await pgClient.query('BEGIN');
 
       try {
-        const orderIdMap = await syncOrders(sqlPool, pgClient);
-        const itemIdMap = await syncOrderItems(sqlPool, pgClient, orderIdMap);
-        const carpetCount = await syncCarpets(sqlPool, pgClient, orderIdMap, itemIdMap);
-
+        // dispatchError is set when the optional dispatch lookup failed but the carpets still synced
+        const stats = { inserted: 0, updated: 0, deleted: 0, events: 0, dispatchError: null };
+        step = 'orders';
+        const orderIdMap = await syncOrders(sqlPool, pgClient, !isFull, stats);
+        step = 'order items';
+        const itemIdMap = await syncOrderItems(sqlPool, pgClient, orderIdMap, !isFull, stats);
+        step = 'carpets';
+        const carpetCount = await syncCarpets(sqlPool, pgClient, orderIdMap, itemIdMap, stageMap, !isFull, stats);
+
+        step = 'commit';
         await pgClient.query('COMMIT');
 
         const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
@@ -597,14 +954,27 @@ async function main() {
             orders_synced = $2,
             items_synced = $3,
             carpets_synced = $4,
+            rows_inserted = $5,
+            rows_updated = $6,
+            rows_deleted = $7,
+            events_recorded = $8,
+            errors = $9,
+            failed_step = $10,
             status = 'success'
           WHERE id = $1
-        `, [syncLogId, orderIdMap.size, itemIdMap.size, carpetCount]);
+        `, [
+          syncLogId, orderIdMap.size, itemIdMap.size, carpetCount, stats.inserted, stats.updated, stats.deleted, stats.events,
+          stats.dispatchError ? `Dispatch lookup failed: ${stats.dispatchError}` : null,
+          stats.dispatchError ? 'dispatch lookup' : null,
+        ]);
 
-        log(`\n=== Sync Complete (${elapsed}s) ===`);
+        log(`\n=== ${isFull ? 'Full' : 'Incremental'} Sync Complete (${elapsed}s) ===`);
         log(`  Orders: ${orderIdMap.size}`);
         log(`  Items: ${itemIdMap.size}`);
         log(`  Carpets: ${carpetCount}`);
+        log(`  Rows: ${stats.inserted} inserted, ${stats.updated} updated, ${stats.deleted} soft-deleted`);
+        log(`  Carpet process events: ${stats.events}`);
+        if (stats.dispatchError) log('  Dispatch lookup FAILED; recorded in ehi_sync_log (dispatch data kept from earlier runs)');
 
       } catch (txErr) {
         await pgClient.query('ROLLBACK');
@@ -617,10 +987,12 @@ async function main() {
         UPDATE ehi_sync_log SET
           finished_at = NOW(),
           errors = $2,
+          failed_step = $3,
           status = 'error'
         WHERE id = $1
-      `, [syncLogId, syncErr.message]);
+      `, [syncLogId, syncErr.message, step]);
 
+      logError(`Failed during: ${step}`, syncErr);
       throw syncErr;
     }
 
@@ -7,6 +7,9 @@
  *
  * Stores in: settings/production_status_file
  * Fields: opsNumbers[], uploadedAt, fileName
+ *
+ * Prefer the dashboard Import tab (POST /api/imports/order-status), which also
+ * updates item trackers and keeps this document current.
  */
 
 import { readFileSync } from 'fs'
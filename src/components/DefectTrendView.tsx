@@ -0,0 +1,208 @@
+import { useState } from 'react'
+import { useDefectReport } from '@/hooks/useInspectionResults'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DEFECT_TYPE_LABELS } from '@/types'
+import type { DefectReport, DefectTrendGroup } from '@/types'
+import { cn } from '@/lib/utils'
+import { Loader2, ShieldAlert } from 'lucide-react'
+
+type GroupBy = 'buyer' | 'design'
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  buyer: 'Buyer',
+  design: 'Design',
+}
+
+// Defect trend from recorded inspection results, per buyer or per TED design
+export function DefectTrendView() {
+  const [groupBy, setGroupBy] = useState<GroupBy>('buyer')
+  const [buyer, setBuyer] = useState('all')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  const { data: report, isLoading, error } = useDefectReport({
+    buyer: buyer === 'all' ? undefined : buyer,
+    from: from || undefined,
+    to: to || undefined,
+  })
+
+  const groups: DefectTrendGroup[] = report ? (groupBy === 'buyer' ? report.byBuyer : report.byDesign) : []
+  const maxTypeCount = Math.max(1, ...(report?.byType || []).map(t => t.count))
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-white rounded-lg border p-3 flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-green-600" />
+          <span className="font-semibold text-gray-800">Inspection Defects</span>
+        </div>
+        <div className="flex rounded-md border overflow-hidden text-xs">
+          {(Object.keys(GROUP_LABELS) as GroupBy[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setGroupBy(key)}
+              className={cn(
+                'px-3 py-1.5',
+                groupBy === key ? 'bg-green-50 text-green-700 font-medium' : 'text-gray-600 hover:bg-gray-50'
+              )}
+            >
+              {GROUP_LABELS[key]}
+            </button>
+          ))}
+        </div>
+        <Select value={buyer} onValueChange={setBuyer}>
+          <SelectTrigger className="h-8 w-[140px]">
+            <SelectValue placeholder="Buyer" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Buyers</SelectItem>
+            {(report?.buyers || []).map(code => (
+              <SelectItem key={code} value={code}>{code}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          From
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8 w-36" />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          To
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8 w-36" />
+        </label>
+        <span className="text-xs text-gray-500 ml-auto">
+          {isLoading ? '...' : `${report?.summary.inspections || 0} inspections · ${report?.summary.failed || 0} failed`}
+        </span>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white rounded-lg border p-12 text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+          <p className="text-sm text-muted-foreground mt-2">Loading inspection results...</p>
+        </div>
+      ) : error ? (
+        <p className="bg-white rounded-lg border p-6 text-sm text-red-600">{error.message}</p>
+      ) : !report || report.summary.inspections === 0 ? (
+        <p className="bg-white rounded-lg border p-6 text-sm text-muted-foreground text-center">
+          No inspection results recorded for this selection
+        </p>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <SummaryCard label="Defects per 100 sampled" value={String(report.summary.defectsPer100)}
+              detail={`${report.summary.sampled.toLocaleString()} pcs sampled`} />
+            <SummaryCard label="Fail rate" value={`${failRate(report.summary)}%`}
+              detail={`${report.summary.failed} of ${report.summary.inspections} inspections`} />
+            <SummaryCard label="Critical" value={String(report.summary.critical)} detail="Zero tolerance" />
+            <SummaryCard label="Major / Minor" value={`${report.summary.major} / ${report.summary.minor}`} detail="Defects found" />
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            {/* Trend by group */}
+            <div className="md:col-span-2 bg-white rounded-lg border overflow-x-auto">
+              <div className="px-3 py-2 border-b bg-gray-50 text-sm font-semibold text-gray-800">
+                By {GROUP_LABELS[groupBy]}
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase tracking-wide border-b">
+                    <th className="text-left py-1.5 px-3 font-medium">{GROUP_LABELS[groupBy]}</th>
+                    <th className="text-right py-1.5 px-2 font-medium">Insp.</th>
+                    <th className="text-right py-1.5 px-2 font-medium">Fail</th>
+                    <th className="text-right py-1.5 px-2 font-medium">C / M / m</th>
+                    <th className="text-right py-1.5 px-2 font-medium">Per 100</th>
+                    <th className="text-left py-1.5 px-2 font-medium">Trend</th>
+                    <th className="text-left py-1.5 px-3 font-medium">Top defects</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {groups.map(group => (
+                    <tr key={group.key}>
+                      <td className="py-1.5 px-3 font-medium text-gray-700">{group.key}</td>
+                      <td className="py-1.5 px-2 text-right tabular-nums">{group.inspections}</td>
+                      <td className={cn('py-1.5 px-2 text-right tabular-nums', group.failed > 0 && 'text-red-600 font-medium')}>
+                        {group.failed}
+                      </td>
+                      <td className="py-1.5 px-2 text-right tabular-nums text-gray-600">
+                        {group.critical} / {group.major} / {group.minor}
+                      </td>
+                      <td className="py-1.5 px-2 text-right tabular-nums font-medium">{group.defectsPer100}</td>
+                      <td className="py-1.5 px-2">
+                        <TrendBars group={group} months={report.months} />
+                      </td>
+                      <td className="py-1.5 px-3 text-xs text-gray-600">
+                        {group.topDefects.map(d => `${DEFECT_TYPE_LABELS[d.type] || d.type} (${d.count})`).join(', ') || '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Defect types */}
+            <div className="bg-white rounded-lg border p-3 space-y-2">
+              <div className="text-sm font-semibold text-gray-800">Defect types</div>
+              {report.byType.map(type => (
+                <div key={type.type} className="flex items-center gap-2 text-xs">
+                  <span className="w-28 truncate text-gray-700">{DEFECT_TYPE_LABELS[type.type] || type.type}</span>
+                  <div className="flex-1 h-4 bg-gray-50 rounded">
+                    <div
+                      className={cn('h-4 rounded', type.critical > 0 ? 'bg-red-400' : 'bg-amber-300')}
+                      style={{ width: `${(type.count / maxTypeCount) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-8 text-right tabular-nums font-medium">{type.count}</span>
+                </div>
+              ))}
+              {report.byType.length === 0 && <p className="text-xs text-muted-foreground">No defects found</p>}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function SummaryCard({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="bg-white rounded-lg border p-3">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-2xl font-semibold text-gray-800">{value}</div>
+      <div className="text-[11px] text-gray-400">{detail}</div>
+    </div>
+  )
+}
+
+// One bar per month in range, height = defects per 100 sampled (empty months stay blank)
+function TrendBars({ group, months }: { group: DefectTrendGroup; months: string[] }) {
+  const byMonth = new Map(group.trend.map(t => [t.month, t]))
+  const max = Math.max(1, ...group.trend.map(t => t.defectsPer100))
+
+  return (
+    <div className="flex items-end gap-0.5 h-6">
+      {months.map(month => {
+        const point = byMonth.get(month)
+        return (
+          <div
+            key={month}
+            className={cn('w-1.5 rounded-sm', point ? 'bg-amber-400' : 'bg-gray-100')}
+            style={{ height: point ? `${Math.max(8, (point.defectsPer100 / max) * 100)}%` : '8%' }}
+            title={point ? `${month}: ${point.defectsPer100} per 100 (${point.inspections} insp.)` : month}
+          />
+        )
+      })}
+    </div>
+  )
+}
+
+function failRate(summary: DefectReport['summary']): number {
+  return summary.inspections > 0 ? Math.round((summary.failed / summary.inspections) * 100) : 0
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react'
+import { useDelayReport } from '@/hooks/useDelayReport'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  DEFAULT_TNA_TEMPLATE,
+  DELAY_REASON_LABELS,
+  RESPONSIBLE_PARTY_LABELS,
+} from '@/types'
+import type { DelayParetoBucket, DelayReason, ResponsibleParty } from '@/types'
+import { cn, formatDateShort, getStageLabel } from '@/lib/utils'
+import { BarChart3, ExternalLink, Loader2 } from 'lucide-react'
+
+type GroupBy = 'reason' | 'party' | 'buyer'
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  reason: 'Reason',
+  party: 'Responsible',
+  buyer: 'Buyer',
+}
+
+// Buckets up to this cumulative share are the "vital few"
+const PARETO_CUTOFF_PERCENT = 80
+
+interface DelayParetoViewProps {
+  onOpenOrder: (opsNo: string) => void
+}
+
+// Pareto of recorded delay reasons across orders, by reason, responsible party or buyer
+export function DelayParetoView({ onOpenOrder }: DelayParetoViewProps) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('reason')
+  const [buyer, setBuyer] = useState('all')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  const { data: report, isLoading, error } = useDelayReport({
+    buyer: buyer === 'all' ? undefined : buyer,
+    from: from || undefined,
+    to: to || undefined,
+  })
+
+  const buckets: DelayParetoBucket[] = report
+    ? groupBy === 'reason' ? report.byReason : groupBy === 'party' ? report.byParty : report.byBuyer
+    : []
+  const maxCount = Math.max(1, ...buckets.map(b => b.count))
+
+  const bucketLabel = (key: string) => {
+    if (groupBy === 'reason') return DELAY_REASON_LABELS[key as DelayReason] || key
+    if (groupBy === 'party') return RESPONSIBLE_PARTY_LABELS[key as ResponsibleParty] || 'Unassigned'
+    return key
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-white rounded-lg border p-3 flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5 text-green-600" />
+          <span className="font-semibold text-gray-800">Delay Reasons</span>
+        </div>
+        <div className="flex rounded-md border overflow-hidden text-xs">
+          {(Object.keys(GROUP_LABELS) as GroupBy[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setGroupBy(key)}
+              className={cn(
+                'px-3 py-1.5',
+                groupBy === key ? 'bg-green-50 text-green-700 font-medium' : 'text-gray-600 hover:bg-gray-50'
+              )}
+            >
+              {GROUP_LABELS[key]}
+            </button>
+          ))}
+        </div>
+        <Select value={buyer} onValueChange={setBuyer}>
+          <SelectTrigger className="h-8 w-[140px]">
+            <SelectValue placeholder="Buyer" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Buyers</SelectItem>
+            {(report?.buyers || []).map(code => (
+              <SelectItem key={code} value={code}>{code}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          From
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8 w-36" />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          To
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8 w-36" />
+        </label>
+        <span className="text-xs text-gray-500 ml-auto">
+          {isLoading ? '...' : `${report?.total || 0} late stages · ${report?.totalDays || 0} days lost`}
+        </span>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white rounded-lg border p-12 text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+          <p className="text-sm text-muted-foreground mt-2">Loading delay reasons...</p>
+        </div>
+      ) : error ? (
+        <p className="bg-white rounded-lg border p-6 text-sm text-red-600">{error.message}</p>
+      ) : !report || report.total === 0 ? (
+        <p className="bg-white rounded-lg border p-6 text-sm text-muted-foreground text-center">
+          No delay reasons recorded for this selection
+        </p>
+      ) : (
+        <>
+          {/* Pareto bars */}
+          <div className="bg-white rounded-lg border p-4 space-y-2">
+            {buckets.map((bucket, index) => {
+              const vitalFew = index === 0 || buckets[index - 1].cumulativePercent < PARETO_CUTOFF_PERCENT
+              return (
+                <div key={bucket.key} className="flex items-center gap-3 text-sm">
+                  <span className="w-48 truncate text-gray-700" title={bucketLabel(bucket.key)}>
+                    {bucketLabel(bucket.key)}
+                  </span>
+                  <div className="flex-1 h-5 bg-gray-50 rounded relative">
+                    <div
+                      className={cn('h-5 rounded', vitalFew ? 'bg-red-400' : 'bg-gray-300')}
+                      style={{ width: `${(bucket.count / maxCount) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-10 text-right tabular-nums font-medium">{bucket.count}</span>
+                  <span className="w-16 text-right tabular-nums text-xs text-gray-500">{bucket.days}d</span>
+                  <span className="w-12 text-right tabular-nums text-xs text-gray-400">{bucket.cumulativePercent}%</span>
+                </div>
+              )
+            })}
+            <p className="pt-2 text-[10px] text-gray-400">
+              Count of late stages, days lost and cumulative share. Red = the causes behind the first {PARETO_CUTOFF_PERCENT}% of delays.
+            </p>
+          </div>
+
+          {/* Late stages */}
+          <div className="bg-white rounded-lg border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase tracking-wide border-b bg-gray-50">
+                  <th className="text-left py-2 px-2 font-medium">OPS</th>
+                  <th className="text-left py-2 px-2 font-medium">Buyer</th>
+                  <th className="text-left py-2 px-2 font-medium">Stage</th>
+                  <th className="text-left py-2 px-2 font-medium">Reason</th>
+                  <th className="text-left py-2 px-2 font-medium">Responsible</th>
+                  <th className="text-right py-2 px-2 font-medium">Days late</th>
+                  <th className="text-left py-2 px-2 font-medium">Recorded</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {report.entries.map(entry => (
+                  <tr key={`${entry.orderId}-${entry.stage}`} className="hover:bg-gray-50">
+                    <td className="py-2 px-2 font-mono font-semibold">{entry.opsNo}</td>
+                    <td className="py-2 px-2 text-gray-600">{entry.buyerCode}</td>
+                    <td className="py-2 px-2 text-gray-600">{getStageLabel(DEFAULT_TNA_TEMPLATE, entry.stage)}</td>
+                    <td className="py-2 px-2">{DELAY_REASON_LABELS[entry.delayReason] || entry.delayReason}</td>
+                    <td className="py-2 px-2 text-gray-600">
+                      {entry.responsibleParty ? RESPONSIBLE_PARTY_LABELS[entry.responsibleParty] : '-'}
+                    </td>
+                    <td className="py-2 px-2 text-right tabular-nums text-red-600">{entry.delayDays || '-'}</td>
+                    <td className="py-2 px-2 text-xs text-gray-500">{formatDateShort(entry.updatedAt)}</td>
+                    <td className="py-2 px-2 text-right">
+                      <button
+                        onClick={() => onOpenOrder(entry.opsNo)}
+                        className="text-blue-600 hover:text-blue-800 inline-flex items-center gap-1 text-xs"
+                      >
+                        Open <ExternalLink className="h-3 w-3" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
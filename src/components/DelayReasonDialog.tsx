@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useUpdateStage } from '@/hooks/useProductionTracker'
+import {
+  DELAY_REASONS,
+  DELAY_REASON_LABELS,
+  RESPONSIBLE_PARTIES,
+  RESPONSIBLE_PARTY_LABELS,
+} from '@/types'
+import type { DelayReason, ResponsibleParty, StageStatus, StageUpdate } from '@/types'
+import { formatDateShort } from '@/lib/utils'
+import { AlertTriangle, Loader2 } from 'lucide-react'
+
+interface DelayReasonFieldsProps {
+  delayReason: DelayReason | ''
+  responsibleParty: ResponsibleParty | ''
+  onChange: (value: { delayReason: DelayReason | ''; responsibleParty: ResponsibleParty | '' }) => void
+}
+
+// Reason + responsible party pickers, shared by the dialog and the stage edit form
+export function DelayReasonFields({ delayReason, responsibleParty, onChange }: DelayReasonFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-1">
+        <Label className="text-xs">Delay reason</Label>
+        <Select
+          value={delayReason}
+          onValueChange={(value: DelayReason) => onChange({ delayReason: value, responsibleParty })}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue placeholder="Why is it late?" />
+          </SelectTrigger>
+          <SelectContent>
+            {DELAY_REASONS.map(reason => (
+              <SelectItem key={reason} value={reason}>{DELAY_REASON_LABELS[reason]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Responsible</Label>
+        <Select
+          value={responsibleParty}
+          onValueChange={(value: ResponsibleParty) => onChange({ delayReason, responsibleParty: value })}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue placeholder="Who caused it?" />
+          </SelectTrigger>
+          <SelectContent>
+            {RESPONSIBLE_PARTIES.map(party => (
+              <SelectItem key={party} value={party}>{RESPONSIBLE_PARTY_LABELS[party]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
+
+interface DelayReasonDialogProps {
+  orderId: string
+  opsNo: string
+  stage: string
+  stageLabel: string
+  targetDate: string | null
+  delayDays: number
+  update: { status: StageStatus; actualDate: string | null }  // The status change waiting on a reason
+  current?: Partial<StageUpdate>
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Asks for the root cause before a late stage update is saved.
+// Mounted only while open, so it starts from the stage's recorded reason each time.
+export function DelayReasonDialog({
+  orderId,
+  opsNo,
+  stage,
+  stageLabel,
+  targetDate,
+  delayDays,
+  update,
+  current,
+  open,
+  onOpenChange
+}: DelayReasonDialogProps) {
+  const updateStage = useUpdateStage()
+  const [reason, setReason] = useState<{ delayReason: DelayReason | ''; responsibleParty: ResponsibleParty | '' }>({
+    delayReason: current?.delayReason || '',
+    responsibleParty: current?.responsibleParty || ''
+  })
+  const [notes, setNotes] = useState(current?.notes || '')
+
+  const handleSave = async () => {
+    if (!reason.delayReason || !reason.responsibleParty) return
+    try {
+      await updateStage.mutateAsync({
+        orderId,
+        opsNo,
+        stage,
+        update: {
+          ...update,
+          delayReason: reason.delayReason,
+          responsibleParty: reason.responsibleParty,
+          notes: notes || undefined
+        }
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to update stage:', error)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <AlertTriangle className="h-4 w-4 text-red-500" />
+            {stageLabel} is {delayDays} days late
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-xs text-gray-500">
+          Target was {formatDateShort(targetDate)}. Record why before
+          {update.status === 'completed' ? ' completing' : ' updating'} the stage.
+        </p>
+
+        <DelayReasonFields
+          delayReason={reason.delayReason}
+          responsibleParty={reason.responsibleParty}
+          onChange={setReason}
+        />
+
+        <div className="space-y-1">
+          <Label className="text-xs">Notes</Label>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Optional details..."
+            rows={2}
+            className="text-sm"
+          />
+        </div>
+
+        {updateStage.error && <p className="text-xs text-red-600">{updateStage.error.message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700"
+            onClick={handleSave}
+            disabled={!reason.delayReason || !reason.responsibleParty || updateStage.isPending}
+          >
+            {updateStage.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
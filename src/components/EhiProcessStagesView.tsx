@@ -0,0 +1,134 @@
+import { useState } from 'react'
+import { useEhiProcessStages, useSaveEhiProcessStages } from '@/hooks/useEhiProcessStages'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { EHI_PROCESS_STAGES, EHI_PROCESS_STAGE_LABELS } from '@/types'
+import type { EhiProcessStageKey } from '@/types'
+import { cn, formatDateShort } from '@/lib/utils'
+import { Loader2, Workflow } from 'lucide-react'
+
+// Admin screen for the EHI process → WIP stage mapping the sync uses.
+// Saving also re-derives the stage of carpets already synced.
+export function EhiProcessStagesView() {
+  const { data: processes = [], isLoading, error } = useEhiProcessStages()
+  const saveStages = useSaveEhiProcessStages()
+  const [edits, setEdits] = useState<Record<number, EhiProcessStageKey>>({})
+  const [lastSaved, setLastSaved] = useState<number | null>(null)
+
+  const changes = processes
+    .filter(p => edits[p.processId] && edits[p.processId] !== p.wipStage)
+    .map(p => ({ processId: p.processId, wipStage: edits[p.processId] }))
+
+  const handleSave = async () => {
+    try {
+      const result = await saveStages.mutateAsync(changes)
+      setEdits({})
+      setLastSaved(result.carpetsUpdated)
+    } catch (error) {
+      console.error('Failed to save EHI process stages:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-white rounded-lg border p-3 flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Workflow className="h-5 w-5 text-green-600" />
+          <span className="font-semibold text-gray-800">EHI Process Stages</span>
+        </div>
+        <span className="text-xs text-gray-500">
+          Which WIP stage each EHI process counts as. New processes get a default at the next sync.
+        </span>
+        <div className="ml-auto flex items-center gap-3">
+          {lastSaved !== null && changes.length === 0 && (
+            <span className="text-xs text-green-700">Saved · {lastSaved} carpets moved to their new stage</span>
+          )}
+          {saveStages.error && <span className="text-xs text-red-600">{saveStages.error.message}</span>}
+          {changes.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setEdits({})}>
+              Discard
+            </Button>
+          )}
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700"
+            onClick={handleSave}
+            disabled={changes.length === 0 || saveStages.isPending}
+          >
+            {saveStages.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save {changes.length > 0 ? `(${changes.length})` : ''}
+          </Button>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="bg-white rounded-lg border overflow-x-auto">
+        {isLoading ? (
+          <div className="p-12 text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+            <p className="text-sm text-muted-foreground mt-2">Loading EHI processes...</p>
+          </div>
+        ) : error ? (
+          <p className="p-6 text-sm text-red-600">{error.message}</p>
+        ) : processes.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground text-center">
+            No EHI processes synced yet
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase tracking-wide border-b bg-gray-50">
+                <th className="text-right py-2 px-3 font-medium w-12">ID</th>
+                <th className="text-left py-2 px-3 font-medium">Process</th>
+                <th className="text-right py-2 px-3 font-medium">Carpets</th>
+                <th className="text-left py-2 px-3 font-medium">WIP stage</th>
+                <th className="text-left py-2 px-3 font-medium">Last changed</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {processes.map(proc => {
+                const value = edits[proc.processId] || proc.wipStage
+                const changed = !!edits[proc.processId] && edits[proc.processId] !== proc.wipStage
+                return (
+                  <tr key={proc.processId} className={cn(changed && 'bg-amber-50')}>
+                    <td className="py-1.5 px-3 text-right tabular-nums text-gray-500">{proc.processId}</td>
+                    <td className="py-1.5 px-3">
+                      <span className="font-medium text-gray-800">{proc.name}</span>
+                      {proc.shortName && <span className="ml-2 text-xs text-gray-400">{proc.shortName}</span>}
+                    </td>
+                    <td className="py-1.5 px-3 text-right tabular-nums">{proc.carpets.toLocaleString()}</td>
+                    <td className="py-1.5 px-3">
+                      <Select
+                        value={value || undefined}
+                        onValueChange={(stage: EhiProcessStageKey) => setEdits(prev => ({ ...prev, [proc.processId]: stage }))}
+                      >
+                        <SelectTrigger className={cn('h-8 w-[140px]', !value && 'text-amber-700')}>
+                          <SelectValue placeholder="Not mapped" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EHI_PROCESS_STAGES.map(stage => (
+                            <SelectItem key={stage} value={stage}>{EHI_PROCESS_STAGE_LABELS[stage]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="py-1.5 px-3 text-xs text-gray-500">
+                      {proc.updatedAt ? `${formatDateShort(proc.updatedAt)} · ${proc.updatedBy || '-'}` : '-'}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,15 +1,48 @@
-import { useMemo } from 'react'
-import { cn, formatOpsNo } from '@/lib/utils'
-import { AlertTriangle, Loader2, CalendarCheck, Clock } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import {
+  cn,
+  formatOpsNo,
+  formatDateShort,
+  canScheduleInspections,
+  canRecordInspectionResults,
+  canEditInspectionCapacity,
+  buildInspectionDayLoads,
+  getInspectionConflicts,
+  getNonWorkingDay,
+  findNearestFreeSlot,
+} from '@/lib/utils'
+import { AlertTriangle, Loader2, CalendarCheck, Clock, Gauge, MoreHorizontal, Plus, UserCheck } from 'lucide-react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { InspectionScheduleDialog, InspectionCompleteDialog, InspectionAssignDialog } from '@/components/InspectionScheduleDialog'
+import { InspectionResultDialog } from '@/components/InspectionResultDialog'
+import { InspectionCapacityDialog } from '@/components/InspectionCapacityDialog'
+import { useUserProfile } from '@/hooks/useUserProfile'
 import {
   useInspectionSchedules,
+  useInspectionCapacity,
+  useUpdateInspection,
   getExtendedRange,
   get15DayRange,
   generate15DayCalendar,
   groupSchedulesByDate,
   getTodayString,
 } from '@/hooks/useInspectionSchedules'
-import type { InspectionSchedule, InspectionStatus, CompanyCode } from '@/types'
+import type {
+  InspectionSchedule,
+  InspectionStatus,
+  InspectionOutcome,
+  InspectionCapacity,
+  InspectionDayLoad,
+  CompanyCode,
+  OrderWithTracker,
+} from '@/types'
 
 // Status color map
 const statusColors: Record<InspectionStatus, { bg: string; text: string; dot: string }> = {
@@ -25,32 +58,109 @@ const companyColors: Record<CompanyCode, { border: string; badge: string; text:
   EHI: { border: 'border-l-purple-500', badge: 'bg-purple-100', text: 'text-purple-700' },
 }
 
+// Card actions; what shows depends on the user's role
+interface CardActions {
+  canSchedule: boolean          // Drag, assign, complete and cancel
+  canRecordResults: boolean
+  onAssign: (schedule: InspectionSchedule) => void
+  onComplete: (schedule: InspectionSchedule) => void
+  onCancel: (schedule: InspectionSchedule) => void
+  onResult: (schedule: InspectionSchedule) => void
+}
+
+const outcomeBadges: Record<InspectionOutcome, string> = {
+  pass: 'bg-green-100 text-green-700',
+  fail: 'bg-red-100 text-red-700',
+  hold: 'bg-amber-100 text-amber-700',
+}
+
+// Drag payload type for moving a card to another day
+const DRAG_TYPE = 'application/x-inspection-id'
+
+function isActive(schedule: InspectionSchedule): boolean {
+  return schedule.status === 'scheduled' || schedule.status === 'rescheduled'
+}
+
+function isDoubleBooked(schedule: InspectionSchedule, load: InspectionDayLoad | undefined): boolean {
+  return !!schedule.inspector && !!load?.doubleBooked.includes(schedule.inspector)
+}
+
 // ============ OPS Card ============
 
-function OpsCard({ schedule }: { schedule: InspectionSchedule }) {
+function OpsCard({
+  schedule,
+  actions,
+  doubleBooked = false,
+}: {
+  schedule: InspectionSchedule
+  actions: CardActions
+  doubleBooked?: boolean
+}) {
   const colors = statusColors[schedule.status] || statusColors.scheduled
   const companyStyle = companyColors[schedule.inspectionCompany] || companyColors.EMPL
+  const editable = actions.canSchedule && isActive(schedule)
+  const outcome = schedule.result?.outcome
+  // Results go on open inspections, ones completed without a result, or over an earlier hold
+  const canRecord = actions.canRecordResults && schedule.status !== 'cancelled' && (!outcome || outcome === 'hold')
 
   return (
     <div
+      draggable={editable}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, schedule.id)
+        e.dataTransfer.effectAllowed = 'move'
+      }}
       className={cn(
         'rounded-md border p-2 border-l-4',
         colors.bg,
-        companyStyle.border
+        companyStyle.border,
+        editable && 'cursor-grab active:cursor-grabbing'
       )}
+      title={schedule.rescheduledFrom ? `Moved from ${schedule.rescheduledFrom}` : undefined}
     >
       {/* OPS + Company */}
       <div className="flex items-center justify-between gap-1">
         <div className={cn('font-mono font-medium truncate text-xs', colors.text)}>
           {schedule.opsNo?.startsWith('EM-') ? schedule.opsNo : formatOpsNo(schedule.opsNo)}
         </div>
-        <span className={cn(
-          'text-[9px] px-1 py-0.5 rounded font-medium shrink-0',
-          companyStyle.badge,
-          companyStyle.text
-        )}>
-          {schedule.inspectionCompany}
-        </span>
+        <div className="flex items-center gap-0.5 shrink-0">
+          <span className={cn(
+            'text-[9px] px-1 py-0.5 rounded font-medium',
+            companyStyle.badge,
+            companyStyle.text
+          )}>
+            {schedule.inspectionCompany}
+          </span>
+          {(editable || canRecord) && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="text-gray-400 hover:text-gray-700">
+                  <MoreHorizontal className="h-3.5 w-3.5" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="text-xs">
+                {canRecord && (
+                  <DropdownMenuItem className="text-xs" onClick={() => actions.onResult(schedule)}>
+                    Record result
+                  </DropdownMenuItem>
+                )}
+                {editable && (
+                  <>
+                    <DropdownMenuItem className="text-xs" onClick={() => actions.onAssign(schedule)}>
+                      {schedule.inspector ? 'Change inspector' : 'Assign inspector'}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-xs" onClick={() => actions.onComplete(schedule)}>
+                      Mark completed
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-xs text-red-600" onClick={() => actions.onCancel(schedule)}>
+                      Cancel inspection
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
       </div>
 
       {/* Buyer + Pcs */}
@@ -68,10 +178,31 @@ function OpsCard({ schedule }: { schedule: InspectionSchedule }) {
         </div>
       )}
 
+      {/* Inspector */}
+      {schedule.inspector && (
+        <div
+          className={cn('flex items-center gap-0.5 text-[10px] truncate', doubleBooked ? 'text-red-600 font-medium' : 'text-gray-500')}
+          title={doubleBooked ? `${schedule.inspector} is double-booked on this day` : undefined}
+        >
+          {doubleBooked ? <AlertTriangle className="w-2.5 h-2.5 shrink-0" /> : <UserCheck className="w-2.5 h-2.5 shrink-0" />}
+          {schedule.inspector}
+        </div>
+      )}
+
       {/* Status */}
       <div className="flex items-center gap-1 mt-0.5 text-[10px]">
         <span className={cn('w-1.5 h-1.5 rounded-full', colors.dot)} />
         <span className={cn('capitalize', colors.text)}>{schedule.status}</span>
+        {schedule.reinspectionOf && <span className="text-red-600">{'\u2022'} re-inspection</span>}
+        {outcome && (
+          <button
+            onClick={() => actions.onResult(schedule)}
+            className={cn('px-1 rounded font-medium uppercase', outcomeBadges[outcome])}
+            title="View result"
+          >
+            {outcome}
+          </button>
+        )}
         {schedule.merchantCode && (
           <span className="text-gray-400 ml-auto">{schedule.merchantCode}</span>
         )}
@@ -85,10 +216,22 @@ function OpsCard({ schedule }: { schedule: InspectionSchedule }) {
 function DayCell({
   day,
   schedules,
+  load,
+  capacity,
+  actions,
+  onAdd,
+  onDropSchedule,
 }: {
   day: { date: string; dayName: string; dayNum: number; month: string; isToday: boolean; isWeekend: boolean }
   schedules: InspectionSchedule[]
+  load?: InspectionDayLoad
+  capacity?: InspectionCapacity
+  actions: CardActions
+  onAdd?: (date: string) => void
+  onDropSchedule?: (scheduleId: string, date: string) => void
 }) {
+  const [isDragOver, setIsDragOver] = useState(false)
+
   // Clash detection - multiple active buyers on same day
   const hasClash = useMemo(() => {
     const active = schedules.filter(s => s.status !== 'cancelled' && s.status !== 'completed')
@@ -96,33 +239,67 @@ function DayCell({
     return uniqueBuyers.size > 1
   }, [schedules])
 
+  const nonWorking = getNonWorkingDay(day.date, capacity)
+  const overCapacity = (load?.overCompanies.length || 0) > 0 || (load?.doubleBooked.length || 0) > 0
+
   return (
-    <div className={cn(
-      'min-w-[140px] border-r last:border-r-0 flex flex-col',
-      day.isWeekend && 'bg-gray-50/50'
-    )}>
+    <div
+      className={cn(
+        'min-w-[140px] border-r last:border-r-0 flex flex-col',
+        (day.isWeekend || nonWorking) && 'bg-gray-50/50',
+        isDragOver && 'bg-green-50'
+      )}
+      onDragOver={onDropSchedule && ((e) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return
+        e.preventDefault()
+        setIsDragOver(true)
+      })}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={onDropSchedule && ((e) => {
+        e.preventDefault()
+        setIsDragOver(false)
+        const scheduleId = e.dataTransfer.getData(DRAG_TYPE)
+        if (scheduleId) onDropSchedule(scheduleId, day.date)
+      })}
+    >
       {/* Day Header */}
       <div className={cn(
-        'px-2 py-1.5 border-b text-center',
+        'group relative px-2 py-1.5 border-b text-center',
         day.isToday && 'bg-blue-50',
-        day.isWeekend && !day.isToday && 'bg-gray-100',
-        hasClash && 'bg-amber-50 border-amber-300'
+        (day.isWeekend || nonWorking) && !day.isToday && 'bg-gray-100',
+        hasClash && 'bg-amber-50 border-amber-300',
+        overCapacity && 'bg-red-50 border-red-300'
       )}>
         <div className={cn(
           'text-xs font-medium flex items-center justify-center gap-1',
           day.isToday ? 'text-blue-600' : 'text-gray-500',
-          hasClash && 'text-amber-700'
+          hasClash && 'text-amber-700',
+          overCapacity && 'text-red-700'
         )}>
-          {hasClash && <AlertTriangle className="w-3 h-3 text-amber-600" />}
+          {(hasClash || overCapacity) && (
+            <AlertTriangle className={cn('w-3 h-3', overCapacity ? 'text-red-600' : 'text-amber-600')} />
+          )}
           {day.dayName}
         </div>
         <div className={cn(
           'text-sm font-semibold',
           day.isToday ? 'text-blue-700' : 'text-gray-900',
-          hasClash && 'text-amber-800'
+          hasClash && 'text-amber-800',
+          overCapacity && 'text-red-800'
         )}>
           {day.dayNum} {day.month}
         </div>
+        {nonWorking === 'Holiday' && <div className="text-[10px] text-gray-500">Holiday</div>}
+        {load && <DayLoadLine load={load} capacity={capacity} />}
+        {onAdd && (
+          <button
+            onClick={() => onAdd(day.date)}
+            className="absolute top-1 right-1 hidden group-hover:block text-gray-400 hover:text-green-600"
+            title="Schedule inspection"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </button>
+        )}
       </div>
 
       {/* Cards */}
@@ -133,7 +310,12 @@ function DayCell({
           </div>
         ) : (
           schedules.map(schedule => (
-            <OpsCard key={schedule.id} schedule={schedule} />
+            <OpsCard
+              key={schedule.id}
+              schedule={schedule}
+              actions={actions}
+              doubleBooked={isDoubleBooked(schedule, load)}
+            />
           ))
         )}
       </div>
@@ -141,9 +323,35 @@ function DayCell({
   )
 }
 
+// Booked vs. daily limit per company with a limit set, e.g. "EMPL 3/2 · EHI 1/4"
+function DayLoadLine({ load, capacity }: { load: InspectionDayLoad; capacity?: InspectionCapacity }) {
+  const parts = (Object.keys(load.companies) as CompanyCode[])
+    .filter(company => load.companies[company].inspections > 0)
+    .map(company => {
+      const used = load.companies[company]
+      const limit = capacity?.companies[company]
+      const over = load.overCompanies.includes(company)
+      const title = `${used.inspections} inspections, ${used.pcs.toLocaleString()} pcs` +
+        (limit && (limit.inspections || limit.pcs)
+          ? ` (limit ${limit.inspections || '∞'} / ${limit.pcs ? limit.pcs.toLocaleString() : '∞'} pcs)`
+          : '')
+      return (
+        <span key={company} className={cn(over && 'text-red-600 font-medium')} title={title}>
+          {company} {used.inspections}{limit?.inspections ? `/${limit.inspections}` : ''}
+        </span>
+      )
+    })
+
+  return (
+    <div className="flex justify-center gap-1.5 text-[10px] text-gray-500">
+      {parts}
+    </div>
+  )
+}
+
 // ============ Overdue Section ============
 
-function OverdueSection({ schedules }: { schedules: InspectionSchedule[] }) {
+function OverdueSection({ schedules, actions }: { schedules: InspectionSchedule[]; actions: CardActions }) {
   if (schedules.length === 0) return null
 
   return (
@@ -159,8 +367,8 @@ function OverdueSection({ schedules }: { schedules: InspectionSchedule[] }) {
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
           {schedules.map(schedule => (
             <div key={schedule.id} className="relative">
-              <OpsCard schedule={schedule} />
-              <div className="absolute top-1 right-1">
+              <OpsCard schedule={schedule} actions={actions} />
+              <div className="absolute bottom-1 right-1">
                 <span className="text-[9px] px-1 py-0.5 bg-red-100 text-red-600 rounded font-medium">
                   {schedule.inspectionDate}
                 </span>
@@ -175,7 +383,17 @@ function OverdueSection({ schedules }: { schedules: InspectionSchedule[] }) {
 
 // ============ Stats Bar ============
 
-function StatsBar({ schedules, overdueCount }: { schedules: InspectionSchedule[]; overdueCount: number }) {
+function StatsBar({
+  schedules,
+  overdueCount,
+  onAdd,
+  onCapacity,
+}: {
+  schedules: InspectionSchedule[]
+  overdueCount: number
+  onAdd?: () => void
+  onCapacity?: () => void
+}) {
   const stats = useMemo(() => {
     let scheduled = 0, completed = 0, rescheduled = 0
     schedules.forEach(s => {
@@ -206,13 +424,96 @@ function StatsBar({ schedules, overdueCount }: { schedules: InspectionSchedule[]
         <span className="w-2 h-2 rounded-full bg-green-500" />
         <span className="text-gray-600">{stats.completed} completed</span>
       </div>
+      {onCapacity && (
+        <Button variant="outline" size="sm" className="ml-auto h-7" onClick={onCapacity}>
+          <Gauge className="h-3.5 w-3.5 mr-1" />
+          Capacity
+        </Button>
+      )}
+      {onAdd && (
+        <Button size="sm" className={cn('h-7 bg-green-600 hover:bg-green-700', !onCapacity && 'ml-auto')} onClick={onAdd}>
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Schedule inspection
+        </Button>
+      )}
     </div>
   )
 }
 
+// ============ Reschedule Conflict ============
+
+// A drop onto a day that is full, a holiday/weekend, or clashes with the inspector's other bookings
+interface PendingMove {
+  schedule: InspectionSchedule
+  date: string
+  conflicts: string[]
+  suggestion: string | null     // Nearest day without conflicts
+}
+
+function RescheduleConflictDialog({
+  move,
+  onMove,
+  onOpenChange,
+}: {
+  move: PendingMove
+  onMove: (date: string) => void
+  onOpenChange: (open: boolean) => void
+}) {
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            Move {formatOpsNo(move.schedule.opsNo)} to {formatDateShort(move.date)}?
+          </DialogTitle>
+        </DialogHeader>
+
+        <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+          {move.conflicts.map(conflict => <li key={conflict}>{conflict}</li>)}
+        </ul>
+        <p className="text-xs text-gray-500">
+          {move.suggestion
+            ? `Nearest free day: ${formatDateShort(move.suggestion)}.`
+            : 'No free day within two weeks.'}
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onMove(move.date)}>
+            Move anyway
+          </Button>
+          {move.suggestion && (
+            <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => onMove(move.suggestion || move.date)}>
+              Use {formatDateShort(move.suggestion)}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
 // ============ Main Calendar ============
 
-export function InspectionCalendarView() {
+interface InspectionCalendarViewProps {
+  orders: OrderWithTracker[]    // Open orders, for scheduling and the TNA inspection target
+}
+
+export function InspectionCalendarView({ orders }: InspectionCalendarViewProps) {
+  const { data: profile } = useUserProfile()
+  const updateInspection = useUpdateInspection()
+  const [createDate, setCreateDate] = useState<string | null>(null)   // '' = no day picked
+  const [completing, setCompleting] = useState<InspectionSchedule | null>(null)
+  const [recording, setRecording] = useState<InspectionSchedule | null>(null)
+  const [assigning, setAssigning] = useState<InspectionSchedule | null>(null)
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null)
+  const [editingCapacity, setEditingCapacity] = useState(false)
+  const { data: capacity } = useInspectionCapacity()
+  const canSchedule = canScheduleInspections(profile)
+
   // Fetch extended range (7 days back + 14 days forward) to catch overdue + upcoming
   const { startDate: extStartDate, endDate: extEndDate } = useMemo(() => getExtendedRange(), [])
   const { data: allSchedules = [], isLoading } = useInspectionSchedules(extStartDate, extEndDate)
@@ -245,6 +546,98 @@ export function InspectionCalendarView() {
     }
   }, [allSchedules, today])
 
+  const dayLoads = useMemo(() => buildInspectionDayLoads(allSchedules, capacity), [allSchedules, capacity])
+
+  const moveSchedule = (schedule: InspectionSchedule, date: string) => {
+    setPendingMove(null)
+    if (schedule.inspectionDate === date) return
+    updateInspection.mutate({ id: schedule.id, orderId: schedule.orderId, action: 'reschedule', inspectionDate: date }, {
+      onError: (error) => console.error('Failed to reschedule inspection:', error)
+    })
+  }
+
+  // Drops onto a conflicting day ask first and offer the nearest free day
+  const handleReschedule = (scheduleId: string, date: string) => {
+    const schedule = allSchedules.find(s => s.id === scheduleId)
+    if (!schedule || schedule.inspectionDate === date) return
+    const conflicts = getInspectionConflicts(date, schedule, allSchedules, capacity)
+    if (conflicts.length === 0) {
+      moveSchedule(schedule, date)
+      return
+    }
+    const suggestion = findNearestFreeSlot(date, schedule, allSchedules, capacity, today)
+    setPendingMove({ schedule, date, conflicts, suggestion: suggestion === schedule.inspectionDate ? null : suggestion })
+  }
+
+  const actions: CardActions = {
+    canSchedule,
+    canRecordResults: canRecordInspectionResults(profile),
+    onAssign: setAssigning,
+    onComplete: setCompleting,
+    onCancel: (schedule) => {
+      if (!window.confirm(`Cancel the inspection for ${formatOpsNo(schedule.opsNo)} on ${schedule.inspectionDate}?`)) return
+      updateInspection.mutate({ id: schedule.id, orderId: schedule.orderId, action: 'cancel' }, {
+        onError: (error) => console.error('Failed to cancel inspection:', error)
+      })
+    },
+    onResult: setRecording,
+  }
+
+  const dialogs = (
+    <>
+      {createDate !== null && (
+        <InspectionScheduleDialog
+          orders={orders}
+          date={createDate || undefined}
+          schedules={allSchedules}
+          capacity={capacity}
+          open
+          onOpenChange={(open) => !open && setCreateDate(null)}
+        />
+      )}
+      {completing && (
+        <InspectionCompleteDialog
+          schedule={completing}
+          order={orders.find(o => o.id === completing.orderId)}
+          open
+          onOpenChange={(open) => !open && setCompleting(null)}
+        />
+      )}
+      {recording && (
+        <InspectionResultDialog
+          schedule={recording}
+          order={orders.find(o => o.id === recording.orderId)}
+          canRecord={actions.canRecordResults}
+          open
+          onOpenChange={(open) => !open && setRecording(null)}
+        />
+      )}
+      {assigning && (
+        <InspectionAssignDialog
+          schedule={assigning}
+          schedules={allSchedules}
+          capacity={capacity}
+          open
+          onOpenChange={(open) => !open && setAssigning(null)}
+        />
+      )}
+      {pendingMove && (
+        <RescheduleConflictDialog
+          move={pendingMove}
+          onMove={(date) => moveSchedule(pendingMove.schedule, date)}
+          onOpenChange={(open) => !open && setPendingMove(null)}
+        />
+      )}
+      {editingCapacity && capacity && (
+        <InspectionCapacityDialog
+          capacity={capacity}
+          open
+          onOpenChange={setEditingCapacity}
+        />
+      )}
+    </>
+  )
+
   if (isLoading) {
     return (
       <div className="bg-white rounded-lg border shadow-sm p-8">
@@ -261,9 +654,13 @@ export function InspectionCalendarView() {
       <div className="bg-white rounded-lg border shadow-sm p-12 text-center">
         <CalendarCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
         <p className="text-lg font-medium">No inspections scheduled</p>
-        <p className="text-sm text-muted-foreground">
-          Schedule inspections from the Orders app
-        </p>
+        {canSchedule && (
+          <Button size="sm" className="mt-4 bg-green-600 hover:bg-green-700" onClick={() => setCreateDate('')}>
+            <Plus className="h-4 w-4 mr-1" />
+            Schedule inspection
+          </Button>
+        )}
+        {dialogs}
       </div>
     )
   }
@@ -274,10 +671,15 @@ export function InspectionCalendarView() {
   return (
     <div className="bg-white rounded-lg border shadow-sm overflow-hidden">
       {/* Stats Bar */}
-      <StatsBar schedules={allSchedules} overdueCount={overdueSchedules.length} />
+      <StatsBar
+        schedules={allSchedules}
+        overdueCount={overdueSchedules.length}
+        onAdd={canSchedule ? () => setCreateDate('') : undefined}
+        onCapacity={canEditInspectionCapacity(profile) && capacity ? () => setEditingCapacity(true) : undefined}
+      />
 
       {/* Overdue Section */}
-      <OverdueSection schedules={overdueSchedules} />
+      <OverdueSection schedules={overdueSchedules} actions={actions} />
 
       {/* Desktop: 2-week grid */}
       <div className="hidden md:flex flex-col">
@@ -287,6 +689,11 @@ export function InspectionCalendarView() {
               key={day.date}
               day={day}
               schedules={schedulesByDate.get(day.date) || []}
+              load={dayLoads.get(day.date)}
+              capacity={capacity}
+              actions={actions}
+              onAdd={canSchedule ? setCreateDate : undefined}
+              onDropSchedule={canSchedule ? handleReschedule : undefined}
             />
           ))}
         </div>
@@ -296,6 +703,11 @@ export function InspectionCalendarView() {
               key={day.date}
               day={day}
               schedules={schedulesByDate.get(day.date) || []}
+              load={dayLoads.get(day.date)}
+              capacity={capacity}
+              actions={actions}
+              onAdd={canSchedule ? setCreateDate : undefined}
+              onDropSchedule={canSchedule ? handleReschedule : undefined}
             />
           ))}
         </div>
@@ -339,7 +751,12 @@ export function InspectionCalendarView() {
                 ) : (
                   <div className="space-y-1.5">
                     {daySchedules.map(schedule => (
-                      <OpsCard key={schedule.id} schedule={schedule} />
+                      <OpsCard
+                        key={schedule.id}
+                        schedule={schedule}
+                        actions={actions}
+                        doubleBooked={isDoubleBooked(schedule, dayLoads.get(day.date))}
+                      />
                     ))}
                   </div>
                 )}
@@ -367,11 +784,19 @@ export function InspectionCalendarView() {
           <span className="w-2 h-2 rounded-full bg-red-500" />
           <span className="text-gray-600">Overdue</span>
         </div>
+        <div className="flex items-center gap-1.5">
+          <AlertTriangle className="w-3 h-3 text-red-600" />
+          <span className="text-gray-600">Over capacity / double-booked</span>
+        </div>
+        {updateInspection.error && (
+          <span className="text-red-600">{updateInspection.error.message}</span>
+        )}
         <div className="ml-auto text-gray-400 flex items-center gap-1">
           <Clock className="w-3 h-3" />
-          Read-only view. Schedule from Orders app.
+          {canSchedule ? 'Drag a card to another day to reschedule.' : 'Read-only view.'}
         </div>
       </div>
+      {dialogs}
     </div>
   )
 }
@@ -0,0 +1,220 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useSaveInspectionCapacity } from '@/hooks/useInspectionSchedules'
+import type { CompanyCode, InspectionCapacity, InspectionCapacityLimit, InspectorCapacity } from '@/types'
+import { cn, formatDateShort } from '@/lib/utils'
+import { Gauge, Loader2, Plus, Trash2, X } from 'lucide-react'
+
+const COMPANIES: CompanyCode[] = ['EMPL', 'EHI']
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+interface InspectionCapacityDialogProps {
+  capacity: InspectionCapacity
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Edit daily inspection capacity per company and inspector, weekend days and holidays.
+// Mounted only while open, so it starts from the saved settings each time.
+export function InspectionCapacityDialog({ capacity, open, onOpenChange }: InspectionCapacityDialogProps) {
+  const saveCapacity = useSaveInspectionCapacity()
+  const [companies, setCompanies] = useState(capacity.companies)
+  const [inspectors, setInspectors] = useState<InspectorCapacity[]>(capacity.inspectors)
+  const [weekendDays, setWeekendDays] = useState(capacity.weekendDays)
+  const [holidays, setHolidays] = useState(capacity.holidays)
+  const [newHoliday, setNewHoliday] = useState('')
+
+  const updateInspector = (index: number, changes: Partial<InspectorCapacity>) => {
+    setInspectors(prev => prev.map((i, idx) => idx === index ? { ...i, ...changes } : i))
+  }
+
+  const addHoliday = () => {
+    if (!newHoliday || holidays.includes(newHoliday)) return
+    setHolidays(prev => [...prev, newHoliday].sort())
+    setNewHoliday('')
+  }
+
+  const handleSave = async () => {
+    try {
+      await saveCapacity.mutateAsync({
+        companies,
+        inspectors: inspectors.map(i => ({ ...i, name: i.name.trim() })),
+        weekendDays,
+        holidays
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save inspection capacity:', error)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <Gauge className="h-4 w-4 text-green-600" />
+            Inspection capacity
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-xs text-gray-500">Daily limits. 0 means no limit.</p>
+
+        {/* Companies */}
+        <div className="space-y-2">
+          <Label className="text-xs">Per company</Label>
+          {COMPANIES.map(company => (
+            <div key={company} className="flex items-center gap-2">
+              <span className="w-14 text-sm font-medium">{company}</span>
+              <LimitInputs
+                limit={companies[company]}
+                onChange={(limit) => setCompanies(prev => ({ ...prev, [company]: limit }))}
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Inspectors */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Inspectors (unlisted ones take one inspection a day)</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setInspectors(prev => [...prev, { name: '', company: 'EMPL', inspections: 1, pcs: 0 }])}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              Add inspector
+            </Button>
+          </div>
+          {inspectors.map((inspector, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={inspector.name}
+                onChange={(e) => updateInspector(index, { name: e.target.value })}
+                placeholder="Name"
+                className="h-8 flex-1"
+              />
+              <Select value={inspector.company} onValueChange={(value: CompanyCode) => updateInspector(index, { company: value })}>
+                <SelectTrigger className="h-8 w-[90px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMPANIES.map(company => (
+                    <SelectItem key={company} value={company}>{company}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <LimitInputs limit={inspector} onChange={(limit) => updateInspector(index, limit)} />
+              <button
+                onClick={() => setInspectors(prev => prev.filter((_, idx) => idx !== index))}
+                className="text-gray-400 hover:text-red-600"
+                title="Remove"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Weekend days */}
+        <div className="space-y-2">
+          <Label className="text-xs">Weekend days</Label>
+          <div className="flex rounded-md border overflow-hidden text-xs w-fit">
+            {DAY_NAMES.map((name, day) => (
+              <button
+                key={name}
+                onClick={() => setWeekendDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort())}
+                className={cn(
+                  'px-2.5 py-1.5',
+                  weekendDays.includes(day) ? 'bg-gray-200 text-gray-800 font-medium' : 'text-gray-600 hover:bg-gray-50'
+                )}
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Holidays */}
+        <div className="space-y-2">
+          <Label className="text-xs">Holidays</Label>
+          <div className="flex items-center gap-2">
+            <Input type="date" value={newHoliday} onChange={(e) => setNewHoliday(e.target.value)} className="h-8 w-40" />
+            <Button variant="outline" size="sm" className="h-8" onClick={addHoliday} disabled={!newHoliday}>
+              Add
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {holidays.map(date => (
+              <span key={date} className="inline-flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5 text-xs">
+                {formatDateShort(date)}
+                <button onClick={() => setHolidays(prev => prev.filter(d => d !== date))} className="text-gray-400 hover:text-red-600">
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            {holidays.length === 0 && <span className="text-xs text-gray-400">None</span>}
+          </div>
+        </div>
+
+        {saveCapacity.error && <p className="text-xs text-red-600">{saveCapacity.error.message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700"
+            onClick={handleSave}
+            disabled={saveCapacity.isPending || inspectors.some(i => !i.name.trim())}
+          >
+            {saveCapacity.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function LimitInputs({ limit, onChange }: { limit: InspectionCapacityLimit; onChange: (limit: InspectionCapacityLimit) => void }) {
+  const toCount = (value: string) => Math.max(0, Math.floor(Number(value) || 0))
+
+  return (
+    <>
+      <label className="flex items-center gap-1 text-xs text-gray-500">
+        <Input
+          type="number"
+          min={0}
+          value={limit.inspections}
+          onChange={(e) => onChange({ inspections: toCount(e.target.value), pcs: limit.pcs })}
+          className="h-8 w-16"
+        />
+        insp.
+      </label>
+      <label className="flex items-center gap-1 text-xs text-gray-500">
+        <Input
+          type="number"
+          min={0}
+          value={limit.pcs}
+          onChange={(e) => onChange({ inspections: limit.inspections, pcs: toCount(e.target.value) })}
+          className="h-8 w-20"
+        />
+        pcs
+      </label>
+    </>
+  )
+}
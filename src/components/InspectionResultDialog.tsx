@@ -0,0 +1,504 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DelayReasonFields } from '@/components/DelayReasonDialog'
+import { useInspectionResult, useSaveInspectionResult, uploadInspectionPhoto } from '@/hooks/useInspectionResults'
+import { getTodayString } from '@/hooks/useInspectionSchedules'
+import { useTnaTemplate } from '@/hooks/useTnaTemplates'
+import { useUserProfile } from '@/hooks/useUserProfile'
+import {
+  AQL_VALUES,
+  DEFAULT_AQL,
+  DEFECT_SEVERITIES,
+  DEFECT_TYPES,
+  DEFECT_TYPE_LABELS,
+  INSPECTION_LEVELS,
+} from '@/types'
+import type {
+  DefectSeverity,
+  DelayReason,
+  InspectionDefect,
+  InspectionLevel,
+  InspectionOutcome,
+  InspectionResult,
+  InspectionSchedule,
+  OrderWithTracker,
+  ResponsibleParty,
+} from '@/types'
+import { buildTnaEntries, cn, formatDateShort, formatOpsNo, getAqlPlan, getAqlSample, getStageDelayDays } from '@/lib/utils'
+import { ClipboardCheck, ImagePlus, Loader2, Plus, Trash2 } from 'lucide-react'
+
+const outcomeStyles: Record<InspectionOutcome, string> = {
+  pass: 'bg-green-100 text-green-700',
+  fail: 'bg-red-100 text-red-700',
+  hold: 'bg-amber-100 text-amber-700',
+}
+
+// Days after a failure the re-inspection is booked by default (the server uses the same)
+const REINSPECTION_LEAD_DAYS = 3
+
+interface InspectionResultDialogProps {
+  schedule: InspectionSchedule
+  order?: OrderWithTracker    // For the TNA target when a pass completes a late stage
+  canRecord: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Records the AQL result of an inspection, or shows it once it is final (pass / fail).
+// Mounted only while open; the form starts from the saved result, if any.
+export function InspectionResultDialog({ schedule, order, canRecord, open, onOpenChange }: InspectionResultDialogProps) {
+  const { data: result, isLoading } = useInspectionResult(schedule.id)
+  const isFinal = result?.outcome === 'pass' || result?.outcome === 'fail'
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <ClipboardCheck className="h-4 w-4 text-green-600" />
+            Inspection result · {formatOpsNo(schedule.opsNo)}
+            <span className="text-xs font-normal text-gray-500">
+              {schedule.buyerCode} · {formatDateShort(schedule.inspectionDate)}
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+          </div>
+        ) : isFinal && result ? (
+          <ResultSummary result={result} />
+        ) : canRecord ? (
+          <ResultForm
+            schedule={schedule}
+            order={order}
+            initial={result || undefined}
+            onDone={() => onOpenChange(false)}
+          />
+        ) : (
+          <p className="py-6 text-center text-sm text-muted-foreground">No result recorded yet</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function ResultForm({
+  schedule,
+  order,
+  initial,
+  onDone,
+}: {
+  schedule: InspectionSchedule
+  order?: OrderWithTracker
+  initial?: InspectionResult
+  onDone: () => void
+}) {
+  const { data: profile } = useUserProfile()
+  const saveResult = useSaveInspectionResult()
+  const template = useTnaTemplate(order)
+  const today = getTodayString()
+
+  const [inspectionLevel, setInspectionLevel] = useState<InspectionLevel>(initial?.inspectionLevel || 'II')
+  const [aql, setAql] = useState<Record<DefectSeverity, number>>(initial?.aql || DEFAULT_AQL)
+  const [defects, setDefects] = useState<InspectionDefect[]>(initial?.defects || [])
+  const [outcomeChoice, setOutcomeChoice] = useState<InspectionOutcome | null>(initial?.outcome || null)
+  const [inspector, setInspector] = useState(initial?.inspector || profile?.name || profile?.email || '')
+  const [inspectedAt, setInspectedAt] = useState(
+    initial?.inspectedAt || (schedule.inspectionDate < today ? schedule.inspectionDate : today)
+  )
+  const [notes, setNotes] = useState(initial?.notes || '')
+  const [reinspectionDate, setReinspectionDate] = useState(() => {
+    const date = new Date()
+    date.setDate(date.getDate() + REINSPECTION_LEAD_DAYS)
+    return [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-')
+  })
+  const [uploadingRow, setUploadingRow] = useState<number | null>(null)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+
+  const current = order?.tracker?.stages?.inspection
+  const [reason, setReason] = useState<{ delayReason: DelayReason | ''; responsibleParty: ResponsibleParty | '' }>({
+    delayReason: current?.delayReason || '',
+    responsibleParty: current?.responsibleParty || ''
+  })
+
+  // Sampling plan and verdict, recomputed by the server on save
+  const lotSize = schedule.totalPcs || 0
+  const { codeLetter, sampleSize } = getAqlSample(lotSize, inspectionLevel)
+  const plans = Object.fromEntries(
+    DEFECT_SEVERITIES.map(severity => [severity, getAqlPlan(codeLetter, aql[severity])])
+  ) as Record<DefectSeverity, { accept: number; reject: number }>
+  const totals = Object.fromEntries(
+    DEFECT_SEVERITIES.map(severity => [severity, defects.filter(d => d.severity === severity).reduce((sum, d) => sum + (d.count || 0), 0)])
+  ) as Record<DefectSeverity, number>
+  const aqlResult = DEFECT_SEVERITIES.every(severity => totals[severity] < plans[severity].reject) ? 'pass' : 'fail'
+  const outcome: InspectionOutcome = outcomeChoice === 'pass' && aqlResult === 'fail' ? 'fail' : outcomeChoice || aqlResult
+
+  // A pass completes the TNA inspection stage, so a late one needs its root cause
+  const actualDate = inspectedAt < today ? inspectedAt : today
+  const targetDate = order ? buildTnaEntries(template, order).find(e => e.stage === 'inspection')?.targetDate : null
+  const delayDays = schedule.status === 'completed' ? 0 : getStageDelayDays(targetDate, 'completed', actualDate, today)
+  const needsReason = outcome === 'pass' && delayDays > 0 && (!current?.delayReason || !current?.responsibleParty)
+
+  const updateDefect = (index: number, changes: Partial<InspectionDefect>) => {
+    setDefects(prev => prev.map((d, i) => i === index ? { ...d, ...changes } : d))
+  }
+
+  const handlePhoto = async (index: number, file: File | undefined) => {
+    if (!file) return
+    setUploadingRow(index)
+    setUploadError(null)
+    try {
+      const url = await uploadInspectionPhoto(schedule.id, file)
+      setDefects(prev => prev.map((d, i) => i === index ? { ...d, photoUrls: [...d.photoUrls, url] } : d))
+    } catch (error) {
+      console.error('Failed to upload defect photo:', error)
+      setUploadError('Photo upload failed')
+    } finally {
+      setUploadingRow(null)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!inspector || !inspectedAt) return
+    if (needsReason && (!reason.delayReason || !reason.responsibleParty)) return
+    try {
+      await saveResult.mutateAsync({
+        scheduleId: schedule.id,
+        orderId: schedule.orderId,
+        inspectionLevel,
+        aql,
+        defects: defects.filter(d => d.count > 0),
+        outcome,
+        inspector,
+        inspectedAt,
+        notes: notes || undefined,
+        reinspectionDate: outcome === 'fail' ? reinspectionDate : undefined,
+        delayReason: reason.delayReason || undefined,
+        responsibleParty: reason.responsibleParty || undefined
+      })
+      onDone()
+    } catch (error) {
+      console.error('Failed to save inspection result:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Sampling plan */}
+      <div className="grid grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Level</Label>
+          <Select value={inspectionLevel} onValueChange={(value: InspectionLevel) => setInspectionLevel(value)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INSPECTION_LEVELS.map(level => (
+                <SelectItem key={level} value={level}>General {level}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {DEFECT_SEVERITIES.map(severity => (
+          <div key={severity} className="space-y-1">
+            <Label className="text-xs capitalize">{severity} AQL</Label>
+            <Select
+              value={String(aql[severity])}
+              onValueChange={(value) => setAql(prev => ({ ...prev, [severity]: Number(value) }))}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AQL_VALUES.map(value => (
+                  <SelectItem key={value} value={String(value)}>{value === 0 ? '0 (none)' : value.toFixed(value < 1 ? 2 : 1)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-md border bg-gray-50 px-3 py-2 text-xs text-gray-600 flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span>Lot <span className="font-medium text-gray-800">{lotSize.toLocaleString()}</span> pcs</span>
+        <span>Code <span className="font-medium text-gray-800">{codeLetter}</span></span>
+        <span>Sample <span className="font-medium text-gray-800">{sampleSize}</span> pcs</span>
+        {DEFECT_SEVERITIES.map(severity => (
+          <span key={severity} className={cn(totals[severity] >= plans[severity].reject && 'text-red-600 font-medium')}>
+            <span className="capitalize">{severity}</span> {totals[severity]} (Ac {plans[severity].accept} / Re {plans[severity].reject})
+          </span>
+        ))}
+        <span className={cn('ml-auto rounded px-2 py-0.5 font-semibold uppercase', outcomeStyles[aqlResult])}>
+          AQL {aqlResult}
+        </span>
+      </div>
+
+      {/* Defects */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Defects found in the sample</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setDefects(prev => [...prev, { type: 'weaving_fault', severity: 'major', count: 1, photoUrls: [] }])}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add defect
+          </Button>
+        </div>
+        {defects.length === 0 && (
+          <p className="text-xs text-gray-400">No defects logged</p>
+        )}
+        {defects.map((defect, index) => (
+          <div key={index} className="rounded-md border p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <Select value={defect.type} onValueChange={(value: InspectionDefect['type']) => updateDefect(index, { type: value })}>
+                <SelectTrigger className="h-8 flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEFECT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{DEFECT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={defect.severity} onValueChange={(value: DefectSeverity) => updateDefect(index, { severity: value })}>
+                <SelectTrigger className="h-8 w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEFECT_SEVERITIES.map(severity => (
+                    <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                value={defect.count}
+                onChange={(e) => updateDefect(index, { count: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                className="h-8 w-20"
+              />
+              <label
+                className={cn(
+                  'flex h-8 w-8 items-center justify-center rounded-md border text-gray-500 hover:text-gray-800 cursor-pointer',
+                  uploadingRow !== null && 'pointer-events-none opacity-50'
+                )}
+                title="Add photo"
+              >
+                {uploadingRow === index ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    handlePhoto(index, e.target.files?.[0])
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+              <button
+                onClick={() => setDefects(prev => prev.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-600"
+                title="Remove"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+            {defect.photoUrls.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {defect.photoUrls.map(url => (
+                  <div key={url} className="relative">
+                    <a href={url} target="_blank" rel="noreferrer">
+                      <img src={url} alt="" className="h-12 w-12 rounded object-cover border" />
+                    </a>
+                    <button
+                      onClick={() => updateDefect(index, { photoUrls: defect.photoUrls.filter(u => u !== url) })}
+                      className="absolute -top-1 -right-1 rounded-full bg-white border text-gray-400 hover:text-red-600"
+                      title="Remove photo"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+        {uploadError && <p className="text-xs text-red-600">{uploadError}</p>}
+      </div>
+
+      {/* Outcome */}
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Outcome</Label>
+          <div className="flex rounded-md border overflow-hidden text-xs h-9">
+            {(['pass', 'fail', 'hold'] as InspectionOutcome[]).map(value => (
+              <button
+                key={value}
+                onClick={() => setOutcomeChoice(value)}
+                disabled={value === 'pass' && aqlResult === 'fail'}
+                className={cn(
+                  'flex-1 capitalize disabled:opacity-40 disabled:cursor-not-allowed',
+                  outcome === value ? cn(outcomeStyles[value], 'font-medium') : 'text-gray-600 hover:bg-gray-50'
+                )}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Inspector</Label>
+          <Input value={inspector} onChange={(e) => setInspector(e.target.value)} className="h-9" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Inspected on</Label>
+          <Input type="date" value={inspectedAt} max={today} onChange={(e) => setInspectedAt(e.target.value)} className="h-9" />
+        </div>
+      </div>
+
+      {outcome === 'fail' && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 space-y-2">
+          <p className="text-xs text-red-700">
+            A re-inspection is booked and packing / dispatch stay on hold until it passes.
+          </p>
+          <label className="flex items-center gap-2 text-xs text-red-700">
+            Re-inspection on
+            <Input
+              type="date"
+              value={reinspectionDate}
+              min={today}
+              onChange={(e) => setReinspectionDate(e.target.value)}
+              className="h-8 w-40 bg-white"
+            />
+          </label>
+        </div>
+      )}
+
+      {needsReason && (
+        <div className="space-y-2">
+          <p className="text-xs text-red-600">
+            The inspection stage is {delayDays} days past its target of {formatDateShort(targetDate)}. Record why.
+          </p>
+          <DelayReasonFields
+            delayReason={reason.delayReason}
+            responsibleParty={reason.responsibleParty}
+            onChange={setReason}
+          />
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs">Notes</Label>
+        <Textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Optional details..."
+          rows={2}
+          className="text-sm"
+        />
+      </div>
+
+      {saveResult.error && <p className="text-xs text-red-600">{saveResult.error.message}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          className="bg-green-600 hover:bg-green-700"
+          onClick={handleSave}
+          disabled={
+            !inspector || !inspectedAt || uploadingRow !== null || saveResult.isPending ||
+            (needsReason && (!reason.delayReason || !reason.responsibleParty))
+          }
+        >
+          {saveResult.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Save result
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function ResultSummary({ result }: { result: InspectionResult }) {
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+        <span className={cn('rounded px-2 py-0.5 font-semibold uppercase', outcomeStyles[result.outcome])}>
+          {result.outcome}
+        </span>
+        <span>{result.inspector} · {formatDateShort(result.inspectedAt)}</span>
+        <span>Level {result.inspectionLevel} · Code {result.codeLetter}</span>
+        <span>Lot {result.lotSize.toLocaleString()} · Sample {result.sampleSize}</span>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500 uppercase tracking-wide border-b">
+            <th className="text-left py-1 font-medium">Severity</th>
+            <th className="text-right py-1 font-medium">AQL</th>
+            <th className="text-right py-1 font-medium">Ac / Re</th>
+            <th className="text-right py-1 font-medium">Found</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {DEFECT_SEVERITIES.map(severity => (
+            <tr key={severity}>
+              <td className="py-1 capitalize">{severity}</td>
+              <td className="py-1 text-right tabular-nums">{result.aql[severity]}</td>
+              <td className="py-1 text-right tabular-nums">{result.acceptance[severity].accept} / {result.acceptance[severity].reject}</td>
+              <td className={cn(
+                'py-1 text-right tabular-nums font-medium',
+                result.totals[severity] >= result.acceptance[severity].reject && 'text-red-600'
+              )}>
+                {result.totals[severity]}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {result.defects.length > 0 && (
+        <div className="space-y-2">
+          {result.defects.map((defect, index) => (
+            <div key={index} className="rounded-md border p-2">
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-medium">{DEFECT_TYPE_LABELS[defect.type] || defect.type}</span>
+                <span className="capitalize text-gray-500">{defect.severity}</span>
+                <span className="ml-auto tabular-nums">{defect.count}</span>
+              </div>
+              {defect.photoUrls.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-1.5">
+                  {defect.photoUrls.map(url => (
+                    <a key={url} href={url} target="_blank" rel="noreferrer">
+                      <img src={url} alt="" className="h-12 w-12 rounded object-cover border" />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result.notes && <p className="text-xs text-gray-600 whitespace-pre-wrap">{result.notes}</p>}
+    </div>
+  )
+}
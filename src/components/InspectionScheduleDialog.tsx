@@ -0,0 +1,441 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DelayReasonFields } from '@/components/DelayReasonDialog'
+import { useCreateInspection, useUpdateInspection, getTodayString } from '@/hooks/useInspectionSchedules'
+import { useTnaTemplate } from '@/hooks/useTnaTemplates'
+import type {
+  CompanyCode,
+  DelayReason,
+  InspectionCapacity,
+  InspectionSchedule,
+  OrderWithTracker,
+  ResponsibleParty,
+} from '@/types'
+import {
+  buildTnaEntries,
+  findNearestFreeSlot,
+  formatDateShort,
+  formatOpsNo,
+  getInspectionConflicts,
+  getStageDelayDays,
+} from '@/lib/utils'
+import { AlertTriangle, CalendarCheck, Loader2, UserCheck } from 'lucide-react'
+
+// Radix Select can't hold an empty value
+const NO_INSPECTOR = 'none'
+
+// Inspector picker: configured inspectors of the company, plus the current one if it isn't listed
+function InspectorSelect({
+  value,
+  company,
+  capacity,
+  onChange,
+}: {
+  value: string
+  company: CompanyCode
+  capacity?: InspectionCapacity
+  onChange: (value: string) => void
+}) {
+  const names = (capacity?.inspectors || []).filter(i => i.company === company).map(i => i.name)
+  if (value && !names.includes(value)) names.unshift(value)
+
+  return (
+    <Select value={value || NO_INSPECTOR} onValueChange={(next) => onChange(next === NO_INSPECTOR ? '' : next)}>
+      <SelectTrigger className="h-9">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_INSPECTOR}>Unassigned</SelectItem>
+        {names.map(name => (
+          <SelectItem key={name} value={name}>{name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+// Capacity / holiday / double-booking warnings, with a jump to the nearest free day
+function ConflictWarning({
+  conflicts,
+  suggestion,
+  onUseSuggestion,
+}: {
+  conflicts: string[]
+  suggestion?: string | null
+  onUseSuggestion?: (date: string) => void
+}) {
+  if (conflicts.length === 0) return null
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800 space-y-1">
+      {conflicts.map(conflict => (
+        <p key={conflict} className="flex items-center gap-1">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+          {conflict}
+        </p>
+      ))}
+      {suggestion && onUseSuggestion && (
+        <button onClick={() => onUseSuggestion(suggestion)} className="font-medium text-green-700 hover:underline">
+          Use nearest free day ({formatDateShort(suggestion)})
+        </button>
+      )}
+    </div>
+  )
+}
+
+interface InspectionScheduleDialogProps {
+  orders: OrderWithTracker[]
+  date?: string               // Day clicked on the calendar
+  schedules: InspectionSchedule[]   // Already booked, for capacity checks
+  capacity?: InspectionCapacity
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Schedule a new inspection. Company, quantities and article come from the order.
+// Mounted only while open, so each opening starts blank.
+export function InspectionScheduleDialog({ orders, date, schedules, capacity, open, onOpenChange }: InspectionScheduleDialogProps) {
+  const createInspection = useCreateInspection()
+  const [orderId, setOrderId] = useState('')
+  const [inspectionDate, setInspectionDate] = useState(date || '')
+  const [inspectionCompany, setInspectionCompany] = useState<CompanyCode>('EMPL')
+  const [inspector, setInspector] = useState('')
+  const [articleName, setArticleName] = useState('')
+  const [notes, setNotes] = useState('')
+
+  const order = orders.find(o => o.id === orderId)
+  const template = useTnaTemplate(order)
+  const sortedOrders = [...orders].sort((a, b) => a.shipDate.localeCompare(b.shipDate))
+
+  const candidate = { inspectionCompany, totalPcs: order?.totalPcs || 0, inspector: inspector || undefined }
+  const conflicts = order && inspectionDate ? getInspectionConflicts(inspectionDate, candidate, schedules, capacity) : []
+  const suggestion = conflicts.length > 0
+    ? findNearestFreeSlot(inspectionDate, candidate, schedules, capacity, getTodayString())
+    : null
+
+  const handleOrderChange = (id: string) => {
+    const next = orders.find(o => o.id === id)
+    setOrderId(id)
+    if (!next) return
+    setInspectionCompany(next.companyCode || 'EMPL')
+    setInspector('')
+    setArticleName(next.items?.[0]?.articleName || '')
+    // Without a clicked day, default to the order's TNA inspection target
+    if (!date) {
+      const target = buildTnaEntries(template, next).find(e => e.stage === 'inspection')?.targetDate
+      setInspectionDate(target && target >= getTodayString() ? target : getTodayString())
+    }
+  }
+
+  const handleSave = async () => {
+    if (!orderId || !inspectionDate) return
+    try {
+      await createInspection.mutateAsync({
+        orderId,
+        inspectionDate,
+        inspectionCompany,
+        inspector: inspector || undefined,
+        articleName: articleName || undefined,
+        notes: notes || undefined
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to schedule inspection:', error)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <CalendarCheck className="h-4 w-4 text-green-600" />
+            Schedule inspection
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Order</Label>
+          <Select value={orderId} onValueChange={handleOrderChange}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="Select an open order" />
+            </SelectTrigger>
+            <SelectContent>
+              {sortedOrders.map(o => (
+                <SelectItem key={o.id} value={o.id}>
+                  {formatOpsNo(o.salesNo)} · {o.customerCode} · Ex-Fty {formatDateShort(o.shipDate)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {order && (
+            <p className="text-[11px] text-gray-500">
+              {order.totalPcs.toLocaleString()} pcs · {order.totalSqm.toLocaleString(undefined, { maximumFractionDigits: 2 })} sqm
+              {order.merchantCode && ` · ${order.merchantCode}`}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Date</Label>
+            <Input
+              type="date"
+              value={inspectionDate}
+              onChange={(e) => setInspectionDate(e.target.value)}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Company</Label>
+            <Select
+              value={inspectionCompany}
+              onValueChange={(value: CompanyCode) => {
+                setInspectionCompany(value)
+                setInspector('')
+              }}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="EMPL">EMPL</SelectItem>
+                <SelectItem value="EHI">EHI</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Inspector</Label>
+          <InspectorSelect value={inspector} company={inspectionCompany} capacity={capacity} onChange={setInspector} />
+        </div>
+
+        <ConflictWarning conflicts={conflicts} suggestion={suggestion} onUseSuggestion={setInspectionDate} />
+
+        <div className="space-y-1">
+          <Label className="text-xs">Article</Label>
+          <Input value={articleName} onChange={(e) => setArticleName(e.target.value)} className="h-9" />
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Notes</Label>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Optional details..."
+            rows={2}
+            className="text-sm"
+          />
+        </div>
+
+        {createInspection.error && <p className="text-xs text-red-600">{createInspection.error.message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700"
+            onClick={handleSave}
+            disabled={!orderId || !inspectionDate || createInspection.isPending}
+          >
+            {createInspection.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Schedule
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface InspectionCompleteDialogProps {
+  schedule: InspectionSchedule
+  order?: OrderWithTracker    // Undefined when the order isn't loaded (e.g. filtered out)
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Confirms an inspection as done, which also completes the order's TNA inspection stage.
+// A late stage needs a root cause first, as with any manual stage update.
+export function InspectionCompleteDialog({ schedule, order, open, onOpenChange }: InspectionCompleteDialogProps) {
+  const updateInspection = useUpdateInspection()
+  const template = useTnaTemplate(order)
+  const current = order?.tracker?.stages?.inspection
+  const [reason, setReason] = useState<{ delayReason: DelayReason | ''; responsibleParty: ResponsibleParty | '' }>({
+    delayReason: current?.delayReason || '',
+    responsibleParty: current?.responsibleParty || ''
+  })
+  const [notes, setNotes] = useState(schedule.notes || '')
+
+  const today = getTodayString()
+  const actualDate = schedule.inspectionDate < today ? schedule.inspectionDate : today
+  const targetDate = order ? buildTnaEntries(template, order).find(e => e.stage === 'inspection')?.targetDate : null
+  const delayDays = getStageDelayDays(targetDate, 'completed', actualDate, today)
+  const needsReason = delayDays > 0 && (!current?.delayReason || !current?.responsibleParty)
+
+  const handleComplete = async () => {
+    if (needsReason && (!reason.delayReason || !reason.responsibleParty)) return
+    try {
+      await updateInspection.mutateAsync({
+        id: schedule.id,
+        orderId: schedule.orderId,
+        action: 'complete',
+        notes,
+        delayReason: reason.delayReason || undefined,
+        responsibleParty: reason.responsibleParty || undefined
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to complete inspection:', error)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <CalendarCheck className="h-4 w-4 text-green-600" />
+            Complete inspection · {formatOpsNo(schedule.opsNo)}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-xs text-gray-500">
+          Marks the TNA inspection stage completed on {formatDateShort(actualDate)}.
+        </p>
+
+        {delayDays > 0 && (
+          <p className="flex items-center gap-1 text-xs text-red-600">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            {delayDays} days past the target of {formatDateShort(targetDate)}
+          </p>
+        )}
+
+        {/* Order not loaded: the server still checks, so offer the fields */}
+        {(delayDays > 0 || !order) && (
+          <DelayReasonFields
+            delayReason={reason.delayReason}
+            responsibleParty={reason.responsibleParty}
+            onChange={setReason}
+          />
+        )}
+
+        <div className="space-y-1">
+          <Label className="text-xs">Notes</Label>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Optional details..."
+            rows={2}
+            className="text-sm"
+          />
+        </div>
+
+        {updateInspection.error && <p className="text-xs text-red-600">{updateInspection.error.message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700"
+            onClick={handleComplete}
+            disabled={(needsReason && (!reason.delayReason || !reason.responsibleParty)) || updateInspection.isPending}
+          >
+            {updateInspection.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Complete
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface InspectionAssignDialogProps {
+  schedule: InspectionSchedule
+  schedules: InspectionSchedule[]
+  capacity?: InspectionCapacity
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Assign (or clear) the inspector for a booked inspection, warning when they're already booked that day
+export function InspectionAssignDialog({ schedule, schedules, capacity, open, onOpenChange }: InspectionAssignDialogProps) {
+  const updateInspection = useUpdateInspection()
+  const [inspector, setInspector] = useState(schedule.inspector || '')
+
+  const conflicts = inspector
+    ? getInspectionConflicts(schedule.inspectionDate, { ...schedule, inspector }, schedules, capacity)
+    : []
+
+  const handleAssign = async () => {
+    try {
+      await updateInspection.mutateAsync({
+        id: schedule.id,
+        orderId: schedule.orderId,
+        action: 'assign',
+        inspector
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to assign inspector:', error)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <UserCheck className="h-4 w-4 text-green-600" />
+            Inspector · {formatOpsNo(schedule.opsNo)}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-xs text-gray-500">
+          {schedule.inspectionCompany} inspection on {formatDateShort(schedule.inspectionDate)}
+        </p>
+
+        <InspectorSelect
+          value={inspector}
+          company={schedule.inspectionCompany}
+          capacity={capacity}
+          onChange={setInspector}
+        />
+
+        <ConflictWarning conflicts={conflicts} />
+
+        {updateInspection.error && <p className="text-xs text-red-600">{updateInspection.error.message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700"
+            onClick={handleAssign}
+            disabled={inspector === (schedule.inspector || '') || updateInspection.isPending}
+          >
+            {updateInspection.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,218 @@
+import { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { useUpdateItemTracker, type ItemTrackerUpdate } from '@/hooks/useProductionTracker'
+import { useUserProfile } from '@/hooks/useUserProfile'
+import type { OrderItem, OrderWithTracker, ProductionItemTracker } from '@/types'
+import { canEditItemTrackers, cn } from '@/lib/utils'
+import { Loader2, Save } from 'lucide-react'
+
+// Editable columns, in Excel "Order Status" sheet order
+const COUNT_COLUMNS: Array<{ key: 'rcvdPcs' | 'toRcvdPcs' | 'oldStock' | 'bazarDone' | 'uFinishing' | 'packed'; label: string }> = [
+  { key: 'rcvdPcs', label: 'Rcvd' },
+  { key: 'toRcvdPcs', label: 'To Rcvd' },
+  { key: 'oldStock', label: 'Old Stock' },
+  { key: 'bazarDone', label: 'Bazar' },
+  { key: 'uFinishing', label: 'U/Fin' },
+  { key: 'packed', label: 'Packed' },
+]
+
+type RowForm = Required<ItemTrackerUpdate>
+
+function toForm(tracker: ProductionItemTracker | undefined): RowForm {
+  return {
+    status: tracker?.status || '',
+    rcvdPcs: tracker?.rcvdPcs || 0,
+    toRcvdPcs: tracker?.toRcvdPcs || 0,
+    oldStock: tracker?.oldStock || 0,
+    bazarDone: tracker?.bazarDone || 0,
+    uFinishing: tracker?.uFinishing || 0,
+    packed: tracker?.packed || 0,
+    vendorName: tracker?.vendorName || '',
+    folioNo: tracker?.folioNo || '',
+    supplierCompletionDate: tracker?.supplierCompletionDate || '',
+  }
+}
+
+// Client-side check mirroring the API validation
+function validateRow(form: RowForm, pcs: number): string | null {
+  if (form.rcvdPcs + form.toRcvdPcs > pcs) return `Rcvd + To Rcvd exceeds ${pcs} pcs`
+  if (form.packed > pcs) return `Packed exceeds ${pcs} pcs`
+  return null
+}
+
+// Per-item PPC production grid (replaces the "Order Status" Excel)
+export function ItemTrackerGrid({ order }: { order: OrderWithTracker }) {
+  const { data: profile } = useUserProfile()
+  const canEdit = canEditItemTrackers(profile)
+  const itemTrackers = order.tracker?.items || {}
+
+  if (!order.items || order.items.length === 0) return null
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[10px] text-gray-500 uppercase tracking-wide border-b">
+            <th className="text-left py-2 pr-2 font-medium">Item</th>
+            <th className="text-right py-2 pr-2 font-medium">Pcs</th>
+            <th className="text-left py-2 pr-2 font-medium min-w-[160px]">Status</th>
+            {COUNT_COLUMNS.map(col => (
+              <th key={col.key} className="text-right py-2 pr-2 font-medium">{col.label}</th>
+            ))}
+            <th className="text-left py-2 pr-2 font-medium">Vendor</th>
+            <th className="text-left py-2 pr-2 font-medium">Folio</th>
+            <th className="text-left py-2 pr-2 font-medium">Supplier Compl.</th>
+            {canEdit && <th className="py-2 w-[60px]"></th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {order.items.map(item => (
+            <ItemTrackerRow
+              key={item.id}
+              orderId={order.id}
+              item={item}
+              tracker={itemTrackers[item.id]}
+              canEdit={canEdit}
+            />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function ItemTrackerRow({
+  orderId,
+  item,
+  tracker,
+  canEdit,
+}: {
+  orderId: string
+  item: OrderItem
+  tracker?: ProductionItemTracker
+  canEdit: boolean
+}) {
+  const updateItem = useUpdateItemTracker()
+  const [form, setForm] = useState<RowForm>(() => toForm(tracker))
+  const [isDirty, setIsDirty] = useState(false)
+
+  // Pick up saved values from the server while the row is untouched
+  const savedForm = toForm(tracker)
+  const currentForm = isDirty ? form : savedForm
+
+  const validationError = validateRow(currentForm, item.pcs || 0)
+
+  const setField = <K extends keyof RowForm>(key: K, value: RowForm[K]) => {
+    setForm({ ...currentForm, [key]: value })
+    setIsDirty(true)
+  }
+
+  const handleSave = async () => {
+    try {
+      await updateItem.mutateAsync({ orderId, itemId: item.id, update: currentForm })
+      setIsDirty(false)
+    } catch (error) {
+      console.error('Failed to update item tracker:', error)
+    }
+  }
+
+  const errorMessage = validationError || (updateItem.error instanceof Error ? updateItem.error.message : null)
+
+  return (
+    <>
+      <tr className={cn('text-gray-700 align-top', isDirty && 'bg-amber-50/50')}>
+        <td className="py-1.5 pr-2">
+          <div className="font-medium">{item.emDesignName || item.articleName || item.sku || '-'}</div>
+          <div className="text-[10px] text-gray-400">{item.size || ''}</div>
+        </td>
+        <td className="py-1.5 pr-2 text-right font-medium">{item.pcs}</td>
+        <td className="py-1.5 pr-2">
+          {canEdit ? (
+            <Input
+              value={currentForm.status}
+              onChange={(e) => setField('status', e.target.value)}
+              className="h-7 text-xs"
+            />
+          ) : (
+            <span className="text-gray-600">{currentForm.status || '-'}</span>
+          )}
+        </td>
+        {COUNT_COLUMNS.map(col => (
+          <td key={col.key} className="py-1.5 pr-2 text-right">
+            {canEdit ? (
+              <Input
+                type="number"
+                min={0}
+                value={currentForm[col.key]}
+                onChange={(e) => setField(col.key, Math.max(0, parseInt(e.target.value, 10) || 0))}
+                className="h-7 w-16 text-xs text-right ml-auto"
+              />
+            ) : (
+              currentForm[col.key] || '-'
+            )}
+          </td>
+        ))}
+        <td className="py-1.5 pr-2">
+          {canEdit ? (
+            <Input
+              value={currentForm.vendorName}
+              onChange={(e) => setField('vendorName', e.target.value)}
+              className="h-7 w-28 text-xs"
+            />
+          ) : (
+            currentForm.vendorName || '-'
+          )}
+        </td>
+        <td className="py-1.5 pr-2">
+          {canEdit ? (
+            <Input
+              value={currentForm.folioNo}
+              onChange={(e) => setField('folioNo', e.target.value)}
+              className="h-7 w-20 text-xs"
+            />
+          ) : (
+            currentForm.folioNo || '-'
+          )}
+        </td>
+        <td className="py-1.5 pr-2">
+          {canEdit ? (
+            <Input
+              type="date"
+              value={currentForm.supplierCompletionDate}
+              onChange={(e) => setField('supplierCompletionDate', e.target.value)}
+              className="h-7 w-32 text-xs"
+            />
+          ) : (
+            currentForm.supplierCompletionDate || '-'
+          )}
+        </td>
+        {canEdit && (
+          <td className="py-1.5">
+            <Button
+              size="sm"
+              variant={isDirty ? 'default' : 'ghost'}
+              className="h-7 px-2"
+              onClick={handleSave}
+              disabled={!isDirty || !!validationError || updateItem.isPending}
+              title="Save row"
+            >
+              {updateItem.isPending ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Save className="h-3.5 w-3.5" />
+              )}
+            </Button>
+          </td>
+        )}
+      </tr>
+      {isDirty && errorMessage && (
+        <tr>
+          <td colSpan={COUNT_COLUMNS.length + 7} className="pb-1.5 text-[11px] text-red-600">
+            {errorMessage}
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
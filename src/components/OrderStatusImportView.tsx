@@ -0,0 +1,273 @@
+import { useRef, useState } from 'react'
+import { useOrderStatusImport } from '@/hooks/useOrderStatusImport'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import type { OrderStatusImportResult } from '@/types'
+import { cn } from '@/lib/utils'
+import {
+  AlertTriangle,
+  CheckCircle2,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+  X,
+} from 'lucide-react'
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  rcvdPcs: 'Rcvd',
+  toRcvdPcs: 'To Rcvd',
+  oldStock: 'Old Stock',
+  bazarDone: 'Bazar',
+  uFinishing: 'U/Fin',
+  packed: 'Packed',
+  vendorName: 'Vendor',
+  folioNo: 'Folio',
+}
+
+// Upload screen for the PPC "Order Status" Excel: preview first, then apply
+export function OrderStatusImportView() {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<OrderStatusImportResult | null>(null)
+  const [applied, setApplied] = useState<OrderStatusImportResult | null>(null)
+  const importMutation = useOrderStatusImport()
+
+  const handleFileChange = async (selected: File | undefined) => {
+    if (!selected) return
+    setFile(selected)
+    setPreview(null)
+    setApplied(null)
+    try {
+      setPreview(await importMutation.mutateAsync({ file: selected, dryRun: true }))
+    } catch (error) {
+      console.error('Failed to preview import:', error)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!file) return
+    try {
+      setApplied(await importMutation.mutateAsync({ file, dryRun: false }))
+      setPreview(null)
+    } catch (error) {
+      console.error('Failed to apply import:', error)
+    }
+  }
+
+  const handleReset = () => {
+    setFile(null)
+    setPreview(null)
+    setApplied(null)
+    importMutation.reset()
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const changedOrders = preview?.matchedOrders
+    .map(order => ({ ...order, items: order.items.filter(i => i.changes.length > 0 || i.error) }))
+    .filter(order => order.items.length > 0) || []
+  const errorCount = preview?.matchedOrders.reduce((sum, o) => sum + o.items.filter(i => i.error).length, 0) || 0
+
+  return (
+    <div className="space-y-4">
+      {/* Upload bar */}
+      <div className="bg-white rounded-lg border p-3 flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5 text-green-600" />
+          <span className="font-semibold text-gray-800">Order Status Import</span>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xlsx,.xls"
+          className="hidden"
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importMutation.isPending}
+        >
+          <Upload className="h-4 w-4 mr-1" />
+          {file ? 'Choose another file' : 'Choose Excel file'}
+        </Button>
+
+        {file && (
+          <span className="text-sm text-gray-600 flex items-center gap-1">
+            {file.name}
+            <button onClick={handleReset} className="text-gray-400 hover:text-gray-600" title="Clear">
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        )}
+
+        {preview && (
+          <Button
+            size="sm"
+            className="h-8 ml-auto bg-green-600 hover:bg-green-700"
+            onClick={handleApply}
+            disabled={importMutation.isPending || preview.itemsUpdated === 0}
+          >
+            {importMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Apply {preview.itemsUpdated} item updates
+          </Button>
+        )}
+      </div>
+
+      {importMutation.isPending && !preview && (
+        <div className="bg-white rounded-lg border p-8 text-center">
+          <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+          <p className="text-sm text-muted-foreground mt-2">Reading file...</p>
+        </div>
+      )}
+
+      {importMutation.error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          {importMutation.error.message}
+        </div>
+      )}
+
+      {applied && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800 flex items-center gap-2">
+          <CheckCircle2 className="h-4 w-4" />
+          Updated {applied.itemsUpdated} items across {applied.matchedOrders.length} orders from {applied.fileName}
+        </div>
+      )}
+
+      {!file && !applied && (
+        <div className="bg-white rounded-lg border p-8 text-center text-sm text-muted-foreground">
+          Upload the PPC "Order Status" sheet to preview changes to item Rcvd / To Rcvd / U-Finishing / Status.
+          Nothing is saved until you apply the preview.
+        </div>
+      )}
+
+      {preview && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <SummaryCard label="Rows parsed" value={preview.rowsParsed} />
+            <SummaryCard label="Matched orders" value={preview.matchedOrders.length} />
+            <SummaryCard label="Items to update" value={preview.itemsUpdated} highlight />
+            <SummaryCard
+              label="Unmatched OPS / rows"
+              value={`${preview.unmatchedOps.length} / ${preview.unmatchedRows.length}`}
+              warn={preview.unmatchedOps.length + preview.unmatchedRows.length > 0}
+            />
+          </div>
+
+          {errorCount > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              {errorCount} rows fail validation and will be skipped
+            </div>
+          )}
+
+          {/* Value diffs */}
+          <div className="bg-white rounded-lg border">
+            <div className="px-4 py-2 border-b text-sm font-medium text-gray-700">Changes</div>
+            {changedOrders.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">No differences from the current tracker values</p>
+            ) : (
+              <div className="divide-y">
+                {changedOrders.map(order => (
+                  <div key={order.orderId} className="px-4 py-3">
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="font-mono text-sm font-semibold">{order.opsNo}</span>
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">{order.buyerCode}</Badge>
+                    </div>
+                    <table className="w-full text-xs">
+                      <tbody className="divide-y divide-gray-100">
+                        {order.items.map(item => (
+                          <tr key={item.itemId} className={cn('align-top', item.error && 'bg-red-50/60')}>
+                            <td className="py-1.5 pr-3 w-1/4">
+                              <div className="font-medium text-gray-700">{item.label || item.itemId}</div>
+                              <div className="text-[10px] text-gray-400">Row {item.rowNumber}</div>
+                            </td>
+                            <td className="py-1.5">
+                              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                                {item.changes.map(change => (
+                                  <span key={change.field} className="text-gray-600">
+                                    <span className="text-gray-400">{FIELD_LABELS[change.field] || change.field}:</span>{' '}
+                                    <span className="line-through text-gray-400">{change.from === '' ? '-' : change.from}</span>{' '}
+                                    → <span className="font-medium text-gray-800">{change.to === '' ? '-' : change.to}</span>
+                                  </span>
+                                ))}
+                              </div>
+                              {item.error && <div className="mt-1 text-red-600">{item.error}</div>}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Unmatched */}
+          {(preview.unmatchedOps.length > 0 || preview.unmatchedRows.length > 0) && (
+            <div className="bg-white rounded-lg border p-4 space-y-3">
+              {preview.unmatchedOps.length > 0 && (
+                <div>
+                  <div className="text-sm font-medium text-gray-700 mb-1">
+                    OPS not found in open orders ({preview.unmatchedOps.length})
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {preview.unmatchedOps.map(ops => (
+                      <Badge key={ops} variant="secondary" className="font-mono text-[10px]">{ops}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {preview.unmatchedRows.length > 0 && (
+                <div>
+                  <div className="text-sm font-medium text-gray-700 mb-1">
+                    Rows not matched to an item ({preview.unmatchedRows.length})
+                  </div>
+                  <ul className="text-xs text-gray-600 space-y-0.5">
+                    {preview.unmatchedRows.map(row => (
+                      <li key={row.rowNumber}>
+                        Row {row.rowNumber}: <span className="font-mono">{row.opsNo}</span> {row.article} {row.size}
+                        <span className="text-gray-400"> — {row.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+function SummaryCard({
+  label,
+  value,
+  highlight,
+  warn,
+}: {
+  label: string
+  value: number | string
+  highlight?: boolean
+  warn?: boolean
+}) {
+  return (
+    <div className="bg-white rounded-lg border p-3 text-center">
+      <div className={cn(
+        'text-lg font-semibold',
+        highlight && 'text-green-700',
+        warn && 'text-amber-600'
+      )}>
+        {value}
+      </div>
+      <div className="text-xs text-gray-500">{label}</div>
+    </div>
+  )
+}
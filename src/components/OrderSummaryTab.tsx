@@ -72,7 +72,7 @@ export function OrderSummaryTab() {
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
 
   // Fetch orders using existing hook
-  const { data: orders = [], isLoading } = useOrders()
+  const { orders, loaded, total, isComplete, isLoading } = useOrders()
 
   // Get unique merchants and directors for filters
   const { uniqueMerchants, uniqueDirectors } = useMemo(() => {
@@ -315,6 +315,9 @@ export function OrderSummaryTab() {
           <div>
             <span className="font-medium text-foreground">{totals.sqm.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span> Total SQM
           </div>
+          {!isComplete && total !== null && (
+            <div className="text-xs">Showing {loaded} of {total} orders, loading...</div>
+          )}
         </div>
       </div>
 
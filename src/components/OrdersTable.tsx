@@ -10,9 +10,9 @@ import {
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { TnaTracker } from '@/components/TnaTracker'
-import type { OrderWithTracker, TnaStage } from '@/types'
-import { TNA_STAGE_LABELS } from '@/types'
-import { formatOpsNo, formatDate, daysUntil, getDaysLeftColor } from '@/lib/utils'
+import type { OrderWithTracker } from '@/types'
+import { useTnaTemplates } from '@/hooks/useTnaTemplates'
+import { formatOpsNo, formatDate, daysUntil, getDaysLeftColor, resolveTnaTemplate, getStageLabel } from '@/lib/utils'
 import { ChevronDown, ChevronRight, Package } from 'lucide-react'
 
 interface OrdersTableProps {
@@ -22,6 +22,7 @@ interface OrdersTableProps {
 
 export function OrdersTable({ orders, isLoading }: OrdersTableProps) {
   const [expandedOrders, setExpandedOrders] = useState<Set<string>>(new Set())
+  const { data: templates } = useTnaTemplates()
 
   const toggleOrder = (orderId: string) => {
     setExpandedOrders((prev) => {
@@ -73,7 +74,8 @@ export function OrdersTable({ orders, isLoading }: OrdersTableProps) {
       <TableBody>
         {orders.map((order) => {
           const isExpanded = expandedOrders.has(order.id)
-          const currentStage = order.tracker?.currentStage || 'raw_material_purchase'
+          const template = resolveTnaTemplate(templates, order)
+          const currentStage = order.tracker?.currentStage || template.stages[0].key
           const daysLeft = daysUntil(order.shipDate)
 
           return (
@@ -123,7 +125,7 @@ export function OrdersTable({ orders, isLoading }: OrdersTableProps) {
                     variant={getStageVariant(currentStage)}
                     className="text-xs"
                   >
-                    {TNA_STAGE_LABELS[currentStage]}
+                    {getStageLabel(template, currentStage)}
                   </Badge>
                 </TableCell>
               </TableRow>
@@ -146,7 +148,7 @@ export function OrdersTable({ orders, isLoading }: OrdersTableProps) {
   )
 }
 
-function getStageVariant(stage: TnaStage): 'default' | 'secondary' | 'success' | 'warning' {
+function getStageVariant(stage: string): 'default' | 'secondary' | 'success' | 'warning' {
   // Early stages
   if (['raw_material_purchase', 'dyeing'].includes(stage)) {
     return 'secondary'
@@ -8,12 +8,31 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import type { OrderWithTracker, OrderItem, ProductionStatsMap } from '@/types'
-import { formatOpsNo, formatDateShort, formatDate, daysUntil, cn } from '@/lib/utils'
+import { ItemTrackerGrid } from '@/components/ItemTrackerGrid'
+import { TedDetailDialog } from '@/components/TedListView'
+import { useOrderTeds, usePinTedVersion, openTedPrint } from '@/hooks/useTeds'
+import { useTnaTemplate } from '@/hooks/useTnaTemplates'
+import { useUserProfile } from '@/hooks/useUserProfile'
+import type { OrderWithTracker, OrderItem, OrderItemTed, OrderTeds, ProductionStatsMap } from '@/types'
 import {
+  formatOpsNo,
+  formatDateShort,
+  formatDate,
+  daysUntil,
+  cn,
+  buildTnaEntries,
+  getStageStartDate,
+  canPinTedVersions,
+} from '@/lib/utils'
+import {
+  AlertTriangle,
   ChevronDown,
   ChevronUp,
+  FileText,
   Package,
+  Pin,
+  PinOff,
+  Printer,
   Loader2,
 } from 'lucide-react'
 
@@ -77,10 +96,152 @@ function DaysLeftBadge({ shipDate }: { shipDate: string | null | undefined }) {
   )
 }
 
+// ============== TED Links ==============
+
+function ItemTedCell({
+  link,
+  canPin,
+  onOpen,
+  onPin,
+  onPrint,
+}: {
+  link: OrderItemTed | undefined
+  canPin: boolean
+  onOpen: (link: OrderItemTed) => void
+  onPin: (link: OrderItemTed, pin: boolean) => void
+  onPrint: (link: OrderItemTed) => void
+}) {
+  if (!link) return <span className="text-gray-300">-</span>
+
+  if (!link.ted) {
+    return (
+      <span className="inline-flex items-center rounded px-1.5 py-0.5 text-[10px] font-medium bg-red-100 text-red-700">
+        No TED
+      </span>
+    )
+  }
+
+  const ted = link.ted
+  const pin = link.pin
+  const superseded = !!pin && !!link.latestVersion && link.latestVersion > pin.version
+  return (
+    <div className="flex items-center gap-1.5">
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          onOpen(link)
+        }}
+        className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 font-medium"
+        title={[
+          link.matchedBy === 'fuzzy' ? `Matched on base design ${ted.emDesignNo}` : '',
+          link.alternatives > 0 ? `${link.alternatives} other TED(s) for this design` : '',
+        ].filter(Boolean).join('. ') || undefined}
+      >
+        <FileText className="h-3.5 w-3.5" />
+        {link.matchedBy === 'fuzzy' ? `~${ted.emDesignNo}` : 'View'}
+      </button>
+      {!link.ppMeetingHeld && (
+        <span className="inline-flex items-center rounded px-1.5 py-0.5 text-[10px] font-medium bg-amber-100 text-amber-700">
+          PP pending
+        </span>
+      )}
+      {pin && (
+        <span
+          className={cn(
+            'inline-flex items-center gap-0.5 rounded px-1.5 py-0.5 text-[10px] font-medium',
+            superseded ? 'bg-amber-100 text-amber-700' : 'bg-green-100 text-green-700'
+          )}
+          title={`Pinned by ${pin.pinnedBy} on ${formatDateShort(pin.pinnedAt)}`}
+        >
+          <Pin className="h-2.5 w-2.5" />
+          v{pin.version}
+          {superseded && ` · v${link.latestVersion} newer`}
+        </span>
+      )}
+      {canPin && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onPin(link, !pin || superseded)
+          }}
+          className="text-gray-400 hover:text-green-700"
+          title={!pin ? 'Pin the current TED version for production' : superseded ? `Pin v${link.latestVersion}` : 'Unpin'}
+        >
+          {pin && !superseded ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+        </button>
+      )}
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          onPrint(link)
+        }}
+        className="text-gray-400 hover:text-green-700"
+        title="Print loom card"
+      >
+        <Printer className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  )
+}
+
+// Missing TEDs / PP meetings, shown until weaving starts
+function TedReadinessWarning({ teds, weavingStart }: { teds: OrderTeds; weavingStart: string | null }) {
+  if (teds.missingTed === 0 && teds.ppMeetingPending === 0) return null
+
+  const days = daysUntil(weavingStart)
+  const issues = [
+    teds.missingTed > 0 ? `${teds.missingTed} item${teds.missingTed === 1 ? '' : 's'} without a TED` : '',
+    teds.ppMeetingPending > 0 ? `PP meeting not held for ${teds.ppMeetingPending} item${teds.ppMeetingPending === 1 ? '' : 's'}` : '',
+  ].filter(Boolean)
+
+  return (
+    <div className={cn(
+      'flex items-start gap-2 rounded-lg border px-3 py-2 text-sm',
+      days !== null && days <= 7 ? 'border-red-200 bg-red-50 text-red-700' : 'border-amber-200 bg-amber-50 text-amber-800'
+    )}>
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+      <div>
+        <span className="font-medium">Not ready for weaving: </span>
+        {issues.join(' · ')}
+        {weavingStart && (
+          <span className="text-xs ml-1">
+            ({days !== null && days < 0 ? `weaving was due to start ${formatDateShort(weavingStart)}` : `weaving starts ${formatDateShort(weavingStart)}`})
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
 // ============== Expanded Order Details ==============
 
 function ExpandedOrderDetails({ order }: { order: OrderWithTracker }) {
   const [showAllItems, setShowAllItems] = useState(false)
+  const [viewingTed, setViewingTed] = useState<OrderItemTed | null>(null)
+  const [printError, setPrintError] = useState<string | null>(null)
+  const { data: teds } = useOrderTeds(order.id)
+  const { data: profile } = useUserProfile()
+  const pinTedVersion = usePinTedVersion()
+  const template = useTnaTemplate(order)
+  const canPin = canPinTedVersions(profile, order)
+
+  const handlePrint = (link: OrderItemTed) => {
+    if (!link.ted) return
+    setPrintError(null)
+    openTedPrint(link.ted.id, { orderId: order.id, itemId: link.itemId })
+      .catch((error: Error) => setPrintError(error.message))
+  }
+
+  // Pin the TED's current version, or unpin
+  const handlePin = (link: OrderItemTed, pin: boolean) => {
+    pinTedVersion.mutate({ orderId: order.id, itemId: link.itemId, tedId: pin ? link.ted?.id || null : null }, {
+      onError: (error) => console.error('Failed to pin TED version:', error)
+    })
+  }
+
+  const tedsByItem = useMemo(() => new Map((teds?.items || []).map(t => [t.itemId, t])), [teds])
+  const weavingStatus = order.tracker?.stages?.weaving?.status
+  const weavingStart = getStageStartDate(buildTnaEntries(template, order), 'weaving')
 
   const totalPcs = order.totalPcs || order.items?.reduce((sum, i) => sum + (i.pcs || 0), 0) || 0
   const totalSqm = order.totalSqm || order.items?.reduce((sum, i) => sum + (i.sqm || 0), 0) || 0
@@ -143,12 +304,17 @@ function ExpandedOrderDetails({ order }: { order: OrderWithTracker }) {
         </div>
       </div>
 
+      {teds && (!weavingStatus || weavingStatus === 'pending') && (
+        <TedReadinessWarning teds={teds} weavingStart={weavingStart} />
+      )}
+
       {/* Items Table */}
       <div className="overflow-x-auto">
         <table className="w-full text-sm">
           <thead>
             <tr className="text-xs text-gray-500 uppercase tracking-wide border-b">
               <th className="text-left py-2 pr-4 font-medium">EM Design</th>
+              <th className="text-left py-2 pr-4 font-medium">TED</th>
               <th className="text-left py-2 pr-4 font-medium">Article / SKU</th>
               <th className="text-left py-2 pr-4 font-medium">Size</th>
               <th className="text-right py-2 pr-4 font-medium">Pcs</th>
@@ -159,6 +325,15 @@ function ExpandedOrderDetails({ order }: { order: OrderWithTracker }) {
             {visibleItems?.map((item: OrderItem) => (
               <tr key={item.id} className="text-gray-700">
                 <td className="py-2 pr-4 font-medium">{item.emDesignName || '-'}</td>
+                <td className="py-2 pr-4 text-xs">
+                  <ItemTedCell
+                    link={tedsByItem.get(item.id)}
+                    canPin={canPin}
+                    onOpen={setViewingTed}
+                    onPin={handlePin}
+                    onPrint={handlePrint}
+                  />
+                </td>
                 <td className="py-2 pr-4 text-gray-500">{item.articleName || item.sku || '-'}</td>
                 <td className="py-2 pr-4">{item.size || '-'}</td>
                 <td className="py-2 pr-4 text-right font-medium">{item.pcs}</td>
@@ -169,7 +344,7 @@ function ExpandedOrderDetails({ order }: { order: OrderWithTracker }) {
           {itemCount > 1 && (
             <tfoot>
               <tr className="border-t-2 border-gray-300 font-semibold text-gray-800">
-                <td className="py-2 pr-4" colSpan={3}>Total</td>
+                <td className="py-2 pr-4" colSpan={4}>Total</td>
                 <td className="py-2 pr-4 text-right">{totalPcs.toLocaleString()}</td>
                 <td className="py-2 text-right">{totalSqm.toFixed(1)}</td>
               </tr>
@@ -201,6 +376,28 @@ function ExpandedOrderDetails({ order }: { order: OrderWithTracker }) {
           Show less
         </button>
       )}
+
+      {/* Item-level production status (PPC) */}
+      {itemCount > 0 && (
+        <div className="bg-white rounded-lg border p-3">
+          <h4 className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-2">
+            Production Status
+          </h4>
+          <ItemTrackerGrid order={order} />
+        </div>
+      )}
+
+      {pinTedVersion.error && <p className="text-xs text-red-600">{pinTedVersion.error.message}</p>}
+      {printError && <p className="text-xs text-red-600">{printError}</p>}
+
+      {viewingTed?.ted && (
+        <TedDetailDialog
+          tedId={viewingTed.ted.id}
+          pinnedVersion={viewingTed.pin?.tedId === viewingTed.ted.id ? viewingTed.pin.version : undefined}
+          open
+          onOpenChange={(open) => !open && setViewingTed(null)}
+        />
+      )}
     </div>
   )
 }
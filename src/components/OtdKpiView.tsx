@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import { useOtdReport } from '@/hooks/useOtdReport'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DEFAULT_TNA_TEMPLATE } from '@/types'
+import type { OtdGroup, OtdReport } from '@/types'
+import { cn, formatDateShort, getCurrentFiscalYear, getStageLabel } from '@/lib/utils'
+import { Loader2, Target } from 'lucide-react'
+
+type Breakdown = 'buyer' | 'merchant' | 'company' | 'fiscalYear'
+
+const BREAKDOWN_LABELS: Record<Breakdown, string> = {
+  buyer: 'Buyer',
+  merchant: 'Merchant',
+  company: 'Company',
+  fiscalYear: 'Fiscal Year',
+}
+
+// Orders shown in the late list
+const LATE_ORDERS_LIMIT = 25
+
+// On-time delivery for management reviews: dispatch vs ex-factory and buyer PO date, plus stage on-time %
+export function OtdKpiView() {
+  const [fiscalYear, setFiscalYear] = useState(getCurrentFiscalYear())
+  const [breakdown, setBreakdown] = useState<Breakdown>('buyer')
+  const { data: report, isLoading, error } = useOtdReport(fiscalYear === 'all' ? '' : fiscalYear)
+
+  const groups: OtdGroup[] = report ? breakdownGroups(report, breakdown) : []
+  const fiscalYears = [...new Set([...(report?.fiscalYears || []), getCurrentFiscalYear()])].sort().reverse()
+  const stageOrder = DEFAULT_TNA_TEMPLATE.stages.map(s => s.key)
+  const stages = [...(report?.stages || [])].sort((a, b) => {
+    const ai = stageOrder.indexOf(a.stage)
+    const bi = stageOrder.indexOf(b.stage)
+    return (ai < 0 ? stageOrder.length : ai) - (bi < 0 ? stageOrder.length : bi)
+  })
+  const lateOrders = (report?.orders || []).filter(o => o.delayDays > 0).slice(0, LATE_ORDERS_LIMIT)
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-white rounded-lg border p-3 flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Target className="h-5 w-5 text-green-600" />
+          <span className="font-semibold text-gray-800">On-Time Delivery</span>
+        </div>
+        <Select value={fiscalYear} onValueChange={setFiscalYear}>
+          <SelectTrigger className="h-8 w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All years</SelectItem>
+            {fiscalYears.map(fy => (
+              <SelectItem key={fy} value={fy}>FY {fy}-{String(Number(fy) + 1).padStart(2, '0')}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-gray-500 ml-auto">
+          {isLoading ? '...' : `${report?.summary.orders || 0} dispatched orders`}
+          {!!report?.unmeasured && ` · ${report.unmeasured} shipped without a dispatch date`}
+        </span>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white rounded-lg border p-12 text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+          <p className="text-sm text-muted-foreground mt-2">Measuring deliveries...</p>
+        </div>
+      ) : error ? (
+        <p className="bg-white rounded-lg border p-6 text-sm text-red-600">{error.message}</p>
+      ) : report && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <KpiCard label="OTD vs ex-factory" value={`${report.summary.otdPercent}%`} percent={report.summary.otdPercent}
+              detail={`${report.summary.onTime} of ${report.summary.orders} on time`} />
+            <KpiCard label="OTD vs buyer PO date" value={`${report.summary.otdVsPoPercent}%`} percent={report.summary.otdVsPoPercent}
+              detail={`${report.summary.onTimeVsPo} on time`} />
+            <KpiCard label="Avg delay (late orders)" value={`${report.summary.avgDelayDays}d`}
+              detail={`${report.summary.orders - report.summary.onTime} late orders`} />
+            <KpiCard label="Dispatched orders" value={String(report.summary.orders)}
+              detail={report.fiscalYear ? `FY ${report.fiscalYear}` : 'All years'} />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {/* Breakdown */}
+            <div className="bg-white rounded-lg border overflow-hidden">
+              <div className="flex items-center justify-between gap-2 px-3 py-2 border-b bg-gray-50">
+                <span className="text-sm font-semibold text-gray-800">By {BREAKDOWN_LABELS[breakdown]}</span>
+                <div className="flex rounded-md border overflow-hidden text-xs bg-white">
+                  {(Object.keys(BREAKDOWN_LABELS) as Breakdown[]).map(key => (
+                    <button
+                      key={key}
+                      onClick={() => setBreakdown(key)}
+                      className={cn(
+                        'px-2 py-1',
+                        breakdown === key ? 'bg-green-50 text-green-700 font-medium' : 'text-gray-600 hover:bg-gray-50'
+                      )}
+                    >
+                      {BREAKDOWN_LABELS[key]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase tracking-wide border-b">
+                    <th className="text-left py-1.5 px-3 font-medium">{BREAKDOWN_LABELS[breakdown]}</th>
+                    <th className="text-right py-1.5 px-2 font-medium">Orders</th>
+                    <th className="text-right py-1.5 px-2 font-medium">OTD</th>
+                    <th className="text-right py-1.5 px-2 font-medium">vs PO</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Avg delay</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {groups.map(group => (
+                    <tr key={group.key}>
+                      <td className="py-1.5 px-3 font-medium text-gray-700">
+                        {breakdown === 'fiscalYear' ? `FY ${group.key}` : group.key}
+                      </td>
+                      <td className="py-1.5 px-2 text-right tabular-nums">{group.orders}</td>
+                      <td className={cn('py-1.5 px-2 text-right tabular-nums font-medium', otdColor(group.otdPercent))}>
+                        {group.otdPercent}%
+                      </td>
+                      <td className="py-1.5 px-2 text-right tabular-nums text-gray-600">{group.otdVsPoPercent}%</td>
+                      <td className="py-1.5 px-3 text-right tabular-nums text-gray-600">{group.avgDelayDays}d</td>
+                    </tr>
+                  ))}
+                  {groups.length === 0 && (
+                    <tr><td colSpan={5} className="py-6 text-center text-xs text-muted-foreground">No dispatched orders</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Stage on-time */}
+            <div className="bg-white rounded-lg border overflow-hidden">
+              <div className="px-3 py-2 border-b bg-gray-50 text-sm font-semibold text-gray-800">
+                Stage on-time (from tracker history)
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase tracking-wide border-b">
+                    <th className="text-left py-1.5 px-3 font-medium">Stage</th>
+                    <th className="text-right py-1.5 px-2 font-medium">Done</th>
+                    <th className="text-right py-1.5 px-2 font-medium">On time</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Avg delay</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {stages.map(stage => (
+                    <tr key={stage.stage}>
+                      <td className="py-1.5 px-3 text-gray-700">{getStageLabel(DEFAULT_TNA_TEMPLATE, stage.stage)}</td>
+                      <td className="py-1.5 px-2 text-right tabular-nums">{stage.completed}</td>
+                      <td className={cn('py-1.5 px-2 text-right tabular-nums font-medium', otdColor(stage.onTimePercent))}>
+                        {stage.onTimePercent}%
+                      </td>
+                      <td className="py-1.5 px-3 text-right tabular-nums text-gray-600">{stage.avgDelayDays}d</td>
+                    </tr>
+                  ))}
+                  {stages.length === 0 && (
+                    <tr><td colSpan={4} className="py-6 text-center text-xs text-muted-foreground">No completed stages recorded</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Latest dispatches past ex-factory */}
+          {lateOrders.length > 0 && (
+            <div className="bg-white rounded-lg border overflow-x-auto">
+              <div className="px-3 py-2 border-b bg-gray-50 text-sm font-semibold text-gray-800">Late orders</div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase tracking-wide border-b">
+                    <th className="text-left py-1.5 px-3 font-medium">OPS</th>
+                    <th className="text-left py-1.5 px-2 font-medium">Buyer</th>
+                    <th className="text-left py-1.5 px-2 font-medium">Merchant</th>
+                    <th className="text-left py-1.5 px-2 font-medium">Ex-Fty</th>
+                    <th className="text-left py-1.5 px-2 font-medium">Buyer PO</th>
+                    <th className="text-left py-1.5 px-2 font-medium">Dispatched</th>
+                    <th className="text-right py-1.5 px-3 font-medium">Late by</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {lateOrders.map(order => (
+                    <tr key={order.orderId}>
+                      <td className="py-1.5 px-3 font-mono font-semibold">{order.opsNo}</td>
+                      <td className="py-1.5 px-2 text-gray-600">{order.buyerCode}</td>
+                      <td className="py-1.5 px-2 text-gray-600">{order.merchantCode}</td>
+                      <td className="py-1.5 px-2 text-gray-600">{formatDateShort(order.shipDate)}</td>
+                      <td className="py-1.5 px-2 text-gray-600">{formatDateShort(order.buyerPoShipDate)}</td>
+                      <td className="py-1.5 px-2 text-gray-600">
+                        {formatDateShort(order.dispatchDate)}
+                        {order.dispatchSource === 'tracker' && <span className="ml-1 text-[10px] text-gray-400">(tracker)</span>}
+                      </td>
+                      <td className="py-1.5 px-3 text-right tabular-nums text-red-600 font-medium">{order.delayDays}d</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+function KpiCard({ label, value, detail, percent }: { label: string; value: string; detail: string; percent?: number }) {
+  return (
+    <div className="bg-white rounded-lg border p-3">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className={cn('text-2xl font-semibold', percent !== undefined ? otdColor(percent) : 'text-gray-800')}>{value}</div>
+      <div className="text-[11px] text-gray-400">{detail}</div>
+    </div>
+  )
+}
+
+function breakdownGroups(report: OtdReport, breakdown: Breakdown): OtdGroup[] {
+  switch (breakdown) {
+    case 'merchant':
+      return report.byMerchant
+    case 'company':
+      return report.byCompany
+    case 'fiscalYear':
+      return report.byFiscalYear
+    default:
+      return report.byBuyer
+  }
+}
+
+function otdColor(percent: number): string {
+  if (percent >= 90) return 'text-green-600'
+  if (percent >= 75) return 'text-amber-600'
+  return 'text-red-600'
+}
@@ -0,0 +1,202 @@
+import { Fragment, useEffect, useRef, useState } from 'react'
+import { useReconciliation } from '@/hooks/useReconciliation'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import type { ReconciliationField, ReconciliationFigures } from '@/types'
+import { cn, formatDateShort } from '@/lib/utils'
+import {
+  ChevronDown,
+  ChevronUp,
+  ExternalLink,
+  Loader2,
+  Scale,
+} from 'lucide-react'
+
+const FIELD_LABELS: Record<ReconciliationField, string> = {
+  rcvdPcs: 'Rcvd',
+  toRcvdPcs: 'To Rcvd',
+  uFinishing: 'U/Fin',
+}
+
+const FIELDS: ReconciliationField[] = ['rcvdPcs', 'toRcvdPcs', 'uFinishing']
+
+interface ReconciliationViewProps {
+  onOpenOrder: (opsNo: string) => void
+}
+
+// PPC tracker figures vs live ERP WIP, listing OPS/items that disagree
+export function ReconciliationView({ onOpenOrder }: ReconciliationViewProps) {
+  const [toleranceInput, setToleranceInput] = useState('2')
+  const [tolerance, setTolerance] = useState(2)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined)
+
+  useEffect(() => {
+    if (debounceRef.current) clearTimeout(debounceRef.current)
+    debounceRef.current = setTimeout(() => {
+      const value = Number(toleranceInput)
+      if (Number.isFinite(value) && value >= 0) setTolerance(value)
+    }, 300)
+    return () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current)
+    }
+  }, [toleranceInput])
+
+  const { data: report, isLoading, error } = useReconciliation(tolerance)
+  const rows = report?.rows || []
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-white rounded-lg border p-3 flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Scale className="h-5 w-5 text-green-600" />
+          <span className="font-semibold text-gray-800">Excel vs ERP</span>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Tolerance
+          <Input
+            type="number"
+            min={0}
+            value={toleranceInput}
+            onChange={(e) => setToleranceInput(e.target.value)}
+            className="h-8 w-20"
+          />
+          pcs
+        </label>
+        <span className="text-xs text-gray-500 ml-auto">
+          {isLoading ? '...' : `${rows.length} of ${report?.checkedOrders || 0} tracked OPS disagree`}
+        </span>
+      </div>
+
+      {/* Table */}
+      <div className="bg-white rounded-lg border overflow-x-auto">
+        {isLoading ? (
+          <div className="p-12 text-center">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+            <p className="text-sm text-muted-foreground mt-2">Comparing with ERP...</p>
+          </div>
+        ) : error ? (
+          <p className="p-6 text-sm text-red-600">{error.message}</p>
+        ) : rows.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground text-center">
+            All tracked OPS match the ERP within {tolerance} pcs
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase tracking-wide border-b bg-gray-50">
+                <th className="w-8"></th>
+                <th className="text-left py-2 px-2 font-medium">OPS</th>
+                <th className="text-left py-2 px-2 font-medium">Buyer</th>
+                <th className="text-left py-2 px-2 font-medium">Ex-Fty</th>
+                {FIELDS.map(field => (
+                  <th key={field} className="text-right py-2 px-2 font-medium">
+                    {FIELD_LABELS[field]} <span className="normal-case text-gray-400">(PPC / ERP)</span>
+                  </th>
+                ))}
+                <th className="py-2 px-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => {
+                const isExpanded = expandedId === row.orderId
+                return (
+                  <Fragment key={row.orderId}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedId(isExpanded ? null : row.orderId)}
+                    >
+                      <td className="pl-2 text-gray-400">
+                        {(row.items.length > 0 || row.unmatchedErp.length > 0) && (isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />)}
+                      </td>
+                      <td className="py-2 px-2">
+                        <span className="font-mono font-semibold">{row.opsNo}</span>
+                        <Badge variant="outline" className="ml-2 text-[10px] px-1.5 py-0">{row.source}</Badge>
+                      </td>
+                      <td className="py-2 px-2 text-gray-600">{row.buyerCode}</td>
+                      <td className="py-2 px-2 text-gray-600">{formatDateShort(row.shipDate)}</td>
+                      {FIELDS.map(field => (
+                        <FigureCell
+                          key={field}
+                          manual={row.manual}
+                          erp={row.erp}
+                          field={field}
+                          mismatched={row.mismatchedFields.includes(field)}
+                        />
+                      ))}
+                      <td className="py-2 px-2 text-right">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onOpenOrder(row.opsNo)
+                          }}
+                          className="text-blue-600 hover:text-blue-800 inline-flex items-center gap-1 text-xs"
+                        >
+                          Open <ExternalLink className="h-3 w-3" />
+                        </button>
+                      </td>
+                    </tr>
+                    {isExpanded && row.items.map(item => (
+                      <tr key={item.itemId} className="bg-gray-50/60 text-xs">
+                        <td></td>
+                        <td className="py-1.5 px-2 text-gray-700" colSpan={3}>
+                          {item.label || item.itemId}
+                          <span className="text-gray-400"> · {item.pcs} pcs</span>
+                          {!item.erp && <span className="ml-2 text-amber-600">No matching ERP item</span>}
+                        </td>
+                        {FIELDS.map(field => (
+                          <FigureCell
+                            key={field}
+                            manual={item.manual}
+                            erp={item.erp}
+                            field={field}
+                            mismatched={item.mismatchedFields.includes(field)}
+                          />
+                        ))}
+                        <td></td>
+                      </tr>
+                    ))}
+                    {isExpanded && row.unmatchedErp.map((erpItem, i) => (
+                      <tr key={`erp-${i}`} className="bg-gray-50/60 text-xs">
+                        <td></td>
+                        <td className="py-1.5 px-2 text-gray-700" colSpan={3}>
+                          {erpItem.label || '-'}
+                          <span className="ml-2 text-amber-600">ERP only, not in totals</span>
+                        </td>
+                        {FIELDS.map(field => (
+                          <td key={field} className="py-1.5 px-2 text-right tabular-nums text-gray-400">
+                            - / {erpItem.erp[field]}
+                          </td>
+                        ))}
+                        <td></td>
+                      </tr>
+                    ))}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function FigureCell({
+  manual,
+  erp,
+  field,
+  mismatched,
+}: {
+  manual: ReconciliationFigures
+  erp: ReconciliationFigures | null
+  field: ReconciliationField
+  mismatched: boolean
+}) {
+  return (
+    <td className={cn('py-2 px-2 text-right tabular-nums', mismatched ? 'text-red-600 font-medium' : 'text-gray-600')}>
+      {manual[field]} / {erp ? erp[field] : '-'}
+    </td>
+  )
+}
@@ -0,0 +1,231 @@
+import { useState } from 'react'
+import { useShipmentPlan } from '@/hooks/useShipmentPlan'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { CompanyCode, ShipmentPlan, ShipmentPlanOrder, ShipmentPlanTotals, ShipmentPlanWeek } from '@/types'
+import { cn, formatDate, formatDateShort } from '@/lib/utils'
+import { Download, ExternalLink, Loader2, Printer, Ship } from 'lucide-react'
+
+const WEEK_OPTIONS = [8, 10, 12]
+const COMPANIES: CompanyCode[] = ['EMPL', 'EHI']
+
+interface ShipmentPlanViewProps {
+  onOpenOrder: (opsNo: string) => void
+}
+
+// Rolling shipment plan: open orders grouped by ex-factory week, with totals per company
+export function ShipmentPlanView({ onOpenOrder }: ShipmentPlanViewProps) {
+  const [weeks, setWeeks] = useState(12)
+  const [isExporting, setIsExporting] = useState(false)
+  const { data: plan, isLoading, error } = useShipmentPlan(weeks)
+
+  const handleExport = async () => {
+    if (!plan) return
+    setIsExporting(true)
+    try {
+      await exportShipmentPlan(plan)
+    } catch (err) {
+      console.error('Failed to export shipment plan:', err)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-white rounded-lg border p-3 flex flex-wrap items-center gap-3 print:hidden">
+        <div className="flex items-center gap-2">
+          <Ship className="h-5 w-5 text-green-600" />
+          <span className="font-semibold text-gray-800">Shipment Plan</span>
+        </div>
+        <Select value={String(weeks)} onValueChange={(value) => setWeeks(Number(value))}>
+          <SelectTrigger className="h-8 w-[120px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WEEK_OPTIONS.map(option => (
+              <SelectItem key={option} value={String(option)}>{option} weeks</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex items-center gap-2">
+          <Button variant="outline" size="sm" className="h-8" onClick={handleExport} disabled={!plan || isExporting}>
+            {isExporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+            Excel
+          </Button>
+          <Button variant="outline" size="sm" className="h-8" onClick={() => window.print()} disabled={!plan}>
+            <Printer className="h-4 w-4 mr-1" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {/* Print title (the toolbar above is hidden on paper) */}
+      {plan && (
+        <h2 className="hidden print:block text-lg font-semibold">
+          Shipment Plan · {weeks} weeks from {formatDate(plan.firstWeek)}
+        </h2>
+      )}
+
+      {isLoading ? (
+        <div className="bg-white rounded-lg border p-12 text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+          <p className="text-sm text-muted-foreground mt-2">Building shipment plan...</p>
+        </div>
+      ) : error ? (
+        <p className="bg-white rounded-lg border p-6 text-sm text-red-600">{error.message}</p>
+      ) : plan && plan.weeks.map(week => (
+        <WeekSection key={week.weekStart || 'past-due'} week={week} onOpenOrder={onOpenOrder} />
+      ))}
+    </div>
+  )
+}
+
+function WeekSection({ week, onOpenOrder }: { week: ShipmentPlanWeek; onOpenOrder: (opsNo: string) => void }) {
+  const isPastDue = week.weekStart === null
+
+  return (
+    <div className="bg-white rounded-lg border break-inside-avoid">
+      <div className={cn(
+        'flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2 border-b',
+        isPastDue ? 'bg-red-50' : 'bg-gray-50'
+      )}>
+        <span className={cn('font-semibold text-sm', isPastDue ? 'text-red-700' : 'text-gray-800')}>
+          {isPastDue ? 'Past ex-factory' : `${formatDateShort(week.weekStart)} – ${formatDateShort(week.weekEnd)}`}
+        </span>
+        {COMPANIES.map(company => {
+          const totals = week.totals[company]
+          return totals && <TotalsLabel key={company} company={company} totals={totals} />
+        })}
+        {week.orders.length === 0 && <span className="text-xs text-gray-400">No shipments</span>}
+      </div>
+
+      {week.orders.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase tracking-wide border-b">
+              <th className="text-left py-1.5 px-3 font-medium">OPS</th>
+              <th className="text-left py-1.5 px-2 font-medium">Buyer</th>
+              <th className="text-left py-1.5 px-2 font-medium">Co.</th>
+              <th className="text-left py-1.5 px-2 font-medium">Ex-Fty</th>
+              <th className="text-right py-1.5 px-2 font-medium">Pcs</th>
+              <th className="text-right py-1.5 px-2 font-medium">Sqm</th>
+              <th className="text-right py-1.5 px-2 font-medium">PO Value</th>
+              <th className="text-right py-1.5 px-2 font-medium">Ready</th>
+              <th className="py-1.5 px-2 print:hidden"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {week.orders.map(order => (
+              <tr key={order.orderId} className="hover:bg-gray-50">
+                <td className="py-1.5 px-3 font-mono font-semibold">{order.opsNo}</td>
+                <td className="py-1.5 px-2 text-gray-600">{order.buyerCode}</td>
+                <td className="py-1.5 px-2">
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0">{order.companyCode}</Badge>
+                </td>
+                <td className="py-1.5 px-2 text-gray-600">{formatDateShort(order.shipDate)}</td>
+                <td className="py-1.5 px-2 text-right tabular-nums">{order.pcs.toLocaleString()}</td>
+                <td className="py-1.5 px-2 text-right tabular-nums">
+                  {order.sqm.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                </td>
+                <td className="py-1.5 px-2 text-right tabular-nums">
+                  {order.poValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                </td>
+                <td className="py-1.5 px-2 text-right">
+                  <ReadinessBadge readiness={order.readiness} erp={order.erp} />
+                </td>
+                <td className="py-1.5 px-2 text-right print:hidden">
+                  <button
+                    onClick={() => onOpenOrder(order.opsNo)}
+                    className="text-blue-600 hover:text-blue-800 inline-flex items-center gap-1 text-xs"
+                  >
+                    Open <ExternalLink className="h-3 w-3" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function TotalsLabel({ company, totals }: { company: CompanyCode; totals: ShipmentPlanTotals }) {
+  return (
+    <span className="text-xs text-gray-600">
+      <span className="font-medium text-gray-800">{company}</span>
+      {' '}{totals.orders} OPS · {totals.pcs.toLocaleString()} pcs
+      {' · '}{totals.sqm.toLocaleString(undefined, { maximumFractionDigits: 1 })} sqm
+      {' · '}{totals.poValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+    </span>
+  )
+}
+
+function ReadinessBadge({ readiness, erp }: { readiness: number | null; erp: ShipmentPlanOrder['erp'] }) {
+  if (readiness === null || !erp) return <span className="text-xs text-gray-400">-</span>
+
+  return (
+    <span
+      className={cn(
+        'inline-block min-w-[40px] rounded px-1.5 py-0.5 text-xs font-medium tabular-nums text-center',
+        readiness >= 90 ? 'bg-green-100 text-green-700' :
+        readiness >= 50 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700'
+      )}
+      title={`Dispatched ${erp.dispatched} · Packed ${erp.packed} · FG godown ${erp.fgGodown} of ${erp.ordered}`}
+    >
+      {readiness}%
+    </span>
+  )
+}
+
+// Two sheets: one row per order, and the weekly totals per company.
+// xlsx is loaded on demand so it stays out of the main bundle.
+async function exportShipmentPlan(plan: ShipmentPlan) {
+  const XLSX = await import('xlsx')
+  const weekLabel = (week: ShipmentPlanWeek) => week.weekStart ? `Week of ${week.weekStart}` : 'Past ex-factory'
+
+  const orderRows = plan.weeks.flatMap(week => week.orders.map(order => ({
+    'Week': weekLabel(week),
+    'OPS': order.opsNo,
+    'Buyer': order.buyerCode,
+    'Buyer Name': order.buyerName,
+    'Company': order.companyCode,
+    'Merchant': order.merchantCode,
+    'PO No': order.poNo,
+    'Ex-Factory': order.shipDate,
+    'Pcs': order.pcs,
+    'Sqm': order.sqm,
+    'PO Value': order.poValue,
+    'Readiness %': order.readiness ?? '',
+    'Dispatched': order.erp?.dispatched ?? '',
+    'Packed': order.erp?.packed ?? '',
+    'FG Godown': order.erp?.fgGodown ?? '',
+  })))
+
+  const totalRows = plan.weeks.flatMap(week => COMPANIES.flatMap(company => {
+    const totals = week.totals[company]
+    if (!totals) return []
+    return [{
+      'Week': weekLabel(week),
+      'Company': company,
+      'Orders': totals.orders,
+      'Pcs': totals.pcs,
+      'Sqm': totals.sqm,
+      'PO Value': totals.poValue,
+    }]
+  }))
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(orderRows), 'Orders')
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(totalRows), 'Weekly Totals')
+  XLSX.writeFile(workbook, `shipment-plan-${plan.firstWeek}.xlsx`)
+}
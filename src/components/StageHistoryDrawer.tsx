@@ -0,0 +1,151 @@
+import { useMemo, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { useStageHistory } from '@/hooks/useProductionTracker'
+import type { StageHistoryEntry, StageStatus, TnaTemplate } from '@/types'
+import { DEFAULT_TNA_TEMPLATE, DELAY_REASON_LABELS, RESPONSIBLE_PARTY_LABELS } from '@/types'
+import { cn, formatDate, getStageLabel } from '@/lib/utils'
+import { format, parseISO, isValid } from 'date-fns'
+import { ArrowRight, History, Loader2 } from 'lucide-react'
+
+interface StageHistoryDrawerProps {
+  orderId: string
+  opsNo: string
+  template?: TnaTemplate
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const statusLabels: Record<StageStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+}
+
+const statusClasses: Record<StageStatus, string> = {
+  pending: 'border-gray-300 text-gray-500',
+  in_progress: 'border-amber-500 text-amber-700 bg-amber-50',
+  completed: 'border-green-500 text-green-700 bg-green-50',
+}
+
+function formatTimestamp(value: string): string {
+  try {
+    const date = parseISO(value)
+    if (!isValid(date)) return value
+    return format(date, 'dd MMM yyyy, HH:mm')
+  } catch {
+    return value
+  }
+}
+
+// Side drawer listing every recorded stage change for an order
+export function StageHistoryDrawer({
+  orderId,
+  opsNo,
+  template = DEFAULT_TNA_TEMPLATE,
+  open,
+  onOpenChange
+}: StageHistoryDrawerProps) {
+  const [stageFilter, setStageFilter] = useState<string>('all')
+  const { data: history = [], isLoading } = useStageHistory(orderId, open)
+
+  const visibleHistory = useMemo(
+    () => stageFilter === 'all' ? history : history.filter(h => h.stage === stageFilter),
+    [history, stageFilter]
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="left-auto right-0 top-0 h-full max-w-md translate-x-0 translate-y-0 sm:rounded-none flex flex-col gap-3 data-[state=open]:slide-in-from-right-full data-[state=closed]:slide-out-to-right-full">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <History className="h-4 w-4 text-green-600" />
+            Stage History
+            <span className="font-mono text-sm text-gray-500">{opsNo}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {/* Stage filter */}
+        <select
+          value={stageFilter}
+          onChange={(e) => setStageFilter(e.target.value)}
+          className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+        >
+          <option value="all">All stages</option>
+          {template.stages.map(stage => (
+            <option key={stage.key} value={stage.key}>{stage.label}</option>
+          ))}
+        </select>
+
+        <ScrollArea className="flex-1 -mx-2 px-2">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              <span className="ml-2 text-sm text-muted-foreground">Loading history...</span>
+            </div>
+          ) : visibleHistory.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No changes recorded yet
+            </p>
+          ) : (
+            <ol className="space-y-3">
+              {visibleHistory.map(entry => (
+                <HistoryItem key={entry.id} entry={entry} label={getStageLabel(template, entry.stage)} />
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function HistoryItem({ entry, label }: { entry: StageHistoryEntry; label: string }) {
+  return (
+    <li className="rounded-md border p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-gray-800">
+          {label}
+          {entry.source === 'erp' && (
+            <Badge variant="outline" className="ml-1.5 text-[9px] px-1 py-0 border-blue-300 text-blue-600">ERP</Badge>
+          )}
+        </span>
+        <span className="text-[11px] text-gray-400">{formatTimestamp(entry.changedAt)}</span>
+      </div>
+
+      <div className="mt-1.5 flex items-center gap-1.5">
+        {entry.oldStatus ? (
+          <Badge variant="outline" className={cn('text-[10px]', statusClasses[entry.oldStatus])}>
+            {statusLabels[entry.oldStatus]}
+          </Badge>
+        ) : (
+          <span className="text-[10px] text-gray-400 italic">new</span>
+        )}
+        <ArrowRight className="h-3 w-3 text-gray-400" />
+        <Badge variant="outline" className={cn('text-[10px]', statusClasses[entry.newStatus])}>
+          {statusLabels[entry.newStatus]}
+        </Badge>
+        {entry.actualDate && (
+          <span className="text-[11px] text-green-600 ml-auto">
+            Done: {formatDate(entry.actualDate)}
+          </span>
+        )}
+      </div>
+
+      {entry.delayReason && (
+        <p className="mt-1.5 text-xs text-red-600">
+          Delay: {DELAY_REASON_LABELS[entry.delayReason]}
+          {entry.responsibleParty && ` · ${RESPONSIBLE_PARTY_LABELS[entry.responsibleParty]}`}
+        </p>
+      )}
+      {entry.notes && (
+        <p className="mt-1.5 text-xs italic text-gray-600">"{entry.notes}"</p>
+      )}
+
+      <p className="mt-1.5 text-[11px] text-gray-500">
+        by {entry.changedByName || entry.changedBy}
+      </p>
+    </li>
+  )
+}
@@ -0,0 +1,107 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useReviewErpStage } from '@/hooks/useProductionTracker'
+import type { StageStatus, StageUpdate } from '@/types'
+import { cn, formatDateShort } from '@/lib/utils'
+import { AlertCircle, Check, Database, Lock, Unlock, User } from 'lucide-react'
+
+const statusLabels: Record<StageStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+}
+
+interface StageSourceMenuProps {
+  orderId: string
+  opsNo: string
+  stage: string
+  data?: Partial<StageUpdate>   // Stored stage, or a live ERP-derived one (no updatedAt)
+  canReview: boolean            // PPC / director: accept, lock and unlock
+}
+
+// Small icon showing where a stage status came from, with accept / lock actions for PPC
+export function StageSourceMenu({ orderId, opsNo, stage, data, canReview }: StageSourceMenuProps) {
+  const reviewStage = useReviewErpStage()
+
+  const isStored = !!data?.updatedAt
+  const isErp = data?.source === 'erp'
+  const suggestion = data?.erpSuggestion
+  const hasStatus = !!data?.status && data.status !== 'pending'
+
+  if (!hasStatus && !data?.locked && !suggestion) return null
+
+  const icon = (
+    <span className="flex items-center gap-0.5 flex-shrink-0">
+      {suggestion ? (
+        <AlertCircle className="h-3 w-3 text-amber-500" />
+      ) : isErp ? (
+        <Database className={cn('h-3 w-3', data?.confirmedBy ? 'text-blue-600' : 'text-blue-400')} />
+      ) : (
+        <User className="h-3 w-3 text-gray-400" />
+      )}
+      {data?.locked && <Lock className="h-2.5 w-2.5 text-gray-500" />}
+    </span>
+  )
+
+  const description = isErp
+    ? isStored
+      ? `From ERP sync${data?.confirmedBy ? `, confirmed by ${data.confirmedBy}` : ''}`
+      : 'Live from ERP (not synced yet)'
+    : `Set manually${data?.updatedBy ? ` by ${data.updatedBy}` : ''}`
+
+  if (!canReview || !isStored) {
+    return <span title={suggestion ? `ERP says ${statusLabels[suggestion.status]}` : description}>{icon}</span>
+  }
+
+  const review = (action: 'accept' | 'lock' | 'unlock') => {
+    reviewStage.mutate({ orderId, opsNo, stage, action }, {
+      onError: (error) => console.error('Failed to review ERP stage:', error)
+    })
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="flex items-center hover:opacity-70" title={description}>
+          {icon}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-60 text-xs">
+        <DropdownMenuLabel className="text-xs font-normal text-gray-500">{description}</DropdownMenuLabel>
+        {suggestion && (
+          <DropdownMenuLabel className="text-xs font-normal text-amber-700">
+            ERP says {statusLabels[suggestion.status]}
+            {suggestion.actualDate && ` on ${formatDateShort(suggestion.actualDate)}`}
+          </DropdownMenuLabel>
+        )}
+        <DropdownMenuSeparator />
+        {(suggestion || (isErp && !data?.confirmedBy)) && (
+          <DropdownMenuItem onClick={() => review('accept')} className="text-xs">
+            <Check className="h-3.5 w-3.5 mr-2 text-green-600" />
+            Accept ERP status
+          </DropdownMenuItem>
+        )}
+        {data?.locked ? (
+          <DropdownMenuItem onClick={() => review('unlock')} className="text-xs">
+            <Unlock className="h-3.5 w-3.5 mr-2" />
+            Unlock (let ERP sync update it)
+          </DropdownMenuItem>
+        ) : (
+          <DropdownMenuItem onClick={() => review('lock')} className="text-xs">
+            <Lock className="h-3.5 w-3.5 mr-2" />
+            Lock against ERP sync
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuLabel className="text-[10px] font-normal text-gray-400">
+          To override, set the status on the timeline
+        </DropdownMenuLabel>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
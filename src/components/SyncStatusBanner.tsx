@@ -0,0 +1,83 @@
+import { format, parseISO } from 'date-fns'
+import { useSyncStatus } from '@/hooks/useSyncStatus'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import type { SyncSourceStatus } from '@/types'
+import { AlertTriangle } from 'lucide-react'
+
+// Header strip shown when ERP data behind the dashboard is older than the
+// configured threshold. The tooltip names the step the last sync failed at.
+export function SyncStatusBanner() {
+  const { data: status } = useSyncStatus()
+  const stale = (status?.sources || []).filter(s => s.configured && s.stale)
+
+  if (!status || stale.length === 0) return null
+
+  return (
+    <TooltipProvider delayDuration={200}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="flex items-center gap-2 border-t border-amber-200 bg-amber-50 px-4 py-1.5 text-sm text-amber-800 cursor-default">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>
+              {stale.map(staleMessage).join(' · ')}
+            </span>
+            <span className="text-xs text-amber-700">
+              WIP, bazar and dispatch figures may be out of date
+            </span>
+          </div>
+        </TooltipTrigger>
+        <TooltipContent side="bottom" align="start" className="max-w-md space-y-2">
+          {stale.map(s => <SourceDetail key={s.source} source={s} />)}
+          <p className="text-xs text-muted-foreground">
+            Flagged after {formatAge(status.staleAfterMinutes)} without a successful sync
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+function SourceDetail({ source }: { source: SyncSourceStatus }) {
+  const lastSuccess = source.lastSuccess
+
+  return (
+    <div className="text-xs space-y-0.5">
+      <div className="font-semibold">{source.source}</div>
+      {source.failedStep ? (
+        <div className="text-red-600">Failed at: {source.failedStep}</div>
+      ) : source.lastRun?.status === 'running' ? (
+        <div>Sync started {formatDateTime(source.lastRun.startedAt)} and has not finished</div>
+      ) : null}
+      {source.error && <div className="text-red-600 break-words">{source.error}</div>}
+      {lastSuccess ? (
+        <div className="text-muted-foreground">
+          Last success {formatDateTime(lastSuccess.finishedAt)}
+          {lastSuccess.durationSeconds !== null && ` in ${lastSuccess.durationSeconds}s`}
+          {` · ${lastSuccess.orders} orders, ${lastSuccess.carpets.toLocaleString()} carpets`}
+        </div>
+      ) : source.lastRun ? (
+        <div className="text-muted-foreground">No successful sync recorded</div>
+      ) : null}
+    </div>
+  )
+}
+
+function staleMessage(source: SyncSourceStatus): string {
+  if (source.lastRun?.status === 'success' && source.failedStep) {
+    return `${source.source} sync skipped ${source.failedStep}`
+  }
+  if (source.lastSuccessAt) return `${source.source} ERP data is ${formatAge(source.ageMinutes)} old`
+  if (source.lastRun) return `${source.source} ERP data has never synced successfully`
+  return `${source.source} ERP data could not be checked`
+}
+
+function formatAge(minutes: number | null): string {
+  if (minutes === null) return '-'
+  if (minutes < 60) return `${minutes}m`
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+  return `${Math.floor(minutes / (60 * 24))}d ${Math.floor((minutes % (60 * 24)) / 60)}h`
+}
+
+function formatDateTime(iso: string | null): string {
+  return iso ? format(parseISO(iso), 'dd MMM HH:mm') : '-'
+}
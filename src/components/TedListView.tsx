@@ -1,8 +1,17 @@
 import { useState, useEffect, useRef } from 'react'
-import { useTeds, useTed } from '@/hooks/useTeds'
+import { useTeds, useTed, useTedVersions, openTedPrint } from '@/hooks/useTeds'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
-import type { TedFormSummary } from '@/types'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { TED_VERSION_FIELDS, TED_FIELD_LABELS } from '@/types'
+import type { TedForm, TedFormSummary, TedVersion } from '@/types'
 import {
   Search,
   ChevronDown,
@@ -10,13 +19,19 @@ import {
   FileText,
   Loader2,
   Image as ImageIcon,
+  History,
+  Printer,
   X,
 } from 'lucide-react'
 
-export function TedListView() {
+interface TedListViewProps {
+  initialTedId?: string | null    // Opened from a link (e.g. the QR code on a printed TED)
+}
+
+export function TedListView({ initialTedId = null }: TedListViewProps) {
   const [search, setSearch] = useState('')
   const [debouncedSearch, setDebouncedSearch] = useState('')
-  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(initialTedId)
   const debounceRef = useRef<NodeJS.Timeout>()
 
   useEffect(() => {
@@ -113,7 +128,7 @@ function TedCard({
 }: {
   ted: TedFormSummary
   isExpanded: boolean
-  tedDetail: any
+  tedDetail: TedForm | undefined
   isLoadingDetail: boolean
   onToggle: () => void
 }) {
@@ -199,7 +214,56 @@ function TedCard({
   )
 }
 
-function TedDetailContent({ ted }: { ted: any }) {
+// One TED in a dialog, opened from an order item
+export function TedDetailDialog({
+  tedId,
+  pinnedVersion,
+  open,
+  onOpenChange,
+}: {
+  tedId: string
+  pinnedVersion?: number      // Compare against the version the order is produced against
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const { data: ted, isLoading } = useTed(tedId)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <FileText className="h-4 w-4 text-green-600" />
+            TED {ted?.emDesignNo || ''}
+          </DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-green-600" />
+            <span className="ml-2 text-sm text-gray-500">Loading details...</span>
+          </div>
+        ) : ted ? (
+          <TedDetailContent ted={ted} pinnedVersion={pinnedVersion} />
+        ) : (
+          <p className="text-sm text-gray-500">TED not found</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function TedDetailContent({ ted, pinnedVersion }: { ted: TedForm; pinnedVersion?: number }) {
+  const { data: versions = [] } = useTedVersions(ted.id)
+  // Fields changed in the current version are highlighted below
+  const current = versions[0]
+  const changed = new Set<string>(current && current.version > 1 ? current.changedFields : [])
+  const [printError, setPrintError] = useState<string | null>(null)
+
+  const handlePrint = () => {
+    setPrintError(null)
+    openTedPrint(ted.id).catch((error: Error) => setPrintError(error.message))
+  }
+
   const imageCategories = [
     { key: 'product_photo', label: 'Product Photos' },
     { key: 'productPhoto', label: 'Product Photos' },
@@ -229,17 +293,28 @@ function TedDetailContent({ ted }: { ted: any }) {
 
   return (
     <div className="space-y-5">
+      <div className="flex items-center justify-end gap-2">
+        {printError && <span className="text-xs text-red-600">{printError}</span>}
+        <button
+          onClick={handlePrint}
+          className="inline-flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-green-700"
+        >
+          <Printer className="h-3.5 w-3.5" />
+          Print spec sheet
+        </button>
+      </div>
+
       {/* Section 1: Header */}
       <div>
         <SectionTitle>Header</SectionTitle>
         <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-6 gap-y-2 text-sm">
-          <Field label="EM Design No" value={ted.emDesignNo} />
-          <Field label="Buyer Design Name" value={ted.buyerDesignName} />
-          <Field label="Buyer Code" value={ted.buyerCode} />
-          <Field label="Buyer Name" value={ted.buyerName} />
-          <Field label="PP Meeting Date" value={ted.ppMeetingDate ? formatDate(ted.ppMeetingDate) : ''} />
-          <Field label="Status" value={ted.status} />
-          {ted.meetingAttendees?.length > 0 && (
+          <Field label="EM Design No" value={ted.emDesignNo} changed={changed.has('emDesignNo')} />
+          <Field label="Buyer Design Name" value={ted.buyerDesignName} changed={changed.has('buyerDesignName')} />
+          <Field label="Buyer Code" value={ted.buyerCode} changed={changed.has('buyerCode')} />
+          <Field label="Buyer Name" value={ted.buyerName} changed={changed.has('buyerName')} />
+          <Field label="PP Meeting Date" value={ted.ppMeetingDate ? formatDate(ted.ppMeetingDate) : ''} changed={changed.has('ppMeetingDate')} />
+          <Field label="Status" value={ted.status} changed={changed.has('status')} />
+          {ted.meetingAttendees && ted.meetingAttendees.length > 0 && (
             <div className="col-span-2 sm:col-span-3">
               <span className="text-gray-400 text-xs">Attendees</span>
               <p className="text-gray-700">{ted.meetingAttendees.join(', ')}</p>
@@ -252,15 +327,15 @@ function TedDetailContent({ ted }: { ted: any }) {
       <div>
         <SectionTitle>Construction</SectionTitle>
         <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-6 gap-y-2 text-sm">
-          <Field label="Product Type" value={ted.productType} />
-          <Field label="Construction" value={ted.construction} />
-          <Field label="Quality" value={ted.productQuality} />
-          <Field label="Size" value={ted.size} />
-          <Field label="GSM (Unfinished)" value={ted.unfinishedGsm} />
-          <Field label="GSM (Finished)" value={ted.finishedGsm} />
-          <Field label="Reed No / Kanghi" value={ted.reedNoKanghi} />
-          <Field label="Warp in 6 inches" value={ted.warpIn6Inches} />
-          <Field label="Weft in 6 inches" value={ted.weftIn6Inches} />
+          <Field label="Product Type" value={ted.productType} changed={changed.has('productType')} />
+          <Field label="Construction" value={ted.construction} changed={changed.has('construction')} />
+          <Field label="Quality" value={ted.productQuality} changed={changed.has('productQuality')} />
+          <Field label="Size" value={ted.size} changed={changed.has('size')} />
+          <Field label="GSM (Unfinished)" value={ted.unfinishedGsm} changed={changed.has('unfinishedGsm')} />
+          <Field label="GSM (Finished)" value={ted.finishedGsm} changed={changed.has('finishedGsm')} />
+          <Field label="Reed No / Kanghi" value={ted.reedNoKanghi} changed={changed.has('reedNoKanghi')} />
+          <Field label="Warp in 6 inches" value={ted.warpIn6Inches} changed={changed.has('warpIn6Inches')} />
+          <Field label="Weft in 6 inches" value={ted.weftIn6Inches} changed={changed.has('weftIn6Inches')} />
         </div>
       </div>
 
@@ -268,13 +343,13 @@ function TedDetailContent({ ted }: { ted: any }) {
       <div>
         <SectionTitle>Materials</SectionTitle>
         <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-6 gap-y-2 text-sm">
-          <Field label="Warp Material" value={ted.warpMaterial} />
-          <Field label="Weft Material" value={ted.weftMaterial} />
-          <Field label="Pile Material" value={ted.pileMaterial} />
-          <Field label="Pile Height (Unfinished)" value={ted.pileHeightUnfinished} />
-          <Field label="Pile Height (Finished)" value={ted.pileHeightFinished} />
-          <Field label="Fringes / Hemming" value={ted.fringesDetails} />
-          <Field label="Khati Details" value={ted.khatiDetails} />
+          <Field label="Warp Material" value={ted.warpMaterial} changed={changed.has('warpMaterial')} />
+          <Field label="Weft Material" value={ted.weftMaterial} changed={changed.has('weftMaterial')} />
+          <Field label="Pile Material" value={ted.pileMaterial} changed={changed.has('pileMaterial')} />
+          <Field label="Pile Height (Unfinished)" value={ted.pileHeightUnfinished} changed={changed.has('pileHeightUnfinished')} />
+          <Field label="Pile Height (Finished)" value={ted.pileHeightFinished} changed={changed.has('pileHeightFinished')} />
+          <Field label="Fringes / Hemming" value={ted.fringesDetails} changed={changed.has('fringesDetails')} />
+          <Field label="Khati Details" value={ted.khatiDetails} changed={changed.has('khatiDetails')} />
         </div>
       </div>
 
@@ -282,17 +357,25 @@ function TedDetailContent({ ted }: { ted: any }) {
       <div>
         <SectionTitle>Quality & Process</SectionTitle>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
-          <Field label="Size Tolerance" value={ted.sizeTolerance} />
-          <Field label="Process Flow" value={ted.processFlow} multiline />
-          <Field label="Quality Call Outs (CTQ)" value={ted.qualityCallOutsCtq} multiline />
-          <Field label="Buyer's Specific Requirements" value={ted.buyersSpecificRequirements} multiline />
-          <Field label="Remarks" value={ted.remarks} multiline />
-          <Field label="Shade Card Available" value={ted.shadeCardAvailable} />
-          <Field label="Red Seal Available" value={ted.redSealAvailable} />
+          <Field label="Size Tolerance" value={ted.sizeTolerance} changed={changed.has('sizeTolerance')} />
+          <Field label="Process Flow" value={ted.processFlow} multiline changed={changed.has('processFlow')} />
+          <Field label="Quality Call Outs (CTQ)" value={ted.qualityCallOutsCtq} multiline changed={changed.has('qualityCallOutsCtq')} />
+          <Field label="Buyer's Specific Requirements" value={ted.buyersSpecificRequirements} multiline changed={changed.has('buyersSpecificRequirements')} />
+          <Field label="Remarks" value={ted.remarks} multiline changed={changed.has('remarks')} />
+          <Field label="Shade Card Available" value={ted.shadeCardAvailable} changed={changed.has('shadeCardAvailable')} />
+          <Field label="Red Seal Available" value={ted.redSealAvailable} changed={changed.has('redSealAvailable')} />
         </div>
       </div>
 
-      {/* Section 5: Images */}
+      {/* Section 5: Versions */}
+      {versions.length > 0 && (
+        <div>
+          <SectionTitle>Versions</SectionTitle>
+          <TedVersionDiff key={versions[0].version} versions={versions} pinnedVersion={pinnedVersion} />
+        </div>
+      )}
+
+      {/* Section 6: Images */}
       {allImages.length > 0 && (
         <div>
           <SectionTitle>Images</SectionTitle>
@@ -327,6 +410,88 @@ function TedDetailContent({ ted }: { ted: any }) {
   )
 }
 
+// Fields that differ between two versions as first seen by this app (defaults: pinned or previous -> current)
+function TedVersionDiff({ versions, pinnedVersion }: { versions: TedVersion[]; pinnedVersion?: number }) {
+  const latest = versions[0].version
+  const [to, setTo] = useState(latest)
+  const [from, setFrom] = useState(pinnedVersion && pinnedVersion < latest ? pinnedVersion : Math.max(1, latest - 1))
+
+  if (versions.length === 1) {
+    return (
+      <p className="text-sm text-gray-500">
+        Only one version seen so far (v{latest}, first seen {formatDate(versions[0].capturedAt)}).
+        Versions are recorded when this app reads a TED, so edits in the TED app show up here the next time it is opened.
+      </p>
+    )
+  }
+
+  const fromVersion = versions.find(v => v.version === from)
+  const toVersion = versions.find(v => v.version === to)
+  const diff = fromVersion && toVersion
+    ? TED_VERSION_FIELDS.filter(f => JSON.stringify(fromVersion.fields[f] ?? null) !== JSON.stringify(toVersion.fields[f] ?? null))
+    : []
+
+  const versionSelect = (value: number, onChange: (value: number) => void) => (
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="h-8 w-auto min-w-[180px] text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(v => (
+          <SelectItem key={v.version} value={String(v.version)} className="text-xs">
+            v{v.version}{v.version === pinnedVersion ? ' (pinned)' : ''} · first seen {formatDate(v.capturedAt)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <History className="h-4 w-4 text-gray-400" />
+        {versionSelect(from, setFrom)}
+        <span>to</span>
+        {versionSelect(to, setTo)}
+      </div>
+      <p className="text-xs text-gray-400">
+        Versions are recorded when this app first sees a TED change, so several edits made in the TED app between views show as one version.
+      </p>
+      {diff.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes between these versions.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase tracking-wide border-b">
+              <th className="text-left py-1.5 pr-4 font-medium">Field</th>
+              <th className="text-left py-1.5 pr-4 font-medium">v{from}</th>
+              <th className="text-left py-1.5 font-medium">v{to}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {diff.map(field => (
+              <tr key={field} className="align-top">
+                <td className="py-1.5 pr-4 text-gray-500">{TED_FIELD_LABELS[field]}</td>
+                <td className="py-1.5 pr-4 text-red-700 line-through decoration-red-300 whitespace-pre-wrap">
+                  {formatVersionValue(fromVersion?.fields[field])}
+                </td>
+                <td className="py-1.5 bg-amber-50 text-gray-900 font-medium whitespace-pre-wrap">
+                  {formatVersionValue(toVersion?.fields[field])}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+function formatVersionValue(value: TedVersion['fields'][keyof TedVersion['fields']]): string {
+  if (value === null || value === undefined || value === '') return '-'
+  return Array.isArray(value) ? value.join(', ') : String(value)
+}
+
 function SectionTitle({ children }: { children: React.ReactNode }) {
   return (
     <h3 className="text-xs font-semibold uppercase tracking-wider text-green-700 border-b border-green-100 pb-1 mb-3">
@@ -339,15 +504,20 @@ function Field({
   label,
   value,
   multiline,
+  changed,
 }: {
   label: string
   value?: string | number | null
   multiline?: boolean
+  changed?: boolean           // Changed in the current version
 }) {
   if (!value && value !== 0) return null
   return (
-    <div className={multiline ? 'col-span-1 sm:col-span-2' : ''}>
-      <span className="text-gray-400 text-xs">{label}</span>
+    <div className={`${multiline ? 'col-span-1 sm:col-span-2' : ''} ${changed ? 'bg-amber-50 rounded px-1 -mx-1' : ''}`}>
+      <span className="text-gray-400 text-xs">
+        {label}
+        {changed && <span className="ml-1 text-amber-600">· changed</span>}
+      </span>
       <p className={`text-gray-700 ${multiline ? 'whitespace-pre-wrap' : ''}`}>{value}</p>
     </div>
   )
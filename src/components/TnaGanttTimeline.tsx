@@ -1,5 +1,6 @@
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import {
   cn,
   daysBetween,
@@ -9,22 +10,34 @@ import {
   calculateStageDurations,
   formatGanttDate,
   daysUntil,
-  erpPcsLabel
+  erpPcsLabel,
+  getStageDelayDays,
+  getStageLabel
 } from '@/lib/utils'
-import type { TnaStage, TnaEntry, StageUpdate, StageStatus } from '@/types'
-import { TNA_STAGES, TNA_STAGE_LABELS } from '@/types'
+import { DELAY_REASON_LABELS, RESPONSIBLE_PARTY_LABELS } from '@/types'
+import type { TnaEntry, StageUpdate, StageStatus, TnaTemplate, TnaTemplateStage } from '@/types'
 import { useUpdateStage } from '@/hooks/useProductionTracker'
 import type { ErpStageData } from '@/hooks/useErpTnaStages'
-import { CheckCircle2, AlertTriangle, XCircle, Calendar } from 'lucide-react'
+import { StageHistoryDrawer } from './StageHistoryDrawer'
+import { StageSourceMenu } from './StageSourceMenu'
+import { DelayReasonDialog } from './DelayReasonDialog'
+import { CheckCircle2, AlertCircle, AlertTriangle, XCircle, Calendar, CalendarClock, CalendarRange, Database, History, User } from 'lucide-react'
 
 interface TnaGanttTimelineProps {
   orderId: string
   opsNo: string
   startDate: string           // orderConfirmationDate
   endDate: string             // shipDate (ex-factory)
+  template: TnaTemplate       // Resolved TNA template for the order
   tnaEntries?: TnaEntry[]
-  stages?: Record<TnaStage, StageUpdate>
+  baselineEntries?: TnaEntry[] // Original plan, drawn under the current bars when it differs
+  projectedExFactory?: string | null
+  stages?: Record<string, StageUpdate>
   erpData?: ErpStageData
+  canEditStage?: (stage: TnaTemplateStage) => boolean
+  canReviewErp?: boolean      // PPC / director: accept or lock ERP statuses
+  onEditPlan?: () => void     // Omitted when the user cannot edit the TNA plan
+  onReschedule?: () => void
 }
 
 export function TnaGanttTimeline({
@@ -32,11 +45,24 @@ export function TnaGanttTimeline({
   opsNo,
   startDate,
   endDate,
+  template,
   tnaEntries,
+  baselineEntries,
+  projectedExFactory,
   stages,
-  erpData
+  erpData,
+  canEditStage = () => true,
+  canReviewErp = false,
+  onEditPlan,
+  onReschedule
 }: TnaGanttTimelineProps) {
   const updateStage = useUpdateStage()
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [delayPrompt, setDelayPrompt] = useState<{
+    stage: string
+    update: { status: StageStatus; actualDate: string | null }
+    delayDays: number
+  } | null>(null)
   const today = new Date()
   const todayStr = today.toISOString().split('T')[0]
 
@@ -55,30 +81,42 @@ export function TnaGanttTimeline({
   // Build TNA entries if not provided (use all stages with no target dates)
   const effectiveTnaEntries = useMemo(() => {
     if (tnaEntries && tnaEntries.length > 0) return tnaEntries
-    // Default: all stages without specific dates
-    return TNA_STAGES.map(stage => ({
-      stage,
+    // Default: all template stages without specific dates
+    return template.stages.map(stage => ({
+      stage: stage.key,
       targetDate: null
     }))
-  }, [tnaEntries])
+  }, [tnaEntries, template])
 
-  // Calculate stage durations for Gantt display
+  // Calculate stage durations for Gantt display (bars follow target dates when planned)
   const stageDurations = useMemo(
-    () => calculateStageDurations(totalDays, effectiveTnaEntries, 15),
-    [totalDays, effectiveTnaEntries]
+    () => calculateStageDurations(totalDays, effectiveTnaEntries, 15, startDate),
+    [totalDays, effectiveTnaEntries, startDate]
   )
 
+  // Baseline bars, only when rescheduling has moved something
+  const baselineDurations = useMemo(() => {
+    if (!baselineEntries?.length) return null
+    const moved = baselineEntries.some(b =>
+      effectiveTnaEntries.find(e => e.stage === b.stage)?.targetDate !== b.targetDate
+    )
+    return moved ? calculateStageDurations(totalDays, baselineEntries, 15, startDate) : null
+  }, [baselineEntries, effectiveTnaEntries, totalDays, startDate])
+
+  // Projected ex-factory slip (days past the planned ex-factory)
+  const projectedSlip = projectedExFactory ? daysBetween(endDate, projectedExFactory) : 0
+
   // Calculate progress
   const progressData = useMemo(() => {
     const activeStages = effectiveTnaEntries.filter(e => e.targetDate !== null)
     const completedCount = activeStages.filter(
-      entry => stages?.[entry.stage as TnaStage]?.status === 'completed'
+      entry => stages?.[entry.stage]?.status === 'completed'
     ).length
-    const totalActive = activeStages.length || TNA_STAGES.length
+    const totalActive = activeStages.length || template.stages.length
     const percent = Math.round((completedCount / totalActive) * 100)
 
     return { completed: completedCount, total: totalActive, percent }
-  }, [effectiveTnaEntries, stages])
+  }, [effectiveTnaEntries, stages, template])
 
   // Get schedule status
   const scheduleStatus = useMemo(
@@ -86,25 +124,28 @@ export function TnaGanttTimeline({
     [stages, effectiveTnaEntries, today]
   )
 
+  const hasEditableStage = template.stages.some(stage => canEditStage(stage))
+
   // Handle status change
-  const handleStatusChange = async (stage: TnaStage) => {
+  const handleStatusChange = async (stage: string) => {
     const currentStatus = stages?.[stage]?.status || 'pending'
 
     // Cycle: pending -> in_progress -> completed -> pending
     const nextStatus: StageStatus =
       currentStatus === 'pending' ? 'in_progress' :
       currentStatus === 'in_progress' ? 'completed' : 'pending'
+    const update = { status: nextStatus, actualDate: nextStatus === 'completed' ? todayStr : null }
+
+    // Late stages need a root cause first (one already recorded carries over)
+    const targetDate = effectiveTnaEntries.find(e => e.stage === stage)?.targetDate
+    const delayDays = getStageDelayDays(targetDate, update.status, update.actualDate, todayStr)
+    if (delayDays > 0 && (!stages?.[stage]?.delayReason || !stages?.[stage]?.responsibleParty)) {
+      setDelayPrompt({ stage, update, delayDays })
+      return
+    }
 
     try {
-      await updateStage.mutateAsync({
-        orderId,
-        opsNo,
-        stage,
-        update: {
-          status: nextStatus,
-          actualDate: nextStatus === 'completed' ? todayStr : null
-        }
-      })
+      await updateStage.mutateAsync({ orderId, opsNo, stage, update })
     } catch (error) {
       console.error('Failed to update stage:', error)
     }
@@ -170,13 +211,79 @@ export function TnaGanttTimeline({
             )}
           </div>
         )}
+
+        {projectedExFactory && projectedSlip > 0 && (
+          <div className="flex items-center gap-1 text-red-600 font-medium">
+            <CalendarClock className="h-3.5 w-3.5" />
+            Projected ex-factory {formatGanttDate(projectedExFactory)} (+{projectedSlip}d)
+          </div>
+        )}
+
+        {onReschedule && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              'h-7 ml-auto text-xs',
+              scheduleStatus === 'behind' ? 'text-red-600 hover:text-red-700' : 'text-gray-500'
+            )}
+            onClick={onReschedule}
+          >
+            <CalendarClock className="h-3.5 w-3.5 mr-1" />
+            Reschedule
+          </Button>
+        )}
+
+        {onEditPlan && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn('h-7 text-xs text-gray-500', !onReschedule && 'ml-auto')}
+            onClick={onEditPlan}
+          >
+            <CalendarRange className="h-3.5 w-3.5 mr-1" />
+            Edit Plan
+          </Button>
+        )}
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn('h-7 text-xs text-gray-500', !onEditPlan && 'ml-auto')}
+          onClick={() => setHistoryOpen(true)}
+        >
+          <History className="h-3.5 w-3.5 mr-1" />
+          History
+        </Button>
       </div>
 
+      {delayPrompt && (
+        <DelayReasonDialog
+          orderId={orderId}
+          opsNo={opsNo}
+          stage={delayPrompt.stage}
+          stageLabel={getStageLabel(template, delayPrompt.stage)}
+          targetDate={effectiveTnaEntries.find(e => e.stage === delayPrompt.stage)?.targetDate ?? null}
+          delayDays={delayPrompt.delayDays}
+          update={delayPrompt.update}
+          current={stages?.[delayPrompt.stage]}
+          open
+          onOpenChange={(open) => !open && setDelayPrompt(null)}
+        />
+      )}
+      <StageHistoryDrawer
+        orderId={orderId}
+        opsNo={opsNo}
+        template={template}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+      />
+
       {/* Gantt Chart Container */}
       <div className="flex">
         {/* Stage Labels Column */}
         <div className="w-32 flex-shrink-0 space-y-1">
-          {TNA_STAGES.map((stage, index) => {
+          {template.stages.map(({ key: stage, label }, index) => {
             const tnaEntry = effectiveTnaEntries.find(e => e.stage === stage)
             const stageData = stages?.[stage]
             const status: StageStatus = stageData?.status || 'pending'
@@ -204,8 +311,15 @@ export function TnaGanttTimeline({
                   !isNA && status === 'pending' && !overdue && 'text-gray-600',
                   !isNA && overdue && 'text-red-700 font-medium'
                 )}>
-                  {TNA_STAGE_LABELS[stage]}
+                  {label}
                 </span>
+                <StageSourceMenu
+                  orderId={orderId}
+                  opsNo={opsNo}
+                  stage={stage}
+                  data={stageData}
+                  canReview={canReviewErp}
+                />
                 {pcsLabel && (
                   <span className="text-[10px] text-blue-600 font-medium flex-shrink-0">
                     {pcsLabel}
@@ -241,8 +355,10 @@ export function TnaGanttTimeline({
 
             {/* Stage Bars */}
             <div className="space-y-1">
-              {TNA_STAGES.map((stage, index) => {
+              {template.stages.map((templateStage) => {
+                const stage = templateStage.key
                 const duration = stageDurations.find(d => d.stage === stage)
+                const baseline = baselineDurations?.find(d => d.stage === stage && !d.isNA)
                 const tnaEntry = effectiveTnaEntries.find(e => e.stage === stage)
                 const stageData = stages?.[stage]
                 const status: StageStatus = stageData?.status || 'pending'
@@ -260,7 +376,11 @@ export function TnaGanttTimeline({
                     isNA={isNA}
                     durationDays={duration?.durationDays || 0}
                     pcsLabel={pcsLabel}
-                    onClick={() => handleStatusChange(stage)}
+                    baseline={baseline}
+                    delayLabel={stageData?.delayReason
+                      ? `${DELAY_REASON_LABELS[stageData.delayReason]}${stageData.responsibleParty ? ` (${RESPONSIBLE_PARTY_LABELS[stageData.responsibleParty]})` : ''}`
+                      : null}
+                    onClick={canEditStage(templateStage) ? () => handleStatusChange(stage) : undefined}
                   />
                 )
               })}
@@ -287,16 +407,36 @@ export function TnaGanttTimeline({
           <div className="w-3 h-3 rounded bg-red-100 border border-red-400" />
           <span>Overdue</span>
         </div>
+        {baselineDurations && (
+          <div className="flex items-center gap-1.5">
+            <div className="w-3 h-1 rounded-sm bg-slate-500/60" />
+            <span>Baseline</span>
+          </div>
+        )}
+        <div className="flex items-center gap-1.5">
+          <Database className="h-3 w-3 text-blue-500" />
+          <span>From ERP</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <User className="h-3 w-3 text-gray-400" />
+          <span>Manual</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <AlertCircle className="h-3 w-3 text-amber-500" />
+          <span>ERP disagrees</span>
+        </div>
         <div className="flex items-center gap-1.5">
           <span className="text-gray-400 italic">N/A</span>
           <span>= Not Applicable</span>
         </div>
       </div>
 
-      {/* Click hint */}
-      <p className="mt-2 text-[10px] text-gray-400 italic">
-        Click any stage bar to cycle status: Pending → In Progress → Completed
-      </p>
+      {/* Click hint (only when the user can edit something) */}
+      {hasEditableStage && (
+        <p className="mt-2 text-[10px] text-gray-400 italic">
+          Click a stage bar to cycle status: Pending → In Progress → Completed
+        </p>
+      )}
     </div>
   )
 }
@@ -310,7 +450,9 @@ interface GanttBarProps {
   isNA: boolean
   durationDays: number
   pcsLabel?: string | null
-  onClick: () => void
+  baseline?: { startPercent: number; widthPercent: number } // Original plan position
+  delayLabel?: string | null // Recorded delay reason, shown in the tooltip
+  onClick?: () => void       // Omitted when the user cannot edit this stage
 }
 
 function GanttBar({
@@ -321,6 +463,8 @@ function GanttBar({
   isNA,
   durationDays,
   pcsLabel,
+  baseline,
+  delayLabel,
   onClick
 }: GanttBarProps) {
   if (isNA) {
@@ -377,8 +521,11 @@ function GanttBar({
     <div className="h-6 relative">
       <button
         onClick={onClick}
+        disabled={!onClick}
         className={cn(
-          'absolute top-0 h-6 rounded border transition-all cursor-pointer',
+          'absolute top-0 rounded border transition-all',
+          baseline ? 'h-[18px]' : 'h-6',
+          onClick ? 'cursor-pointer' : 'cursor-default',
           'flex items-center justify-center gap-0.5 overflow-hidden',
           getBarClasses()
         )}
@@ -387,7 +534,10 @@ function GanttBar({
           width: `${Math.max(widthPercent, 4)}%`,
           minWidth: '32px'
         }}
-        title={`Click to update status (${status})`}
+        title={[
+          onClick ? `Click to update status (${status})` : `Read-only (${status})`,
+          delayLabel && `Delay: ${delayLabel}`
+        ].filter(Boolean).join('\n')}
       >
         {getIcon() && (
           <span className={cn('text-[10px] font-bold', getTextClasses())}>
@@ -404,6 +554,16 @@ function GanttBar({
           </span>
         )}
       </button>
+      {baseline && (
+        <div
+          className="absolute bottom-0 h-1 rounded-sm bg-slate-500/60 pointer-events-none"
+          style={{
+            left: `${baseline.startPercent}%`,
+            width: `${Math.max(baseline.widthPercent, 1)}%`
+          }}
+          title="Baseline plan"
+        />
+      )}
     </div>
   )
 }
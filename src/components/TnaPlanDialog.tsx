@@ -0,0 +1,163 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { useGenerateTnaPlans, useSaveTnaPlan } from '@/hooks/useProductionTracker'
+import type { TnaEntry, TnaTemplate, TrackerTnaPlan } from '@/types'
+import { formatDate } from '@/lib/utils'
+import { CalendarRange, Loader2, Wand2 } from 'lucide-react'
+
+interface TnaPlanDialogProps {
+  orderId: string
+  opsNo: string
+  template: TnaTemplate
+  entries: TnaEntry[]          // Current target dates shown on the timeline
+  shipDate: string
+  savedPlan?: TrackerTnaPlan
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Edit an order's TNA target dates, optionally starting from the back-scheduled plan
+export function TnaPlanDialog({
+  orderId,
+  opsNo,
+  template,
+  entries,
+  shipDate,
+  savedPlan,
+  open,
+  onOpenChange
+}: TnaPlanDialogProps) {
+  // Mounted only while open, so the form starts from the current plan each time
+  const [form, setForm] = useState<Record<string, string | null>>(
+    () => Object.fromEntries(entries.map(e => [e.stage, e.targetDate]))
+  )
+  const [source, setSource] = useState<TrackerTnaPlan['source']>(savedPlan?.source || 'manual')
+  const saveMutation = useSaveTnaPlan()
+  const generateMutation = useGenerateTnaPlans()
+
+  const setTargetDate = (stage: string, value: string | null) => {
+    setForm(prev => ({ ...prev, [stage]: value }))
+    setSource('manual')
+  }
+
+  const handleAutoPlan = async () => {
+    try {
+      const result = await generateMutation.mutateAsync({ orderIds: [orderId], overwrite: true, dryRun: true })
+      const plan = result.plans[0]
+      if (!plan) return
+      setForm(Object.fromEntries(plan.entries.map(e => [e.stage, e.targetDate])))
+      setSource('auto')
+    } catch (error) {
+      console.error('Failed to generate TNA plan:', error)
+    }
+  }
+
+  const handleSave = async () => {
+    try {
+      await saveMutation.mutateAsync({
+        orderId,
+        entries: template.stages.map(stage => ({ stage: stage.key, targetDate: form[stage.key] ?? null })),
+        source
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save TNA plan:', error)
+    }
+  }
+
+  const missingRequired = template.stages.some(stage => !stage.optional && !form[stage.key])
+  const error = saveMutation.error || generateMutation.error
+  const skippedReason = generateMutation.data?.skipped[0]?.reason
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <CalendarRange className="h-4 w-4 text-green-600" />
+            TNA Plan
+            <span className="font-mono text-sm text-gray-500">{opsNo}</span>
+            <Badge variant="outline" className="text-[10px] ml-1">{template.name}</Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+          <span>
+            Ex-Factory: <span className="font-medium text-gray-700">{formatDate(shipDate)}</span>
+            {savedPlan && (
+              <span className="ml-2">
+                · {savedPlan.source === 'auto' ? 'Auto-planned' : 'Edited'} by {savedPlan.updatedBy}
+              </span>
+            )}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={handleAutoPlan}
+            disabled={generateMutation.isPending}
+          >
+            {generateMutation.isPending
+              ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+              : <Wand2 className="h-3.5 w-3.5 mr-1" />}
+            Auto-plan from ex-factory
+          </Button>
+        </div>
+
+        <div className="max-h-[55vh] overflow-y-auto divide-y rounded-md border">
+          {template.stages.map((stage, index) => {
+            const value = form[stage.key] ?? null
+            const isNa = stage.optional && value === null
+
+            return (
+              <div key={stage.key} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <span className="w-5 text-xs font-mono text-gray-400">{index + 1}.</span>
+                <span className="flex-1 text-gray-700">{stage.label}</span>
+                {stage.optional && (
+                  <label className="flex items-center gap-1 text-xs text-gray-500">
+                    <input
+                      type="checkbox"
+                      checked={isNa}
+                      onChange={(e) => setTargetDate(stage.key, e.target.checked ? null : shipDate.substring(0, 10))}
+                    />
+                    N/A
+                  </label>
+                )}
+                <Input
+                  type="date"
+                  value={value || ''}
+                  disabled={isNa}
+                  onChange={(e) => setTargetDate(stage.key, e.target.value || null)}
+                  className="h-8 w-40"
+                />
+              </div>
+            )
+          })}
+        </div>
+
+        {skippedReason && (
+          <p className="text-xs text-amber-600">Could not auto-plan: {skippedReason}</p>
+        )}
+        {error && <p className="text-xs text-red-600">{error.message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700"
+            onClick={handleSave}
+            disabled={saveMutation.isPending || missingRequired}
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save plan
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
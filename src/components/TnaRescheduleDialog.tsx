@@ -0,0 +1,124 @@
+import { useEffect } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { useRescheduleTnaPlan } from '@/hooks/useProductionTracker'
+import type { TnaTemplate } from '@/types'
+import { cn, daysBetween, formatDateShort } from '@/lib/utils'
+import { ArrowRight, CalendarClock, Loader2 } from 'lucide-react'
+
+interface TnaRescheduleDialogProps {
+  orderId: string
+  opsNo: string
+  template: TnaTemplate
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Preview and apply a reschedule that pushes downstream targets out by the slip so far.
+// Mounted only while open, so each opening fetches a fresh preview.
+export function TnaRescheduleDialog({
+  orderId,
+  opsNo,
+  template,
+  open,
+  onOpenChange
+}: TnaRescheduleDialogProps) {
+  const previewMutation = useRescheduleTnaPlan()
+  const applyMutation = useRescheduleTnaPlan()
+  const { mutate: loadPreview } = previewMutation
+
+  useEffect(() => {
+    loadPreview({ orderId, dryRun: true })
+  }, [loadPreview, orderId])
+
+  const handleApply = async () => {
+    try {
+      await applyMutation.mutateAsync({ orderId, dryRun: false })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to reschedule TNA plan:', error)
+    }
+  }
+
+  const preview = previewMutation.data
+  const error = previewMutation.error || applyMutation.error
+  const changedCount = preview
+    ? preview.plan.entries.filter(e => preview.previous.find(p => p.stage === e.stage)?.targetDate !== e.targetDate).length
+    : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-base">
+            <CalendarClock className="h-4 w-4 text-green-600" />
+            Reschedule TNA
+            <span className="font-mono text-sm text-gray-500">{opsNo}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {previewMutation.isPending ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            <span className="ml-2 text-sm text-muted-foreground">Working out the new dates...</span>
+          </div>
+        ) : preview && (
+          <>
+            <div className={cn(
+              'rounded-md border p-3 text-sm',
+              preview.slipDays > 0 ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-800'
+            )}>
+              Projected ex-factory{' '}
+              <span className="font-semibold">{formatDateShort(preview.plan.projectedExFactory)}</span>
+              {' '}vs planned {formatDateShort(preview.shipDate)}
+              {preview.slipDays > 0 ? ` (+${preview.slipDays} days)` : ' (on time)'}
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto divide-y rounded-md border text-sm">
+              {template.stages.map(stage => {
+                const before = preview.previous.find(e => e.stage === stage.key)?.targetDate ?? null
+                const after = preview.plan.entries.find(e => e.stage === stage.key)?.targetDate ?? null
+                const moved = before && after && before !== after ? daysBetween(before, after) : 0
+
+                return (
+                  <div key={stage.key} className="flex items-center gap-2 px-3 py-1.5">
+                    <span className="flex-1 text-gray-700">{stage.label}</span>
+                    {after === null ? (
+                      <span className="text-xs italic text-gray-400">N/A</span>
+                    ) : (
+                      <>
+                        <span className="text-xs text-gray-500">{formatDateShort(before)}</span>
+                        <ArrowRight className="h-3 w-3 text-gray-300" />
+                        <span className={cn('text-xs w-16', moved > 0 ? 'font-medium text-red-600' : 'text-gray-500')}>
+                          {formatDateShort(after)}
+                        </span>
+                        <span className="text-[10px] w-10 text-right text-red-500">{moved > 0 && `+${moved}d`}</span>
+                      </>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-xs text-red-600">{error.message}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="bg-green-600 hover:bg-green-700"
+            onClick={handleApply}
+            disabled={!preview || changedCount === 0 || applyMutation.isPending}
+          >
+            {applyMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {changedCount === 0 && preview ? 'Nothing to move' : `Move ${changedCount} stages`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
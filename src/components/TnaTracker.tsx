@@ -12,9 +12,12 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { useUpdateStage } from '@/hooks/useProductionTracker'
-import type { OrderWithTracker, TnaStage, StageStatus, StageUpdate } from '@/types'
-import { TNA_STAGES, TNA_STAGE_LABELS, TNA_OPTIONAL_STAGES } from '@/types'
-import { formatDate, getStageStatusBg, cn } from '@/lib/utils'
+import { useUserProfile } from '@/hooks/useUserProfile'
+import { useTnaTemplate } from '@/hooks/useTnaTemplates'
+import { DELAY_REASON_LABELS, RESPONSIBLE_PARTY_LABELS } from '@/types'
+import type { DelayReason, OrderWithTracker, ResponsibleParty, StageStatus, StageUpdate } from '@/types'
+import { formatDate, getStageStatusBg, cn, canUpdateStage, buildTnaEntries, getStageDelayDays, isInspectionBlocked } from '@/lib/utils'
+import { DelayReasonFields } from './DelayReasonDialog'
 import { Check, Clock, Circle, Save, Loader2 } from 'lucide-react'
 
 interface TnaTrackerProps {
@@ -23,19 +26,27 @@ interface TnaTrackerProps {
 
 export function TnaTracker({ order }: TnaTrackerProps) {
   const updateStage = useUpdateStage()
-  const [editingStage, setEditingStage] = useState<TnaStage | null>(null)
+  const { data: profile } = useUserProfile()
+  const template = useTnaTemplate(order)
+  const tnaEntries = buildTnaEntries(template, order)
+  const [editingStage, setEditingStage] = useState<string | null>(null)
   const [editForm, setEditForm] = useState<{
     status: StageStatus
     actualDate: string
     notes: string
-  }>({ status: 'pending', actualDate: '', notes: '' })
+    delayReason: DelayReason | ''
+    responsibleParty: ResponsibleParty | ''
+  }>({ status: 'pending', actualDate: '', notes: '', delayReason: '', responsibleParty: '' })
+  const todayStr = new Date().toISOString().split('T')[0]
 
-  const handleEditStage = (stage: TnaStage) => {
+  const handleEditStage = (stage: string) => {
     const stageData = order.tracker?.stages[stage]
     setEditForm({
       status: stageData?.status || 'pending',
       actualDate: stageData?.actualDate || '',
       notes: stageData?.notes || '',
+      delayReason: stageData?.delayReason || '',
+      responsibleParty: stageData?.responsibleParty || '',
     })
     setEditingStage(stage)
   }
@@ -51,6 +62,8 @@ export function TnaTracker({ order }: TnaTrackerProps) {
         status: editForm.status,
         actualDate: editForm.actualDate || null,
         notes: editForm.notes || undefined,
+        delayReason: editForm.delayReason || undefined,
+        responsibleParty: editForm.responsibleParty || undefined,
       },
     })
 
@@ -85,17 +98,23 @@ export function TnaTracker({ order }: TnaTrackerProps) {
         <div className="absolute left-[15px] top-6 bottom-6 w-0.5 bg-border" />
 
         <div className="space-y-3">
-          {TNA_STAGES.map((stage, index) => {
-            const tnaEntry = order.tna?.entries.find((e) => e.stage === stage)
-            const stageData = order.tracker?.stages[stage]
-            const isOptional = TNA_OPTIONAL_STAGES.includes(stage)
+          {template.stages.map((templateStage, index) => {
+            const stage = templateStage.key
+            const tnaEntry = tnaEntries.find((e) => e.stage === stage)
+            const stageData = order.tracker?.stages?.[stage]
+            const isOptional = templateStage.optional
             const isNa = isOptional && tnaEntry?.targetDate === null
             const isEditing = editingStage === stage
+            const canEdit = canUpdateStage(profile, templateStage, order) && !isInspectionBlocked(order.tracker, stage)
 
             // Skip N/A stages
             if (isNa) return null
 
             const status = stageData?.status || 'pending'
+            const editDelayDays = isEditing
+              ? getStageDelayDays(tnaEntry?.targetDate, editForm.status, editForm.actualDate || null, todayStr)
+              : 0
+            const missingDelayReason = editDelayDays > 0 && (!editForm.delayReason || !editForm.responsibleParty)
 
             return (
               <div
@@ -127,7 +146,7 @@ export function TnaTracker({ order }: TnaTrackerProps) {
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2">
                     <span className="font-medium text-sm">
-                      {TNA_STAGE_LABELS[stage]}
+                      {templateStage.label}
                     </span>
                     {isOptional && (
                       <Badge variant="outline" className="text-xs">
@@ -170,6 +189,18 @@ export function TnaTracker({ order }: TnaTrackerProps) {
                           />
                         </div>
                       </div>
+                      {editDelayDays > 0 && (
+                        <div className="space-y-1">
+                          <p className="text-xs text-red-600">
+                            {editDelayDays} days late: record a reason and who is responsible
+                          </p>
+                          <DelayReasonFields
+                            delayReason={editForm.delayReason}
+                            responsibleParty={editForm.responsibleParty}
+                            onChange={(value) => setEditForm({ ...editForm, ...value })}
+                          />
+                        </div>
+                      )}
                       <div className="space-y-1">
                         <Label className="text-xs">Notes</Label>
                         <Textarea
@@ -186,7 +217,7 @@ export function TnaTracker({ order }: TnaTrackerProps) {
                         <Button
                           size="sm"
                           onClick={handleSaveStage}
-                          disabled={updateStage.isPending}
+                          disabled={updateStage.isPending || missingDelayReason}
                         >
                           {updateStage.isPending ? (
                             <Loader2 className="h-4 w-4 animate-spin mr-1" />
@@ -207,8 +238,11 @@ export function TnaTracker({ order }: TnaTrackerProps) {
                   ) : (
                     /* Display View */
                     <div
-                      className="mt-1 flex items-center gap-4 text-sm text-muted-foreground cursor-pointer"
-                      onClick={() => handleEditStage(stage)}
+                      className={cn(
+                        'mt-1 flex items-center gap-4 text-sm text-muted-foreground',
+                        canEdit && 'cursor-pointer'
+                      )}
+                      onClick={() => canEdit && handleEditStage(stage)}
                     >
                       <div>
                         <span className="text-xs">Target:</span>{' '}
@@ -222,14 +256,22 @@ export function TnaTracker({ order }: TnaTrackerProps) {
                           </span>
                         </div>
                       )}
+                      {stageData?.delayReason && (
+                        <div className="text-xs text-red-600">
+                          {DELAY_REASON_LABELS[stageData.delayReason]}
+                          {stageData.responsibleParty && ` · ${RESPONSIBLE_PARTY_LABELS[stageData.responsibleParty]}`}
+                        </div>
+                      )}
                       {stageData?.notes && (
                         <div className="text-xs italic truncate max-w-[200px]">
                           "{stageData.notes}"
                         </div>
                       )}
-                      <span className="text-xs text-primary ml-auto">
-                        Click to edit
-                      </span>
+                      {canEdit && (
+                        <span className="text-xs text-primary ml-auto">
+                          Click to edit
+                        </span>
+                      )}
                     </div>
                   )}
                 </div>
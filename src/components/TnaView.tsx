@@ -2,14 +2,21 @@ import { useState, useEffect, useMemo } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import type { OrderWithTracker, TnaStage, StageStatus } from '@/types'
-import { TNA_STAGES, TNA_STAGE_LABELS, TNA_STAGE_SHORT_LABELS } from '@/types'
-import { formatOpsNo, formatDateShort, cn, isOverdue as checkOverdue, getScheduleStatus, deriveErpStageStatuses, erpPcsLabel } from '@/lib/utils'
-import { useUpdateStage } from '@/hooks/useProductionTracker'
+import { DELAY_REASON_LABELS, RESPONSIBLE_PARTY_LABELS } from '@/types'
+import type { OrderWithTracker, StageStatus, StageUpdate, TnaEntry, TnaTemplate, TnaTemplateStage } from '@/types'
+import { formatOpsNo, formatDateShort, cn, isOverdue as checkOverdue, getScheduleStatus, deriveErpStageStatuses, erpPcsLabel, canUpdateStage, canEditTnaPlan, canReviewErpStages, buildTnaEntries, getStageLabel, getStageDelayDays, isInspectionBlocked } from '@/lib/utils'
+import { useUpdateStage, useGenerateTnaPlans, useSyncErpStages } from '@/hooks/useProductionTracker'
 import { useOrder } from '@/hooks/useOrders'
+import { useTnaTemplate } from '@/hooks/useTnaTemplates'
 import { useProductionStatus } from '@/hooks/useProductionStatus'
 import { useErpTnaStages, type ErpStageData } from '@/hooks/useErpTnaStages'
+import { useUserProfile } from '@/hooks/useUserProfile'
 import { TnaGanttTimeline } from './TnaGanttTimeline'
+import { StageHistoryDrawer } from './StageHistoryDrawer'
+import { TnaPlanDialog } from './TnaPlanDialog'
+import { TnaRescheduleDialog } from './TnaRescheduleDialog'
+import { StageSourceMenu } from './StageSourceMenu'
+import { DelayReasonDialog } from './DelayReasonDialog'
 import {
   Package,
   Loader2,
@@ -20,7 +27,13 @@ import {
   ChevronRight,
   CheckCircle2,
   AlertTriangle,
-  XCircle
+  XCircle,
+  History,
+  CalendarRange,
+  CalendarClock,
+  Wand2,
+  RefreshCw,
+  ShieldAlert
 } from 'lucide-react'
 
 interface TnaViewProps {
@@ -46,6 +59,9 @@ export function TnaView({ orders, isLoading }: TnaViewProps) {
   const [expandedOps, setExpandedOps] = useState<Set<string>>(new Set())
   const isMobile = useIsMobile()
   const { data: erpStagesMap } = useErpTnaStages()
+  const { data: profile } = useUserProfile()
+  const generatePlans = useGenerateTnaPlans()
+  const syncErp = useSyncErpStages()
 
   if (isLoading) {
     return (
@@ -78,9 +94,75 @@ export function TnaView({ orders, isLoading }: TnaViewProps) {
     setExpandedOps(newExpanded)
   }
 
+  const unplannedCount = orders.filter(o => !o.tracker?.tnaPlan && !o.tna?.entries?.length).length
+
+  const handlePlanMissing = async () => {
+    try {
+      await generatePlans.mutateAsync({})
+    } catch (error) {
+      console.error('Failed to generate TNA plans:', error)
+    }
+  }
+
+  const handleErpSync = async () => {
+    try {
+      await syncErp.mutateAsync({})
+    } catch (error) {
+      console.error('Failed to sync stages from ERP:', error)
+    }
+  }
+
   return (
     <ScrollArea className="h-[calc(100vh-320px)]">
       <div className="space-y-3">
+        {canReviewErpStages(profile) && (
+          <div className="bg-white rounded-lg border p-3 flex flex-wrap items-center gap-3 text-sm">
+            <RefreshCw className="h-4 w-4 text-blue-600" />
+            {syncErp.data ? (
+              <span className="text-gray-700">
+                ERP sync checked {syncErp.data.checkedOrders} OPS · {syncErp.data.updated.length} stages updated
+                {syncErp.data.suggestions.length > 0 && ` · ${syncErp.data.suggestions.length} manual stages disagree with ERP`}
+              </span>
+            ) : (
+              <span className="text-gray-700">Write ERP stage progress into the tracker (locked stages are skipped)</span>
+            )}
+            {syncErp.error && <span className="text-red-600">{syncErp.error.message}</span>}
+            <button
+              onClick={handleErpSync}
+              disabled={syncErp.isPending}
+              className="ml-auto flex items-center gap-1 text-xs font-medium text-blue-700 hover:text-blue-900 disabled:opacity-50"
+            >
+              <RefreshCw className={cn('h-3.5 w-3.5', syncErp.isPending && 'animate-spin')} />
+              Sync stages from ERP
+            </button>
+          </div>
+        )}
+        {canEditTnaPlan(profile) && (unplannedCount > 0 || generatePlans.data || generatePlans.error) && (
+          <div className="bg-white rounded-lg border p-3 flex flex-wrap items-center gap-3 text-sm">
+            <CalendarRange className="h-4 w-4 text-green-600" />
+            {generatePlans.data ? (
+              <span className="text-gray-700">
+                Planned {generatePlans.data.generated} OPS from ex-factory
+                {generatePlans.data.skipped.length > 0 && ` · ${generatePlans.data.skipped.length} skipped`}
+              </span>
+            ) : (
+              <span className="text-gray-700">
+                {unplannedCount} OPS shown have no TNA plan and use default offsets from PO date
+              </span>
+            )}
+            {generatePlans.error && <span className="text-red-600">{generatePlans.error.message}</span>}
+            {unplannedCount > 0 && (
+              <button
+                onClick={handlePlanMissing}
+                disabled={generatePlans.isPending}
+                className="ml-auto flex items-center gap-1 text-xs font-medium text-green-700 hover:text-green-900 disabled:opacity-50"
+              >
+                {generatePlans.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Wand2 className="h-3.5 w-3.5" />}
+                Auto-plan all unplanned OPS
+              </button>
+            )}
+          </div>
+        )}
         {orders.map((order) => {
           const isExpanded = expandedOps.has(order.id)
           const opsNo = formatOpsNo(order.salesNo)
@@ -172,6 +254,10 @@ function TnaTimelineWrapper({
   const { data: orderData, isLoading } = useOrder(orderId)
   // Real-time Firebase listener for live stage data
   const { data: liveTracker } = useProductionStatus(orderId)
+  const { data: profile } = useUserProfile()
+  const template = useTnaTemplate(orderData)
+  const [planOpen, setPlanOpen] = useState(false)
+  const [rescheduleOpen, setRescheduleOpen] = useState(false)
 
   if (isLoading) {
     return (
@@ -196,20 +282,21 @@ function TnaTimelineWrapper({
 
   if (erpData) {
     const erpDerived = deriveErpStageStatuses(erpData)
-    const merged: Record<string, { status: StageStatus; actualDate?: string | null; notes?: string; updatedAt?: string }> = {}
+    const merged: Record<string, Partial<StageUpdate> & { status: StageStatus }> = {}
 
-    for (const stageKey of TNA_STAGES) {
+    for (const { key: stageKey } of template.stages) {
       const fsStage = firestoreStages?.[stageKey]
       const erpStage = erpDerived[stageKey]
 
-      if (fsStage && fsStage.status !== 'pending') {
-        // Firestore manual override takes priority (if not just default pending)
+      if (fsStage && (fsStage.status !== 'pending' || fsStage.locked)) {
+        // Stored stage (manual, synced from ERP or locked) takes priority over live ERP
         merged[stageKey] = fsStage
       } else if (erpStage) {
-        // Use ERP-derived status with actual date
+        // Live ERP-derived status with actual date (not synced yet)
         merged[stageKey] = {
           status: erpStage.status,
           actualDate: erpStage.actualDate || (erpStage.status === 'completed' ? todayStr : null),
+          source: 'erp',
         }
       } else if (fsStage) {
         merged[stageKey] = fsStage
@@ -221,33 +308,99 @@ function TnaTimelineWrapper({
     mergedStages = merged as any
   }
 
-  // Get TNA entries from order
-  const tnaEntries = orderData?.tna?.entries
+  // Target dates for every template stage (saved plan, else Orders TNA, else PO date + offset)
+  const tnaPlan = liveTracker?.tnaPlan || orderData?.tracker?.tnaPlan
+  const tnaEntries = buildTnaEntries(template, orderData && { ...orderData, tracker: { tnaPlan } })
+
+  // Role-based edit rights (API enforces the same rules); a failed inspection holds packing / dispatch
+  const tracker = liveTracker || orderData?.tracker
+  const canEditStage = (stage: TnaTemplateStage) =>
+    canUpdateStage(profile, stage, orderData) && !isInspectionBlocked(tracker, stage.key)
+  const canReviewErp = canReviewErpStages(profile)
+  const canPlan = canEditTnaPlan(profile, orderData)
+  const onEditPlan = canPlan ? () => setPlanOpen(true) : undefined
+  const onReschedule = canPlan ? () => setRescheduleOpen(true) : undefined
+
+  const planDialogs = (
+    <>
+      {planOpen && (
+        <TnaPlanDialog
+          orderId={orderId}
+          opsNo={opsNo}
+          template={template}
+          entries={tnaEntries}
+          shipDate={endDate}
+          savedPlan={tnaPlan}
+          open={planOpen}
+          onOpenChange={setPlanOpen}
+        />
+      )}
+      {rescheduleOpen && (
+        <TnaRescheduleDialog
+          orderId={orderId}
+          opsNo={opsNo}
+          template={template}
+          open={rescheduleOpen}
+          onOpenChange={setRescheduleOpen}
+        />
+      )}
+    </>
+  )
+
+  const holdBanner = tracker?.inspectionHold && (
+    <p className="mt-4 flex items-center gap-1.5 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+      <ShieldAlert className="h-3.5 w-3.5" />
+      Inspection failed. Packing and dispatch are on hold until the re-inspection passes.
+    </p>
+  )
 
   // On mobile, show vertical timeline for better usability
   if (isMobile) {
     return (
-      <TnaTimelineVertical
-        orderId={orderId}
-        opsNo={opsNo}
-        stages={mergedStages}
-        tnaEntries={tnaEntries}
-        erpData={erpData}
-      />
+      <>
+        {holdBanner}
+        <TnaTimelineVertical
+          orderId={orderId}
+          opsNo={opsNo}
+          template={template}
+          stages={mergedStages}
+          tnaEntries={tnaEntries}
+          erpData={erpData}
+          canEditStage={canEditStage}
+          canReviewErp={canReviewErp}
+          onEditPlan={onEditPlan}
+          onReschedule={onReschedule}
+          baselineEntries={tnaPlan?.baseline}
+          projectedExFactory={tnaPlan?.projectedExFactory}
+          exFactoryDate={endDate}
+        />
+        {planDialogs}
+      </>
     )
   }
 
   // Desktop: show Gantt timeline
   return (
-    <TnaGanttTimeline
-      orderId={orderId}
-      opsNo={opsNo}
-      startDate={startDate}
-      endDate={endDate}
-      tnaEntries={tnaEntries}
-      stages={mergedStages}
-      erpData={erpData}
-    />
+    <>
+      {holdBanner}
+      <TnaGanttTimeline
+        orderId={orderId}
+        opsNo={opsNo}
+        startDate={startDate}
+        endDate={endDate}
+        template={template}
+        tnaEntries={tnaEntries}
+        baselineEntries={tnaPlan?.baseline}
+        projectedExFactory={tnaPlan?.projectedExFactory}
+        stages={mergedStages}
+        erpData={erpData}
+        canEditStage={canEditStage}
+        canReviewErp={canReviewErp}
+        onEditPlan={onEditPlan}
+        onReschedule={onReschedule}
+      />
+      {planDialogs}
+    </>
   )
 }
 
@@ -255,49 +408,78 @@ function TnaTimelineWrapper({
 function TnaTimelineVertical({
   orderId,
   opsNo,
+  template,
   stages,
   tnaEntries,
-  erpData
+  erpData,
+  canEditStage,
+  canReviewErp,
+  onEditPlan,
+  onReschedule,
+  baselineEntries,
+  projectedExFactory,
+  exFactoryDate
 }: {
   orderId: string
   opsNo: string
-  stages?: Record<TnaStage, { status: StageStatus; actualDate?: string | null }>
-  tnaEntries?: Array<{ stage: TnaStage; targetDate: string | null }>
+  template: TnaTemplate
+  stages?: Record<string, Partial<StageUpdate> & { status: StageStatus }>
+  tnaEntries?: TnaEntry[]
   erpData?: ErpStageData
+  canEditStage: (stage: TnaTemplateStage) => boolean
+  canReviewErp: boolean
+  onEditPlan?: () => void
+  onReschedule?: () => void
+  baselineEntries?: TnaEntry[]
+  projectedExFactory?: string | null
+  exFactoryDate: string
 }) {
   const updateStage = useUpdateStage()
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [delayPrompt, setDelayPrompt] = useState<{
+    stage: string
+    update: { status: StageStatus; actualDate: string | null }
+    delayDays: number
+  } | null>(null)
 
   // Build stage data
-  const stageData = TNA_STAGES.map(stage => {
+  const stageData = template.stages.map(templateStage => {
+    const stage = templateStage.key
     const tnaEntry = tnaEntries?.find(e => e.stage === stage)
+    const baselineEntry = baselineEntries?.find(e => e.stage === stage)
     const stageUpdate = stages?.[stage]
 
     return {
       stage,
-      label: TNA_STAGE_LABELS[stage],
+      label: templateStage.label,
       status: (stageUpdate?.status || 'pending') as StageStatus,
+      update: stageUpdate,
       targetDate: tnaEntry?.targetDate || null,
+      baselineDate: baselineEntry?.targetDate !== tnaEntry?.targetDate ? baselineEntry?.targetDate || null : null,
       actualDate: stageUpdate?.actualDate || null,
-      isNA: tnaEntry?.targetDate === null
+      isNA: tnaEntry?.targetDate === null,
+      canEdit: canEditStage(templateStage)
     }
   })
 
-  const handleStatusChange = async (stage: TnaStage, currentStatus: StageStatus) => {
+  const handleStatusChange = async (stage: string, currentStatus: StageStatus) => {
     // Cycle through statuses: pending -> in_progress -> completed -> pending
     const nextStatus: StageStatus =
       currentStatus === 'pending' ? 'in_progress' :
       currentStatus === 'in_progress' ? 'completed' : 'pending'
+    const todayStr = new Date().toISOString().split('T')[0]
+    const update = { status: nextStatus, actualDate: nextStatus === 'completed' ? todayStr : null }
+
+    // Late stages need a root cause first (one already recorded carries over)
+    const targetDate = tnaEntries?.find(e => e.stage === stage)?.targetDate
+    const delayDays = getStageDelayDays(targetDate, update.status, update.actualDate, todayStr)
+    if (delayDays > 0 && (!stages?.[stage]?.delayReason || !stages?.[stage]?.responsibleParty)) {
+      setDelayPrompt({ stage, update, delayDays })
+      return
+    }
 
     try {
-      await updateStage.mutateAsync({
-        orderId,
-        opsNo,
-        stage,
-        update: {
-          status: nextStatus,
-          actualDate: nextStatus === 'completed' ? new Date().toISOString().split('T')[0] : null
-        }
-      })
+      await updateStage.mutateAsync({ orderId, opsNo, stage, update })
     } catch (error) {
       console.error('Failed to update stage:', error)
     }
@@ -305,7 +487,62 @@ function TnaTimelineVertical({
 
   return (
     <div className="mt-4 border-t pt-4">
-      <h4 className="text-sm font-semibold mb-4">TNA Timeline</h4>
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-sm font-semibold">TNA Timeline</h4>
+        <div className="flex items-center gap-3">
+          {onReschedule && (
+            <button
+              onClick={onReschedule}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              <CalendarClock className="h-3.5 w-3.5" />
+              Reschedule
+            </button>
+          )}
+          {onEditPlan && (
+            <button
+              onClick={onEditPlan}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              <CalendarRange className="h-3.5 w-3.5" />
+              Plan
+            </button>
+          )}
+          <button
+            onClick={() => setHistoryOpen(true)}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+          >
+            <History className="h-3.5 w-3.5" />
+            History
+          </button>
+        </div>
+      </div>
+      {projectedExFactory && projectedExFactory > exFactoryDate.substring(0, 10) && (
+        <p className="mb-3 text-xs font-medium text-red-600">
+          Projected ex-factory {formatDateShort(projectedExFactory)} (planned {formatDateShort(exFactoryDate)})
+        </p>
+      )}
+      <StageHistoryDrawer
+        orderId={orderId}
+        opsNo={opsNo}
+        template={template}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+      />
+      {delayPrompt && (
+        <DelayReasonDialog
+          orderId={orderId}
+          opsNo={opsNo}
+          stage={delayPrompt.stage}
+          stageLabel={getStageLabel(template, delayPrompt.stage)}
+          targetDate={tnaEntries?.find(e => e.stage === delayPrompt.stage)?.targetDate ?? null}
+          delayDays={delayPrompt.delayDays}
+          update={delayPrompt.update}
+          current={stages?.[delayPrompt.stage]}
+          open
+          onOpenChange={(open) => !open && setDelayPrompt(null)}
+        />
+      )}
       <div className="relative">
         {/* Timeline line */}
         <div className="absolute left-4 top-0 bottom-0 w-0.5 bg-gray-200" />
@@ -317,13 +554,14 @@ function TnaTimelineVertical({
               <div
                 className={cn(
                   'absolute left-2 w-5 h-5 rounded-full flex items-center justify-center',
-                  'border-2 bg-white cursor-pointer transition-colors',
-                  data.isNA && 'bg-gray-50 border-gray-200 cursor-default',
+                  'border-2 bg-white transition-colors',
+                  data.canEdit && !data.isNA ? 'cursor-pointer' : 'cursor-default',
+                  data.isNA && 'bg-gray-50 border-gray-200',
                   !data.isNA && data.status === 'completed' && 'bg-green-500 border-green-500',
                   !data.isNA && data.status === 'in_progress' && 'bg-amber-500 border-amber-500',
                   !data.isNA && data.status === 'pending' && 'border-gray-300 hover:border-gray-400'
                 )}
-                onClick={() => !data.isNA && handleStatusChange(data.stage, data.status)}
+                onClick={() => data.canEdit && !data.isNA && handleStatusChange(data.stage, data.status)}
               >
                 {data.isNA ? (
                   <span className="text-[8px] text-gray-400">N/A</span>
@@ -352,6 +590,22 @@ function TnaTimelineVertical({
                     )}>
                       {data.label}
                     </span>
+                    <span className="inline-flex align-middle ml-1.5">
+                      <StageSourceMenu
+                        orderId={orderId}
+                        opsNo={opsNo}
+                        stage={data.stage}
+                        data={data.update}
+                        canReview={canReviewErp}
+                      />
+                    </span>
+                    {data.update?.delayReason && (
+                      <p className="mt-0.5 text-[11px] text-red-600">
+                        {DELAY_REASON_LABELS[data.update.delayReason]}
+                        {data.update.responsibleParty && ` · ${RESPONSIBLE_PARTY_LABELS[data.update.responsibleParty]}`}
+                        {data.update.delayDays ? ` (+${data.update.delayDays}d)` : ''}
+                      </p>
+                    )}
                   </div>
 
                   <div className="flex items-center gap-4 text-xs">
@@ -363,6 +617,9 @@ function TnaTimelineVertical({
                     {data.targetDate && (
                       <div className="text-muted-foreground">
                         Target: {formatDateShort(data.targetDate)}
+                        {data.baselineDate && (
+                          <span className="ml-1 text-gray-400 line-through">{formatDateShort(data.baselineDate)}</span>
+                        )}
                       </div>
                     )}
                     {data.actualDate && (
@@ -392,10 +649,12 @@ function TnaTimelineVertical({
         </div>
       </div>
 
-      {/* Click hint */}
-      <p className="mt-4 text-[10px] text-gray-400 italic text-center">
-        Tap status circle to cycle: Pending → In Progress → Completed
-      </p>
+      {/* Click hint (only when the user can edit something) */}
+      {stageData.some(d => d.canEdit && !d.isNA) && (
+        <p className="mt-4 text-[10px] text-gray-400 italic text-center">
+          Tap status circle to cycle: Pending → In Progress → Completed
+        </p>
+      )}
     </div>
   )
 }
@@ -403,39 +662,38 @@ function TnaTimelineVertical({
 // Compact progress bar for collapsed view
 function CompactProgressBar({ orderId }: { orderId: string }) {
   const { data: orderData, isLoading } = useOrder(orderId)
+  const template = useTnaTemplate(orderData)
 
   const progressData = useMemo(() => {
     if (!orderData) return null
 
     const stages = orderData.tracker?.stages
-    const tnaEntries = orderData.tna?.entries || []
+    const tnaEntries = buildTnaEntries(template, orderData)
 
     // Count active stages (not N/A)
-    const activeStages = tnaEntries.length > 0
-      ? tnaEntries.filter(e => e.targetDate !== null)
-      : TNA_STAGES.map(s => ({ stage: s, targetDate: 'dummy' }))
+    const activeStages = tnaEntries.filter(e => e.targetDate !== null)
 
     // Count completed stages
     const completedCount = activeStages.filter(
-      entry => stages?.[entry.stage as TnaStage]?.status === 'completed'
+      entry => stages?.[entry.stage]?.status === 'completed'
     ).length
 
     // Find current stage (first non-completed)
-    let currentStage: TnaStage | null = null
+    let currentStage: string | null = null
     for (const entry of activeStages) {
-      const status = stages?.[entry.stage as TnaStage]?.status || 'pending'
+      const status = stages?.[entry.stage]?.status || 'pending'
       if (status !== 'completed') {
-        currentStage = entry.stage as TnaStage
+        currentStage = entry.stage
         break
       }
     }
 
-    // If all completed, show dispatch
+    // If all completed, show the last stage
     if (!currentStage && completedCount > 0) {
-      currentStage = 'dispatch'
+      currentStage = template.stages[template.stages.length - 1].key
     }
 
-    const totalActive = activeStages.length || TNA_STAGES.length
+    const totalActive = activeStages.length || template.stages.length
     const percent = Math.round((completedCount / totalActive) * 100)
 
     // Get schedule status
@@ -448,7 +706,7 @@ function CompactProgressBar({ orderId }: { orderId: string }) {
       currentStage,
       scheduleStatus
     }
-  }, [orderData])
+  }, [orderData, template])
 
   if (isLoading) {
     return (
@@ -499,7 +757,7 @@ function CompactProgressBar({ orderId }: { orderId: string }) {
         </span>
         {currentStage && (
           <span className="text-xs text-gray-500 hidden lg:inline">
-            • {TNA_STAGE_SHORT_LABELS[currentStage]}
+            • {getStageLabel(template, currentStage, true)}
           </span>
         )}
       </div>
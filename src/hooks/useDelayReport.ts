@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query'
+import type { DelayReport } from '@/types'
+import { apiFetch } from '@/lib/api'
+
+export interface DelayReportFilters {
+  buyer?: string
+  from?: string               // yyyy-MM-dd
+  to?: string
+}
+
+// Delay reasons recorded on late stages, grouped for the Pareto report
+export function useDelayReport(filters: DelayReportFilters) {
+  return useQuery<DelayReport>({
+    queryKey: ['delay-report', filters],
+    queryFn: async () => {
+      const params = new URLSearchParams()
+      if (filters.buyer) params.set('buyer', filters.buyer)
+      if (filters.from) params.set('from', filters.from)
+      if (filters.to) params.set('to', filters.to)
+
+      const res = await apiFetch(`/api/reports/delay-reasons?${params}`)
+      if (!res.ok) throw new Error('Failed to fetch delay report')
+
+      const data = await res.json()
+      return data.data
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
@@ -0,0 +1,47 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import type { EhiProcessStage, EhiProcessStageKey } from '@/types'
+import { apiFetch } from '@/lib/api'
+
+// EHI processes with the WIP stage each one counts as
+export function useEhiProcessStages() {
+  return useQuery<EhiProcessStage[]>({
+    queryKey: ['ehi-process-stages'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/ehi-process-stages')
+      if (!res.ok) throw new Error('Failed to fetch EHI process stages')
+
+      const data = await res.json()
+      return data.data
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
+
+// Save changed mappings. The API re-derives existing carpets' stages, so WIP figures change too.
+export function useSaveEhiProcessStages() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (stages: Array<{ processId: number; wipStage: EhiProcessStageKey }>): Promise<{ stages: EhiProcessStage[]; carpetsUpdated: number }> => {
+      const res = await apiFetch('/api/ehi-process-stages', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ stages })
+      })
+
+      if (!res.ok) {
+        const error = await res.json()
+        throw new Error(error.error || 'Failed to save EHI process stages')
+      }
+
+      const data = await res.json()
+      return data.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ehi-process-stages'] })
+      queryClient.invalidateQueries({ queryKey: ['tna-erp-stages'] })
+      queryClient.invalidateQueries({ queryKey: ['production-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['reconciliation'] })
+    }
+  })
+}
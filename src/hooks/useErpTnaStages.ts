@@ -1,4 +1,5 @@
 import { useQuery } from '@tanstack/react-query'
+import { apiFetch } from '@/lib/api'
 
 export interface ErpStageData {
   totalOrdered: number
@@ -29,7 +30,7 @@ export function useErpTnaStages() {
   return useQuery<ErpTnaStagesMap>({
     queryKey: ['tna-erp-stages'],
     queryFn: async () => {
-      const response = await fetch('/api/tna-erp-stages')
+      const response = await apiFetch('/api/tna-erp-stages')
       if (!response.ok) {
         throw new Error('Failed to fetch TNA ERP stages')
       }
@@ -0,0 +1,111 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage'
+import type {
+  DefectReport,
+  DefectSeverity,
+  DelayReason,
+  InspectionDefect,
+  InspectionLevel,
+  InspectionOutcome,
+  InspectionResult,
+  ResponsibleParty,
+} from '@/types'
+import { apiFetch } from '@/lib/api'
+import { storage } from '@/lib/firebase'
+
+// Result recorded for one inspection (null until one is saved)
+export function useInspectionResult(scheduleId: string) {
+  return useQuery<InspectionResult | null>({
+    queryKey: ['inspection-result', scheduleId],
+    queryFn: async () => {
+      const res = await apiFetch(`/api/inspection-schedules/${scheduleId}/result`)
+      if (!res.ok) throw new Error('Failed to fetch inspection result')
+
+      const data = await res.json()
+      return data.data
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
+
+export interface SaveInspectionResultParams {
+  scheduleId: string
+  orderId: string
+  inspectionLevel: InspectionLevel
+  aql: Record<DefectSeverity, number>
+  defects: InspectionDefect[]
+  outcome: InspectionOutcome
+  inspector: string
+  inspectedAt: string
+  notes?: string
+  reinspectionDate?: string   // fail only; defaults on the server
+  delayReason?: DelayReason   // pass on a late inspection stage
+  responsibleParty?: ResponsibleParty
+}
+
+// Record an inspection result. pass / fail also move the schedule, the TNA stage and the packing hold.
+export function useSaveInspectionResult() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: SaveInspectionResultParams): Promise<InspectionResult> => {
+      const res = await apiFetch(`/api/inspection-schedules/${params.scheduleId}/result`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params)
+      })
+
+      if (!res.ok) {
+        const error = await res.json()
+        throw new Error(error.error || 'Failed to save inspection result')
+      }
+
+      const data = await res.json()
+      return data.data
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['inspection-result', variables.scheduleId] })
+      queryClient.invalidateQueries({ queryKey: ['inspection-schedules'] })
+      queryClient.invalidateQueries({ queryKey: ['defect-report'] })
+      if (variables.outcome !== 'hold') {
+        queryClient.invalidateQueries({ queryKey: ['orders'] })
+        queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] })
+        queryClient.invalidateQueries({ queryKey: ['stage-history', variables.orderId] })
+      }
+    }
+  })
+}
+
+// Upload a defect photo to Firebase Storage and return its download URL
+export async function uploadInspectionPhoto(scheduleId: string, file: File): Promise<string> {
+  const name = file.name.replace(/[^\w.-]+/g, '_')
+  const photoRef = ref(storage, `inspection-photos/${scheduleId}/${Date.now()}-${name}`)
+  await uploadBytes(photoRef, file, { contentType: file.type })
+  return getDownloadURL(photoRef)
+}
+
+export interface DefectReportFilters {
+  buyer?: string
+  from?: string               // yyyy-MM-dd, on the inspection date
+  to?: string
+}
+
+// Defect trends from inspection results, per buyer and per design
+export function useDefectReport(filters: DefectReportFilters) {
+  return useQuery<DefectReport>({
+    queryKey: ['defect-report', filters],
+    queryFn: async () => {
+      const params = new URLSearchParams()
+      if (filters.buyer) params.set('buyer', filters.buyer)
+      if (filters.from) params.set('from', filters.from)
+      if (filters.to) params.set('to', filters.to)
+
+      const res = await apiFetch(`/api/reports/defects?${params}`)
+      if (!res.ok) throw new Error('Failed to fetch defect report')
+
+      const data = await res.json()
+      return data.data
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
@@ -1,5 +1,6 @@
-import { useQuery } from '@tanstack/react-query'
-import type { InspectionSchedule } from '@/types'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { CompanyCode, DelayReason, InspectionAction, InspectionCapacity, InspectionSchedule, ResponsibleParty } from '@/types'
+import { apiFetch } from '@/lib/api'
 
 interface InspectionSchedulesResponse {
   schedules: InspectionSchedule[]
@@ -101,7 +102,7 @@ export function useInspectionSchedules(startDate: string, endDate: string) {
     queryKey: ['inspection-schedules', startDate, endDate],
     queryFn: async () => {
       const params = new URLSearchParams({ startDate, endDate })
-      const res = await fetch(`/api/inspection-schedules?${params}`)
+      const res = await apiFetch(`/api/inspection-schedules?${params}`)
       if (!res.ok) throw new Error('Failed to fetch inspection schedules')
       const data: InspectionSchedulesResponse = await res.json()
       return data.schedules
@@ -110,6 +111,124 @@ export function useInspectionSchedules(startDate: string, endDate: string) {
   })
 }
 
+interface CreateInspectionParams {
+  orderId: string
+  inspectionDate: string
+  inspectionCompany?: CompanyCode
+  articleName?: string
+  inspector?: string
+  notes?: string
+}
+
+// Schedule an inspection on the shared inspection_schedules collection
+export function useCreateInspection() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: CreateInspectionParams): Promise<InspectionSchedule> => {
+      const res = await apiFetch('/api/inspection-schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params)
+      })
+
+      if (!res.ok) {
+        const error = await res.json()
+        throw new Error(error.error || 'Failed to schedule inspection')
+      }
+
+      const data = await res.json()
+      return data.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inspection-schedules'] })
+    }
+  })
+}
+
+interface UpdateInspectionParams {
+  id: string
+  orderId: string
+  action: InspectionAction
+  inspectionDate?: string     // New date when rescheduling
+  inspector?: string          // reschedule / assign
+  notes?: string
+  delayReason?: DelayReason   // Completing a late inspection stage
+  responsibleParty?: ResponsibleParty
+}
+
+// Reschedule, complete or cancel an inspection. Completing also completes the TNA inspection stage.
+export function useUpdateInspection() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, orderId: _orderId, ...body }: UpdateInspectionParams): Promise<InspectionSchedule> => {
+      const res = await apiFetch(`/api/inspection-schedules/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+
+      if (!res.ok) {
+        const error = await res.json()
+        throw new Error(error.error || 'Failed to update inspection')
+      }
+
+      const data = await res.json()
+      return data.data
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['inspection-schedules'] })
+      if (variables.action === 'complete') {
+        queryClient.invalidateQueries({ queryKey: ['orders'] })
+        queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] })
+        queryClient.invalidateQueries({ queryKey: ['stage-history', variables.orderId] })
+      }
+    }
+  })
+}
+
+// Daily capacity per company and inspector, holidays and weekend days
+export function useInspectionCapacity() {
+  return useQuery<InspectionCapacity>({
+    queryKey: ['inspection-capacity'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/inspection-capacity')
+      if (!res.ok) throw new Error('Failed to fetch inspection capacity')
+
+      const data = await res.json()
+      return data.data
+    },
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  })
+}
+
+// Replace the capacity settings (QA / directors)
+export function useSaveInspectionCapacity() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (capacity: InspectionCapacity): Promise<InspectionCapacity> => {
+      const res = await apiFetch('/api/inspection-capacity', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(capacity)
+      })
+
+      if (!res.ok) {
+        const error = await res.json()
+        throw new Error(error.error || 'Failed to save inspection capacity')
+      }
+
+      const data = await res.json()
+      return data.data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inspection-capacity'] })
+    }
+  })
+}
+
 // Today's date string for comparisons
 export function getTodayString(): string {
   return toLocalDateString(new Date())
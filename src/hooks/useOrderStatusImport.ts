@@ -0,0 +1,43 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import type { OrderStatusImportResult } from '@/types'
+import { apiFetch } from '@/lib/api'
+
+// Read a File as base64 (without the data: URL prefix)
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '')
+    reader.onerror = () => reject(reader.error || new Error('Failed to read file'))
+    reader.readAsDataURL(file)
+  })
+}
+
+// Upload the PPC "Order Status" Excel. dryRun returns a preview without saving.
+export function useOrderStatusImport() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ file, dryRun }: { file: File; dryRun: boolean }): Promise<OrderStatusImportResult> => {
+      const fileBase64 = await readFileAsBase64(file)
+      const response = await apiFetch('/api/imports/order-status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileName: file.name, fileBase64, dryRun })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to import Order Status file')
+      }
+
+      const data = await response.json()
+      return data.data
+    },
+    onSuccess: (result) => {
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['orders'] })
+        queryClient.invalidateQueries({ queryKey: ['order'] })
+      }
+    }
+  })
+}
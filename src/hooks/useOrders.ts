@@ -1,22 +1,68 @@
-import { useQuery } from '@tanstack/react-query'
-import type { Order, OrderWithTracker, ProductionTrackerEntry, TnaStage } from '@/types'
+import { useEffect, useMemo } from 'react'
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query'
+import type { Order, OrderWithTracker, ProductionTrackerEntry, TnaTemplate } from '@/types'
+import { DEFAULT_TNA_TEMPLATE } from '@/types'
+import { apiFetch } from '@/lib/api'
 
-// Fetch open orders (status = 'sent')
+export interface OrdersPage {
+  orders: OrderWithTracker[]
+  nextCursor: string | null
+  total: number | null
+  scanned: number
+}
+
+// Fetch all open orders (status = 'sent'), nearest ship date first. Pages are requested
+// one after another until none are left, so counts and filters built on the result only
+// cover every order once isComplete is true; loaded/total report progress until then.
 export function useOrders(search?: string) {
-  return useQuery<OrderWithTracker[]>({
+  const query = useInfiniteQuery<OrdersPage>({
     queryKey: ['orders', search],
-    queryFn: async () => {
+    queryFn: async ({ pageParam }) => {
       const params = new URLSearchParams()
       if (search) params.set('search', search)
+      if (pageParam) params.set('cursor', pageParam as string)
 
-      const response = await fetch(`/api/orders?${params}`)
+      const response = await apiFetch(`/api/orders?${params}`)
       if (!response.ok) throw new Error('Failed to fetch orders')
 
       const data = await response.json()
-      return data.data || []
+      return {
+        orders: data.data || [],
+        nextCursor: data.nextCursor || null,
+        total: data.total ?? null,
+        scanned: data.scanned ?? (data.data || []).length,
+      }
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     staleTime: 30000, // 30 seconds
   })
+
+  const { hasNextPage, isFetchingNextPage, isError, fetchNextPage } = query
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && !isError) fetchNextPage()
+  }, [hasNextPage, isFetchingNextPage, isError, fetchNextPage])
+
+  const pages = query.data?.pages
+  const orders = useMemo(
+    () => (pages ?? [])
+      .flatMap((page) => page.orders)
+      .sort((a, b) => (a.shipDate || '9999-12-31').localeCompare(b.shipDate || '9999-12-31')),
+    [pages]
+  )
+  // loaded and total both count raw open orders (samples included)
+  const loaded = (pages ?? []).reduce((sum, page) => sum + page.scanned, 0)
+  const total = pages?.[0]?.total ?? null
+
+  return {
+    orders,
+    loaded,
+    total,
+    isComplete: !!pages && !hasNextPage,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+  }
 }
 
 // Fetch single order with tracker
@@ -26,7 +72,7 @@ export function useOrder(orderId: string | undefined) {
     queryFn: async () => {
       if (!orderId) throw new Error('No order ID')
 
-      const response = await fetch(`/api/orders/${orderId}`)
+      const response = await apiFetch(`/api/orders/${orderId}`)
       if (!response.ok) throw new Error('Failed to fetch order')
 
       const data = await response.json()
@@ -36,29 +82,21 @@ export function useOrder(orderId: string | undefined) {
   })
 }
 
-// Helper to determine current stage from tracker
-export function getCurrentStage(tracker: ProductionTrackerEntry | undefined, order: Order): TnaStage {
+// Helper to determine current stage from tracker, following the order's TNA template
+export function getCurrentStage(
+  tracker: ProductionTrackerEntry | undefined,
+  order: Order,
+  template: TnaTemplate = DEFAULT_TNA_TEMPLATE
+): string {
+  const stageKeys = template.stages.map(s => s.key)
+
   if (!tracker?.stages) {
     // No tracker yet, start from first stage
-    return 'raw_material_purchase'
+    return stageKeys[0]
   }
 
   // Find the first non-completed stage
-  const stages: TnaStage[] = [
-    'raw_material_purchase',
-    'dyeing',
-    'photo_shoot_approval',
-    'first_piece_approval',
-    'weaving',
-    'finishing',
-    'fg_godown',
-    'order_label_in_house',
-    'inspection',
-    'packing',
-    'dispatch'
-  ]
-
-  for (const stage of stages) {
+  for (const stage of stageKeys) {
     const stageData = tracker.stages[stage]
     // Skip optional stages that are N/A in TNA
     const tnaEntry = order.tna?.entries.find(e => e.stage === stage)
@@ -69,5 +107,5 @@ export function getCurrentStage(tracker: ProductionTrackerEntry | undefined, ord
     }
   }
 
-  return 'dispatch'
+  return stageKeys[stageKeys.length - 1]
 }
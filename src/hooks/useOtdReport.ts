@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query'
+import type { OtdReport } from '@/types'
+import { apiFetch } from '@/lib/api'
+
+// On-time delivery KPIs; fiscalYear is two-digit (April-March), empty for all years
+export function useOtdReport(fiscalYear: string) {
+  return useQuery<OtdReport>({
+    queryKey: ['kpi-otd', fiscalYear],
+    queryFn: async () => {
+      const params = new URLSearchParams()
+      if (fiscalYear) params.set('fy', fiscalYear)
+
+      const res = await apiFetch(`/api/kpi/otd?${params}`)
+      if (!res.ok) throw new Error('Failed to fetch on-time delivery report')
+
+      const data = await res.json()
+      return data.data
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
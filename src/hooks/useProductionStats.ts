@@ -1,11 +1,12 @@
 import { useQuery } from '@tanstack/react-query'
 import type { ProductionStatsMap } from '@/types'
+import { apiFetch } from '@/lib/api'
 
 export function useProductionStats() {
   return useQuery<ProductionStatsMap>({
     queryKey: ['production-stats'],
     queryFn: async () => {
-      const res = await fetch('/api/production-stats')
+      const res = await apiFetch('/api/production-stats')
       if (!res.ok) throw new Error('Failed to fetch production stats')
       return res.json()
     },
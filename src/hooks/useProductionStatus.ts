@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { db } from '@/lib/firebase'
 import { doc, onSnapshot } from 'firebase/firestore'
+import type { InspectionHold, StageUpdate, TrackerTnaPlan } from '@/types'
 
 /**
  * Production status data for a single order item
@@ -21,13 +22,9 @@ export interface ProductionTrackerData {
   id: string
   opsNo: string
   items: Record<string, ProductionItemStatus>
-  stages?: Record<string, {
-    status: 'pending' | 'in_progress' | 'completed'
-    actualDate: string | null
-    notes?: string
-    updatedAt: string
-    updatedBy?: string
-  }>
+  stages?: Record<string, StageUpdate>
+  tnaPlan?: TrackerTnaPlan
+  inspectionHold?: InspectionHold | null
   createdAt: string
   updatedAt: string
 }
@@ -1,10 +1,11 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query'
-import type { StageUpdate, TnaStage } from '@/types'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { ErpStageSyncResult, ProductionItemTracker, StageHistoryEntry, StageUpdate, TnaEntry, TnaPlanGenerateResult, TnaRescheduleResult, TrackerTnaPlan } from '@/types'
+import { apiFetch } from '@/lib/api'
 
 interface UpdateStageParams {
   orderId: string
   opsNo: string
-  stage: TnaStage
+  stage: string               // Template stage key
   update: Partial<StageUpdate>
 }
 
@@ -14,7 +15,7 @@ export function useUpdateStage() {
 
   return useMutation({
     mutationFn: async ({ orderId, opsNo, stage, update }: UpdateStageParams) => {
-      const response = await fetch(`/api/production-tracker/${orderId}/stage/${stage}`, {
+      const response = await apiFetch(`/api/production-tracker/${orderId}/stage/${stage}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ opsNo, ...update })
@@ -31,6 +32,7 @@ export function useUpdateStage() {
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: ['orders'] })
       queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] })
+      queryClient.invalidateQueries({ queryKey: ['stage-history', variables.orderId] })
     }
   })
 }
@@ -43,9 +45,9 @@ export function useBulkUpdateStages() {
     mutationFn: async ({ orderId, opsNo, stages }: {
       orderId: string
       opsNo: string
-      stages: Record<TnaStage, Partial<StageUpdate>>
+      stages: Record<string, Partial<StageUpdate>>
     }) => {
-      const response = await fetch(`/api/production-tracker/${orderId}`, {
+      const response = await apiFetch(`/api/production-tracker/${orderId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ opsNo, stages })
@@ -61,6 +63,210 @@ export function useBulkUpdateStages() {
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['orders'] })
       queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] })
+      queryClient.invalidateQueries({ queryKey: ['stage-history', variables.orderId] })
     }
   })
 }
+
+// Accept the ERP status of a stage, or lock / unlock it against ERP sync
+export function useReviewErpStage() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ orderId, opsNo, stage, action }: {
+      orderId: string
+      opsNo: string
+      stage: string
+      action: 'accept' | 'lock' | 'unlock'
+    }) => {
+      const response = await apiFetch(`/api/production-tracker/${orderId}/stage/${stage}/erp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ opsNo, action })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to review ERP stage')
+      }
+
+      return response.json()
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] })
+      queryClient.invalidateQueries({ queryKey: ['stage-history', variables.orderId] })
+    }
+  })
+}
+
+// Write ERP-derived stage statuses into the trackers of all open orders
+export function useSyncErpStages() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: { dryRun?: boolean } = {}): Promise<ErpStageSyncResult> => {
+      const response = await apiFetch('/api/tna-erp-sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params)
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to sync stages from ERP')
+      }
+
+      const data = await response.json()
+      return data.data
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) return
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      queryClient.invalidateQueries({ queryKey: ['order'] })
+      queryClient.invalidateQueries({ queryKey: ['stage-history'] })
+    }
+  })
+}
+
+// Editable fields on an item tracker row
+export type ItemTrackerUpdate = Partial<Pick<ProductionItemTracker,
+  'status' | 'rcvdPcs' | 'toRcvdPcs' | 'oldStock' | 'bazarDone' | 'uFinishing' | 'packed' |
+  'vendorName' | 'folioNo' | 'supplierCompletionDate'
+>>
+
+// Update item-level production figures (PPC sheet row)
+export function useUpdateItemTracker() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ orderId, itemId, update }: {
+      orderId: string
+      itemId: string
+      update: ItemTrackerUpdate
+    }) => {
+      const response = await apiFetch(`/api/production-tracker/${orderId}/items/${encodeURIComponent(itemId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to update item')
+      }
+
+      return response.json()
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] })
+    }
+  })
+}
+
+// Save an edited TNA plan (target dates) for one order
+export function useSaveTnaPlan() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ orderId, entries, source }: {
+      orderId: string
+      entries: TnaEntry[]
+      source: TrackerTnaPlan['source']
+    }): Promise<TrackerTnaPlan> => {
+      const response = await apiFetch(`/api/production-tracker/${orderId}/tna-plan`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entries, source })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to save TNA plan')
+      }
+
+      const data = await response.json()
+      return data.data
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] })
+    }
+  })
+}
+
+// Back-schedule TNA plans from ex-factory. Without orderIds, plans every open order that has none.
+export function useGenerateTnaPlans() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (params: {
+      orderIds?: string[]
+      overwrite?: boolean
+      dryRun?: boolean
+    }): Promise<TnaPlanGenerateResult> => {
+      const response = await apiFetch('/api/tna-plans/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params)
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to generate TNA plans')
+      }
+
+      const data = await response.json()
+      return data.data
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) return
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      queryClient.invalidateQueries({ queryKey: ['order'] })
+    }
+  })
+}
+
+// Carry stage slips through the downstream targets (dry run returns the preview only)
+export function useRescheduleTnaPlan() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ orderId, dryRun }: { orderId: string; dryRun: boolean }): Promise<TnaRescheduleResult> => {
+      const response = await apiFetch(`/api/production-tracker/${orderId}/tna-plan/reschedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to reschedule TNA plan')
+      }
+
+      const data = await response.json()
+      return data.data
+    },
+    onSuccess: (result, variables) => {
+      if (result.dryRun) return
+      queryClient.invalidateQueries({ queryKey: ['orders'] })
+      queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] })
+    }
+  })
+}
+
+// Fetch stage change history for an order (newest first)
+export function useStageHistory(orderId: string | undefined, enabled = true) {
+  return useQuery<StageHistoryEntry[]>({
+    queryKey: ['stage-history', orderId],
+    queryFn: async () => {
+      const response = await apiFetch(`/api/production-tracker/${orderId}/history`)
+      if (!response.ok) throw new Error('Failed to fetch stage history')
+
+      const data = await response.json()
+      return data.data || []
+    },
+    enabled: !!orderId && enabled,
+  })
+}
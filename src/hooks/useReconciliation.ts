@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ReconciliationReport } from '@/types'
+import { apiFetch } from '@/lib/api'
+
+// Excel-vs-ERP mismatches beyond the given tolerance (pcs)
+export function useReconciliation(tolerance: number) {
+  return useQuery<ReconciliationReport>({
+    queryKey: ['reconciliation', tolerance],
+    queryFn: async () => {
+      const res = await apiFetch(`/api/reconciliation?tolerance=${tolerance}`)
+      if (!res.ok) throw new Error('Failed to fetch reconciliation report')
+
+      const data = await res.json()
+      return data.data
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
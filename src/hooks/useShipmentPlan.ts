@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query'
+import type { ShipmentPlan } from '@/types'
+import { apiFetch } from '@/lib/api'
+
+// Open orders grouped by ex-factory week for the next `weeks` weeks
+export function useShipmentPlan(weeks: number) {
+  return useQuery<ShipmentPlan>({
+    queryKey: ['shipment-plan', weeks],
+    queryFn: async () => {
+      const res = await apiFetch(`/api/shipment-plan?weeks=${weeks}`)
+      if (!res.ok) throw new Error('Failed to fetch shipment plan')
+
+      const data = await res.json()
+      return data.data
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query'
+import type { SyncStatus } from '@/types'
+import { apiFetch } from '@/lib/api'
+
+// Freshness of the ERP data behind the dashboard. Polled so the stale-data banner
+// appears without a reload when a sync starts failing.
+export function useSyncStatus() {
+  return useQuery<SyncStatus>({
+    queryKey: ['sync-status'],
+    queryFn: async () => {
+      const res = await apiFetch('/api/sync-status')
+      if (!res.ok) throw new Error('Failed to fetch sync status')
+
+      const data = await res.json()
+      return data.data
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchInterval: 1000 * 60 * 5,
+  })
+}
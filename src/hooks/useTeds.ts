@@ -1,5 +1,6 @@
-import { useQuery } from '@tanstack/react-query'
-import type { TedFormSummary, TedForm } from '@/types'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { TedFormSummary, TedForm, TedPin, TedVersion, OrderTeds } from '@/types'
+import { apiFetch } from '@/lib/api'
 
 export function useTeds(search?: string) {
   return useQuery<TedFormSummary[]>({
@@ -8,7 +9,7 @@ export function useTeds(search?: string) {
       const params = new URLSearchParams()
       if (search) params.set('search', search)
 
-      const response = await fetch(`/api/teds?${params}`)
+      const response = await apiFetch(`/api/teds?${params}`)
       if (!response.ok) throw new Error('Failed to fetch TEDs')
 
       const data = await response.json()
@@ -22,7 +23,7 @@ export function useTed(id: string | null) {
   return useQuery<TedForm>({
     queryKey: ['ted', id],
     queryFn: async () => {
-      const response = await fetch(`/api/teds/${id}`)
+      const response = await apiFetch(`/api/teds/${id}`)
       if (!response.ok) throw new Error('Failed to fetch TED')
 
       const data = await response.json()
@@ -32,3 +33,89 @@ export function useTed(id: string | null) {
     staleTime: 1000 * 60 * 5,
   })
 }
+
+// TEDs for each item of an order, matched on the EM design number
+export function useOrderTeds(orderId: string | null) {
+  return useQuery<OrderTeds>({
+    queryKey: ['order-teds', orderId],
+    queryFn: async () => {
+      const response = await apiFetch(`/api/orders/${orderId}/teds`)
+      if (!response.ok) throw new Error('Failed to fetch order TEDs')
+
+      const data = await response.json()
+      return data.data
+    },
+    enabled: !!orderId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
+
+// Version history of a TED, newest first
+export function useTedVersions(id: string | null) {
+  return useQuery<TedVersion[]>({
+    queryKey: ['ted-versions', id],
+    queryFn: async () => {
+      const response = await apiFetch(`/api/teds/${id}/versions`)
+      if (!response.ok) throw new Error('Failed to fetch TED versions')
+
+      const data = await response.json()
+      return data.data || []
+    },
+    enabled: !!id,
+    staleTime: 1000 * 60 * 5,
+  })
+}
+
+interface PinTedVersionParams {
+  orderId: string
+  itemId: string
+  tedId: string | null        // null unpins
+  version?: number            // Defaults to the TED's current version
+}
+
+// Pin (or unpin) the TED version an order item is produced against
+export function usePinTedVersion() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ orderId, itemId, tedId, version }: PinTedVersionParams): Promise<TedPin | null> => {
+      const response = await apiFetch(`/api/production-tracker/${orderId}/ted-pins/${encodeURIComponent(itemId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tedId, version })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to pin TED version')
+      }
+
+      const data = await response.json()
+      return data.data
+    },
+    onSuccess: (_data, { orderId, tedId }) => {
+      queryClient.invalidateQueries({ queryKey: ['order-teds', orderId] })
+      if (tedId) queryClient.invalidateQueries({ queryKey: ['ted-versions', tedId] })
+    }
+  })
+}
+
+// Open the TED spec sheet, or the loom card for an order item, in a new window for printing.
+// The window opens before the fetch so pop-up blockers let it through.
+export async function openTedPrint(tedId: string, loom?: { orderId: string; itemId: string }): Promise<void> {
+  const printWindow = window.open('', '_blank')
+  const params = new URLSearchParams(loom || {})
+
+  const response = await apiFetch(`/api/teds/${tedId}/print?${params}`)
+  if (!response.ok) {
+    printWindow?.close()
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to load TED for printing')
+  }
+  if (!printWindow) throw new Error('Allow pop-ups to print TEDs')
+
+  const html = await response.text()
+  printWindow.document.open()
+  printWindow.document.write(html)
+  printWindow.document.close()
+}
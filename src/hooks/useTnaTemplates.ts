@@ -0,0 +1,26 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import type { Order, TnaTemplate } from '@/types'
+import { apiFetch } from '@/lib/api'
+import { resolveTnaTemplate } from '@/lib/utils'
+
+// Fetch all TNA templates (Firestore tna_templates)
+export function useTnaTemplates() {
+  return useQuery<TnaTemplate[]>({
+    queryKey: ['tna-templates'],
+    queryFn: async () => {
+      const response = await apiFetch('/api/tna-templates')
+      if (!response.ok) throw new Error('Failed to fetch TNA templates')
+
+      const data = await response.json()
+      return data.data || []
+    },
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  })
+}
+
+// Resolved template for a single order (built-in default until templates load)
+export function useTnaTemplate(order: Pick<Order, 'orderType' | 'customerCode'> | null | undefined): TnaTemplate {
+  const { data: templates } = useTnaTemplates()
+  return useMemo(() => resolveTnaTemplate(templates, order), [templates, order])
+}
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query'
+import { apiFetch } from '@/lib/api'
+import { useAuth } from '@/contexts/AuthContext'
+import type { UserProfile } from '@/types'
+
+// Fetch the signed-in user's role from the API
+export function useUserProfile() {
+  const { user } = useAuth()
+
+  return useQuery<UserProfile>({
+    queryKey: ['me', user?.uid],
+    queryFn: async () => {
+      const response = await apiFetch('/api/me')
+      if (!response.ok) throw new Error('Failed to fetch user profile')
+
+      const data = await response.json()
+      return data.data
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  })
+}
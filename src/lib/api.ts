@@ -0,0 +1,15 @@
+import { auth } from '@/lib/firebase'
+
+/**
+ * fetch() wrapper for the Netlify API.
+ * Attaches the signed-in user's Firebase ID token as a Bearer header;
+ * the function rejects any request without one.
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers)
+  const token = await auth.currentUser?.getIdToken()
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`)
+  }
+  return fetch(input, { ...init, headers })
+}
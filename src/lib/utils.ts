@@ -1,6 +1,6 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
-import { format, parseISO, isValid, differenceInDays, startOfWeek, endOfWeek, isWithinInterval } from 'date-fns'
+import { format, parseISO, isValid, differenceInDays, startOfWeek, endOfWeek, isWithinInterval, addDays } from 'date-fns'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -273,7 +273,8 @@ export interface StageDuration {
 export function calculateStageDurations(
   totalDays: number,
   tnaEntries: Array<{ stage: string; targetDate: string | null }>,
-  rawMaterialDays: number = 15
+  rawMaterialDays: number = 15,
+  startDate?: string
 ): StageDuration[] {
   if (!tnaEntries || tnaEntries.length === 0 || totalDays <= 0) {
     return []
@@ -293,6 +294,39 @@ export function calculateStageDurations(
     }))
   }
 
+  // With a start date, each stage spans from the previous stage's target to its own
+  if (startDate) {
+    const result: StageDuration[] = []
+    let previousTarget = startDate
+
+    for (const entry of tnaEntries) {
+      if (!entry.targetDate) {
+        result.push({
+          stage: entry.stage,
+          startPercent: (Math.max(0, daysBetween(startDate, previousTarget)) / totalDays) * 100,
+          widthPercent: 0,
+          durationDays: 0,
+          isNA: true
+        })
+        continue
+      }
+
+      const startDay = Math.max(0, Math.min(totalDays, daysBetween(startDate, previousTarget)))
+      const endDay = Math.max(startDay, Math.min(totalDays, daysBetween(startDate, entry.targetDate)))
+      result.push({
+        stage: entry.stage,
+        startPercent: (startDay / totalDays) * 100,
+        widthPercent: Math.max(((endDay - startDay) / totalDays) * 100, 2), // Minimum 2% width for visibility
+        durationDays: endDay - startDay,
+        isNA: false
+      })
+
+      if (entry.targetDate > previousTarget) previousTarget = entry.targetDate
+    }
+
+    return result
+  }
+
   // First stage (raw material) gets fixed duration
   const firstStageDays = Math.min(rawMaterialDays, totalDays * 0.25)
   const remainingDays = totalDays - firstStageDays
@@ -352,6 +386,8 @@ export function formatGanttDate(dateStr: string | null | undefined): string {
 
 // ============== TNA Stage Display Status ==============
 
+import { DELAY_REASON_OVERDUE_DAYS } from '@/types'
+
 /**
  * Get display status for a single TNA stage.
  * Matches Production Tracker's getStageStatus() logic.
@@ -390,6 +426,25 @@ export function getStageDisplayStatus(
   return { type: 'not-started', delta: 0 }
 }
 
+/**
+ * Days a stage is late, once late enough to need a delay reason (0 = no reason needed).
+ * Completed: days past target. Open: days overdue, after DELAY_REASON_OVERDUE_DAYS grace.
+ * Mirrors stageDelayDays() in netlify/functions/api.mts.
+ */
+export function getStageDelayDays(
+  targetDate: string | null | undefined,
+  status: 'pending' | 'in_progress' | 'completed',
+  actualDate: string | null | undefined,
+  today: string
+): number {
+  if (!targetDate) return 0
+  if (status === 'completed') {
+    return actualDate ? Math.max(0, daysBetweenStrings(targetDate.substring(0, 10), actualDate.substring(0, 10))) : 0
+  }
+  const overdueDays = daysBetweenStrings(targetDate.substring(0, 10), today)
+  return overdueDays > DELAY_REASON_OVERDUE_DAYS ? overdueDays : 0
+}
+
 /**
  * Simple days between two date strings (b - a).
  * Positive means b is after a.
@@ -398,6 +453,392 @@ function daysBetweenStrings(a: string, b: string): number {
   return Math.round((new Date(b + 'T00:00:00').getTime() - new Date(a + 'T00:00:00').getTime()) / 86400000)
 }
 
+// ============== TNA Templates ==============
+
+import type { Order, TnaEntry, TnaStage, TrackerTnaPlan, TnaTemplate, TnaTemplateStage, UserProfile, UserRole, InspectionHold } from '@/types'
+import { DEFAULT_TNA_TEMPLATE, STAGE_EDITORS, ITEM_EDITORS, CUSTOM_STAGE_EDITORS, TNA_PLAN_EDITORS, ERP_STAGE_REVIEWERS, INSPECTION_SCHEDULERS, INSPECTION_RESULT_RECORDERS, INSPECTION_BLOCKED_STAGES, INSPECTION_CAPACITY_EDITORS, TED_PIN_EDITORS, EHI_STAGE_MAP_EDITORS } from '@/types'
+
+/**
+ * Pick the TNA template for an order.
+ * Buyer-specific templates win over order-type templates, which win over the default.
+ * Mirrors resolveTnaTemplate() in the API.
+ */
+export function resolveTnaTemplate(
+  templates: TnaTemplate[] | undefined,
+  order: Pick<Order, 'orderType' | 'customerCode'> | null | undefined
+): TnaTemplate {
+  let best: TnaTemplate | null = null
+  let bestScore = -1
+
+  for (const template of templates || []) {
+    const buyerMatch = template.customerCodes.length === 0 || (!!order && template.customerCodes.includes(order.customerCode))
+    const typeMatch = template.orderTypes.length === 0 || (!!order && template.orderTypes.includes(order.orderType))
+    if (!buyerMatch || !typeMatch) continue
+
+    // Catch-all templates only apply when marked as the default
+    if (template.customerCodes.length === 0 && template.orderTypes.length === 0 && !template.isDefault) continue
+
+    const score = (template.customerCodes.length > 0 ? 2 : 0) + (template.orderTypes.length > 0 ? 1 : 0)
+    if (score > bestScore) {
+      best = template
+      bestScore = score
+    }
+  }
+
+  return best || DEFAULT_TNA_TEMPLATE
+}
+
+/**
+ * Roles allowed to update a template stage (directors can update everything)
+ */
+export function getStageEditors(stage: TnaTemplateStage): UserRole[] {
+  return stage.editors || STAGE_EDITORS[stage.key as TnaStage] || CUSTOM_STAGE_EDITORS
+}
+
+/**
+ * Display label for a stage key, falling back to the key itself
+ */
+export function getStageLabel(template: TnaTemplate, stageKey: string, short = false): string {
+  const stage = template.stages.find(s => s.key === stageKey)
+  if (!stage) return stageKey
+  return (short && stage.shortLabel) || stage.label
+}
+
+/**
+ * Build target dates for every template stage.
+ * The tracker's saved plan wins, then the Orders app TNA; other stages default to PO date + offset.
+ */
+export function buildTnaEntries(
+  template: TnaTemplate,
+  order: (Pick<Order, 'orderConfirmationDate' | 'tna'> & { tracker?: { tnaPlan?: TrackerTnaPlan } }) | null | undefined
+): TnaEntry[] {
+  const planned = order?.tracker?.tnaPlan?.entries || order?.tna?.entries || []
+  const poDate = order?.orderConfirmationDate ? parseISO(order.orderConfirmationDate) : null
+
+  return template.stages.map(stage => {
+    const entry = planned.find(e => e.stage === stage.key)
+    if (entry) return { stage: stage.key, targetDate: entry.targetDate }
+
+    return {
+      stage: stage.key,
+      targetDate: poDate && isValid(poDate) ? format(addDays(poDate, stage.offsetDays), 'yyyy-MM-dd') : null
+    }
+  })
+}
+
+/**
+ * Planned start of a stage: the target of the stage before it (null for the first stage)
+ */
+export function getStageStartDate(entries: TnaEntry[], stage: string): string | null {
+  const index = entries.findIndex(e => e.stage === stage)
+  return index > 0 ? entries[index - 1].targetDate : null
+}
+
+// ============== Role Permissions ==============
+
+/**
+ * Check whether a user may edit item-level production figures
+ */
+export function canEditItemTrackers(profile: UserProfile | null | undefined): boolean {
+  return !!profile && ITEM_EDITORS.includes(profile.role)
+}
+
+/**
+ * Check whether a user may run the ERP stage sync and accept / lock ERP statuses
+ */
+export function canReviewErpStages(profile: UserProfile | null | undefined): boolean {
+  return !!profile && ERP_STAGE_REVIEWERS.includes(profile.role)
+}
+
+/**
+ * Check whether a user may update a TNA stage on an order.
+ * Mirrors canUpdateStage() in the API, which enforces the same rules.
+ */
+export function canUpdateStage(
+  profile: UserProfile | null | undefined,
+  stage: TnaTemplateStage,
+  order: { merchantCode?: string; assistantMerchantCode?: string } | null | undefined
+): boolean {
+  if (!profile) return false
+  if (profile.role === 'director') return true
+  if (!getStageEditors(stage).includes(profile.role)) return false
+
+  if (profile.role === 'merchant') {
+    if (!order || !profile.merchantCode) return false
+    return order.merchantCode === profile.merchantCode || order.assistantMerchantCode === profile.merchantCode
+  }
+
+  return true
+}
+
+/**
+ * Check whether a user may generate or edit an order's TNA plan.
+ * Pass no order to check the role alone (e.g. for bulk planning).
+ */
+export function canEditTnaPlan(
+  profile: UserProfile | null | undefined,
+  order?: { merchantCode?: string; assistantMerchantCode?: string } | null
+): boolean {
+  if (!profile || !TNA_PLAN_EDITORS.includes(profile.role)) return false
+
+  if (profile.role === 'merchant' && order) {
+    if (!profile.merchantCode) return false
+    return order.merchantCode === profile.merchantCode || order.assistantMerchantCode === profile.merchantCode
+  }
+
+  return true
+}
+
+/**
+ * Check whether a user may schedule, reschedule or cancel inspections.
+ * Pass no order to check the role alone (e.g. for the calendar toolbar).
+ */
+export function canScheduleInspections(
+  profile: UserProfile | null | undefined,
+  order?: { merchantCode?: string; assistantMerchantCode?: string } | null
+): boolean {
+  if (!profile || !INSPECTION_SCHEDULERS.includes(profile.role)) return false
+
+  if (profile.role === 'merchant' && order) {
+    if (!profile.merchantCode) return false
+    return order.merchantCode === profile.merchantCode || order.assistantMerchantCode === profile.merchantCode
+  }
+
+  return true
+}
+
+/**
+ * Check whether a user may record inspection results
+ */
+export function canRecordInspectionResults(profile: UserProfile | null | undefined): boolean {
+  return !!profile && INSPECTION_RESULT_RECORDERS.includes(profile.role)
+}
+
+/**
+ * Check whether a user may edit inspection capacity, inspectors and holidays
+ */
+export function canEditInspectionCapacity(profile: UserProfile | null | undefined): boolean {
+  return !!profile && INSPECTION_CAPACITY_EDITORS.includes(profile.role)
+}
+
+/**
+ * Check whether a user may edit the EHI process → WIP stage mapping
+ */
+export function canEditEhiStageMap(profile: UserProfile | null | undefined): boolean {
+  return !!profile && EHI_STAGE_MAP_EDITORS.includes(profile.role)
+}
+
+/**
+ * Check whether a user may pin the TED version an order's items are produced against
+ */
+export function canPinTedVersions(
+  profile: UserProfile | null | undefined,
+  order: { merchantCode?: string; assistantMerchantCode?: string }
+): boolean {
+  if (!profile || !TED_PIN_EDITORS.includes(profile.role)) return false
+
+  if (profile.role === 'merchant') {
+    if (!profile.merchantCode) return false
+    return order.merchantCode === profile.merchantCode || order.assistantMerchantCode === profile.merchantCode
+  }
+
+  return true
+}
+
+/**
+ * Check whether a failed inspection holds a stage (packing / dispatch until re-inspection passes)
+ */
+export function isInspectionBlocked(
+  tracker: { inspectionHold?: InspectionHold | null } | null | undefined,
+  stage: string
+): boolean {
+  return !!tracker?.inspectionHold && INSPECTION_BLOCKED_STAGES.includes(stage)
+}
+
+// ============== AQL Sampling (ISO 2859-1, single sampling, normal inspection) ==============
+// Keep the tables in sync with netlify/functions/api.mts
+
+import type { AqlPlan, InspectionLevel } from '@/types'
+
+// Sample size code letters by lot size (upper bound) for general levels I / II / III
+const AQL_LOT_CODE_LETTERS: Array<[number, Record<InspectionLevel, string>]> = [
+  [8, { I: 'A', II: 'A', III: 'B' }],
+  [15, { I: 'A', II: 'B', III: 'C' }],
+  [25, { I: 'B', II: 'C', III: 'D' }],
+  [50, { I: 'C', II: 'D', III: 'E' }],
+  [90, { I: 'C', II: 'E', III: 'F' }],
+  [150, { I: 'D', II: 'F', III: 'G' }],
+  [280, { I: 'E', II: 'G', III: 'H' }],
+  [500, { I: 'F', II: 'H', III: 'J' }],
+  [1200, { I: 'G', II: 'J', III: 'K' }],
+  [3200, { I: 'H', II: 'K', III: 'L' }],
+  [10000, { I: 'J', II: 'L', III: 'M' }],
+  [35000, { I: 'K', II: 'M', III: 'N' }],
+  [150000, { I: 'L', II: 'N', III: 'P' }],
+  [500000, { I: 'M', II: 'P', III: 'Q' }],
+  [Infinity, { I: 'N', II: 'Q', III: 'R' }],
+]
+const AQL_CODE_LETTERS = 'ABCDEFGHJKLMNPQR'
+const AQL_SAMPLE_SIZES = [2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800, 1250, 2000]
+// Acceptance numbers down each AQL column, from the column's first 0/1 plan
+const AQL_COLUMN_ACCEPT = [0, 0, 1, 1, 2, 3, 5, 7, 10, 14, 21]
+const AQL_FIRST_PLAN_ROW: Record<string, number> = { '6.5': 0, '4': 1, '2.5': 2, '1.5': 3, '1': 4, '0.65': 5 }
+
+/**
+ * Code letter and sample size for a lot; a lot smaller than the sample is inspected in full
+ */
+export function getAqlSample(lotSize: number, level: InspectionLevel): { codeLetter: string; sampleSize: number } {
+  const row = AQL_LOT_CODE_LETTERS.find(([max]) => lotSize <= max) || AQL_LOT_CODE_LETTERS[AQL_LOT_CODE_LETTERS.length - 1]
+  const codeLetter = row[1][level]
+  const sampleSize = AQL_SAMPLE_SIZES[AQL_CODE_LETTERS.indexOf(codeLetter)]
+  return { codeLetter, sampleSize: lotSize > 0 ? Math.min(sampleSize, lotSize) : sampleSize }
+}
+
+/**
+ * Accept / reject numbers for a code letter and AQL (arrows resolve to the nearest plan; 0 = zero tolerance)
+ */
+export function getAqlPlan(codeLetter: string, aql: number): AqlPlan {
+  const firstRow = AQL_FIRST_PLAN_ROW[String(aql)]
+  if (firstRow === undefined) return { accept: 0, reject: 1 }
+  const offset = AQL_CODE_LETTERS.indexOf(codeLetter) - firstRow
+  const accept = AQL_COLUMN_ACCEPT[Math.min(Math.max(offset, 0), AQL_COLUMN_ACCEPT.length - 1)]
+  return { accept, reject: accept + 1 }
+}
+
+// ============== Inspection Capacity ==============
+
+import type { CompanyCode, InspectionCapacity, InspectionCapacityLimit, InspectionDayLoad, InspectionSchedule } from '@/types'
+
+// An inspection being placed on a day (id set when moving an existing one)
+type CapacityCandidate = Pick<InspectionSchedule, 'inspectionCompany' | 'totalPcs'> & { id?: string; inspector?: string }
+
+// Inspectors without their own limit can take one inspection a day
+const DEFAULT_INSPECTOR_LIMIT: InspectionCapacityLimit = { inspections: 1, pcs: 0 }
+
+function exceedsLimit(used: InspectionCapacityLimit, limit: InspectionCapacityLimit | undefined): boolean {
+  if (!limit) return false
+  return (limit.inspections > 0 && used.inspections > limit.inspections) || (limit.pcs > 0 && used.pcs > limit.pcs)
+}
+
+function inspectorLimit(capacity: InspectionCapacity | undefined, name: string): InspectionCapacityLimit {
+  const key = name.toLowerCase()
+  return capacity?.inspectors.find(i => i.name.toLowerCase() === key) || DEFAULT_INSPECTOR_LIMIT
+}
+
+function addLoad(loads: Record<string, InspectionCapacityLimit>, key: string, pcs: number) {
+  const used = loads[key] || { inspections: 0, pcs: 0 }
+  loads[key] = { inspections: used.inspections + 1, pcs: used.pcs + (pcs || 0) }
+}
+
+/**
+ * 'Holiday' or 'Weekend' for a non-working day, else null
+ */
+export function getNonWorkingDay(date: string, capacity: InspectionCapacity | undefined): 'Holiday' | 'Weekend' | null {
+  if (!capacity) return null
+  if (capacity.holidays.includes(date)) return 'Holiday'
+  if (capacity.weekendDays.includes(parseISO(date).getDay())) return 'Weekend'
+  return null
+}
+
+/**
+ * Inspections booked per day (cancelled ones excluded), flagging over-capacity companies
+ * and double-booked inspectors
+ */
+export function buildInspectionDayLoads(
+  schedules: InspectionSchedule[],
+  capacity: InspectionCapacity | undefined
+): Map<string, InspectionDayLoad> {
+  const loads = new Map<string, InspectionDayLoad>()
+
+  schedules.filter(s => s.status !== 'cancelled').forEach(s => {
+    const load = loads.get(s.inspectionDate) || {
+      companies: { EMPL: { inspections: 0, pcs: 0 }, EHI: { inspections: 0, pcs: 0 } },
+      inspectors: {},
+      overCompanies: [],
+      doubleBooked: [],
+    }
+    addLoad(load.companies, s.inspectionCompany, s.totalPcs)
+    if (s.inspector) addLoad(load.inspectors, s.inspector, s.totalPcs)
+    loads.set(s.inspectionDate, load)
+  })
+
+  loads.forEach(load => {
+    load.overCompanies = (Object.keys(load.companies) as CompanyCode[])
+      .filter(company => exceedsLimit(load.companies[company], capacity?.companies[company]))
+    load.doubleBooked = Object.keys(load.inspectors)
+      .filter(name => exceedsLimit(load.inspectors[name], inspectorLimit(capacity, name)))
+  })
+
+  return loads
+}
+
+/**
+ * Warnings for placing an inspection on a day: non-working day, company over capacity,
+ * inspector already fully booked. Empty when the day is free.
+ */
+export function getInspectionConflicts(
+  date: string,
+  candidate: CapacityCandidate,
+  schedules: InspectionSchedule[],
+  capacity: InspectionCapacity | undefined
+): string[] {
+  const conflicts: string[] = []
+  const nonWorking = getNonWorkingDay(date, capacity)
+  if (nonWorking) conflicts.push(`${formatDateShort(date)} is a ${nonWorking.toLowerCase()}`)
+
+  const sameDay = schedules.filter(s => s.inspectionDate === date && s.status !== 'cancelled' && s.id !== candidate.id)
+  const company = candidate.inspectionCompany
+  const companyUsed = sameDay.filter(s => s.inspectionCompany === company)
+  const companyLoad = {
+    inspections: companyUsed.length + 1,
+    pcs: companyUsed.reduce((sum, s) => sum + (s.totalPcs || 0), 0) + (candidate.totalPcs || 0),
+  }
+  const companyLimit = capacity?.companies[company]
+  if (companyLimit && exceedsLimit(companyLoad, companyLimit)) {
+    conflicts.push(
+      `${company} over capacity: ${companyLoad.inspections}/${companyLimit.inspections || '∞'} inspections, ` +
+      `${companyLoad.pcs.toLocaleString()}/${companyLimit.pcs ? companyLimit.pcs.toLocaleString() : '∞'} pcs`
+    )
+  }
+
+  if (candidate.inspector) {
+    const key = candidate.inspector.toLowerCase()
+    const inspectorUsed = sameDay.filter(s => s.inspector?.toLowerCase() === key)
+    const inspectorLoad = {
+      inspections: inspectorUsed.length + 1,
+      pcs: inspectorUsed.reduce((sum, s) => sum + (s.totalPcs || 0), 0) + (candidate.totalPcs || 0),
+    }
+    if (exceedsLimit(inspectorLoad, inspectorLimit(capacity, candidate.inspector))) {
+      conflicts.push(`${candidate.inspector} is already booked (${inspectorUsed.map(s => formatOpsNo(s.opsNo)).join(', ')})`)
+    }
+  }
+
+  return conflicts
+}
+
+/**
+ * Nearest day to `date` (later days first on ties, never before `today`) where the inspection fits,
+ * searching up to `maxDays` either side. Null when nothing is free.
+ */
+export function findNearestFreeSlot(
+  date: string,
+  candidate: CapacityCandidate,
+  schedules: InspectionSchedule[],
+  capacity: InspectionCapacity | undefined,
+  today: string,
+  maxDays = 14
+): string | null {
+  const start = parseISO(date)
+  for (let offset = 0; offset <= maxDays; offset++) {
+    for (const day of [addDays(start, offset), addDays(start, -offset)]) {
+      const candidateDate = format(day, 'yyyy-MM-dd')
+      if (candidateDate < today) continue
+      if (getInspectionConflicts(candidateDate, candidate, schedules, capacity).length === 0) return candidateDate
+    }
+  }
+  return null
+}
+
 // ============== ERP Stage Derivation ==============
 
 import type { ErpStageData } from '@/hooks/useErpTnaStages'
@@ -406,6 +847,7 @@ import type { ErpStageData } from '@/hooks/useErpTnaStages'
  * Derive TNA stage statuses from live ERP data.
  * Returns a map of stage key -> StageUpdate (status + label).
  * Manual Firestore stages take priority over these.
+ * The ERP sync (POST /api/tna-erp-sync) runs the same rules server-side; keep them in sync.
  */
 export function deriveErpStageStatuses(erp: ErpStageData): Record<string, { status: 'pending' | 'in_progress' | 'completed'; label?: string; actualDate?: string | null }> {
   const result: Record<string, { status: 'pending' | 'in_progress' | 'completed'; label?: string; actualDate?: string | null }> = {}
@@ -17,7 +17,18 @@ import { OrdersView } from '@/components/OrdersView'
 import { TnaView } from '@/components/TnaView'
 import { InspectionCalendarView } from '@/components/InspectionCalendarView'
 import { TedListView } from '@/components/TedListView'
+import { OrderStatusImportView } from '@/components/OrderStatusImportView'
+import { ReconciliationView } from '@/components/ReconciliationView'
+import { DelayParetoView } from '@/components/DelayParetoView'
+import { ShipmentPlanView } from '@/components/ShipmentPlanView'
+import { OtdKpiView } from '@/components/OtdKpiView'
+import { DefectTrendView } from '@/components/DefectTrendView'
+import { EhiProcessStagesView } from '@/components/EhiProcessStagesView'
+import { SyncStatusBanner } from '@/components/SyncStatusBanner'
 import { useProductionStats } from '@/hooks/useProductionStats'
+import { useUserProfile } from '@/hooks/useUserProfile'
+import { USER_ROLE_LABELS } from '@/types'
+import { canEditItemTrackers, canEditEhiStageMap } from '@/lib/utils'
 import {
   Factory,
   LogOut,
@@ -34,6 +45,13 @@ import {
   Users,
   AlertTriangle,
   Clock,
+  Upload,
+  Scale,
+  BarChart3,
+  Ship,
+  Target,
+  ShieldAlert,
+  Workflow,
 } from 'lucide-react'
 import { useQueryClient } from '@tanstack/react-query'
 
@@ -50,6 +68,9 @@ export function DashboardPage() {
   const queryClient = useQueryClient()
   const [search, setSearch] = useState('')
   const [debouncedSearch, setDebouncedSearch] = useState('')
+  // ?ted=<id> (from the QR code on a printed TED) opens that TED
+  const [linkedTedId] = useState(() => new URLSearchParams(window.location.search).get('ted'))
+  const [activeTab, setActiveTab] = useState(linkedTedId ? 'ted' : 'orders')
   const debounceRef = useRef<NodeJS.Timeout>()
 
   // Filters
@@ -61,8 +82,16 @@ export function DashboardPage() {
     thisWeek: false,
   })
 
-  const { data: orders = [], isLoading, isFetching } = useOrders(debouncedSearch)
+  const {
+    orders,
+    loaded,
+    total,
+    isComplete,
+    isLoading,
+    isFetching,
+  } = useOrders(debouncedSearch)
   const { data: productionStats } = useProductionStats()
+  const { data: profile } = useUserProfile()
 
   // Debounced search
   useEffect(() => {
@@ -144,6 +173,12 @@ export function DashboardPage() {
     queryClient.invalidateQueries({ queryKey: ['orders'] })
   }
 
+  // Jump from another tab to a single order in the Orders view
+  const openOrder = (opsNo: string) => {
+    setSearch(opsNo)
+    setActiveTab('orders')
+  }
+
   const clearFilters = () => {
     setFilters({
       company: 'all',
@@ -164,7 +199,7 @@ export function DashboardPage() {
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Minimal Header */}
-      <header className="bg-white border-b sticky top-0 z-20">
+      <header className="bg-white border-b sticky top-0 z-20 print:hidden">
         <div className="px-4 py-2 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <div className="w-8 h-8 bg-green-600 rounded flex items-center justify-center">
@@ -203,6 +238,12 @@ export function DashboardPage() {
                 <span className="text-sm text-gray-700 hidden sm:inline">
                   {user.displayName?.split(' ')[0]}
                 </span>
+                {profile && (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0 hidden sm:inline-flex">
+                    {USER_ROLE_LABELS[profile.role]}
+                    {profile.merchantCode ? ` · ${profile.merchantCode}` : ''}
+                  </Badge>
+                )}
               </div>
             )}
 
@@ -212,18 +253,19 @@ export function DashboardPage() {
             </Button>
           </div>
         </div>
+        <SyncStatusBanner />
       </header>
 
       {/* Main Content */}
-      <main className="p-4 max-w-7xl mx-auto space-y-4">
+      <main className="p-4 max-w-7xl mx-auto space-y-4 print:p-0 print:max-w-none">
         {/* Search and Filters Bar */}
-        <div className="bg-white rounded-lg border p-3">
+        <div className="bg-white rounded-lg border p-3 print:hidden">
           <div className="flex flex-wrap items-center gap-2">
             {/* Search */}
             <div className="relative flex-1 min-w-[200px]">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
               <Input
-                placeholder="Search OPS, Buyer, Article..."
+                placeholder="Search OPS, buyer code or name..."
                 value={search}
                 onChange={(e) => setSearch(e.target.value)}
                 className="pl-10 h-9 bg-gray-50 border-gray-200"
@@ -395,16 +437,18 @@ export function DashboardPage() {
               </div>
             )}
 
-            {/* Results count */}
+            {/* Results count; filters and views only cover the orders loaded so far */}
             <span className="text-xs text-gray-500 ml-auto">
-              {filteredOrders.length} orders
+              {isComplete || total === null
+                ? `${filteredOrders.length} orders`
+                : `${filteredOrders.length} orders · showing ${loaded} of ${total}, loading...`}
             </span>
           </div>
         </div>
 
         {/* Tabs for different views */}
-        <Tabs defaultValue="orders" className="w-full">
-          <TabsList className="bg-white border">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="bg-white border print:hidden">
             <TabsTrigger value="orders" className="gap-2 data-[state=active]:bg-green-50 data-[state=active]:text-green-700">
               <Table className="h-4 w-4" />
               Orders
@@ -421,6 +465,38 @@ export function DashboardPage() {
               <FileText className="h-4 w-4" />
               TED
             </TabsTrigger>
+            <TabsTrigger value="shipments" className="gap-2 data-[state=active]:bg-green-50 data-[state=active]:text-green-700">
+              <Ship className="h-4 w-4" />
+              Shipments
+            </TabsTrigger>
+            <TabsTrigger value="otd" className="gap-2 data-[state=active]:bg-green-50 data-[state=active]:text-green-700">
+              <Target className="h-4 w-4" />
+              OTD
+            </TabsTrigger>
+            <TabsTrigger value="reconciliation" className="gap-2 data-[state=active]:bg-green-50 data-[state=active]:text-green-700">
+              <Scale className="h-4 w-4" />
+              Reconciliation
+            </TabsTrigger>
+            <TabsTrigger value="delays" className="gap-2 data-[state=active]:bg-green-50 data-[state=active]:text-green-700">
+              <BarChart3 className="h-4 w-4" />
+              Delays
+            </TabsTrigger>
+            <TabsTrigger value="defects" className="gap-2 data-[state=active]:bg-green-50 data-[state=active]:text-green-700">
+              <ShieldAlert className="h-4 w-4" />
+              Defects
+            </TabsTrigger>
+            {canEditItemTrackers(profile) && (
+              <TabsTrigger value="import" className="gap-2 data-[state=active]:bg-green-50 data-[state=active]:text-green-700">
+                <Upload className="h-4 w-4" />
+                Import
+              </TabsTrigger>
+            )}
+            {canEditEhiStageMap(profile) && (
+              <TabsTrigger value="ehi-stages" className="gap-2 data-[state=active]:bg-green-50 data-[state=active]:text-green-700">
+                <Workflow className="h-4 w-4" />
+                EHI Stages
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="orders" className="mt-3">
@@ -430,7 +506,7 @@ export function DashboardPage() {
           </TabsContent>
 
           <TabsContent value="inspections" className="mt-3">
-            <InspectionCalendarView />
+            <InspectionCalendarView orders={orders} />
           </TabsContent>
 
           <TabsContent value="tna" className="mt-3">
@@ -440,8 +516,40 @@ export function DashboardPage() {
           </TabsContent>
 
           <TabsContent value="ted" className="mt-3">
-            <TedListView />
+            <TedListView initialTedId={linkedTedId} />
           </TabsContent>
+
+          <TabsContent value="shipments" className="mt-3 print:mt-0">
+            <ShipmentPlanView onOpenOrder={openOrder} />
+          </TabsContent>
+
+          <TabsContent value="otd" className="mt-3">
+            <OtdKpiView />
+          </TabsContent>
+
+          <TabsContent value="reconciliation" className="mt-3">
+            <ReconciliationView onOpenOrder={openOrder} />
+          </TabsContent>
+
+          <TabsContent value="delays" className="mt-3">
+            <DelayParetoView onOpenOrder={openOrder} />
+          </TabsContent>
+
+          <TabsContent value="defects" className="mt-3">
+            <DefectTrendView />
+          </TabsContent>
+
+          {canEditItemTrackers(profile) && (
+            <TabsContent value="import" className="mt-3">
+              <OrderStatusImportView />
+            </TabsContent>
+          )}
+
+          {canEditEhiStageMap(profile) && (
+            <TabsContent value="ehi-stages" className="mt-3">
+              <EhiProcessStagesView />
+            </TabsContent>
+          )}
         </Tabs>
       </main>
     </div>
@@ -56,10 +56,23 @@ export const TNA_OPTIONAL_STAGES: TnaStage[] = [
 
 // Single TNA entry
 export interface TnaEntry {
-  stage: TnaStage
+  stage: string              // TnaStage or a custom template stage key
   targetDate: string | null  // ISO date string or null for N/A
 }
 
+// TNA plan saved on the tracker by the planner or edited in the plan dialog
+export interface TrackerTnaPlan {
+  entries: TnaEntry[]                 // Current targets (moved by rescheduling)
+  baseline?: TnaEntry[]               // First saved plan, kept for comparison
+  source: 'auto' | 'manual'
+  templateId: string
+  generatedAt: string
+  updatedAt: string
+  updatedBy: string
+  rescheduledAt?: string
+  projectedExFactory?: string | null  // Ex-factory after carrying slips forward
+}
+
 // Complete TNA plan (from Orders)
 export interface TnaPlan {
   entries: TnaEntry[]
@@ -69,12 +82,91 @@ export interface TnaPlan {
 
 export type StageStatus = 'pending' | 'in_progress' | 'completed'
 
+// Where a stage status came from: set by hand or written by the ERP sync
+export type StageSource = 'manual' | 'erp'
+
 export interface StageUpdate {
   actualDate: string | null   // ISO date when actually completed
   status: StageStatus
   notes?: string
   updatedAt: string           // Last update timestamp
-  updatedBy?: string          // For audit
+  updatedBy?: string          // For audit ('erp-sync' for ERP writes)
+  source?: StageSource        // Missing = manual
+  locked?: boolean            // ERP sync never touches a locked stage
+  confirmedBy?: string        // PPC accepted the ERP-written status
+  confirmedAt?: string
+  erpSuggestion?: ErpStageSuggestion | null
+  delayReason?: DelayReason | null        // Required once the stage is late
+  responsibleParty?: ResponsibleParty | null
+  delayDays?: number | null               // Days late when the reason was recorded
+}
+
+// Root-cause codes for late stages
+// Keep in sync with DELAY_REASONS in netlify/functions/api.mts
+export const DELAY_REASONS = [
+  'yarn_shortage',
+  'dyer_delay',
+  'loom_unavailable',
+  'buyer_approval_pending',
+  'labels_not_received',
+  'quality_rework',
+  'capacity_overload',
+  'other'
+] as const
+
+export type DelayReason = typeof DELAY_REASONS[number]
+
+export const DELAY_REASON_LABELS: Record<DelayReason, string> = {
+  yarn_shortage: 'Yarn shortage',
+  dyer_delay: 'Dyer delay',
+  loom_unavailable: 'Loom unavailable',
+  buyer_approval_pending: 'Buyer approval pending',
+  labels_not_received: 'Labels not received',
+  quality_rework: 'Quality rework',
+  capacity_overload: 'Capacity overload',
+  other: 'Other'
+}
+
+export const RESPONSIBLE_PARTIES = ['supplier', 'dyer', 'weaver', 'buyer', 'merchant', 'ppc', 'qa', 'logistics'] as const
+
+export type ResponsibleParty = typeof RESPONSIBLE_PARTIES[number]
+
+export const RESPONSIBLE_PARTY_LABELS: Record<ResponsibleParty, string> = {
+  supplier: 'Yarn / material supplier',
+  dyer: 'Dyer',
+  weaver: 'Weaver / contractor',
+  buyer: 'Buyer',
+  merchant: 'Merchant',
+  ppc: 'PPC',
+  qa: 'QA',
+  logistics: 'Logistics'
+}
+
+// An open stage this many days past its target needs a delay reason
+// Keep in sync with DELAY_REASON_OVERDUE_DAYS in netlify/functions/api.mts
+export const DELAY_REASON_OVERDUE_DAYS = 3
+
+// ERP state that disagrees with a manually set stage
+export interface ErpStageSuggestion {
+  status: StageStatus
+  actualDate: string | null
+  syncedAt: string
+}
+
+// Append-only audit record (production_tracker/{orderId}/history)
+export interface StageHistoryEntry {
+  id: string
+  stage: string
+  source?: StageSource        // Missing on entries recorded before ERP sync
+  oldStatus: StageStatus | null
+  newStatus: StageStatus
+  actualDate: string | null
+  notes: string | null
+  delayReason?: DelayReason | null
+  responsibleParty?: ResponsibleParty | null
+  changedBy: string           // Email of the user who made the change
+  changedByName: string | null
+  changedAt: string           // ISO timestamp
 }
 
 // ============== Production Tracker Types (Excel-style) ==============
@@ -111,9 +203,18 @@ export interface ProductionTrackerEntry {
   // Item-level tracking
   items: Record<string, ProductionItemTracker>  // keyed by item ID
 
-  // TNA stage tracking (optional, for TNA tab)
-  stages?: Record<TnaStage, StageUpdate>
-  currentStage?: TnaStage
+  // TNA stage tracking (optional, for TNA tab), keyed by template stage key
+  stages?: Record<string, StageUpdate>
+  currentStage?: string
+
+  // Planned target dates (auto-generated or edited here); wins over order.tna
+  tnaPlan?: TrackerTnaPlan
+
+  // Set while a failed inspection waits on its re-inspection; holds packing / dispatch
+  inspectionHold?: InspectionHold | null
+
+  // TED version each item is produced against, keyed by item ID
+  tedPins?: Record<string, TedPin | null>
 
   createdAt: string
   updatedAt: string
@@ -196,15 +297,186 @@ export interface InspectionSchedule {
   totalPcs: number
   totalSqm: number
   merchantCode: string
+  inspector?: string          // Assigned inspector (see InspectionCapacity.inspectors)
   scheduledBy: string
   scheduledAt: string
   completedAt?: string
   rescheduledFrom?: string
   notes?: string
+  result?: InspectionResultSummary    // Set once a result is recorded
+  reinspectionOf?: string             // Schedule whose failure booked this one
+  reinspectionId?: string             // Re-inspection booked after this one failed
   createdAt: string
   updatedAt: string
 }
 
+export type InspectionAction = 'reschedule' | 'assign' | 'complete' | 'cancel'
+
+// ============== Inspection Capacity ==============
+
+// Daily limit; 0 means no limit
+export interface InspectionCapacityLimit {
+  inspections: number
+  pcs: number
+}
+
+export interface InspectorCapacity extends InspectionCapacityLimit {
+  name: string
+  company: CompanyCode
+}
+
+// settings/inspection_capacity
+// Keep in sync with InspectionCapacity in netlify/functions/api.mts
+export interface InspectionCapacity {
+  companies: Record<CompanyCode, InspectionCapacityLimit>
+  inspectors: InspectorCapacity[]
+  holidays: string[]          // yyyy-MM-dd
+  weekendDays: number[]       // 0 = Sunday
+  updatedAt?: string
+  updatedBy?: string
+}
+
+// Inspections booked on one day, against the capacity
+export interface InspectionDayLoad {
+  companies: Record<CompanyCode, InspectionCapacityLimit>
+  inspectors: Record<string, InspectionCapacityLimit>
+  overCompanies: CompanyCode[]
+  doubleBooked: string[]      // Inspectors booked past their own daily limit
+}
+
+// ============== Inspection Results (AQL) ==============
+
+// ISO 2859-1 general inspection levels and the AQLs offered (0 = zero tolerance)
+// Keep in sync with netlify/functions/api.mts
+export const INSPECTION_LEVELS = ['I', 'II', 'III'] as const
+export type InspectionLevel = typeof INSPECTION_LEVELS[number]
+
+export const AQL_VALUES = [0, 0.65, 1.0, 1.5, 2.5, 4.0, 6.5]
+export const DEFAULT_AQL: Record<DefectSeverity, number> = { critical: 0, major: 2.5, minor: 4.0 }
+
+export const DEFECT_SEVERITIES = ['critical', 'major', 'minor'] as const
+export type DefectSeverity = typeof DEFECT_SEVERITIES[number]
+
+export const DEFECT_TYPES = [
+  'size_deviation',
+  'pile_height',
+  'color_variation',
+  'shading',
+  'weaving_fault',
+  'stain',
+  'binding_edge',
+  'fringe',
+  'backing',
+  'odor',
+  'label_packing',
+  'other',
+] as const
+export type DefectType = typeof DEFECT_TYPES[number]
+
+export const DEFECT_TYPE_LABELS: Record<DefectType, string> = {
+  size_deviation: 'Size deviation',
+  pile_height: 'Pile height',
+  color_variation: 'Color variation',
+  shading: 'Shading / abrash',
+  weaving_fault: 'Weaving fault',
+  stain: 'Stain / soiling',
+  binding_edge: 'Binding / edge',
+  fringe: 'Fringe',
+  backing: 'Backing',
+  odor: 'Odor',
+  label_packing: 'Label / packing',
+  other: 'Other',
+}
+
+export const INSPECTION_OUTCOMES = ['pass', 'fail', 'hold'] as const
+export type InspectionOutcome = typeof INSPECTION_OUTCOMES[number]
+
+// Stages held by a failed inspection until its re-inspection passes
+export const INSPECTION_BLOCKED_STAGES = ['packing', 'dispatch']
+
+export interface AqlPlan {
+  accept: number
+  reject: number
+}
+
+export interface InspectionDefect {
+  type: DefectType
+  severity: DefectSeverity
+  count: number
+  photoUrls: string[]
+  notes?: string
+}
+
+export interface InspectionResultSummary {
+  outcome: InspectionOutcome
+  inspector: string
+  inspectedAt: string
+  critical: number
+  major: number
+  minor: number
+}
+
+// inspection_results/{scheduleId}
+export interface InspectionResult {
+  id: string                  // Same as the schedule ID
+  scheduleId: string
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  designs: string[]           // EM design names from the order items
+  inspectionCompany: CompanyCode
+  inspectionLevel: InspectionLevel
+  aql: Record<DefectSeverity, number>
+  lotSize: number             // Scheduled pcs
+  codeLetter: string
+  sampleSize: number
+  acceptance: Record<DefectSeverity, AqlPlan>
+  defects: InspectionDefect[]
+  totals: Record<DefectSeverity, number>
+  aqlResult: 'pass' | 'fail'  // What the counts say; outcome may still be hold
+  outcome: InspectionOutcome
+  inspector: string
+  inspectedAt: string
+  notes: string
+  recordedBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface InspectionHold {
+  scheduleId: string
+  reinspectionId: string
+  failedAt: string
+  failedBy: string
+}
+
+// ============== Defect Trend Report ==============
+
+export interface DefectSummary {
+  key: string
+  inspections: number
+  failed: number
+  sampled: number
+  critical: number
+  major: number
+  minor: number
+  defectsPer100: number       // Defects per 100 sampled pieces
+}
+
+export interface DefectTrendGroup extends DefectSummary {
+  topDefects: Array<{ type: DefectType; count: number }>
+  trend: Array<{ month: string; inspections: number; defectsPer100: number }>
+}
+
+export interface DefectReport {
+  months: string[]            // yyyy-MM with results in range
+  buyers: string[]
+  summary: DefectSummary
+  byType: Array<{ type: DefectType; count: number } & Record<DefectSeverity, number>>
+  byBuyer: DefectTrendGroup[]
+  byDesign: DefectTrendGroup[]
+}
+
 // ============== TED (Technical Execution Documents) Types ==============
 
 export interface TedFormSummary {
@@ -224,6 +496,7 @@ export interface TedFormSummary {
 }
 
 export interface TedForm extends TedFormSummary {
+  version?: number              // Current captured version
   meetingAttendees?: string[]
   unfinishedGsm?: number
   finishedGsm?: number
@@ -248,6 +521,522 @@ export interface TedForm extends TedFormSummary {
   updatedAt?: string
 }
 
+// Fields tracked across TED versions
+// Keep in sync with TED_VERSION_FIELDS in netlify/functions/api.mts
+export const TED_VERSION_FIELDS = [
+  'emDesignNo', 'buyerCode', 'buyerName', 'buyerDesignName', 'ppMeetingDate', 'status', 'meetingAttendees',
+  'productType', 'construction', 'productQuality', 'size', 'unfinishedGsm', 'finishedGsm', 'reedNoKanghi',
+  'warpIn6Inches', 'weftIn6Inches', 'warpMaterial', 'weftMaterial', 'pileMaterial', 'pileHeightUnfinished',
+  'pileHeightFinished', 'fringesDetails', 'khatiDetails', 'sizeTolerance', 'processFlow', 'qualityCallOutsCtq',
+  'buyersSpecificRequirements', 'remarks', 'shadeCardAvailable', 'redSealAvailable',
+] as const
+
+export type TedVersionField = typeof TED_VERSION_FIELDS[number]
+
+export const TED_FIELD_LABELS: Record<TedVersionField, string> = {
+  emDesignNo: 'EM Design No',
+  buyerCode: 'Buyer Code',
+  buyerName: 'Buyer Name',
+  buyerDesignName: 'Buyer Design Name',
+  ppMeetingDate: 'PP Meeting Date',
+  status: 'Status',
+  meetingAttendees: 'Attendees',
+  productType: 'Product Type',
+  construction: 'Construction',
+  productQuality: 'Quality',
+  size: 'Size',
+  unfinishedGsm: 'GSM (Unfinished)',
+  finishedGsm: 'GSM (Finished)',
+  reedNoKanghi: 'Reed No / Kanghi',
+  warpIn6Inches: 'Warp in 6 inches',
+  weftIn6Inches: 'Weft in 6 inches',
+  warpMaterial: 'Warp Material',
+  weftMaterial: 'Weft Material',
+  pileMaterial: 'Pile Material',
+  pileHeightUnfinished: 'Pile Height (Unfinished)',
+  pileHeightFinished: 'Pile Height (Finished)',
+  fringesDetails: 'Fringes / Hemming',
+  khatiDetails: 'Khati Details',
+  sizeTolerance: 'Size Tolerance',
+  processFlow: 'Process Flow',
+  qualityCallOutsCtq: 'Quality Call Outs (CTQ)',
+  buyersSpecificRequirements: "Buyer's Specific Requirements",
+  remarks: 'Remarks',
+  shadeCardAvailable: 'Shade Card Available',
+  redSealAvailable: 'Red Seal Available',
+}
+
+// Snapshot of a TED as first seen by this app. TEDs are saved in the TED app, so a version is
+// captured when a read finds the tracked fields changed; edits between two reads share a version.
+export interface TedVersion {
+  version: number
+  fields: Partial<Record<TedVersionField, string | number | string[] | null>>
+  changedFields: TedVersionField[]   // Against the previous version
+  author: string                     // TED app's last editor at capture; may be empty
+  editedAt: string                   // TED app's updatedAt at capture
+  capturedAt: string                 // When this app first saw the version
+}
+
+// TED version an order item is produced against (tracker.tedPins[itemId])
+export interface TedPin {
+  tedId: string
+  version: number
+  pinnedAt: string
+  pinnedBy: string
+}
+
+// TED matched to an order item on the EM design number (GET /orders/:id/teds)
+export interface OrderItemTed {
+  itemId: string
+  emDesignName: string
+  ted: TedFormSummary | null
+  matchedBy: 'pinned' | 'exact' | 'fuzzy' | null   // fuzzy = same base design, different suffix
+  alternatives: number                  // Other TEDs for the same design
+  ppMeetingHeld: boolean
+  pin: TedPin | null
+  latestVersion: number | null          // Null until the TED has been opened once
+}
+
+export interface OrderTeds {
+  orderId: string
+  items: OrderItemTed[]
+  missingTed: number
+  ppMeetingPending: number
+}
+
+// ============== User Roles & Permissions ==============
+
+export const USER_ROLES = ['ppc', 'merchant', 'qa', 'director', 'viewer'] as const
+
+export type UserRole = typeof USER_ROLES[number]
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  ppc: 'PPC',
+  merchant: 'Merchant',
+  qa: 'QA',
+  director: 'Director',
+  viewer: 'Viewer'
+}
+
+// Roles allowed to update each TNA stage (directors can update everything)
+// Keep in sync with STAGE_EDITORS in netlify/functions/api.mts
+export const STAGE_EDITORS: Record<TnaStage, UserRole[]> = {
+  raw_material_purchase: ['ppc', 'merchant'],
+  dyeing: ['ppc'],
+  photo_shoot_approval: ['merchant'],
+  first_piece_approval: ['merchant', 'qa'],
+  weaving: ['ppc'],
+  finishing: ['ppc'],
+  fg_godown: ['ppc'],
+  order_label_in_house: ['merchant'],
+  inspection: ['qa'],
+  packing: ['ppc'],
+  dispatch: ['ppc']
+}
+
+// Roles allowed to edit item-level production figures (the PPC sheet)
+export const ITEM_EDITORS: UserRole[] = ['ppc', 'director']
+
+// Roles allowed to run the ERP stage sync and accept / lock ERP statuses
+// Keep in sync with ERP_STAGE_REVIEWERS in netlify/functions/api.mts
+export const ERP_STAGE_REVIEWERS: UserRole[] = ['ppc', 'director']
+
+// Roles allowed to generate or edit an order's TNA plan (merchants only on their own orders)
+// Keep in sync with TNA_PLAN_EDITORS in netlify/functions/api.mts
+export const TNA_PLAN_EDITORS: UserRole[] = ['ppc', 'merchant', 'director']
+
+// Roles allowed to schedule, reschedule and cancel inspections (merchants only on their own orders).
+// Completing one also needs the right to update the TNA inspection stage.
+// Keep in sync with INSPECTION_SCHEDULERS in netlify/functions/api.mts
+export const INSPECTION_SCHEDULERS: UserRole[] = ['qa', 'merchant', 'director']
+
+// Roles allowed to record inspection results
+// Keep in sync with INSPECTION_RESULT_RECORDERS in netlify/functions/api.mts
+export const INSPECTION_RESULT_RECORDERS: UserRole[] = ['qa', 'director']
+
+// Roles allowed to edit inspection capacity, holidays and inspectors
+// Keep in sync with INSPECTION_CAPACITY_EDITORS in netlify/functions/api.mts
+export const INSPECTION_CAPACITY_EDITORS: UserRole[] = ['qa', 'director']
+
+// Roles allowed to pin the TED version an order item is produced against (merchants only on their own orders)
+// Keep in sync with TED_PIN_EDITORS in netlify/functions/api.mts
+export const TED_PIN_EDITORS: UserRole[] = ['ppc', 'merchant', 'director']
+
+// Roles allowed to edit the EHI process → WIP stage mapping
+// Keep in sync with EHI_STAGE_MAP_EDITORS in netlify/functions/api.mts
+export const EHI_STAGE_MAP_EDITORS: UserRole[] = ['ppc', 'director']
+
+// Signed-in user as verified by the API (GET /api/me)
+export interface UserProfile {
+  uid: string
+  email: string
+  name: string | null
+  role: UserRole
+  merchantCode: string | null
+}
+
+// ============== TNA Templates ==============
+
+// One stage in a TNA template. `key` is a standard TnaStage or a custom gate
+// such as 'lab_testing' or 'shade_band_approval'.
+export interface TnaTemplateStage {
+  key: string
+  label: string
+  shortLabel?: string
+  optional: boolean           // Can be marked N/A on an order
+  offsetDays: number          // Default target date = PO date + offsetDays
+  editors?: UserRole[]        // Overrides STAGE_EDITORS (required for custom stages)
+}
+
+// Stored in Firestore tna_templates/{id}. Picked per order by customerCode,
+// then orderType, then the default template.
+export interface TnaTemplate {
+  id: string
+  name: string
+  orderTypes: OrderType[]     // Empty = any order type
+  customerCodes: string[]     // Empty = any buyer
+  isDefault?: boolean
+  stages: TnaTemplateStage[]
+  updatedAt?: string
+  updatedBy?: string
+}
+
+// Roles that may update a custom stage with no editors set
+export const CUSTOM_STAGE_EDITORS: UserRole[] = ['ppc', 'merchant']
+
+// Default lead-time offsets (days from PO date) for the standard stages
+// Keep in sync with DEFAULT_TNA_STAGE_OFFSETS in netlify/functions/api.mts
+export const DEFAULT_TNA_STAGE_OFFSETS: Record<TnaStage, number> = {
+  raw_material_purchase: 15,
+  dyeing: 30,
+  photo_shoot_approval: 35,
+  first_piece_approval: 45,
+  weaving: 75,
+  finishing: 90,
+  fg_godown: 95,
+  order_label_in_house: 95,
+  inspection: 100,
+  packing: 103,
+  dispatch: 105
+}
+
+// Built-in template used when Firestore has no matching template
+export const DEFAULT_TNA_TEMPLATE: TnaTemplate = {
+  id: 'default',
+  name: 'Standard',
+  orderTypes: [],
+  customerCodes: [],
+  isDefault: true,
+  stages: TNA_STAGES.map(stage => ({
+    key: stage,
+    label: TNA_STAGE_LABELS[stage],
+    shortLabel: TNA_STAGE_SHORT_LABELS[stage],
+    optional: TNA_OPTIONAL_STAGES.includes(stage),
+    offsetDays: DEFAULT_TNA_STAGE_OFFSETS[stage]
+  }))
+}
+
+// Result of POST /api/tna-plans/generate
+export interface TnaPlanGenerateResult {
+  dryRun: boolean
+  generated: number
+  plans: Array<{ orderId: string; opsNo: string; entries: TnaEntry[] }>
+  skipped: Array<{ orderId: string; opsNo: string; reason: string }>
+}
+
+// Result of POST /api/production-tracker/:id/tna-plan/reschedule
+export interface TnaRescheduleResult {
+  dryRun: boolean
+  previous: TnaEntry[]
+  plan: TrackerTnaPlan
+  slipDays: number
+  shipDate: string
+}
+
+// Result of POST /api/tna-erp-sync
+export interface ErpStageSyncResult {
+  dryRun: boolean
+  checkedOrders: number
+  updated: Array<{ orderId: string; opsNo: string; stage: string; from: StageStatus | null; to: StageStatus }>
+  suggestions: Array<{ orderId: string; opsNo: string; stage: string; manual: StageStatus; erp: StageStatus }>
+}
+
+// ============== Delay Reason Report ==============
+
+export interface DelayParetoBucket {
+  key: string                 // Reason code, party code or buyer code
+  count: number
+  days: number
+  cumulativePercent: number   // Share of all delayed stages up to and including this bucket
+}
+
+export interface DelayReportEntry {
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  stage: string
+  status: StageStatus
+  delayReason: DelayReason
+  responsibleParty: ResponsibleParty | null
+  delayDays: number
+  updatedAt: string
+  updatedBy: string | null
+}
+
+export interface DelayReport {
+  total: number
+  totalDays: number
+  buyers: string[]            // Every buyer with delays, for the filter
+  byReason: DelayParetoBucket[]
+  byParty: DelayParetoBucket[]
+  byBuyer: DelayParetoBucket[]
+  entries: DelayReportEntry[]
+}
+
+// ============== Order Status Import (PPC Excel) ==============
+
+export interface OrderStatusImportChange {
+  field: string
+  from: string | number
+  to: string | number
+}
+
+export interface OrderStatusImportItem {
+  itemId: string
+  label: string
+  rowNumber: number           // Excel row the values came from
+  changes: OrderStatusImportChange[]
+  error: string | null        // Set when the row fails validation (not written)
+}
+
+export interface OrderStatusImportOrder {
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  items: OrderStatusImportItem[]
+}
+
+export interface OrderStatusUnmatchedRow {
+  rowNumber: number
+  opsNo: string
+  article: string
+  size: string
+  reason: string
+}
+
+// Response of POST /api/imports/order-status (dry run or commit)
+export interface OrderStatusImportResult {
+  fileName: string
+  sheetName: string
+  dryRun: boolean
+  rowsParsed: number
+  itemsUpdated: number        // Items written (or that would be, on dry run)
+  matchedOrders: OrderStatusImportOrder[]
+  unmatchedOps: string[]
+  unmatchedRows: OrderStatusUnmatchedRow[]
+}
+
+// ============== Excel-vs-ERP Reconciliation ==============
+
+// Manual (PPC) figures and their ERP equivalents
+export interface ReconciliationFigures {
+  rcvdPcs: number             // ERP: bazar + finishing + fg + packed + dispatched
+  toRcvdPcs: number           // ERP: on loom
+  uFinishing: number          // ERP: finishing
+}
+
+export type ReconciliationField = keyof ReconciliationFigures
+
+export interface ReconciliationItem {
+  itemId: string
+  label: string
+  pcs: number
+  manual: ReconciliationFigures
+  erp: ReconciliationFigures | null   // null when no ERP item matched
+  mismatchedFields: ReconciliationField[]
+}
+
+// ERP item on a tracked OPS that no tracked order item matched (not in the row totals)
+export interface ReconciliationErpItem {
+  label: string
+  erp: ReconciliationFigures
+}
+
+export interface ReconciliationRow {
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  merchantCode: string
+  shipDate: string | null
+  source: 'EMPL' | 'EHI'
+  manual: ReconciliationFigures       // Totals over matched items only
+  erp: ReconciliationFigures
+  mismatchedFields: ReconciliationField[]
+  items: ReconciliationItem[]
+  unmatchedErp: ReconciliationErpItem[]
+}
+
+// Response of GET /api/reconciliation
+export interface ReconciliationReport {
+  tolerance: number
+  checkedOrders: number
+  rows: ReconciliationRow[]
+}
+
+// ============== Shipment Plan ==============
+
+export interface ShipmentPlanTotals {
+  orders: number
+  pcs: number
+  sqm: number
+  poValue: number
+}
+
+export interface ShipmentPlanOrder {
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  buyerName: string
+  companyCode: CompanyCode
+  merchantCode: string
+  poNo: string
+  shipDate: string
+  pcs: number
+  sqm: number
+  poValue: number
+  readiness: number | null    // 0-100 from ERP dispatched / packed / FG godown; null = no ERP data
+  erp: { ordered: number; fgGodown: number; packed: number; dispatched: number } | null
+}
+
+export interface ShipmentPlanWeek {
+  weekStart: string | null    // Monday; null = past-due orders from before this week
+  weekEnd: string | null
+  totals: Partial<Record<CompanyCode, ShipmentPlanTotals>>
+  orders: ShipmentPlanOrder[]
+}
+
+// Response of GET /api/shipment-plan
+export interface ShipmentPlan {
+  firstWeek: string
+  weeks: ShipmentPlanWeek[]
+}
+
+// ============== On-Time Delivery KPI ==============
+
+export interface OtdStats {
+  orders: number              // Dispatched orders measured
+  onTime: number              // Dispatched on or before ex-factory
+  otdPercent: number
+  onTimeVsPo: number          // Dispatched on or before the buyer PO ship date
+  otdVsPoPercent: number
+  avgDelayDays: number        // Across late orders only
+}
+
+export interface OtdGroup extends OtdStats {
+  key: string                 // Buyer, merchant or company code, or fiscal year
+}
+
+export interface OtdStageStats {
+  stage: string
+  completed: number
+  onTime: number
+  onTimePercent: number
+  avgDelayDays: number
+}
+
+export interface OtdOrderRow {
+  orderId: string
+  opsNo: string
+  buyerCode: string
+  merchantCode: string
+  companyCode: CompanyCode
+  fiscalYear: string
+  shipDate: string
+  buyerPoShipDate: string | null
+  dispatchDate: string
+  dispatchSource: 'erp' | 'tracker'
+  delayDays: number           // Dispatch vs ex-factory (negative = early)
+  poDelayDays: number | null  // Dispatch vs buyer PO ship date
+}
+
+// Response of GET /api/kpi/otd
+export interface OtdReport {
+  fiscalYear: string | null
+  fiscalYears: string[]
+  unmeasured: number          // Shipped orders with no dispatch date anywhere
+  summary: OtdStats
+  byBuyer: OtdGroup[]
+  byMerchant: OtdGroup[]
+  byCompany: OtdGroup[]
+  byFiscalYear: OtdGroup[]
+  stages: OtdStageStats[]
+  orders: OtdOrderRow[]
+}
+
+// ============== EHI Process Stage Mapping ==============
+
+// WIP stages an EHI process can count as ('dispatched' comes from invoices, not processes)
+// Keep in sync with EHI_PROCESS_STAGES in netlify/functions/api.mts
+export const EHI_PROCESS_STAGES = ['on_loom', 'finishing', 'fg_godown', 'packed'] as const
+export type EhiProcessStageKey = typeof EHI_PROCESS_STAGES[number]
+
+export const EHI_PROCESS_STAGE_LABELS: Record<EhiProcessStageKey, string> = {
+  on_loom: 'On loom',
+  finishing: 'Finishing',
+  fg_godown: 'FG godown',
+  packed: 'Packed',
+}
+
+// One EHI process and its mapped stage (GET /api/ehi-process-stages)
+export interface EhiProcessStage {
+  processId: number
+  name: string
+  shortName: string
+  wipStage: EhiProcessStageKey | null   // null until the sync seeds a new process
+  carpets: number                       // Live carpets currently at this process
+  updatedAt: string | null
+  updatedBy: string | null
+}
+
+// ============== ERP Sync Status ==============
+
+// One scripts/sync-ehi.mjs run from ehi_sync_log
+export interface SyncRun {
+  type: string
+  status: 'running' | 'success' | 'error'
+  startedAt: string | null
+  finishedAt: string | null
+  durationSeconds: number | null
+  orders: number
+  items: number
+  carpets: number
+  rowsInserted: number
+  rowsUpdated: number
+  rowsDeleted: number
+  error: string | null
+  failedStep: string | null
+}
+
+// Freshness of one ERP source. EMPL has no sync runs; it is current whenever its database answers.
+export interface SyncSourceStatus {
+  source: CompanyCode
+  configured: boolean
+  lastSuccessAt: string | null
+  ageMinutes: number | null
+  stale: boolean
+  lastRun: SyncRun | null
+  lastSuccess: SyncRun | null
+  error: string | null
+  failedStep: string | null
+}
+
+// GET /api/sync-status
+export interface SyncStatus {
+  staleAfterMinutes: number
+  checkedAt: string
+  sources: SyncSourceStatus[]
+}
+
 // ============== API Response Types ==============
 
 export interface ApiResponse<T> {